@@ -0,0 +1,139 @@
+const { z } = require("zod");
+
+// Client messages the signaling server accepts. The routed envelopes follow
+// signalingMessageSchema in src/services/webrtc/protocol.ts; change both together.
+
+// Older app builds used dashes for some types
+const TYPE_ALIASES = {
+  "location-update": "location_update",
+};
+
+const latitude = z.number().min(-90).max(90);
+const longitude = z.number().min(-180).max(180);
+
+// Extra fields like altitude or speed are kept
+const locationFixSchema = z
+  .object({
+    latitude,
+    longitude,
+    accuracy: z.number().nonnegative().optional(),
+    timestamp: z.number().optional(),
+  })
+  .passthrough();
+
+const sessionDescriptionSchema = z.object({
+  type: z.enum(["offer", "answer", "pranswer", "rollback"]),
+  sdp: z.string().optional(),
+});
+
+const iceCandidateSchema = z.object({
+  candidate: z.string().optional(),
+  sdpMid: z.string().nullable().optional(),
+  sdpMLineIndex: z.number().nullable().optional(),
+  usernameFragment: z.string().nullable().optional(),
+});
+
+const sosAlertSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  organizationId: z.string().nullable(),
+  latitude: latitude.nullable(),
+  longitude: longitude.nullable(),
+  accuracy: z.number().optional(),
+  triggeredAt: z.number(),
+  timestamp: z.number(),
+  attempt: z.number().int(),
+});
+
+const sosAckSchema = z.object({
+  id: z.string(),
+  acknowledgedBy: z.string(),
+  acknowledgedAt: z.number(),
+});
+
+// fromPeerId is overwritten with the sender's registered peerId before forwarding
+const routed = (type, data) =>
+  z.object({
+    type: z.literal(type),
+    data,
+    fromPeerId: z.string().optional(),
+    toPeerId: z.string().optional(),
+  });
+
+const routedMessageSchemas = [
+  routed(
+    "offer",
+    z.object({
+      sdp: sessionDescriptionSchema,
+      organizationId: z.string().optional(),
+      organizationName: z.string().optional(),
+      deviceId: z.string().optional(),
+    })
+  ),
+  routed("answer", z.object({ sdp: sessionDescriptionSchema, deviceId: z.string().optional() })),
+  routed("ice-candidate", z.object({ candidate: iceCandidateSchema })),
+  routed("new-offer", z.object({ offer: sessionDescriptionSchema, deviceId: z.string().optional() })),
+  routed("new-answer", z.object({ answer: sessionDescriptionSchema, deviceId: z.string().optional() })),
+  routed("ip-change", z.object({ newIp: z.string() })),
+  routed("join_request", z.object({ userData: z.record(z.unknown()), qrData: z.record(z.unknown()) })),
+  routed("join_response", z.object({ status: z.string(), reason: z.string().optional() })),
+  routed("sos", sosAlertSchema),
+  routed("sos_ack", sosAckSchema),
+  routed("mesh-offer", z.object({ sdp: sessionDescriptionSchema })),
+  routed("mesh-answer", z.object({ sdp: sessionDescriptionSchema })),
+  routed("mesh-ice-candidate", z.object({ candidate: iceCandidateSchema })),
+];
+
+// Types that may be forwarded to another peer by toPeerId
+const ROUTED_TYPES = new Set(routedMessageSchemas.map((schema) => schema.shape.type.value));
+
+const clientMessageSchema = z.discriminatedUnion("type", [
+  ...routedMessageSchemas,
+  z.object({ type: z.literal("register"), peerId: z.string().min(1) }),
+  z.object({ type: z.literal("ping") }),
+  z.object({
+    type: z.literal("webrtc_signaling"),
+    targetId: z.string().optional(),
+    signaling: z.record(z.unknown()),
+  }),
+  z.object({
+    type: z.literal("location_update"),
+    location: locationFixSchema,
+    timestamp: z.number().optional(),
+  }),
+  z.object({ type: z.literal("broadcast"), data: z.unknown() }),
+]);
+
+const KNOWN_TYPES = new Set(clientMessageSchema.options.map((schema) => schema.shape.type.value));
+
+// Returns { ok: true, message } or { ok: false, reason, type, detail }
+function parseClientMessage(raw) {
+  let message;
+  try {
+    message = JSON.parse(raw);
+  } catch (error) {
+    return { ok: false, reason: "invalid_json" };
+  }
+  if (!message || typeof message.type !== "string") {
+    return { ok: false, reason: "invalid_payload" };
+  }
+
+  const type = TYPE_ALIASES[message.type] || message.type;
+  if (!KNOWN_TYPES.has(type)) {
+    return { ok: false, reason: "unknown_type", type };
+  }
+
+  const result = clientMessageSchema.safeParse({ ...message, type });
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return {
+      ok: false,
+      reason: "invalid_payload",
+      type,
+      detail: issue && `${issue.path.join(".")}: ${issue.message}`,
+    };
+  }
+  return { ok: true, message: result.data };
+}
+
+module.exports = { parseClientMessage, ROUTED_TYPES };
@@ -2,6 +2,7 @@ const WebSocket = require("ws");
 const express = require("express");
 const http = require("http");
 const os = require("os");
+const { parseClientMessage, ROUTED_TYPES } = require("./protocol");
 
 const app = express();
 const server = http.createServer(app);
@@ -42,12 +43,21 @@ app.use((req, res, next) => {
   next();
 });
 
+// Malformed, unknown or undeliverable client messages, by reason
+const rejectedMessages = { invalid_json: 0, invalid_payload: 0, unknown_type: 0, unroutable: 0 };
+
+function rejectMessage(clientId, reason, type, detail) {
+  rejectedMessages[reason]++;
+  console.warn(`Rejected ${type || "message"} from ${clientId}: ${reason}`, detail || "");
+}
+
 // Health check endpoint
 app.get("/health", (req, res) => {
   res.json({
     status: "ok",
     clients: clients.size,
     uptime: process.uptime(),
+    rejectedMessages,
   });
 });
 
@@ -73,11 +83,16 @@ wss.on("connection", (ws, req) => {
 
   // Handle incoming messages
   ws.on("message", (data) => {
+    // Nothing is routed or handled before it matches the protocol schemas
+    const parsed = parseClientMessage(data.toString());
+    if (!parsed.ok) {
+      rejectMessage(clientId, parsed.reason, parsed.type, parsed.detail);
+      return;
+    }
     try {
-      const message = JSON.parse(data.toString());
-      handleClientMessage(clientId, message);
+      handleClientMessage(clientId, parsed.message);
     } catch (error) {
-      console.error("Invalid message from client:", clientId, error);
+      console.error("Failed to handle message from client:", clientId, error);
     }
   });
 
@@ -121,7 +136,7 @@ function handleClientMessage(clientId, message) {
   if (!client) return;
 
   // Registration
-  if (message.type === "register" && message.peerId) {
+  if (message.type === "register") {
     client.peerId = message.peerId;
     peerIdToClientId.set(message.peerId, clientId);
     console.log(
@@ -132,8 +147,8 @@ function handleClientMessage(clientId, message) {
     );
     return;
   }
-  // Routing by toPeerId
-  if (message.toPeerId && peerIdToClientId.has(message.toPeerId)) {
+  // Routing by toPeerId; only signaling envelopes carry one
+  if (ROUTED_TYPES.has(message.type) && message.toPeerId && peerIdToClientId.has(message.toPeerId)) {
     const targetClientId = peerIdToClientId.get(message.toPeerId);
     const targetClient = clients.get(targetClientId);
     if (targetClient && targetClient.socket.readyState === WebSocket.OPEN) {
@@ -153,12 +168,18 @@ function handleClientMessage(clientId, message) {
     case "webrtc_signaling":
       handleWebRTCSignaling(clientId, message);
       break;
+    // The dashed form of older builds is renamed by the parser
     case "location_update":
       handleLocationUpdate(clientId, message);
       break;
     case "broadcast":
       handleBroadcast(clientId, message);
       break;
+    case "sos":
+    case "sos_ack":
+      // Target not registered here: fan out so the alert still reaches an admin
+      broadcastToOthers(clientId, { ...message, fromPeerId: client.peerId });
+      break;
     case "ping":
       // Respond to ping
       client.socket.send(
@@ -166,7 +187,8 @@ function handleClientMessage(clientId, message) {
       );
       break;
     default:
-      console.log(`Unknown message type: ${message.type}`);
+      // A signaling message for a peer that is not registered here
+      rejectMessage(clientId, "unroutable", message.type);
   }
 }
 
@@ -0,0 +1,54 @@
+const { parseClientMessage, ROUTED_TYPES } = require('../protocol');
+
+const offer = {
+  type: 'offer',
+  fromPeerId: 'admin-1',
+  toPeerId: 'member-1',
+  data: { sdp: { type: 'offer', sdp: 'v=0' }, organizationId: 'org-1' },
+};
+
+describe('parseClientMessage', () => {
+  test('accepts a signaling envelope and keeps its route', () => {
+    const parsed = parseClientMessage(JSON.stringify(offer));
+    expect(parsed.ok).toBe(true);
+    expect(parsed.message).toMatchObject({ type: 'offer', toPeerId: 'member-1' });
+    expect(ROUTED_TYPES.has('offer')).toBe(true);
+  });
+
+  test('rejects a routed message whose payload does not match before it can be forwarded', () => {
+    const parsed = parseClientMessage(JSON.stringify({ ...offer, data: { sdp: 'not a description' } }));
+    expect(parsed).toMatchObject({ ok: false, reason: 'invalid_payload', type: 'offer' });
+  });
+
+  test('routes mesh link offers between members', () => {
+    const parsed = parseClientMessage(JSON.stringify({ ...offer, type: 'mesh-offer', fromPeerId: 'member-2', data: { sdp: offer.data.sdp } }));
+    expect(parsed.ok).toBe(true);
+    expect(parsed.message).toMatchObject({ type: 'mesh-offer', toPeerId: 'member-1' });
+    expect(ROUTED_TYPES.has('mesh-ice-candidate')).toBe(true);
+  });
+
+  test('rejects unknown types even when they name a target', () => {
+    const parsed = parseClientMessage(JSON.stringify({ type: 'shell', toPeerId: 'member-1', data: {} }));
+    expect(parsed).toMatchObject({ ok: false, reason: 'unknown_type', type: 'shell' });
+  });
+
+  test('drops the route from server-only messages', () => {
+    const parsed = parseClientMessage(JSON.stringify({ type: 'ping', toPeerId: 'member-1' }));
+    expect(parsed.ok).toBe(true);
+    expect(parsed.message.toPeerId).toBeUndefined();
+    expect(ROUTED_TYPES.has('ping')).toBe(false);
+  });
+
+  test('renames the dashed location type and checks the coordinates', () => {
+    const valid = parseClientMessage(JSON.stringify({ type: 'location-update', location: { latitude: 52.5, longitude: 13.4 } }));
+    expect(valid.ok).toBe(true);
+    expect(valid.message.type).toBe('location_update');
+
+    const invalid = parseClientMessage(JSON.stringify({ type: 'location_update', location: { latitude: 120, longitude: 13.4 } }));
+    expect(invalid).toMatchObject({ ok: false, reason: 'invalid_payload' });
+  });
+
+  test('rejects text that is not JSON', () => {
+    expect(parseClientMessage('{')).toEqual({ ok: false, reason: 'invalid_json' });
+  });
+});
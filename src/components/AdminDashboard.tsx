@@ -9,6 +9,7 @@ import { JoinRequest } from "./admin/JoinRequests";
 import { AdminDashboardHeader } from "./admin/dashboard/AdminDashboardHeader";
 import { AdminDashboardNavigation } from "./admin/dashboard/AdminDashboardNavigation";
 import { AdminOverviewSection } from "./admin/dashboard/AdminOverviewSection";
+import { SosAlarmBanner } from "./admin/dashboard/SosAlarmBanner";
 import { useAdminDashboardEvents } from "@/hooks/useAdminDashboardEvents";
 import { getOrganizations, addOrganization, updateOrganization, addMemberToOrganization, Organization as PersistentOrg, Member as PersistentMember } from "@/lib/localDb";
 
@@ -137,16 +138,20 @@ export const AdminDashboard = ({ onBack }: AdminDashboardProps) => {
       return updated;
     });
 
-    // Send response back to user
+    // Send response back to user; retried until the member acks it
     const response = {
       type: 'join_response',
-      status: approved ? 'approved' : 'denied',
-      organizationId: request.qrData.organizationId,
-      organizationName: request.qrData.organizationName
+      data: {
+        status: approved ? 'approved' : 'denied',
+        organizationId: request.qrData.organizationId,
+        organizationName: request.qrData.organizationName
+      }
     };
     
     console.log('AdminDashboard: Sending response to peer:', request.peerId, response);
-    webRTCService.sendToPeer(request.peerId, response);
+    webRTCService.sendReliable(request.peerId, response).catch(error => {
+      console.warn('AdminDashboard: Join response was not acknowledged:', request.peerId, error);
+    });
 
     // Remove invite code to make it one-time use
     const pendingInvites = JSON.parse(localStorage.getItem('pendingInvites') || '[]');
@@ -171,6 +176,10 @@ export const AdminDashboard = ({ onBack }: AdminDashboardProps) => {
       if (org) {
         await addMemberToOrganization(org.id, member);
       }
+      // Every member gets their own peer connection, offered over the signaling socket
+      webRTCService.createMemberOffer(request.peerId, request.userData.name).catch(error => {
+        console.error('AdminDashboard: Failed to create member offer:', error);
+      });
       toast.success(`${request.userData.name} has been approved to join ${request.qrData.organizationName}.`);
     } else {
       toast.error(`${request.userData.name} has been denied access to ${request.qrData.organizationName}.`);
@@ -221,6 +230,7 @@ export const AdminDashboard = ({ onBack }: AdminDashboardProps) => {
 
   return (
     <div className="min-h-screen bg-gray-50">
+      <SosAlarmBanner />
       <AdminDashboardHeader onBack={onBack} />
       
       <AdminDashboardNavigation 
@@ -0,0 +1,126 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Send, Megaphone } from "lucide-react";
+import { toast } from "sonner";
+import { ChatMessage, ChatDeliveryStatus } from "@/lib/localDb";
+import { MAX_CHAT_TEXT } from "@/services/messaging/MessagingService";
+
+interface ChatThreadProps {
+  messages: ChatMessage[];
+  // Omit for a read-only thread
+  onSend?: (text: string) => Promise<unknown>;
+  onRead: (messageIds: string[]) => void;
+  placeholder?: string;
+  emptyText: string;
+  // Shown above the compose box, e.g. why messages are only being queued
+  notice?: string | null;
+}
+
+const STATUS_LABELS: Record<ChatDeliveryStatus, string> = {
+  queued: 'Queued',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  read: 'Read'
+};
+
+// One recipient shows its status, an announcement shows how far it got across all of them
+const deliverySummary = (message: ChatMessage) => {
+  const statuses = Object.values(message.recipients || {});
+  if (statuses.length === 1) return STATUS_LABELS[statuses[0]];
+  const read = statuses.filter(status => status === 'read').length;
+  const delivered = statuses.filter(status => status === 'delivered' || status === 'read').length;
+  return `${read}/${statuses.length} read · ${delivered}/${statuses.length} delivered`;
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString([], {
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+export const ChatThread = ({ messages, onSend, onRead, placeholder = "Write a message", emptyText, notice }: ChatThreadProps) => {
+  const [draft, setDraft] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Everything in an open thread counts as read
+  useEffect(() => {
+    const unread = messages.filter(message => message.direction === 'incoming' && !message.readAt).map(message => message.id);
+    if (unread.length > 0) onRead(unread);
+  }, [messages, onRead]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length]);
+
+  const handleSend = async () => {
+    if (!onSend || !draft.trim()) return;
+    setIsSending(true);
+    try {
+      await onSend(draft);
+      setDraft("");
+    } catch (error) {
+      console.error('Failed to send message:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not send the message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-80 overflow-y-auto space-y-2 pr-1">
+        {messages.length === 0 && <p className="text-sm text-gray-600">{emptyText}</p>}
+        {messages.map(message => (
+          <div key={message.id} className={`flex ${message.direction === 'outgoing' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] rounded-lg px-3 py-2 text-sm ${
+              message.direction === 'outgoing' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-900'
+            }`}>
+              {message.kind === 'announcement' && (
+                <Badge variant="secondary" className="mb-1">
+                  <Megaphone className="w-3 h-3 mr-1" />
+                  Announcement
+                </Badge>
+              )}
+              <p className="whitespace-pre-wrap break-words">{message.text}</p>
+              <p className={`text-xs mt-1 ${message.direction === 'outgoing' ? 'text-blue-100' : 'text-gray-500'}`}>
+                {formatTime(message.sentAt)}
+                {message.direction === 'outgoing' && ` · ${deliverySummary(message)}`}
+              </p>
+            </div>
+          </div>
+        ))}
+        <div ref={bottomRef} />
+      </div>
+
+      {notice && <p className="text-sm text-yellow-700">{notice}</p>}
+
+      {onSend && (
+        <div className="flex items-end gap-2">
+          <Textarea
+            value={draft}
+            onChange={event => setDraft(event.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={placeholder}
+            maxLength={MAX_CHAT_TEXT}
+            rows={2}
+            className="resize-none"
+          />
+          <Button size="sm" disabled={isSending || !draft.trim()} onClick={handleSend}>
+            <Send className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
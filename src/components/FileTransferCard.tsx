@@ -0,0 +1,127 @@
+import { useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Paperclip, Download, X, ArrowUp, ArrowDown } from "lucide-react";
+import { toast } from "sonner";
+import { useFileTransfers } from "@/hooks/useFileTransfers";
+import { FileTransfer, FileTransferStatus } from "@/services/files/FileTransferService";
+
+interface FileTransferCardProps {
+  // Undefined while there is no one to send to
+  peerId?: string;
+  peerName: string;
+  // Incident photos from members, site plans from admins
+  accept?: string;
+}
+
+const STATUS_LABELS: Record<FileTransferStatus, string> = {
+  offered: 'Waiting',
+  sending: 'Sending',
+  receiving: 'Receiving',
+  paused: 'Paused',
+  verifying: 'Verifying',
+  completed: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const ACTIVE: FileTransferStatus[] = ['offered', 'sending', 'receiving', 'paused', 'verifying'];
+
+const formatSize = (bytes: number) => bytes < 1024 * 1024
+  ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+  : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const percentOf = (transfer: FileTransfer) => transfer.totalChunks === 0
+  ? 100
+  : Math.round((transfer.chunksDone / transfer.totalChunks) * 100);
+
+const download = (transfer: FileTransfer) => {
+  if (!transfer.blob) return;
+  const url = URL.createObjectURL(transfer.blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = transfer.name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+export const FileTransferCard = ({ peerId, peerName, accept = "image/*,application/pdf" }: FileTransferCardProps) => {
+  const { transfers, canSend, unavailableReason, sendFile, cancel, dismiss } = useFileTransfers(peerId);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChosen = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsPreparing(true);
+    try {
+      await sendFile(file);
+    } catch (error) {
+      console.error('Failed to send file:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not send the file');
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center justify-between">
+          <span className="flex items-center">
+            <Paperclip className="w-4 h-4 mr-2" />
+            Files with {peerName}
+          </span>
+          <Button size="sm" disabled={!canSend || isPreparing} onClick={() => inputRef.current?.click()}>
+            {isPreparing ? 'Preparing…' : 'Send file'}
+          </Button>
+        </CardTitle>
+        <input ref={inputRef} type="file" accept={accept} className="hidden" onChange={handleFileChosen} />
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {unavailableReason && <p className="text-sm text-yellow-700">{unavailableReason}</p>}
+        {!unavailableReason && !canSend && <p className="text-sm text-gray-600">Not connected</p>}
+        {transfers.length === 0 && <p className="text-sm text-gray-600">No files yet</p>}
+
+        {transfers.map(transfer => (
+          <div key={transfer.id} className="space-y-1">
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="flex items-center truncate">
+                {transfer.direction === 'outgoing'
+                  ? <ArrowUp className="w-3 h-3 mr-1 shrink-0" />
+                  : <ArrowDown className="w-3 h-3 mr-1 shrink-0" />}
+                <span className="truncate">{transfer.name}</span>
+                <span className="text-gray-500 ml-2 shrink-0">{formatSize(transfer.size)}</span>
+              </span>
+              <span className="flex items-center gap-1 shrink-0">
+                <Badge variant={transfer.status === 'failed' ? 'destructive' : 'secondary'}>
+                  {STATUS_LABELS[transfer.status]}
+                </Badge>
+                {transfer.blob && (
+                  <Button variant="ghost" size="sm" onClick={() => download(transfer)}>
+                    <Download className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => ACTIVE.includes(transfer.status) ? cancel(transfer.id) : dismiss(transfer.id)}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </span>
+            </div>
+            {ACTIVE.includes(transfer.status) && <Progress value={percentOf(transfer)} className="h-2" />}
+            {transfer.error && <p className="text-xs text-red-600">{transfer.error}</p>}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,21 +1,30 @@
 import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { QrCode, MapPin, Clock, ArrowLeft } from "lucide-react";
+import { QrCode, MapPin, Clock, ArrowLeft, Inbox } from "lucide-react";
 import { QRScannerComponent } from "./user/QRScanner";
 import { UserRegistration } from "./user/UserRegistration";
 import { PendingRequestsManager } from "./user/PendingRequestsManager";
+import { MemberInbox } from "./user/MemberInbox";
+import { SosButton } from "./user/SosButton";
+import { PrivacyZonesManager } from "./user/PrivacyZonesManager";
+import { FileTransferCard } from "./FileTransferCard";
+import { useFileTransfers } from "@/hooks/useFileTransfers";
+import { useMessaging } from "@/hooks/useMessaging";
 import { QRData } from "@/services/QRService";
 
 interface UserInterfaceProps {
   onBack: () => void;
 }
 
-type UserMode = 'menu' | 'scanner' | 'registration' | 'tracking' | 'pending';
+type UserMode = 'menu' | 'scanner' | 'registration' | 'tracking' | 'pending' | 'inbox';
 
 export const UserInterface = ({ onBack }: UserInterfaceProps) => {
   const [mode, setMode] = useState<UserMode>('menu');
   const [scannedQRData, setScannedQRData] = useState<QRData | null>(null);
+  // A member's only file channel is the one to its admin
+  const { connectedPeers } = useFileTransfers();
+  const { unreadCount } = useMessaging();
 
   const handleQRScanned = (qrData: QRData) => {
     console.log('QR Data scanned:', qrData);
@@ -62,6 +71,8 @@ export const UserInterface = ({ onBack }: UserInterfaceProps) => {
         ) : null;
       case 'pending':
         return <PendingRequestsManager onBack={() => setMode('menu')} />;
+      case 'inbox':
+        return <MemberInbox onBack={() => setMode('menu')} />;
       case 'tracking':
         return (
           <div className="max-w-md mx-auto">
@@ -77,13 +88,16 @@ export const UserInterface = ({ onBack }: UserInterfaceProps) => {
                   </CardTitle>
                 </div>
               </CardHeader>
-              <CardContent>
+              <CardContent className="space-y-4">
                 <div className="bg-green-50 p-4 rounded-lg text-center">
                   <p className="text-green-900 font-medium">Tracking Active</p>
                   <p className="text-green-700 text-sm mt-1">
                     Your location is being shared with connected organizations.
                   </p>
                 </div>
+                <SosButton />
+                <FileTransferCard peerId={connectedPeers[0]} peerName="your admin" />
+                <PrivacyZonesManager />
               </CardContent>
             </Card>
           </div>
@@ -95,6 +109,8 @@ export const UserInterface = ({ onBack }: UserInterfaceProps) => {
               <h2 className="text-2xl font-bold text-gray-900 mb-2">Member Dashboard</h2>
               <p className="text-gray-600">Join organizations and manage your location sharing</p>
             </div>
+
+            <SosButton />
             
             <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => setMode('scanner')}>
               <CardHeader className="text-center pb-3">
@@ -122,6 +138,21 @@ export const UserInterface = ({ onBack }: UserInterfaceProps) => {
               </CardContent>
             </Card>
 
+            <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => setMode('inbox')}>
+              <CardHeader className="text-center pb-3">
+                <div className="mx-auto w-12 h-12 bg-purple-100 rounded-full flex items-center justify-center mb-3">
+                  <Inbox className="w-6 h-6 text-purple-600" />
+                </div>
+                <CardTitle className="text-xl">Inbox</CardTitle>
+              </CardHeader>
+              <CardContent className="text-center">
+                <p className="text-gray-600 mb-4">
+                  {unreadCount > 0 ? `${unreadCount} unread message${unreadCount === 1 ? '' : 's'}` : 'Messages and announcements from your admin'}
+                </p>
+                <Button variant="outline" className="w-full">Open Inbox</Button>
+              </CardContent>
+            </Card>
+
             <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => setMode('tracking')}>
               <CardHeader className="text-center pb-3">
                 <div className="mx-auto w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mb-3">
@@ -0,0 +1,202 @@
+import { useState, useId } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Activity, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { AnomalyRule, AnomalyRuleType, AnomalyAlert, AnomalyAlertStatus } from "@/services/location/AnomalyRules";
+
+interface AnomalyRulesPanelProps {
+  members: { id: string; name: string }[];
+  rules: AnomalyRule[];
+  alerts: AnomalyAlert[];
+  onAddRule: (rule: Omit<AnomalyRule, 'id' | 'createdAt' | 'enabled'>) => Promise<void>;
+  onUpdateRule: (id: string, changes: Partial<AnomalyRule>) => Promise<void>;
+  onRemoveRule: (id: string) => Promise<void>;
+  onAcknowledge: (alertId: string) => void;
+  onResolve: (alertId: string) => void;
+  onClearResolved: () => void;
+}
+
+const ALL_MEMBERS = 'all';
+
+const RULE_TYPES: Record<AnomalyRuleType, { label: string; unit: string; describe: (threshold: number) => string }> = {
+  speed: { label: 'Speed above', unit: 'km/h', describe: (threshold) => `faster than ${threshold} km/h` },
+  inactivity: { label: 'Not moved for', unit: 'min', describe: (threshold) => `not moved for ${threshold} min during a sharing window` },
+  no_signal: { label: 'No location for', unit: 'min', describe: (threshold) => `no location for ${threshold} min during a sharing window` }
+};
+
+const STATUS_BADGES: Record<AnomalyAlertStatus, { label: string; variant: 'destructive' | 'secondary' | 'outline' }> = {
+  open: { label: 'Open', variant: 'destructive' },
+  acknowledged: { label: 'Acknowledged', variant: 'secondary' },
+  resolved: { label: 'Resolved', variant: 'outline' }
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const AnomalyRulesPanel = ({
+  members,
+  rules,
+  alerts,
+  onAddRule,
+  onUpdateRule,
+  onRemoveRule,
+  onAcknowledge,
+  onResolve,
+  onClearResolved
+}: AnomalyRulesPanelProps) => {
+  const [type, setType] = useState<AnomalyRuleType>('speed');
+  const [threshold, setThreshold] = useState('120');
+  const [memberId, setMemberId] = useState(ALL_MEMBERS);
+  const thresholdId = useId();
+
+  const nameOf = (id: string) => members.find(m => m.id === id)?.name || `User ${id.slice(-4)}`;
+  const thresholdValue = Number(threshold);
+  const canAdd = thresholdValue > 0;
+
+  const addRule = async () => {
+    const memberIds = memberId === ALL_MEMBERS ? [] : [memberId];
+    try {
+      await onAddRule({
+        name: `${RULE_TYPES[type].label} ${thresholdValue} ${RULE_TYPES[type].unit}`,
+        type,
+        threshold: thresholdValue,
+        memberIds
+      });
+      setMemberId(ALL_MEMBERS);
+    } catch (error) {
+      console.error('Failed to add anomaly rule:', error);
+      toast.error('Could not save the rule');
+    }
+  };
+
+  const formatValue = (alert: AnomalyAlert) => `${alert.value} ${RULE_TYPES[alert.type].unit}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Activity className="w-5 h-5 mr-2" />
+          Anomaly Rules
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.length === 0 && (
+          <p className="text-sm text-gray-500">No rules yet.</p>
+        )}
+        {rules.map(rule => (
+          <div key={rule.id} className="flex items-center justify-between p-2 border rounded-md">
+            <div>
+              <p className="text-sm font-medium">{rule.name}</p>
+              <p className="text-xs text-gray-600">
+                {rule.memberIds.length === 0 ? 'Any member' : rule.memberIds.map(nameOf).join(', ')} {RULE_TYPES[rule.type].describe(rule.threshold)}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => onUpdateRule(rule.id, { enabled })}
+              />
+              <Button variant="ghost" size="sm" onClick={() => onRemoveRule(rule.id)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="space-y-2 pt-2 border-t">
+          <div className="grid grid-cols-2 gap-2">
+            <Select value={type} onValueChange={(value) => setType(value as AnomalyRuleType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RULE_TYPES) as AnomalyRuleType[]).map(key => (
+                  <SelectItem key={key} value={key}>{RULE_TYPES[key].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={memberId} onValueChange={setMemberId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_MEMBERS}>All members</SelectItem>
+                {members.map(member => (
+                  <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={thresholdId} className="text-xs">Threshold ({RULE_TYPES[type].unit})</Label>
+            <Input id={thresholdId} type="number" min={1} value={threshold} onChange={(e) => setThreshold(e.target.value)} />
+          </div>
+          <Button variant="outline" size="sm" disabled={!canAdd} onClick={addRule}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add rule
+          </Button>
+        </div>
+
+        <div className="space-y-2 pt-2 border-t">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Alert log</p>
+            {alerts.some(alert => alert.status === 'resolved') && (
+              <Button variant="ghost" size="sm" onClick={onClearResolved}>Clear resolved</Button>
+            )}
+          </div>
+          {alerts.length === 0 ? (
+            <p className="text-sm text-gray-500">No anomalies detected.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Triggered</TableHead>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Value</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {alerts.map(alert => (
+                  <TableRow key={alert.id}>
+                    <TableCell>{formatTime(alert.triggeredAt)}</TableCell>
+                    <TableCell>{nameOf(alert.memberId)}</TableCell>
+                    <TableCell>{alert.ruleName}</TableCell>
+                    <TableCell>{formatValue(alert)}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={STATUS_BADGES[alert.status].variant}
+                        title={alert.status === 'resolved'
+                          ? `Resolved ${alert.resolvedBy === 'auto' ? 'automatically' : `by ${alert.resolvedBy}`}`
+                          : alert.acknowledgedBy && `Acknowledged by ${alert.acknowledgedBy}`}
+                      >
+                        {STATUS_BADGES[alert.status].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="space-x-1 text-right">
+                      {alert.status === 'open' && (
+                        <Button variant="outline" size="sm" onClick={() => onAcknowledge(alert.id)}>Ack</Button>
+                      )}
+                      {alert.status !== 'resolved' && (
+                        <Button variant="outline" size="sm" onClick={() => onResolve(alert.id)}>Resolve</Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
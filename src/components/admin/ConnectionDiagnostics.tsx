@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { webRTCService } from "@/services/WebRTCService";
+import type { SendQueueStats } from "@/services/webrtc/SendScheduler";
 import { 
   Wifi, 
   WifiOff, 
@@ -39,6 +40,7 @@ export const ConnectionDiagnostics = () => {
   const [browserInfo, setBrowserInfo] = useState<any>(null);
   const [errorHistory, setErrorHistory] = useState<any[]>([]);
   const [diagnosticReport, setDiagnosticReport] = useState<string>("");
+  const [sendQueues, setSendQueues] = useState<SendQueueStats[]>([]);
 
   useEffect(() => {
     if (isOpen) {
@@ -67,6 +69,7 @@ export const ConnectionDiagnostics = () => {
     setDegradation(webRTCService.getDegradationLevel());
     setErrorHistory(webRTCService.getErrorHistory());
     setDiagnosticReport(webRTCService.generateDiagnosticReport());
+    setSendQueues(webRTCService.getSendQueueStats());
   };
 
   const downloadReport = () => {
@@ -179,6 +182,29 @@ export const ConnectionDiagnostics = () => {
               </Card>
             </div>
 
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm">Send Queues</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {sendQueues.length === 0 ? (
+                  <p className="text-sm text-gray-600">No open data channels</p>
+                ) : (
+                  <div className="space-y-1 text-sm">
+                    {sendQueues.map(queue => (
+                      <div key={queue.peerId} className="flex items-center justify-between gap-2">
+                        <span className="truncate">{queue.peerId}</span>
+                        <span className="text-gray-600">
+                          control {queue.queued.control} · SOS {queue.queued.sos} · location {queue.queued.location} · bulk {queue.queued.bulk}
+                        </span>
+                        {queue.paused && <Badge variant="secondary">Paused</Badge>}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             {degradation && degradation.limitations.length > 0 && (
               <Alert>
                 <AlertTriangle className="h-4 w-4" />
@@ -0,0 +1,75 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { MessageSquare } from "lucide-react";
+import { ChatThread } from "@/components/ChatThread";
+import { useMessaging } from "@/hooks/useMessaging";
+
+interface ConversationPaneProps {
+  organizationId: string;
+  members: { id: string; name: string }[];
+  selectedMember: string;
+}
+
+export const ConversationPane = ({ organizationId, members, selectedMember }: ConversationPaneProps) => {
+  const { messages, queuedNotice, sendDirect, sendAnnouncement, markRead } = useMessaging(organizationId);
+  const [tab, setTab] = useState("direct");
+
+  const selectedName = members.find(m => m.id === selectedMember)?.name || `User ${selectedMember.slice(-4)}`;
+  const conversation = useMemo(
+    () => messages.filter(message => message.kind === 'direct' && message.memberId === selectedMember),
+    [messages, selectedMember]
+  );
+  const announcements = useMemo(() => messages.filter(message => message.kind === 'announcement'), [messages]);
+  // Unread direct messages from members other than the one on screen
+  const unreadElsewhere = messages.filter(message =>
+    message.direction === 'incoming' && !message.readAt && message.memberId !== selectedMember
+  ).length;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center justify-between">
+          <span className="flex items-center">
+            <MessageSquare className="w-4 h-4 mr-2" />
+            Messages
+          </span>
+          {unreadElsewhere > 0 && <Badge variant="destructive">{unreadElsewhere} unread</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="direct">Direct</TabsTrigger>
+            <TabsTrigger value="announcements">Announcements</TabsTrigger>
+          </TabsList>
+          <TabsContent value="direct" className="mt-3">
+            {selectedMember ? (
+              <ChatThread
+                messages={conversation}
+                onSend={text => sendDirect(selectedMember, text)}
+                onRead={markRead}
+                placeholder={`Message ${selectedName}`}
+                emptyText={`No messages with ${selectedName} yet`}
+                notice={queuedNotice}
+              />
+            ) : (
+              <p className="text-sm text-gray-600">Select a member to start a conversation</p>
+            )}
+          </TabsContent>
+          <TabsContent value="announcements" className="mt-3">
+            <ChatThread
+              messages={announcements}
+              onSend={text => sendAnnouncement(members.map(m => m.id), text)}
+              onRead={markRead}
+              placeholder={`Announce to all ${members.length} members`}
+              emptyText="No announcements yet"
+              notice={queuedNotice}
+            />
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
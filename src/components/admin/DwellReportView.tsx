@@ -0,0 +1,132 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClipboardList } from "lucide-react";
+import { Geofence } from "@/lib/localDb";
+import { useDwellReport } from "@/hooks/useDwellReport";
+
+interface DwellReportViewProps {
+  organizationId: string;
+  memberId: string;
+  memberName: string;
+  zones: Geofence[];
+}
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+export const DwellReportView = ({ organizationId, memberId, memberName, zones }: DwellReportViewProps) => {
+  const {
+    day,
+    setDay,
+    radiusMeters,
+    setRadiusMeters,
+    minMinutes,
+    setMinMinutes,
+    report,
+    isLoading
+  } = useDwellReport(organizationId, memberId, zones);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center">
+            <ClipboardList className="w-5 h-5 mr-2" />
+            Daily Stops — {memberName}
+          </div>
+          {report && (
+            <div className="flex items-center space-x-2">
+              <Badge variant="secondary">{report.stops.length} stops</Badge>
+              <Badge variant="secondary">{(report.totalDistanceMeters / 1000).toFixed(1)} km travelled</Badge>
+            </div>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="dwell-day" className="text-xs">Day</Label>
+            <Input id="dwell-day" type="date" value={day} onChange={(e) => setDay(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="dwell-radius" className="text-xs">Stop radius (m)</Label>
+            <Input
+              id="dwell-radius"
+              type="number"
+              min={10}
+              value={radiusMeters}
+              onChange={(e) => setRadiusMeters(Number(e.target.value))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="dwell-minutes" className="text-xs">Minimum stay (min)</Label>
+            <Input
+              id="dwell-minutes"
+              type="number"
+              min={1}
+              value={minMinutes}
+              onChange={(e) => setMinMinutes(Number(e.target.value))}
+            />
+          </div>
+        </div>
+
+        {isLoading && !report && <p className="text-sm text-gray-500">Analysing location history...</p>}
+
+        {report && report.stops.length === 0 && (
+          <p className="text-sm text-gray-500">No stops detected for this day.</p>
+        )}
+
+        {report && report.stops.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Arrival</TableHead>
+                <TableHead>Departure</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead>Place</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.stops.map((stop) => (
+                <TableRow key={stop.arrival}>
+                  <TableCell>{formatClock(stop.arrival)}</TableCell>
+                  <TableCell>{formatClock(stop.departure)}</TableCell>
+                  <TableCell>{formatDuration(stop.durationMs)}</TableCell>
+                  <TableCell>
+                    {stop.nearestGeofence ? (
+                      <span>
+                        {stop.nearestGeofence.name}
+                        {stop.nearestGeofence.distanceMeters > 0 && (
+                          <span className="text-xs text-gray-500"> ({Math.round(stop.nearestGeofence.distanceMeters)} m away)</span>
+                        )}
+                      </span>
+                    ) : (
+                      <span className="text-xs text-gray-500">
+                        {stop.center.latitude.toFixed(5)}, {stop.center.longitude.toFixed(5)}
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {report && (report.stops.length > 0 || report.trips.length > 0) && (
+          <p className="text-xs text-gray-600">
+            Stopped {formatDuration(report.totalStopMs)}, moving {formatDuration(report.totalTripMs)} across {report.trips.length} trips
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
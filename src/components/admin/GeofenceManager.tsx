@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Hexagon, Circle, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Geofence } from "@/lib/localDb";
+import { GeofenceDraft } from "@/hooks/useGeofences";
+
+interface GeofenceManagerProps {
+  zones: Geofence[];
+  draft: GeofenceDraft | null;
+  onStartDrawing: (shape: Geofence['shape']) => void;
+  onCancelDrawing: () => void;
+  onSaveDraft: (name: string, radiusMeters: number, dwellMinutes: number) => Promise<boolean>;
+  onRemoveZone: (zoneId: string) => void;
+}
+
+export const GeofenceManager = ({
+  zones,
+  draft,
+  onStartDrawing,
+  onCancelDrawing,
+  onSaveDraft,
+  onRemoveZone
+}: GeofenceManagerProps) => {
+  const [shape, setShape] = useState<Geofence['shape']>('circle');
+  const [name, setName] = useState("");
+  const [radius, setRadius] = useState("200");
+  const [dwellMinutes, setDwellMinutes] = useState("10");
+
+  const handleSave = async () => {
+    try {
+      const saved = await onSaveDraft(name, Number(radius), Number(dwellMinutes));
+      if (saved) {
+        toast.success(`Zone "${name.trim() || 'Unnamed zone'}" saved`);
+        setName("");
+      } else {
+        toast.error(draft?.shape === 'polygon'
+          ? 'A polygon zone needs at least 3 points'
+          : 'Pick a center on the map and enter a radius');
+      }
+    } catch (error) {
+      console.error('Failed to save geofence:', error);
+      toast.error('Failed to save zone');
+    }
+  };
+
+  const drawingHint = () => {
+    if (!draft) return null;
+    if (draft.shape === 'circle') {
+      return draft.center
+        ? `Center set at ${draft.center.latitude.toFixed(4)}, ${draft.center.longitude.toFixed(4)}`
+        : 'Click the map to place the zone center';
+    }
+    return `Click the map to add corners (${draft.vertices.length} added)`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Hexagon className="w-5 h-5 mr-2" />
+          Geofence Zones ({zones.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Input
+            placeholder="Zone name (e.g. North Depot)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <div className="grid grid-cols-3 gap-2">
+            <Select
+              value={shape}
+              onValueChange={(value) => setShape(value as Geofence['shape'])}
+              disabled={!!draft}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="circle">Circle</SelectItem>
+                <SelectItem value="polygon">Polygon</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={10}
+              placeholder="Radius (m)"
+              value={radius}
+              onChange={(e) => setRadius(e.target.value)}
+              disabled={shape !== 'circle'}
+            />
+            <Input
+              type="number"
+              min={1}
+              placeholder="Dwell (min)"
+              value={dwellMinutes}
+              onChange={(e) => setDwellMinutes(e.target.value)}
+            />
+          </div>
+
+          {draft ? (
+            <div className="space-y-2">
+              <p className="text-xs text-blue-700 bg-blue-50 rounded p-2">{drawingHint()}</p>
+              <div className="flex space-x-2">
+                <Button size="sm" onClick={handleSave} className="flex-1">Save Zone</Button>
+                <Button size="sm" variant="outline" onClick={onCancelDrawing}>Cancel</Button>
+              </div>
+            </div>
+          ) : (
+            <Button size="sm" variant="outline" className="w-full" onClick={() => onStartDrawing(shape)}>
+              Draw on Map
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {zones.map((zone) => (
+            <div key={zone.id} className="flex items-center justify-between p-2 rounded border bg-gray-50">
+              <div className="flex items-center space-x-2">
+                {zone.shape === 'circle' ? (
+                  <Circle className="w-4 h-4 text-blue-600" />
+                ) : (
+                  <Hexagon className="w-4 h-4 text-blue-600" />
+                )}
+                <span className="text-sm font-medium text-gray-900">{zone.name}</span>
+                <Badge variant="outline" className="text-xs">
+                  {zone.shape === 'circle' ? `${zone.radiusMeters} m` : `${zone.vertices?.length || 0} pts`}
+                </Badge>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => onRemoveZone(zone.id)}>
+                <Trash2 className="w-4 h-4 text-red-600" />
+              </Button>
+            </div>
+          ))}
+
+          {zones.length === 0 && !draft && (
+            <p className="text-sm text-gray-500 text-center py-2">
+              No zones yet. Draw sites, depots or schools to get enter/exit alerts.
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Radar } from "lucide-react";
+import { toast } from "sonner";
+import { useLocationPing } from "@/hooks/useLocationPing";
+import { PingAccuracy, PingFailureReason, PingMemberResult } from "@/services/location/LocationPing";
+
+interface LocationPingPanelProps {
+  members: { id: string; name: string }[];
+  connectedCount: number;
+}
+
+const ACCURACIES: Record<PingAccuracy, string> = {
+  high: 'Precise (fresh GPS fix)',
+  balanced: 'Balanced (recent fix is fine)'
+};
+
+const TIMEOUTS = [10, 20, 30, 60];
+
+const FAILURE_LABELS: Record<PingFailureReason, string> = {
+  permission_denied: 'Permission denied',
+  timeout: 'Timed out',
+  not_sharing: 'Not sharing',
+  unavailable: 'Location unavailable',
+  not_connected: 'Not connected'
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+
+const statusBadge = (result: PingMemberResult) => {
+  if (result.status === 'pending') return <Badge variant="secondary">Waiting</Badge>;
+  if (result.status === 'responded') return <Badge className="bg-green-600">Responded</Badge>;
+  return <Badge variant="destructive">{FAILURE_LABELS[result.reason || 'unavailable']}</Badge>;
+};
+
+export const LocationPingPanel = ({ members, connectedCount }: LocationPingPanelProps) => {
+  const { ping, summary, pingMembers } = useLocationPing();
+  const [accuracy, setAccuracy] = useState<PingAccuracy>('high');
+  const [timeoutSeconds, setTimeoutSeconds] = useState('20');
+
+  const nameOf = (id: string) => members.find(m => m.id === id)?.name || `User ${id.slice(-4)}`;
+  const inProgress = !!summary && summary.pending > 0;
+
+  const startPing = () => {
+    try {
+      pingMembers({ accuracy, timeoutMs: Number(timeoutSeconds) * 1000 });
+    } catch (error) {
+      toast.error('Could not ping members');
+    }
+  };
+
+  // Waiting members first, then failures, then the slowest answers
+  const rows = ping
+    ? Object.values(ping.results).sort((a, b) => {
+      const order = { pending: 0, failed: 1, responded: 2 };
+      return order[a.status] - order[b.status] || (b.responseMs ?? 0) - (a.responseMs ?? 0);
+    })
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Radar className="w-5 h-5 mr-2" />
+          Locate Members Now
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          <Select value={accuracy} onValueChange={(value) => setAccuracy(value as PingAccuracy)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ACCURACIES) as PingAccuracy[]).map(key => (
+                <SelectItem key={key} value={key}>{ACCURACIES[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={timeoutSeconds} onValueChange={setTimeoutSeconds}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIMEOUTS.map(seconds => (
+                <SelectItem key={seconds} value={String(seconds)}>Wait up to {seconds} s</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button size="sm" disabled={connectedCount === 0 || inProgress} onClick={startPing}>
+          <Radar className="w-4 h-4 mr-1" />
+          {inProgress ? 'Waiting for answers...' : `Ping ${connectedCount} member${connectedCount === 1 ? '' : 's'}`}
+        </Button>
+
+        {ping && summary && (
+          <div className="space-y-2 pt-2 border-t">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">
+                {summary.responded} of {summary.total} responded
+                {summary.medianMs !== null && `, median ${formatSeconds(summary.medianMs)}`}
+              </span>
+              {summary.failed > 0 && <span className="text-red-600">{summary.failed} failed</span>}
+            </div>
+            <Progress value={summary.total ? ((summary.total - summary.pending) / summary.total) * 100 : 100} />
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Response</TableHead>
+                  <TableHead>Accuracy</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(result => (
+                  <TableRow key={result.memberId}>
+                    <TableCell>{nameOf(result.memberId)}</TableCell>
+                    <TableCell>{statusBadge(result)}</TableCell>
+                    <TableCell>{result.responseMs !== undefined ? formatSeconds(result.responseMs) : '—'}</TableCell>
+                    <TableCell>{result.accuracyMeters !== undefined ? `±${Math.round(result.accuracyMeters)} m` : '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,192 @@
+import { useState, useEffect, useId } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload, Trash2, WifiOff } from "lucide-react";
+import { toast } from "sonner";
+import { MAP_PROVIDERS, MapProviderKind, MapProviderSettings, isMapProviderConfigured } from "@/services/map/MapProviders";
+import { MAX_MBTILES_BYTES } from "@/services/map/MbtilesSource";
+
+interface MapProviderSettingsPanelProps {
+  settings: MapProviderSettings | null;
+  tilesFiles: string[];
+  onSave: (settings: MapProviderSettings) => Promise<void>;
+  onImportTiles: (file: File) => Promise<string>;
+  onRemoveTiles: (name: string) => Promise<void>;
+  onCancel?: () => void;
+}
+
+export const MapProviderSettingsPanel = ({
+  settings,
+  tilesFiles,
+  onSave,
+  onImportTiles,
+  onRemoveTiles,
+  onCancel
+}: MapProviderSettingsPanelProps) => {
+  const [draft, setDraft] = useState<MapProviderSettings>(settings || { kind: 'mapbox' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const tokenId = useId();
+  const styleId = useId();
+  const urlId = useId();
+  const fileId = useId();
+
+  useEffect(() => {
+    setDraft(settings || { kind: 'mapbox' });
+  }, [settings]);
+
+  const update = (changes: Partial<MapProviderSettings>) => setDraft(current => ({ ...current, ...changes }));
+
+  const save = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+    } catch (error) {
+      console.error('Failed to save map provider:', error);
+      toast.error('Could not save map settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return;
+    setIsImporting(true);
+    try {
+      const name = await onImportTiles(file);
+      update({ mbtilesFile: name, mbtilesUrl: undefined });
+      toast.success(`Imported ${name}`);
+    } catch (error) {
+      console.error('Failed to import MBTiles file:', error);
+      toast.error('Could not import the tiles file');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 w-full max-w-md">
+      <Select value={draft.kind} onValueChange={(kind) => update({ kind: kind as MapProviderKind })}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.values(MAP_PROVIDERS).map(provider => (
+            <SelectItem key={provider.kind} value={provider.kind}>
+              {provider.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {draft.kind === 'mapbox' && (
+        <div className="space-y-1">
+          <Label htmlFor={tokenId} className="text-xs">Mapbox public token</Label>
+          <Input
+            id={tokenId}
+            placeholder="pk.eyJ1IjoiZXhhbXBsZSIsImEiOiJjbGV4YW1wbGUifQ..."
+            value={draft.mapboxToken || ''}
+            onChange={(e) => update({ mapboxToken: e.target.value.trim() })}
+          />
+          <p className="text-xs text-gray-500">
+            Get one from{' '}
+            <a href="https://mapbox.com" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+              mapbox.com
+            </a>
+          </p>
+        </div>
+      )}
+
+      {draft.kind !== 'mapbox' && (
+        <div className="space-y-1">
+          <Label htmlFor={styleId} className="text-xs">
+            {draft.kind === 'maplibre' ? 'Style URL' : 'Style URL for vector tiles (optional)'}
+          </Label>
+          <Input
+            id={styleId}
+            placeholder="https://tiles.example.org/styles/basic/style.json"
+            value={draft.styleUrl || ''}
+            onChange={(e) => update({ styleUrl: e.target.value.trim() || undefined })}
+          />
+        </div>
+      )}
+
+      {draft.kind === 'mbtiles' && (
+        <div className="space-y-2">
+          {tilesFiles.length > 0 && (
+            <Select
+              value={draft.mbtilesFile || ''}
+              onValueChange={(name) => update({ mbtilesFile: name, mbtilesUrl: undefined })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a tiles file on this device" />
+              </SelectTrigger>
+              <SelectContent>
+                {tilesFiles.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <div className="flex items-center space-x-2">
+            <Label htmlFor={fileId} className="cursor-pointer">
+              <span className="inline-flex items-center text-sm border rounded-md px-3 py-1.5 hover:bg-gray-50">
+                <Upload className="w-4 h-4 mr-1" />
+                {isImporting ? 'Importing…' : 'Import .mbtiles'}
+              </span>
+            </Label>
+            <input
+              id={fileId}
+              type="file"
+              accept=".mbtiles"
+              className="hidden"
+              disabled={isImporting}
+              onChange={(e) => {
+                importFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            {draft.mbtilesFile && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={async () => {
+                  await onRemoveTiles(draft.mbtilesFile!);
+                  update({ mbtilesFile: undefined });
+                }}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={urlId} className="text-xs">Or a bundled file URL</Label>
+            <Input
+              id={urlId}
+              placeholder="/tiles/site.mbtiles"
+              value={draft.mbtilesUrl || ''}
+              onChange={(e) => update({ mbtilesUrl: e.target.value.trim() || undefined, mbtilesFile: undefined })}
+            />
+          </div>
+          <p className="text-xs text-gray-500 flex items-center">
+            <WifiOff className="w-3 h-3 mr-1" />
+            Tiles are read on this device, no internet needed. Files up to {MAX_MBTILES_BYTES / (1024 * 1024)} MB.
+          </p>
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        <Button className="flex-1" disabled={isSaving || !isMapProviderConfigured(draft)} onClick={save}>
+          Use this map
+        </Button>
+        {onCancel && (
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
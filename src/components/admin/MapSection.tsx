@@ -1,9 +1,20 @@
-
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { MapPin } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MapPin, Loader2 } from "lucide-react";
 import { MapView } from "./MapView";
 import { PeerConnection } from "@/services/WebRTCService";
+import { Geofence } from "@/lib/localDb";
+import { GeofenceDraft } from "@/hooks/useGeofences";
+import { GeoPoint } from "@/services/location/geo";
+import { TrailPlayback } from "./TrailPlayback";
+import { useTrailPlayback } from "@/hooks/useTrailPlayback";
+import { TrackFilesPanel } from "./TrackFilesPanel";
+import { ImportedTrack } from "@/services/location/GpxImportService";
+import { useLocationHeatmap, HEATMAP_RANGES } from "@/hooks/useLocationHeatmap";
 
 interface Member {
   id: string;
@@ -15,20 +26,41 @@ interface Member {
 }
 
 interface MapSectionProps {
+  organizationId: string;
   members: Member[];
   connectedPeers: PeerConnection[];
   selectedMember: string;
   webRTCStatus: 'disconnected' | 'connecting' | 'connected';
   onMemberSelect: (memberId: string) => void;
+  geofences?: Geofence[];
+  draftGeofence?: GeofenceDraft | null;
+  onMapClick?: (point: GeoPoint) => void;
 }
 
 export const MapSection = ({
+  organizationId,
   members,
   connectedPeers,
   selectedMember,
   webRTCStatus,
-  onMemberSelect
+  onMemberSelect,
+  geofences,
+  draftGeofence,
+  onMapClick
 }: MapSectionProps) => {
+  const playback = useTrailPlayback(organizationId, selectedMember);
+  const focusedMember = members.find(m => m.id === selectedMember);
+  const [referenceTracks, setReferenceTracks] = useState<ImportedTrack[]>([]);
+  const heatmap = useLocationHeatmap(organizationId);
+  const mappedMembers = useMemo(
+    () => members.filter(m => m.latitude !== 0 && m.longitude !== 0),
+    [members]
+  );
+  const memberNames = useMemo(
+    () => Object.fromEntries(members.map(m => [m.id, m.name])),
+    [members]
+  );
+
   return (
     <Card>
       <CardHeader>
@@ -49,9 +81,79 @@ export const MapSection = ({
       </CardHeader>
       <CardContent>
         <MapView 
-          members={members.filter(m => m.latitude !== 0 && m.longitude !== 0)}
+          organizationId={organizationId}
+          members={mappedMembers}
           selectedMember={selectedMember}
           onMemberSelect={onMemberSelect}
+          geofences={geofences}
+          draftGeofence={draftGeofence}
+          onMapClick={onMapClick}
+          trail={selectedMember ? playback.trail : []}
+          playbackPosition={selectedMember && playback.points.length > 0 ? playback.position : null}
+          referenceTracks={referenceTracks}
+          heatmapCells={heatmap.cells}
+          showHeatmap={heatmap.enabled}
+        />
+        <div className="flex flex-wrap items-center gap-3 mt-3">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="map-heatmap"
+              checked={heatmap.enabled}
+              onCheckedChange={heatmap.setEnabled}
+            />
+            <Label htmlFor="map-heatmap" className="text-xs text-gray-600">
+              Location density heatmap
+            </Label>
+          </div>
+          {heatmap.enabled && (
+            <>
+              <Select value={String(heatmap.rangeHours)} onValueChange={(value) => heatmap.setRangeHours(Number(value))}>
+                <SelectTrigger className="w-40 h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {HEATMAP_RANGES.map((range) => (
+                    <SelectItem key={range.hours} value={String(range.hours)}>
+                      {range.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-xs text-gray-500 flex items-center">
+                {heatmap.isLoading && <Loader2 className="w-3 h-3 mr-1 animate-spin" />}
+                {heatmap.pointCount} fixes
+              </span>
+            </>
+          )}
+        </div>
+        {selectedMember && (
+          <TrailPlayback
+            memberName={focusedMember?.name || `User ${selectedMember.slice(-4)}`}
+            day={playback.day}
+            onDayChange={playback.setDay}
+            pointCount={playback.points.length}
+            rejectedCount={playback.rejectedCount}
+            trackMode={playback.trackMode}
+            onTrackModeChange={playback.setTrackMode}
+            isLoading={playback.isLoading}
+            currentTime={playback.currentTime}
+            startTime={playback.startTime}
+            endTime={playback.endTime}
+            position={playback.position}
+            isPlaying={playback.isPlaying}
+            speed={playback.speed}
+            onTogglePlaying={playback.togglePlaying}
+            onSeek={playback.setCurrentTime}
+            onSeekToClockTime={playback.seekToClockTime}
+            onSpeedChange={playback.setSpeed}
+          />
+        )}
+        <TrackFilesPanel
+          organizationId={organizationId}
+          selectedMember={selectedMember}
+          memberNames={memberNames}
+          referenceTracks={referenceTracks}
+          onReferenceTracksChange={setReferenceTracks}
         />
       </CardContent>
     </Card>
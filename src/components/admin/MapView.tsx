@@ -1,139 +1,510 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import mapboxgl from 'mapbox-gl';
-import 'mapbox-gl/dist/mapbox-gl.css';
+import type mapboxgl from 'mapbox-gl';
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-
-interface Member {
-  id: string;
-  name: string;
-  latitude: number;
-  longitude: number;
-  lastSeen: string;
-  status: 'active' | 'offline';
-}
+import { Settings2, Loader2 } from "lucide-react";
+import { Geofence } from "@/lib/localDb";
+import { GeofenceDraft } from "@/hooks/useGeofences";
+import { GeoPoint, circleToPolygon } from "@/services/location/geo";
+import { ImportedTrack } from "@/services/location/GpxImportService";
+import { MapMember, MemberFeatureIndex, DensityCell } from "@/services/location/MemberFeatureIndex";
+import { MAP_PROVIDERS, ProviderMap, createProviderMap, isMapProviderConfigured } from "@/services/map/MapProviders";
+import { useMapProvider } from "@/hooks/useMapProvider";
+import { MapProviderSettingsPanel } from "./MapProviderSettingsPanel";
 
 interface MapViewProps {
-  members: Member[];
+  organizationId: string;
+  members: MapMember[];
   selectedMember?: string;
   onMemberSelect: (memberId: string) => void;
+  geofences?: Geofence[];
+  draftGeofence?: GeofenceDraft | null;
+  onMapClick?: (point: GeoPoint) => void;
+  trail?: GeoPoint[];
+  playbackPosition?: GeoPoint | null;
+  referenceTracks?: ImportedTrack[];
+  heatmapCells?: DensityCell[];
+  showHeatmap?: boolean;
 }
 
-export const MapView = ({ members, selectedMember, onMemberSelect }: MapViewProps) => {
+const MEMBER_LAYERS = ['member-clusters', 'member-points'];
+
+const toRing = (points: GeoPoint[]) => points.map(p => [p.longitude, p.latitude]);
+
+// Plain [[west, south], [east, north]] works with every map provider
+const boundsOf = (coordinates: number[][]): [[number, number], [number, number]] => {
+  const lngs = coordinates.map(c => c[0]);
+  const lats = coordinates.map(c => c[1]);
+  return [[Math.min(...lngs), Math.min(...lats)], [Math.max(...lngs), Math.max(...lats)]];
+};
+
+const buildGeofenceCollection = (geofences: Geofence[], draft?: GeofenceDraft | null) => {
+  const features: GeoJSON.Feature[] = geofences.map(zone => {
+    const vertices = zone.vertices || [];
+    const ring = zone.shape === 'circle' && zone.center
+      ? circleToPolygon(zone.center, zone.radiusMeters || 0)
+      : [...vertices, vertices[0]].filter(Boolean);
+    return {
+      type: 'Feature',
+      properties: { id: zone.id, name: zone.name, draft: false },
+      geometry: { type: 'Polygon', coordinates: [toRing(ring)] }
+    };
+  });
+
+  if (draft) {
+    const points = draft.shape === 'circle' ? (draft.center ? [draft.center] : []) : draft.vertices;
+    if (points.length > 0) {
+      features.push({
+        type: 'Feature',
+        properties: { draft: true },
+        geometry: points.length > 1
+          ? { type: 'LineString', coordinates: toRing(points) }
+          : { type: 'Point', coordinates: toRing(points)[0] }
+      });
+    }
+  }
+
+  return { type: 'FeatureCollection' as const, features };
+};
+
+const buildTrailCollection = (trail: GeoPoint[], playbackPosition?: GeoPoint | null) => {
+  const features: GeoJSON.Feature[] = [];
+  if (trail.length > 1) {
+    features.push({
+      type: 'Feature',
+      properties: {},
+      geometry: { type: 'LineString', coordinates: toRing(trail) }
+    });
+  }
+  if (playbackPosition) {
+    features.push({
+      type: 'Feature',
+      properties: { playhead: true },
+      geometry: { type: 'Point', coordinates: [playbackPosition.longitude, playbackPosition.latitude] }
+    });
+  }
+  return { type: 'FeatureCollection' as const, features };
+};
+
+const buildDensityCollection = (cells: DensityCell[]) => ({
+  type: 'FeatureCollection' as const,
+  features: cells.map((cell): GeoJSON.Feature => ({
+    type: 'Feature',
+    properties: { count: cell.count },
+    geometry: { type: 'Point', coordinates: [cell.longitude, cell.latitude] }
+  }))
+});
+
+const buildReferenceCollection = (tracks: ImportedTrack[]) => ({
+  type: 'FeatureCollection' as const,
+  features: tracks.map((track): GeoJSON.Feature => ({
+    type: 'Feature',
+    properties: { id: track.id, name: track.name },
+    geometry: { type: 'LineString', coordinates: toRing(track.points) }
+  }))
+});
+
+export const MapView = ({
+  organizationId,
+  members,
+  selectedMember,
+  onMemberSelect,
+  geofences = [],
+  draftGeofence,
+  onMapClick,
+  trail = [],
+  playbackPosition,
+  referenceTracks = [],
+  heatmapCells = [],
+  showHeatmap = false
+}: MapViewProps) => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
-  const [mapboxToken, setMapboxToken] = useState<string>("");
-  const [tokenEntered, setTokenEntered] = useState(false);
-  const markersRef = useRef<{ [key: string]: mapboxgl.Marker }>({});
+  const providerMap = useRef<ProviderMap | null>(null);
+  const provider = useMapProvider(organizationId);
+  const [isConfiguring, setIsConfiguring] = useState(false);
+  const [mapError, setMapError] = useState<string | null>(null);
+  const [mapLoaded, setMapLoaded] = useState(false);
+  const memberIndex = useRef(new MemberFeatureIndex());
+  const popupRef = useRef<mapboxgl.Popup | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const onMapClickRef = useRef(onMapClick);
+  onMapClickRef.current = onMapClick;
+  const onMemberSelectRef = useRef(onMemberSelect);
+  onMemberSelectRef.current = onMemberSelect;
+  const draftRef = useRef(draftGeofence);
+  draftRef.current = draftGeofence;
 
-  const initializeMap = () => {
-    if (!mapContainer.current || !mapboxToken) return;
+  const teardownMap = () => {
+    popupRef.current?.remove();
+    popupRef.current = null;
+    map.current?.remove();
+    map.current = null;
+    providerMap.current = null;
+    setMapLoaded(false);
+  };
 
-    mapboxgl.accessToken = mapboxToken;
-    
-    map.current = new mapboxgl.Map({
-      container: mapContainer.current,
-      style: 'mapbox://styles/mapbox/streets-v12',
-      center: [0, 0],
-      zoom: 2,
-    });
+  const initializeMap = async () => {
+    if (!mapContainer.current || !isMapProviderConfigured(provider.settings)) return;
+
+    teardownMap();
+    setMapError(null);
+    try {
+      providerMap.current = await createProviderMap(mapContainer.current, provider.settings);
+    } catch (error) {
+      console.error('Failed to initialize map provider:', error);
+      setMapError(error instanceof Error ? error.message : 'Failed to load the map');
+      return;
+    }
+    map.current = providerMap.current.map;
 
-    map.current.addControl(new mapboxgl.NavigationControl(), 'top-right');
-    
     map.current.on('load', () => {
-      updateMarkers();
+      addHeatmapLayer();
+      addGeofenceLayers();
+      addReferenceLayers();
+      addTrailLayers();
+      addMemberLayers();
+      setMapLoaded(true);
+      fitToMembers();
+    });
+
+    map.current.on('click', (e) => {
+      // Clicks on members and clusters are handled by their layers
+      const hits = map.current?.queryRenderedFeatures(e.point, { layers: MEMBER_LAYERS }) || [];
+      if (hits.length > 0) return;
+      onMapClickRef.current?.({ latitude: e.lngLat.lat, longitude: e.lngLat.lng });
     });
   };
+  // The provider effect below only reruns on settings changes but needs this render's closure
+  const initializeMapRef = useRef(initializeMap);
+  initializeMapRef.current = initializeMap;
 
-  const updateMarkers = () => {
+  // Location density over the chosen range, drawn underneath everything else
+  const addHeatmapLayer = () => {
     if (!map.current) return;
 
-    // Clear existing markers
-    Object.values(markersRef.current).forEach(marker => marker.remove());
-    markersRef.current = {};
-
-    if (members.length === 0) return;
-
-    // Add markers for each member
-    members.forEach(member => {
-      const el = document.createElement('div');
-      el.className = `w-8 h-8 rounded-full border-2 cursor-pointer transition-all ${
-        member.status === 'active' ? 'bg-green-500 border-green-600' : 'bg-gray-400 border-gray-500'
-      } ${selectedMember === member.id ? 'ring-4 ring-blue-300 scale-125' : ''}`;
-      
-      const marker = new mapboxgl.Marker(el)
-        .setLngLat([member.longitude, member.latitude])
-        .setPopup(new mapboxgl.Popup({ offset: 25 }).setHTML(`
-          <div class="p-2">
-            <h3 class="font-semibold">${member.name}</h3>
-            <p class="text-sm text-gray-600">Status: ${member.status}</p>
-            <p class="text-sm text-gray-600">Last seen: ${member.lastSeen}</p>
-          </div>
-        `))
-        .addTo(map.current!);
+    map.current.addSource('location-density', {
+      type: 'geojson',
+      data: buildDensityCollection(heatmapCells)
+    });
 
-      el.addEventListener('click', () => {
-        onMemberSelect(member.id);
-      });
+    map.current.addLayer({
+      id: 'location-heatmap',
+      type: 'heatmap',
+      source: 'location-density',
+      layout: { visibility: showHeatmap ? 'visible' : 'none' },
+      paint: {
+        'heatmap-weight': ['interpolate', ['linear'], ['get', 'count'], 1, 0.2, 50, 1],
+        'heatmap-intensity': ['interpolate', ['linear'], ['zoom'], 0, 1, 15, 3],
+        'heatmap-radius': ['interpolate', ['linear'], ['zoom'], 0, 4, 15, 24],
+        'heatmap-opacity': 0.75
+      }
+    });
+  };
+
+  // Members live in one clustered GeoJSON source instead of a DOM marker each
+  const addMemberLayers = () => {
+    if (!map.current) return;
+
+    map.current.addSource('members', {
+      type: 'geojson',
+      data: memberIndex.current.toCollection(),
+      cluster: true,
+      clusterRadius: 50,
+      clusterMaxZoom: 14,
+      clusterProperties: {
+        active: ['+', ['case', ['==', ['get', 'status'], 'active'], 1, 0]]
+      }
+    });
 
-      markersRef.current[member.id] = marker;
+    map.current.addLayer({
+      id: 'member-clusters',
+      type: 'circle',
+      source: 'members',
+      filter: ['has', 'point_count'],
+      paint: {
+        'circle-color': ['case', ['>', ['get', 'active'], 0], '#22c55e', '#9ca3af'],
+        'circle-radius': ['step', ['get', 'point_count'], 16, 10, 20, 50, 26, 200, 32],
+        'circle-stroke-width': 2,
+        'circle-stroke-color': '#ffffff'
+      }
     });
 
-    // Fit map to show all markers
-    if (members.length > 0) {
-      const bounds = new mapboxgl.LngLatBounds();
-      members.forEach(member => {
-        bounds.extend([member.longitude, member.latitude]);
+    // Offline styles may ship without font glyphs; clusters then just scale with their size
+    if (map.current.getStyle().glyphs) {
+      map.current.addLayer({
+        id: 'member-cluster-count',
+        type: 'symbol',
+        source: 'members',
+        filter: ['has', 'point_count'],
+        layout: { 'text-field': ['get', 'point_count_abbreviated'], 'text-size': 12 },
+        paint: { 'text-color': '#ffffff' }
       });
-      map.current.fitBounds(bounds, { padding: 50 });
     }
+
+    map.current.addLayer({
+      id: 'member-points',
+      type: 'circle',
+      source: 'members',
+      filter: ['!', ['has', 'point_count']],
+      paint: {
+        'circle-color': ['case', ['==', ['get', 'status'], 'active'], '#22c55e', '#9ca3af'],
+        'circle-radius': ['case', ['get', 'selected'], 12, 9],
+        'circle-stroke-width': ['case', ['get', 'selected'], 4, 2],
+        'circle-stroke-color': ['case', ['get', 'selected'], '#93c5fd', '#ffffff']
+      }
+    });
+
+    map.current.on('click', 'member-clusters', (e) => {
+      const feature = e.features?.[0];
+      const source = map.current?.getSource('members') as mapboxgl.GeoJSONSource | undefined;
+      if (!feature || !source || feature.geometry.type !== 'Point') return;
+      const center = feature.geometry.coordinates as [number, number];
+      source.getClusterExpansionZoom(feature.properties?.cluster_id, (error, zoom) => {
+        if (error || zoom === null || zoom === undefined) return;
+        map.current?.easeTo({ center, zoom });
+      });
+    });
+
+    map.current.on('click', 'member-points', (e) => {
+      const memberId = e.features?.[0]?.properties?.id;
+      if (!memberId) return;
+      onMemberSelectRef.current(memberId);
+      showMemberPopup(memberId);
+    });
+
+    MEMBER_LAYERS.forEach(layer => {
+      map.current?.on('mouseenter', layer, () => {
+        if (map.current) map.current.getCanvas().style.cursor = 'pointer';
+      });
+      map.current?.on('mouseleave', layer, () => {
+        if (map.current) map.current.getCanvas().style.cursor = draftRef.current ? 'crosshair' : '';
+      });
+    });
+  };
+
+  const showMemberPopup = (memberId: string) => {
+    const feature = memberIndex.current.get(memberId);
+    if (!map.current || !providerMap.current || !feature) return;
+
+    popupRef.current?.remove();
+    const { name, status, lastSeen } = feature.properties;
+    popupRef.current = providerMap.current.createPopup({ offset: 15 })
+      .setLngLat(feature.geometry.coordinates as [number, number])
+      .setHTML(`
+          <div class="p-2">
+            <h3 class="font-semibold">${name}</h3>
+            <p class="text-sm text-gray-600">Status: ${status}</p>
+            <p class="text-sm text-gray-600">Last seen: ${lastSeen}</p>
+          </div>
+        `)
+      .addTo(map.current);
+  };
+
+  const addGeofenceLayers = () => {
+    if (!map.current) return;
+
+    map.current.addSource('geofences', {
+      type: 'geojson',
+      data: buildGeofenceCollection(geofences, draftGeofence)
+    });
+
+    map.current.addLayer({
+      id: 'geofence-fill',
+      type: 'fill',
+      source: 'geofences',
+      filter: ['all', ['==', ['geometry-type'], 'Polygon'], ['!', ['get', 'draft']]],
+      paint: { 'fill-color': '#3b82f6', 'fill-opacity': 0.15 }
+    });
+
+    map.current.addLayer({
+      id: 'geofence-outline',
+      type: 'line',
+      source: 'geofences',
+      filter: ['!', ['get', 'draft']],
+      paint: { 'line-color': '#2563eb', 'line-width': 2 }
+    });
+
+    map.current.addLayer({
+      id: 'geofence-draft-line',
+      type: 'line',
+      source: 'geofences',
+      filter: ['all', ['==', ['geometry-type'], 'LineString'], ['get', 'draft']],
+      paint: { 'line-color': '#f97316', 'line-width': 2, 'line-dasharray': [2, 2] }
+    });
+
+    map.current.addLayer({
+      id: 'geofence-draft-points',
+      type: 'circle',
+      source: 'geofences',
+      filter: ['==', ['geometry-type'], 'Point'],
+      paint: { 'circle-radius': 5, 'circle-color': '#f97316' }
+    });
+  };
+
+  // Imported GPX tracks drawn underneath the live trail for comparison
+  const addReferenceLayers = () => {
+    if (!map.current) return;
+
+    map.current.addSource('reference-tracks', {
+      type: 'geojson',
+      data: buildReferenceCollection(referenceTracks)
+    });
+
+    map.current.addLayer({
+      id: 'reference-track-line',
+      type: 'line',
+      source: 'reference-tracks',
+      layout: { 'line-join': 'round', 'line-cap': 'round' },
+      paint: { 'line-color': '#0f766e', 'line-width': 3, 'line-opacity': 0.6, 'line-dasharray': [1, 1.5] }
+    });
+  };
+
+  const addTrailLayers = () => {
+    if (!map.current) return;
+
+    map.current.addSource('trail', {
+      type: 'geojson',
+      data: buildTrailCollection(trail, playbackPosition)
+    });
+
+    map.current.addLayer({
+      id: 'trail-line',
+      type: 'line',
+      source: 'trail',
+      filter: ['==', ['geometry-type'], 'LineString'],
+      layout: { 'line-join': 'round', 'line-cap': 'round' },
+      paint: { 'line-color': '#8b5cf6', 'line-width': 3, 'line-opacity': 0.8 }
+    });
+
+    map.current.addLayer({
+      id: 'trail-playhead',
+      type: 'circle',
+      source: 'trail',
+      filter: ['==', ['geometry-type'], 'Point'],
+      paint: {
+        'circle-radius': 7,
+        'circle-color': '#8b5cf6',
+        'circle-stroke-width': 2,
+        'circle-stroke-color': '#ffffff'
+      }
+    });
+  };
+
+  const fitToMembers = () => {
+    if (!map.current) return;
+    const features = memberIndex.current.toCollection().features;
+    if (features.length === 0) return;
+
+    map.current.fitBounds(boundsOf(features.map(feature => feature.geometry.coordinates)), { padding: 50, maxZoom: 15 });
+  };
+
+  // Pushes the latest member features to the source at most once per frame
+  const flushMembers = () => {
+    if (frameRef.current !== null) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      const source = map.current?.getSource('members') as mapboxgl.GeoJSONSource | undefined;
+      source?.setData(memberIndex.current.toCollection());
+    });
   };
 
+  // Rebuilt whenever the organization switches provider or tile source
   useEffect(() => {
-    if (tokenEntered && mapboxToken) {
-      initializeMap();
+    if (!isConfiguring && isMapProviderConfigured(provider.settings)) {
+      initializeMapRef.current();
     }
-  }, [tokenEntered, mapboxToken]);
+  }, [provider.settings, isConfiguring]);
+
+  useEffect(() => {
+    const diff = memberIndex.current.update(members, selectedMember);
+    if (!map.current || !mapLoaded || !memberIndex.current.hasChanges(diff)) return;
+
+    flushMembers();
+    // Only re-frame when someone new shows up, not on every position update
+    if (diff.added.length > 0) fitToMembers();
+  }, [members, selectedMember, mapLoaded]);
+
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+    const source = map.current.getSource('location-density') as mapboxgl.GeoJSONSource | undefined;
+    source?.setData(buildDensityCollection(heatmapCells));
+  }, [heatmapCells, mapLoaded]);
+
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+    map.current.setLayoutProperty('location-heatmap', 'visibility', showHeatmap ? 'visible' : 'none');
+  }, [showHeatmap, mapLoaded]);
 
   useEffect(() => {
-    updateMarkers();
-  }, [members, selectedMember]);
+    if (!map.current || !mapLoaded) return;
+    const source = map.current.getSource('geofences') as mapboxgl.GeoJSONSource | undefined;
+    source?.setData(buildGeofenceCollection(geofences, draftGeofence));
+  }, [geofences, draftGeofence, mapLoaded]);
+
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+    const source = map.current.getSource('trail') as mapboxgl.GeoJSONSource | undefined;
+    source?.setData(buildTrailCollection(trail, playbackPosition));
+  }, [trail, playbackPosition, mapLoaded]);
+
+  useEffect(() => {
+    if (!map.current || !mapLoaded) return;
+    const source = map.current.getSource('reference-tracks') as mapboxgl.GeoJSONSource | undefined;
+    source?.setData(buildReferenceCollection(referenceTracks));
+
+    // Frame a freshly imported overlay so it is visible without hunting for it
+    if (referenceTracks.length > 0) {
+      map.current.fitBounds(boundsOf(referenceTracks.flatMap(track => toRing(track.points))), { padding: 50 });
+    }
+  }, [referenceTracks, mapLoaded]);
+
+  useEffect(() => {
+    if (!map.current) return;
+    map.current.getCanvas().style.cursor = draftGeofence ? 'crosshair' : '';
+  }, [draftGeofence, mapLoaded]);
 
   useEffect(() => {
     return () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current);
+      }
       if (map.current) {
         map.current.remove();
       }
     };
   }, []);
 
-  if (!tokenEntered) {
+  const saveProvider = async (settings: Parameters<typeof provider.saveSettings>[0]) => {
+    await provider.saveSettings(settings);
+    setIsConfiguring(false);
+  };
+
+  if (provider.isLoading) {
     return (
-      <div className="w-full h-96 bg-gray-100 border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center">
-        <div className="text-center max-w-md p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-2">Mapbox Token Required</h3>
+      <div className="w-full h-96 bg-gray-100 rounded-lg flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-500" />
+      </div>
+    );
+  }
+
+  if (isConfiguring || !isMapProviderConfigured(provider.settings)) {
+    return (
+      <div className="w-full min-h-96 bg-gray-100 border-2 border-dashed border-gray-300 rounded-lg flex items-center justify-center">
+        <div className="text-center max-w-md w-full p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">Choose a map</h3>
           <p className="text-gray-600 mb-4">
-            Enter your Mapbox public token to display the map. You can get one from{' '}
-            <a href="https://mapbox.com" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
-              mapbox.com
-            </a>
+            Use Mapbox, a self-hosted MapLibre style, or a local MBTiles file for sites without internet.
+            The choice is saved for this organization.
           </p>
-          <div className="space-y-3">
-            <Input
-              type="text"
-              placeholder="pk.eyJ1IjoiZXhhbXBsZSIsImEiOiJjbGV4YW1wbGUifQ..."
-              value={mapboxToken}
-              onChange={(e) => setMapboxToken(e.target.value)}
-            />
-            <Button 
-              onClick={() => setTokenEntered(true)}
-              disabled={!mapboxToken.startsWith('pk.')}
-              className="w-full"
-            >
-              Initialize Map
-            </Button>
-          </div>
+          <MapProviderSettingsPanel
+            settings={provider.settings}
+            tilesFiles={provider.tilesFiles}
+            onSave={saveProvider}
+            onImportTiles={provider.importTilesFile}
+            onRemoveTiles={provider.removeTilesFile}
+            onCancel={isMapProviderConfigured(provider.settings) ? () => setIsConfiguring(false) : undefined}
+          />
         </div>
       </div>
     );
@@ -142,8 +513,31 @@ export const MapView = ({ members, selectedMember, onMemberSelect }: MapViewProp
   return (
     <div className="relative w-full h-96 bg-gray-100 rounded-lg overflow-hidden">
       <div ref={mapContainer} className="absolute inset-0" />
-      {members.length === 0 && (
-        <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50">
+      <Button
+        variant="secondary"
+        size="sm"
+        className="absolute top-2 left-2 z-10 h-8"
+        onClick={() => {
+          teardownMap();
+          setIsConfiguring(true);
+        }}
+        title={`Map: ${MAP_PROVIDERS[provider.settings.kind].label}`}
+      >
+        <Settings2 className="w-4 h-4" />
+      </Button>
+      {mapError && (
+        <div className="absolute inset-0 flex items-center justify-center bg-white bg-opacity-90 z-10">
+          <div className="text-center p-4">
+            <p className="font-semibold text-red-700">Map could not be loaded</p>
+            <p className="text-sm text-gray-600 mb-3">{mapError}</p>
+            <Button size="sm" variant="outline" onClick={() => setIsConfiguring(true)}>
+              Change map settings
+            </Button>
+          </div>
+        </div>
+      )}
+      {members.length === 0 && !mapError && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-50 pointer-events-none">
           <div className="text-white text-center">
             <p className="text-lg font-semibold">No members to display</p>
             <p className="text-sm">Add members to your organization to see them on the map</p>
@@ -0,0 +1,51 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock } from "lucide-react";
+import { Organization, SharingSchedule } from "@/lib/localDb";
+import { describeSchedule } from "@/services/location/SharingSchedule";
+import { MemberScheduleState } from "@/hooks/useSharingSchedules";
+import { SharingScheduleEditor } from "./SharingScheduleEditor";
+
+interface MemberScheduleCardProps {
+  memberId: string;
+  memberName: string;
+  organization: Organization | undefined;
+  state: MemberScheduleState | undefined;
+  onSave: (memberId: string, schedule: SharingSchedule | null) => Promise<void>;
+}
+
+export const MemberScheduleCard = ({ memberId, memberName, organization, state, onSave }: MemberScheduleCardProps) => {
+  const memberSchedule = organization?.members?.find(m => m.id === memberId)?.sharingSchedule || null;
+  const orgSchedule = organization?.sharingSchedule || null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center">
+            <CalendarClock className="w-5 h-5 mr-2" />
+            Sharing Schedule — {memberName}
+          </div>
+          {state?.schedule && (
+            <Badge variant={state.sharing ? "default" : "secondary"}>
+              {state.sharing ? 'Sharing now' : 'Private hours'}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!organization?.members?.some(m => m.id === memberId) ? (
+          <p className="text-sm text-gray-500">
+            Only approved members can have their own schedule. Organization schedule: {describeSchedule(orgSchedule)}
+          </p>
+        ) : (
+          <SharingScheduleEditor
+            schedule={memberSchedule}
+            fallbackLabel={`Organization default — ${describeSchedule(orgSchedule)}`}
+            onSave={(schedule) => onSave(memberId, schedule)}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
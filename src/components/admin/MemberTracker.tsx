@@ -6,6 +6,16 @@ import { MemberTrackerActions } from "./member-tracker/MemberTrackerActions";
 import { MemberTrackerNotifications } from "./member-tracker/MemberTrackerNotifications";
 import { MemberTrackerContent } from "./member-tracker/MemberTrackerContent";
 import { WebRTCQRGenerator } from "./WebRTCQRGenerator";
+import { DwellReportView } from "./DwellReportView";
+import { MemberScheduleCard } from "./MemberScheduleCard";
+import { ProximityRulesCard } from "./ProximityRulesCard";
+import { AnomalyRulesPanel } from "./AnomalyRulesPanel";
+import { LocationPingPanel } from "./LocationPingPanel";
+import { FileTransferCard } from "@/components/FileTransferCard";
+import { useGeofences } from "@/hooks/useGeofences";
+import { useSharingSchedules } from "@/hooks/useSharingSchedules";
+import { useProximityRules } from "@/hooks/useProximityRules";
+import { useAnomalyRules } from "@/hooks/useAnomalyRules";
 import { AlertTriangle } from "lucide-react";
 import { toast } from "sonner";
 
@@ -44,6 +54,10 @@ export const MemberTracker = ({ organizations }: MemberTrackerProps) => {
   const [autoReconnectionStarted, setAutoReconnectionStarted] = useState(false);
   const [storedClientCount, setStoredClientCount] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const geofences = useGeofences(selectedOrg);
+  const proximity = useProximityRules(selectedOrg, members);
+  const schedules = useSharingSchedules(selectedOrg, members.map(m => m.id));
+  const anomalies = useAnomalyRules(selectedOrg);
 
   // Refs for cleanup and state management
   const isMountedRef = useRef(true);
@@ -529,6 +543,12 @@ export const MemberTracker = ({ organizations }: MemberTrackerProps) => {
         reconnectAttempts={reconnectAttempts}
         detailedReconnectionStatus={detailedReconnectionStatus}
         onForceReconnect={forceReconnect}
+        geofenceEvents={geofences.events}
+        onDismissGeofenceEvent={geofences.dismissEvent}
+        onClearGeofenceEvents={geofences.clearEvents}
+        proximityAlerts={proximity.alerts}
+        onDismissProximityAlert={proximity.dismissAlert}
+        onClearProximityAlerts={proximity.clearAlerts}
       />
 
       <MemberTrackerContent
@@ -545,7 +565,70 @@ export const MemberTracker = ({ organizations }: MemberTrackerProps) => {
         onMemberSelect={setSelectedMember}
         onStartServer={() => setShowQRGenerator(true)}
         getReconnectionStatusForMember={getReconnectionStatusForMember}
+        geofences={geofences.zones}
+        draftGeofence={geofences.draft}
+        onStartGeofenceDrawing={geofences.startDrawing}
+        onCancelGeofenceDrawing={geofences.cancelDrawing}
+        onAddGeofencePoint={geofences.addDraftPoint}
+        onSaveGeofence={geofences.saveDraft}
+        onRemoveGeofence={geofences.removeZone}
+        scheduleStates={schedules.states}
       />
+
+      {selectedOrg && selectedMember && (
+        <DwellReportView
+          organizationId={selectedOrg}
+          memberId={selectedMember}
+          memberName={members.find(m => m.id === selectedMember)?.name || `User ${selectedMember.slice(-4)}`}
+          zones={geofences.zones}
+        />
+      )}
+
+      {selectedOrg && selectedMember && (
+        <MemberScheduleCard
+          memberId={selectedMember}
+          memberName={members.find(m => m.id === selectedMember)?.name || `User ${selectedMember.slice(-4)}`}
+          organization={schedules.organization}
+          state={schedules.states[selectedMember]}
+          onSave={schedules.updateMemberSchedule}
+        />
+      )}
+
+      {selectedOrg && selectedMember && (
+        <FileTransferCard
+          peerId={selectedMember}
+          peerName={members.find(m => m.id === selectedMember)?.name || `User ${selectedMember.slice(-4)}`}
+        />
+      )}
+
+      {selectedOrg && (
+        <LocationPingPanel members={members} connectedCount={connectedPeers.length} />
+      )}
+
+      {selectedOrg && (
+        <ProximityRulesCard
+          members={members}
+          rules={proximity.rules}
+          isViolated={proximity.isViolated}
+          onAddRule={proximity.addRule}
+          onUpdateRule={proximity.updateRule}
+          onRemoveRule={proximity.removeRule}
+        />
+      )}
+
+      {selectedOrg && (
+        <AnomalyRulesPanel
+          members={members}
+          rules={anomalies.rules}
+          alerts={anomalies.alerts}
+          onAddRule={anomalies.addRule}
+          onUpdateRule={anomalies.updateRule}
+          onRemoveRule={anomalies.removeRule}
+          onAcknowledge={anomalies.acknowledgeAlert}
+          onResolve={anomalies.resolveAlert}
+          onClearResolved={anomalies.clearResolved}
+        />
+      )}
     </div>
   );
 };
@@ -1,7 +1,8 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Users, Clock } from "lucide-react";
+import { Users, Clock, CalendarClock } from "lucide-react";
+import { MemberScheduleState } from "@/hooks/useSharingSchedules";
 
 interface Member {
   id: string;
@@ -18,14 +19,24 @@ interface MembersListProps {
   webRTCStatus: 'disconnected' | 'connecting' | 'connected';
   onMemberSelect: (memberId: string) => void;
   getReconnectionStatusForMember: (memberId: string) => { isReconnecting: boolean; attempt: number; maxAttempts: number };
+  scheduleStates?: Record<string, MemberScheduleState>;
 }
 
+const formatScheduleChange = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return date.toDateString() === new Date().toDateString()
+    ? time
+    : `${date.toLocaleDateString([], { weekday: 'short' })} ${time}`;
+};
+
 export const MembersList = ({
   members,
   selectedMember,
   webRTCStatus,
   onMemberSelect,
-  getReconnectionStatusForMember
+  getReconnectionStatusForMember,
+  scheduleStates = {}
 }: MembersListProps) => {
   return (
     <Card>
@@ -38,6 +49,7 @@ export const MembersList = ({
       <CardContent className="space-y-3">
         {members.map((member) => {
           const reconnectionStatus = getReconnectionStatusForMember(member.id);
+          const scheduleState = scheduleStates[member.id];
           return (
             <div 
               key={member.id}
@@ -57,6 +69,24 @@ export const MembersList = ({
                       GPS
                     </Badge>
                   )}
+                  {scheduleState?.schedule && (
+                    <Badge
+                      variant="outline"
+                      className={`text-xs ${scheduleState.sharing ? 'bg-green-50 text-green-700 border-green-200' : 'bg-gray-100 text-gray-600 border-gray-300'}`}
+                    >
+                      {scheduleState.sharing ? 'In window' : 'Private hours'}
+                    </Badge>
+                  )}
+                  {!scheduleState?.schedule && scheduleState?.reportedStatus?.status === 'not_sharing' && (
+                    <Badge variant="outline" className="text-xs bg-gray-100 text-gray-600 border-gray-300">
+                      Not sharing
+                    </Badge>
+                  )}
+                  {scheduleState?.reportedStatus?.status === 'in_private_zone' && (
+                    <Badge variant="outline" className="text-xs bg-purple-50 text-purple-700 border-purple-200">
+                      In private zone
+                    </Badge>
+                  )}
                   {reconnectionStatus.isReconnecting && (
                     <Badge variant="outline" className="text-xs bg-yellow-50 text-yellow-700 border-yellow-200">
                       Reconnecting ({reconnectionStatus.attempt}/{reconnectionStatus.maxAttempts})
@@ -68,7 +98,15 @@ export const MembersList = ({
                 <Clock className="w-3 h-3 mr-1" />
                 {member.lastSeen}
               </div>
-              {member.status === 'active' && member.latitude !== 0 && (
+              {scheduleState?.schedule && (
+                <div className="flex items-center text-xs text-gray-500 mt-1">
+                  <CalendarClock className="w-3 h-3 mr-1" />
+                  {scheduleState.sharing ? 'Sharing' : 'Not sharing'}
+                  {scheduleState.nextChange && ` until ${formatScheduleChange(scheduleState.nextChange)}`}
+                  {!scheduleState.sharing && scheduleState.reportedStatus?.status === 'not_sharing' && ' · confirmed by device'}
+                </div>
+              )}
+              {member.status === 'active' && member.latitude !== 0 && scheduleState?.reportedStatus?.status !== 'in_private_zone' && (
                 <div className="text-xs text-gray-400 mt-1">
                   {member.latitude.toFixed(4)}, {member.longitude.toFixed(4)}
                 </div>
@@ -1,10 +1,20 @@
 import { useEffect, useState } from "react";
-import { getOrganizations, addOrganization, deleteOrganization, Organization as PersistentOrg } from "@/lib/localDb";
+import { getOrganizations, addOrganization, deleteOrganization, updateOrganization, Organization as PersistentOrg, SamplingProfileName, SharingSchedule } from "@/lib/localDb";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Users, Settings, Trash2 } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Users, Settings, Trash2, CalendarClock } from "lucide-react";
+import { webRTCService } from "@/services/WebRTCService";
+import { DEFAULT_SAMPLING_PROFILE } from "@/services/location/SamplingPolicy";
+import { SharingScheduleEditor } from "./SharingScheduleEditor";
+
+const SAMPLING_PROFILE_OPTIONS: { value: SamplingProfileName; label: string }[] = [
+  { value: 'precise', label: 'Precise' },
+  { value: 'balanced', label: 'Balanced' },
+  { value: 'low_power', label: 'Low power' }
+];
 
 interface OrganizationManagerProps {
   organizations: Organization[];
@@ -15,6 +25,7 @@ export const OrganizationManager = ({ organizations: _initialOrgs, onOrganizatio
   const [organizations, setOrganizations] = useState<PersistentOrg[]>([]);
   const [newOrgName, setNewOrgName] = useState("");
   const [showAddForm, setShowAddForm] = useState(false);
+  const [scheduleOrgId, setScheduleOrgId] = useState<string | null>(null);
 
   // Load organizations from persistent DB on mount
   useEffect(() => {
@@ -55,6 +66,22 @@ export const OrganizationManager = ({ organizations: _initialOrgs, onOrganizatio
     })));
   };
 
+  const changeSamplingProfile = async (orgId: string, profile: SamplingProfileName) => {
+    try {
+      await updateOrganization(orgId, { samplingProfile: profile });
+      setOrganizations(orgs => orgs.map(org => org.id === orgId ? { ...org, samplingProfile: profile } : org));
+      webRTCService.setSamplingProfile(orgId, profile);
+    } catch (error) {
+      console.error('Failed to update sampling profile:', error);
+    }
+  };
+
+  const changeSharingSchedule = async (orgId: string, schedule: SharingSchedule | null) => {
+    await updateOrganization(orgId, { sharingSchedule: schedule });
+    setOrganizations(orgs => orgs.map(org => org.id === orgId ? { ...org, sharingSchedule: schedule } : org));
+    webRTCService.setSharingSchedule(orgId, schedule);
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -115,6 +142,27 @@ export const OrganizationManager = ({ organizations: _initialOrgs, onOrganizatio
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
+                  <Select
+                    value={org.samplingProfile || DEFAULT_SAMPLING_PROFILE}
+                    onValueChange={(value) => changeSamplingProfile(org.id, value as SamplingProfileName)}
+                  >
+                    <SelectTrigger className="w-32" title="Location sampling profile">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SAMPLING_PROFILE_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant={scheduleOrgId === org.id ? "default" : "outline"}
+                    size="sm"
+                    title="Sharing schedule"
+                    onClick={() => setScheduleOrgId(current => current === org.id ? null : org.id)}
+                  >
+                    <CalendarClock className="w-4 h-4" />
+                  </Button>
                   <Button variant="outline" size="sm">
                     <Settings className="w-4 h-4" />
                   </Button>
@@ -123,6 +171,15 @@ export const OrganizationManager = ({ organizations: _initialOrgs, onOrganizatio
                   </Button>
                 </div>
               </div>
+              {scheduleOrgId === org.id && (
+                <div className="mt-4 pt-4 border-t">
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">Sharing schedule</h4>
+                  <SharingScheduleEditor
+                    schedule={org.sharingSchedule || null}
+                    onSave={(schedule) => changeSharingSchedule(org.id, schedule)}
+                  />
+                </div>
+              )}
             </CardContent>
           </Card>
         ))}
@@ -0,0 +1,138 @@
+import { useState, useId } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { ProximityRule, ProximityRuleType } from "@/services/location/ProximityRules";
+
+interface ProximityRulesCardProps {
+  members: { id: string; name: string }[];
+  rules: ProximityRule[];
+  isViolated: (ruleId: string) => boolean;
+  onAddRule: (rule: Omit<ProximityRule, 'id' | 'createdAt' | 'enabled'>) => Promise<void>;
+  onUpdateRule: (id: string, changes: Partial<ProximityRule>) => Promise<void>;
+  onRemoveRule: (id: string) => Promise<void>;
+}
+
+const RULE_TYPES: Record<ProximityRuleType, { label: string; describe: (meters: number) => string }> = {
+  proximity: { label: 'Closer than', describe: (meters) => `within ${meters} m` },
+  buddy: { label: 'Buddy further than', describe: (meters) => `more than ${meters} m apart` }
+};
+
+export const ProximityRulesCard = ({ members, rules, isViolated, onAddRule, onUpdateRule, onRemoveRule }: ProximityRulesCardProps) => {
+  const [type, setType] = useState<ProximityRuleType>('proximity');
+  const [memberA, setMemberA] = useState('');
+  const [memberB, setMemberB] = useState('');
+  const [distance, setDistance] = useState('50');
+  const [cooldown, setCooldown] = useState('10');
+  const distanceId = useId();
+  const cooldownId = useId();
+
+  const nameOf = (id: string) => members.find(m => m.id === id)?.name || `User ${id.slice(-4)}`;
+  const distanceMeters = Number(distance);
+  const cooldownMinutes = Number(cooldown);
+  const canAdd = memberA && memberB && memberA !== memberB && distanceMeters > 0 && cooldownMinutes >= 0;
+
+  const addRule = async () => {
+    try {
+      await onAddRule({
+        name: `${nameOf(memberA)} / ${nameOf(memberB)}`,
+        type,
+        memberA,
+        memberB,
+        distanceMeters,
+        cooldownMinutes
+      });
+      setMemberA('');
+      setMemberB('');
+    } catch (error) {
+      console.error('Failed to add proximity rule:', error);
+      toast.error('Could not save the rule');
+    }
+  };
+
+  const memberSelect = (value: string, onChange: (value: string) => void, placeholder: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {members.map(member => (
+          <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Users className="w-5 h-5 mr-2" />
+          Proximity &amp; Buddy Rules
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.length === 0 && (
+          <p className="text-sm text-gray-500">No rules yet. Alerts show up with the zone activity above.</p>
+        )}
+        {rules.map(rule => (
+          <div key={rule.id} className="flex items-center justify-between p-2 border rounded-md">
+            <div>
+              <p className="text-sm font-medium">{nameOf(rule.memberA)} &amp; {nameOf(rule.memberB)}</p>
+              <p className="text-xs text-gray-600">
+                Alert when {RULE_TYPES[rule.type].describe(rule.distanceMeters)}, at most every {rule.cooldownMinutes} min
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              {rule.enabled && isViolated(rule.id) && <Badge variant="destructive">Triggered</Badge>}
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => onUpdateRule(rule.id, { enabled })}
+              />
+              <Button variant="ghost" size="sm" onClick={() => onRemoveRule(rule.id)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="space-y-2 pt-2 border-t">
+          <div className="grid grid-cols-2 gap-2">
+            {memberSelect(memberA, setMemberA, 'First member')}
+            {memberSelect(memberB, setMemberB, 'Second member')}
+          </div>
+          <Select value={type} onValueChange={(value) => setType(value as ProximityRuleType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(RULE_TYPES) as ProximityRuleType[]).map(key => (
+                <SelectItem key={key} value={key}>{RULE_TYPES[key].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor={distanceId} className="text-xs">Distance (m)</Label>
+              <Input id={distanceId} type="number" min={1} value={distance} onChange={(e) => setDistance(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={cooldownId} className="text-xs">Cooldown (min)</Label>
+              <Input id={cooldownId} type="number" min={0} value={cooldown} onChange={(e) => setCooldown(e.target.value)} />
+            </div>
+          </div>
+          <Button variant="outline" size="sm" disabled={!canAdd} onClick={addRule}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add rule
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
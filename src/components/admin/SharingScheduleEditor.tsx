@@ -0,0 +1,127 @@
+import { useState, useEffect, useId } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Plus, Trash2 } from "lucide-react";
+import { SharingSchedule, SharingWindow } from "@/lib/localDb";
+import { DAY_LABELS, describeSchedule, isValidTimezone } from "@/services/location/SharingSchedule";
+
+interface SharingScheduleEditorProps {
+  schedule: SharingSchedule | null;
+  // Shown when the schedule is cleared, e.g. the organization default for a member
+  fallbackLabel?: string;
+  onSave: (schedule: SharingSchedule | null) => Promise<void>;
+}
+
+const DEFAULT_WINDOW: SharingWindow = { days: [1, 2, 3, 4, 5], start: '08:00', end: '18:00' };
+
+const deviceTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const SharingScheduleEditor = ({ schedule, fallbackLabel = 'Always sharing', onSave }: SharingScheduleEditorProps) => {
+  const [timezone, setTimezone] = useState(schedule?.timezone || deviceTimezone());
+  const [windows, setWindows] = useState<SharingWindow[]>(schedule?.windows || []);
+  const [isSaving, setIsSaving] = useState(false);
+  const timezoneId = useId();
+
+  useEffect(() => {
+    setTimezone(schedule?.timezone || deviceTimezone());
+    setWindows(schedule?.windows || []);
+  }, [schedule]);
+
+  const updateWindow = (index: number, changes: Partial<SharingWindow>) => {
+    setWindows(current => current.map((w, i) => i === index ? { ...w, ...changes } : w));
+  };
+
+  const save = async (next: SharingSchedule | null) => {
+    setIsSaving(true);
+    try {
+      await onSave(next);
+    } catch (error) {
+      console.error('Failed to save sharing schedule:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const validWindows = windows.filter(w => w.days.length > 0);
+  const timezoneValid = isValidTimezone(timezone.trim());
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-600">
+        Current: {schedule ? describeSchedule(schedule) : fallbackLabel}
+      </p>
+
+      {windows.map((sharingWindow, index) => (
+        <div key={index} className="space-y-2 p-2 border rounded-md">
+          <ToggleGroup
+            type="multiple"
+            size="sm"
+            className="justify-start flex-wrap"
+            value={sharingWindow.days.map(String)}
+            onValueChange={(days) => updateWindow(index, { days: days.map(Number).sort() })}
+          >
+            {DAY_LABELS.map((label, day) => (
+              <ToggleGroupItem key={label} value={String(day)} className="text-xs px-2">
+                {label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <div className="flex items-center space-x-2">
+            <Input
+              type="time"
+              value={sharingWindow.start}
+              onChange={(e) => updateWindow(index, { start: e.target.value })}
+              className="w-28"
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <Input
+              type="time"
+              value={sharingWindow.end}
+              onChange={(e) => updateWindow(index, { end: e.target.value })}
+              className="w-28"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setWindows(current => current.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="space-y-1">
+        <Label htmlFor={timezoneId} className="text-xs">Timezone</Label>
+        <Input
+          id={timezoneId}
+          value={timezone}
+          onChange={(e) => setTimezone(e.target.value)}
+          placeholder="Europe/Berlin"
+        />
+        {!timezoneValid && <p className="text-xs text-red-600">Unknown timezone</p>}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={() => setWindows(current => [...current, DEFAULT_WINDOW])}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add window
+        </Button>
+        <Button
+          size="sm"
+          disabled={isSaving || validWindows.length === 0 || !timezoneValid}
+          onClick={() => save({ timezone: timezone.trim(), windows: validWindows })}
+        >
+          Save schedule
+        </Button>
+        {schedule && (
+          <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => save(null)}>
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Upload, X } from "lucide-react";
+import { toast } from "sonner";
+import { trackExportService, TrackExportFormat } from "@/services/location/TrackExportService";
+import { ImportedTrack, readGpxFile } from "@/services/location/GpxImportService";
+
+interface TrackFilesPanelProps {
+  organizationId: string;
+  selectedMember: string;
+  memberNames: Record<string, string>;
+  referenceTracks: ImportedTrack[];
+  onReferenceTracksChange: (tracks: ImportedTrack[]) => void;
+}
+
+const toDateInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+};
+
+export const TrackFilesPanel = ({
+  organizationId,
+  selectedMember,
+  memberNames,
+  referenceTracks,
+  onReferenceTracksChange
+}: TrackFilesPanelProps) => {
+  const [format, setFormat] = useState<TrackExportFormat>('gpx');
+  const [scope, setScope] = useState<'member' | 'organization'>('organization');
+  const [fromDay, setFromDay] = useState(() => toDateInputValue(new Date()));
+  const [toDay, setToDay] = useState(() => toDateInputValue(new Date()));
+  const [isExporting, setIsExporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const exportMember = scope === 'member' && selectedMember ? selectedMember : undefined;
+
+  const handleExport = async () => {
+    const from = new Date(`${fromDay}T00:00:00`).getTime();
+    const to = new Date(`${toDay}T23:59:59.999`).getTime();
+    if (isNaN(from) || isNaN(to) || from > to) {
+      toast.error('Choose a valid date range');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const pointCount = await trackExportService.downloadExport(format, {
+        organizationId,
+        memberId: exportMember,
+        memberNames,
+        from,
+        to
+      });
+      if (pointCount === 0) {
+        toast.warning('No recorded locations in this range');
+      } else {
+        toast.success(`Exported ${pointCount} locations`);
+      }
+    } catch (error) {
+      console.error('Track export failed:', error);
+      toast.error('Failed to export tracks');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const tracks = await readGpxFile(file, organizationId);
+      if (tracks.length === 0) {
+        toast.error('No tracks found in this GPX file');
+        return;
+      }
+      onReferenceTracksChange(tracks);
+      toast.success(`Loaded ${tracks.length} reference track${tracks.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('GPX import failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import GPX file');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="mt-4 space-y-3 border-t pt-4">
+      <div className="text-sm font-medium text-gray-900">Track files</div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Input type="date" value={fromDay} onChange={(e) => setFromDay(e.target.value)} />
+        <Input type="date" value={toDay} onChange={(e) => setToDay(e.target.value)} />
+        <Select value={scope} onValueChange={(value) => setScope(value as 'member' | 'organization')}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="organization">All members</SelectItem>
+            <SelectItem value="member" disabled={!selectedMember}>Selected member</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={format} onValueChange={(value) => setFormat(value as TrackExportFormat)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="gpx">GPX 1.1</SelectItem>
+            <SelectItem value="kml">KML</SelectItem>
+            <SelectItem value="geojson">GeoJSON</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex space-x-2">
+        <Button size="sm" onClick={handleExport} disabled={isExporting || !organizationId}>
+          <Download className="w-4 h-4 mr-2" />
+          {isExporting ? 'Exporting...' : 'Export'}
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="w-4 h-4 mr-2" />
+          Import GPX overlay
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".gpx,application/gpx+xml"
+          className="hidden"
+          onChange={(e) => handleImport(e.target.files?.[0])}
+        />
+      </div>
+
+      {referenceTracks.length > 0 && (
+        <div className="flex items-center justify-between text-xs text-gray-600">
+          <span>
+            Overlay: {referenceTracks.map(track => track.name).join(', ')}
+          </span>
+          <Button size="sm" variant="ghost" onClick={() => onReferenceTracksChange([])}>
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Play, Pause, History } from "lucide-react";
+import { GeoPoint } from "@/services/location/geo";
+import { PLAYBACK_SPEEDS } from "@/hooks/useTrailPlayback";
+import { TrackMode } from "@/services/location/LocationHistoryService";
+
+interface TrailPlaybackProps {
+  memberName: string;
+  day: string;
+  onDayChange: (day: string) => void;
+  pointCount: number;
+  rejectedCount: number;
+  trackMode: TrackMode;
+  onTrackModeChange: (mode: TrackMode) => void;
+  isLoading: boolean;
+  currentTime: number;
+  startTime: number;
+  endTime: number;
+  position: GeoPoint | null;
+  isPlaying: boolean;
+  speed: number;
+  onTogglePlaying: () => void;
+  onSeek: (time: number) => void;
+  onSeekToClockTime: (clock: string) => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const TrailPlayback = ({
+  memberName,
+  day,
+  onDayChange,
+  pointCount,
+  rejectedCount,
+  trackMode,
+  onTrackModeChange,
+  isLoading,
+  currentTime,
+  startTime,
+  endTime,
+  position,
+  isPlaying,
+  speed,
+  onTogglePlaying,
+  onSeek,
+  onSeekToClockTime,
+  onSpeedChange
+}: TrailPlaybackProps) => {
+  const hasTrack = pointCount > 1;
+  const beforeFirstFix = pointCount > 0 && currentTime < startTime;
+  const afterLastFix = pointCount > 0 && currentTime > endTime;
+
+  return (
+    <div className="mt-4 space-y-3 border-t pt-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center text-sm font-medium text-gray-900">
+          <History className="w-4 h-4 mr-2" />
+          Trail of {memberName}
+        </div>
+        <span className="text-xs text-gray-500">
+          {isLoading ? 'Loading...' : `${pointCount} fixes`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <Input type="date" value={day} onChange={(e) => onDayChange(e.target.value)} />
+        <Input
+          type="time"
+          disabled={pointCount === 0}
+          onChange={(e) => e.target.value && onSeekToClockTime(e.target.value)}
+        />
+        <Select value={String(speed)} onValueChange={(value) => onSpeedChange(Number(value))}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PLAYBACK_SPEEDS.map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                {option}x
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="trail-raw-fixes"
+          checked={trackMode === 'raw'}
+          onCheckedChange={(checked) => onTrackModeChange(checked ? 'raw' : 'filtered')}
+        />
+        <Label htmlFor="trail-raw-fixes" className="text-xs text-gray-600">
+          Show raw fixes{rejectedCount > 0 ? ` (${rejectedCount} filtered out)` : ''}
+        </Label>
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <Button size="sm" variant="outline" onClick={onTogglePlaying} disabled={!hasTrack}>
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </Button>
+        <Slider
+          min={startTime}
+          max={Math.max(endTime, startTime + 1)}
+          step={1000}
+          value={[Math.min(Math.max(currentTime, startTime), Math.max(endTime, startTime + 1))]}
+          onValueChange={([value]) => onSeek(value)}
+          disabled={!hasTrack}
+        />
+      </div>
+
+      {pointCount === 0 && !isLoading && (
+        <p className="text-xs text-gray-500">No recorded locations for this day.</p>
+      )}
+      {pointCount > 0 && (
+        <p className="text-xs text-gray-600">
+          <span className="font-medium">{formatClock(currentTime)}</span>
+          {' — '}
+          {beforeFirstFix && 'No fix recorded yet at this time'}
+          {afterLastFix && position && `Last known at ${position.latitude.toFixed(5)}, ${position.longitude.toFixed(5)}`}
+          {!beforeFirstFix && !afterLastFix && position && `${position.latitude.toFixed(5)}, ${position.longitude.toFixed(5)}`}
+        </p>
+      )}
+    </div>
+  );
+};
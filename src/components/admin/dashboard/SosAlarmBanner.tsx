@@ -0,0 +1,68 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Siren, MapPin, Check, X } from "lucide-react";
+import { useSosAlarms } from "@/hooks/useSosAlarms";
+import { SosAlarm } from "@/services/sos/SosAlertService";
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const channelLabels: Record<SosAlarm['channels'][number], string> = {
+  data_channel: 'WebRTC',
+  signaling: 'Signaling',
+  mini_server: 'Mini server',
+  mesh: 'Mesh relay',
+};
+
+export const SosAlarmBanner = () => {
+  const { alarms, acknowledge, dismiss } = useSosAlarms();
+
+  if (alarms.length === 0) return null;
+
+  return (
+    <div className="sticky top-0 z-50">
+      {alarms.map(({ alert, ack, channels }) => (
+        <div
+          key={alert.id}
+          role="alert"
+          className={ack ? "bg-red-100 text-red-900 border-b border-red-200" : "bg-red-600 text-white border-b border-red-700 animate-pulse"}
+        >
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between gap-4">
+            <div className="flex items-center space-x-3">
+              <Siren className="w-6 h-6 shrink-0" />
+              <div>
+                <p className="font-semibold">
+                  SOS from {alert.userId} at {formatTime(alert.triggeredAt)}
+                  {ack && <span className="font-normal"> — acknowledged at {formatTime(ack.acknowledgedAt)}</span>}
+                </p>
+                <p className="text-sm flex items-center">
+                  <MapPin className="w-3 h-3 mr-1" />
+                  {alert.latitude !== null && alert.longitude !== null
+                    ? `${alert.latitude.toFixed(5)}, ${alert.longitude.toFixed(5)}${alert.accuracy ? ` (±${Math.round(alert.accuracy)} m)` : ''} as of ${formatTime(alert.timestamp)}`
+                    : 'Location unknown'}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              {channels.map(channel => (
+                <Badge key={channel} variant="outline" className={ack ? "border-red-300" : "border-white text-white"}>
+                  {channelLabels[channel]}
+                </Badge>
+              ))}
+              {ack ? (
+                <Button size="sm" variant="ghost" onClick={() => dismiss(alert.id)}>
+                  <X className="w-4 h-4" />
+                </Button>
+              ) : (
+                <Button size="sm" variant="secondary" onClick={() => acknowledge(alert.id)}>
+                  <Check className="w-4 h-4 mr-1" />
+                  Acknowledge
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -5,7 +5,13 @@ import { OrganizationSelector } from "../OrganizationSelector";
 import { SetupConnectionCard } from "../SetupConnectionCard";
 import { MapSection } from "../MapSection";
 import { MembersList } from "../MembersList";
+import { ConversationPane } from "../ConversationPane";
+import { GeofenceManager } from "../GeofenceManager";
 import { PeerConnection } from "@/services/WebRTCService";
+import { Geofence } from "@/lib/localDb";
+import { GeofenceDraft } from "@/hooks/useGeofences";
+import { GeoPoint } from "@/services/location/geo";
+import { MemberScheduleState } from "@/hooks/useSharingSchedules";
 
 interface Organization {
   id: string;
@@ -37,6 +43,14 @@ interface MemberTrackerContentProps {
   onMemberSelect: (memberId: string) => void;
   onStartServer: () => void;
   getReconnectionStatusForMember: (memberId: string) => { isReconnecting: boolean; attempt: number; maxAttempts: number };
+  geofences: Geofence[];
+  draftGeofence: GeofenceDraft | null;
+  onStartGeofenceDrawing: (shape: Geofence['shape']) => void;
+  onCancelGeofenceDrawing: () => void;
+  onAddGeofencePoint: (point: GeoPoint) => void;
+  onSaveGeofence: (name: string, radiusMeters: number, dwellMinutes: number) => Promise<boolean>;
+  onRemoveGeofence: (zoneId: string) => void;
+  scheduleStates: Record<string, MemberScheduleState>;
 }
 
 export const MemberTrackerContent = ({
@@ -52,7 +66,15 @@ export const MemberTrackerContent = ({
   onMemberChange,
   onMemberSelect,
   onStartServer,
-  getReconnectionStatusForMember
+  getReconnectionStatusForMember,
+  geofences,
+  draftGeofence,
+  onStartGeofenceDrawing,
+  onCancelGeofenceDrawing,
+  onAddGeofencePoint,
+  onSaveGeofence,
+  onRemoveGeofence,
+  scheduleStates
 }: MemberTrackerContentProps) => {
   return (
     <>
@@ -73,21 +95,39 @@ export const MemberTrackerContent = ({
         <div className="grid lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2">
             <MapSection
+              organizationId={selectedOrg}
               members={members}
               connectedPeers={connectedPeers}
               selectedMember={selectedMember}
               webRTCStatus={webRTCStatus}
               onMemberSelect={onMemberSelect}
+              geofences={geofences}
+              draftGeofence={draftGeofence}
+              onMapClick={draftGeofence ? onAddGeofencePoint : undefined}
             />
           </div>
 
-          <div>
+          <div className="space-y-6">
             <MembersList
               members={members}
               selectedMember={selectedMember}
               webRTCStatus={webRTCStatus}
               onMemberSelect={onMemberSelect}
               getReconnectionStatusForMember={getReconnectionStatusForMember}
+              scheduleStates={scheduleStates}
+            />
+            <ConversationPane
+              organizationId={selectedOrg}
+              members={members}
+              selectedMember={selectedMember}
+            />
+            <GeofenceManager
+              zones={geofences}
+              draft={draftGeofence}
+              onStartDrawing={onStartGeofenceDrawing}
+              onCancelDrawing={onCancelGeofenceDrawing}
+              onSaveDraft={onSaveGeofence}
+              onRemoveZone={onRemoveGeofence}
             />
           </div>
         </div>
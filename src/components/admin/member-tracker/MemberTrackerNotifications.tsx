@@ -1,7 +1,10 @@
 
 import { Card, CardContent } from "@/components/ui/card";
-import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { RefreshCw, LogIn, LogOut, Timer, X, Users, UserX } from "lucide-react";
 import { ConnectionStatusCard } from "../ConnectionStatusCard";
+import { GeofenceEvent } from "@/services/location/GeofenceService";
+import { ProximityAlert } from "@/services/location/ProximityRules";
 
 interface MemberTrackerNotificationsProps {
   autoReconnectionStarted: boolean;
@@ -11,8 +14,30 @@ interface MemberTrackerNotificationsProps {
   reconnectAttempts: number;
   detailedReconnectionStatus: Map<string, any>;
   onForceReconnect: () => void;
+  geofenceEvents: GeofenceEvent[];
+  onDismissGeofenceEvent: (eventId: string) => void;
+  onClearGeofenceEvents: () => void;
+  proximityAlerts: ProximityAlert[];
+  onDismissProximityAlert: (alertId: string) => void;
+  onClearProximityAlerts: () => void;
 }
 
+const geofenceEventStyles = {
+  enter: { icon: LogIn, label: 'entered', className: 'text-green-700' },
+  exit: { icon: LogOut, label: 'left', className: 'text-gray-700' },
+  dwell: { icon: Timer, label: 'is dwelling in', className: 'text-blue-700' }
+};
+
+const proximityAlertStyles = {
+  proximity: { icon: Users, label: 'are within', className: 'text-orange-700' },
+  buddy: { icon: UserX, label: 'are apart by', className: 'text-red-700' }
+};
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
 export const MemberTrackerNotifications = ({
   autoReconnectionStarted,
   storedClientCount,
@@ -20,7 +45,13 @@ export const MemberTrackerNotifications = ({
   isReconnecting,
   reconnectAttempts,
   detailedReconnectionStatus,
-  onForceReconnect
+  onForceReconnect,
+  geofenceEvents,
+  onDismissGeofenceEvent,
+  onClearGeofenceEvents,
+  proximityAlerts,
+  onDismissProximityAlert,
+  onClearProximityAlerts
 }: MemberTrackerNotificationsProps) => {
   return (
     <>
@@ -44,6 +75,76 @@ export const MemberTrackerNotifications = ({
         detailedReconnectionStatus={detailedReconnectionStatus}
         onForceReconnect={onForceReconnect}
       />
+
+      {geofenceEvents.length > 0 && (
+        <Card className="border-indigo-200 bg-indigo-50">
+          <CardContent className="py-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-indigo-900">Zone activity</span>
+              <Button variant="ghost" size="sm" onClick={onClearGeofenceEvents}>
+                Clear all
+              </Button>
+            </div>
+            {geofenceEvents.map((event) => {
+              const style = geofenceEventStyles[event.type];
+              const Icon = style.icon;
+              return (
+                <div key={event.id} className="flex items-center space-x-2 text-sm">
+                  <Icon className={`w-4 h-4 ${style.className}`} />
+                  <span className={style.className}>
+                    User {event.memberId.slice(-4)} {style.label} <strong>{event.zoneName}</strong>
+                    {event.dwellMs ? ` (${formatDuration(event.dwellMs)})` : ''}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {new Date(event.timestamp).toLocaleTimeString()}
+                  </span>
+                  <button
+                    onClick={() => onDismissGeofenceEvent(event.id)}
+                    className="ml-auto text-gray-400 hover:text-gray-600"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      {proximityAlerts.length > 0 && (
+        <Card className="border-orange-200 bg-orange-50">
+          <CardContent className="py-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-orange-900">Proximity alerts</span>
+              <Button variant="ghost" size="sm" onClick={onClearProximityAlerts}>
+                Clear all
+              </Button>
+            </div>
+            {proximityAlerts.map((alert) => {
+              const style = proximityAlertStyles[alert.type];
+              const Icon = style.icon;
+              return (
+                <div key={alert.id} className="flex items-center space-x-2 text-sm">
+                  <Icon className={`w-4 h-4 ${style.className}`} />
+                  <span className={style.className}>
+                    User {alert.memberA.slice(-4)} and User {alert.memberB.slice(-4)} {style.label}{' '}
+                    <strong>{alert.distanceMeters} m</strong> (limit {alert.thresholdMeters} m)
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {new Date(alert.timestamp).toLocaleTimeString()}
+                  </span>
+                  <button
+                    onClick={() => onDismissProximityAlert(alert.id)}
+                    className="ml-auto text-gray-400 hover:text-gray-600"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
     </>
   );
 };
@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Inbox } from "lucide-react";
+import { ChatThread } from "@/components/ChatThread";
+import { useMessaging } from "@/hooks/useMessaging";
+import { messagingService } from "@/services/messaging/MessagingService";
+import { locationService } from "@/services/LocationService";
+import { webRTCService } from "@/services/WebRTCService";
+
+interface MemberInboxProps {
+  onBack: () => void;
+}
+
+export const MemberInbox = ({ onBack }: MemberInboxProps) => {
+  const [organizationId] = useState(() => locationService.getTrackingSession()?.organizationId);
+  const { messages, queuedNotice, markRead } = useMessaging(organizationId);
+  const [adminId, setAdminId] = useState<string | undefined>(() => webRTCService.getConnectedPeers()[0]?.id);
+
+  useEffect(() => {
+    const listener = (event: CustomEvent<{ peerId: string; isServer: boolean }>) => setAdminId(event.detail.peerId);
+    window.addEventListener('webrtc-data-channel-open', listener as EventListener);
+    return () => window.removeEventListener('webrtc-data-channel-open', listener as EventListener);
+  }, []);
+
+  // Offline, replies go to whoever last wrote and wait in the queue
+  const lastIncoming = [...messages].reverse().find(message => message.direction === 'incoming');
+  const replyTo = adminId || lastIncoming?.senderId;
+  const replyOrg = organizationId || lastIncoming?.organizationId;
+
+  return (
+    <div className="max-w-md mx-auto">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center space-x-4">
+            <Button variant="ghost" size="sm" onClick={onBack}>
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <CardTitle className="flex items-center">
+              <Inbox className="w-5 h-5 mr-2" />
+              Inbox
+            </CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <ChatThread
+            messages={messages}
+            onSend={replyTo && replyOrg ? text => messagingService.sendDirect(replyOrg, replyTo, text) : undefined}
+            onRead={markRead}
+            placeholder="Message your admin"
+            emptyText="No messages from your organization yet"
+            notice={replyTo ? queuedNotice : 'Join an organization to message its admin'}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import { useState, useEffect, useId } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ShieldCheck, Plus, Trash2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Geolocation } from "@capacitor/geolocation";
+import { privacyZoneService, PrivacyZone, PrivacyZoneMode } from "@/services/location/PrivacyZones";
+
+const MODE_LABELS: Record<PrivacyZoneMode, string> = {
+  suppress: 'Hide location',
+  snap_to_edge: 'Snap to zone edge',
+  coarse_grid: 'Coarse area (~1 km)'
+};
+
+export const PrivacyZonesManager = () => {
+  const [zones, setZones] = useState<PrivacyZone[]>(() => privacyZoneService.getZones());
+  const [name, setName] = useState('');
+  const [radius, setRadius] = useState('200');
+  const [mode, setMode] = useState<PrivacyZoneMode>('suppress');
+  const [isAdding, setIsAdding] = useState(false);
+  const nameId = useId();
+  const radiusId = useId();
+
+  useEffect(() => {
+    setZones(privacyZoneService.getZones());
+    return privacyZoneService.onZonesChange(setZones);
+  }, []);
+
+  const radiusMeters = Number(radius);
+  const canAdd = name.trim().length > 0 && radiusMeters >= 50 && radiusMeters <= 5000;
+
+  const addCurrentLocation = async () => {
+    setIsAdding(true);
+    try {
+      const position = await Geolocation.getCurrentPosition({ enableHighAccuracy: true, timeout: 10000 });
+      privacyZoneService.addZone({
+        name: name.trim(),
+        center: { latitude: position.coords.latitude, longitude: position.coords.longitude },
+        radiusMeters,
+        mode
+      });
+      setName('');
+      toast.success('Private zone added');
+    } catch (error) {
+      console.error('Failed to add private zone:', error);
+      toast.error('Could not get your current location');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg">
+      <div>
+        <p className="font-medium flex items-center">
+          <ShieldCheck className="w-5 h-5 mr-2" />
+          Private zones
+        </p>
+        <p className="text-xs text-gray-600 mt-1">
+          Stored only on this device. Inside a zone your admin just sees "in private zone".
+        </p>
+      </div>
+
+      {zones.map(zone => (
+        <div key={zone.id} className="flex items-center justify-between p-2 bg-gray-50 rounded-md">
+          <div>
+            <p className="text-sm font-medium">{zone.name}</p>
+            <p className="text-xs text-gray-600">{zone.radiusMeters} m</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Badge variant="outline" className="text-xs">{MODE_LABELS[zone.mode]}</Badge>
+            <Button variant="ghost" size="sm" onClick={() => privacyZoneService.removeZone(zone.id)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor={nameId} className="text-xs">Name</Label>
+          <Input id={nameId} value={name} onChange={(e) => setName(e.target.value)} placeholder="Home" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={radiusId} className="text-xs">Radius (m)</Label>
+          <Input id={radiusId} type="number" min={50} max={5000} value={radius} onChange={(e) => setRadius(e.target.value)} />
+        </div>
+      </div>
+      <Select value={mode} onValueChange={(value) => setMode(value as PrivacyZoneMode)}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(MODE_LABELS) as PrivacyZoneMode[]).map(key => (
+            <SelectItem key={key} value={key}>{MODE_LABELS[key]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" size="sm" className="w-full" disabled={!canAdd || isAdding} onClick={addCurrentLocation}>
+        {isAdding ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Plus className="w-4 h-4 mr-1" />}
+        Add current location as private zone
+      </Button>
+    </div>
+  );
+};
@@ -40,14 +40,41 @@ export const QRScannerComponent = ({ onQRScanned, onClose, onJoinRequestSubmitte
       if (msg.type === 'join_response') {
         console.log('[CLIENT] Received join response:', msg);
       }
+      if (msg.type === 'sos_ack') {
+        window.dispatchEvent(new CustomEvent('webrtc-sos-ack', { detail: msg.data }));
+      }
       if (msg.type === 'offer') {
         console.log('[CLIENT] Received offer:', msg);
+        // The admin's dedicated connection for this member
+        webRTCService.connectToServer({
+          type: 'webrtc_server_offer',
+          offer: msg.data.sdp,
+          adminId: msg.fromPeerId,
+          organizationId: msg.data.organizationId,
+          organizationName: msg.data.organizationName,
+          timestamp: Date.now(),
+          serverIp: 'unknown'
+        }, clientId, clientId).catch(error => {
+          console.error('[CLIENT] Failed to answer admin offer:', error);
+        });
+      }
+      if (msg.type === 'new-offer') {
+        webRTCService.handleAdminDescription(msg.fromPeerId, msg.data.offer, msg.data.deviceId);
+      }
+      if (msg.type === 'new-answer') {
+        // Our own renegotiation offer, answered over the socket
+        webRTCService.handleAdminDescription(msg.fromPeerId, msg.data.answer, msg.data.deviceId);
       }
       if (msg.type === 'answer') {
         console.log('[CLIENT] Received answer:', msg);
       }
       if (msg.type === 'ice-candidate') {
         console.log('[CLIENT] Received ICE candidate:', msg);
+        webRTCService.addAdminIceCandidate(msg.data.candidate);
+      }
+      if (msg.type === 'mesh-offer' || msg.type === 'mesh-answer' || msg.type === 'mesh-ice-candidate') {
+        // Another member linking up for the mesh relay
+        webRTCService.handleMeshLinkSignal(msg);
       }
     }, clientId);
 
@@ -0,0 +1,76 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Siren, CheckCircle2, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { sosService, SosState } from "@/services/sos/SosService";
+
+export const SosButton = () => {
+  const [state, setState] = useState<SosState>(() => sosService.getState());
+  const [isTriggering, setIsTriggering] = useState(false);
+
+  useEffect(() => {
+    setState(sosService.getState());
+    return sosService.onStateChange(setState);
+  }, []);
+
+  const handleTrigger = async () => {
+    setIsTriggering(true);
+    try {
+      await sosService.trigger();
+    } catch (error) {
+      console.error('Failed to send SOS:', error);
+      toast.error('Could not send SOS. Retrying in the background.');
+    } finally {
+      setIsTriggering(false);
+    }
+  };
+
+  const { alert, ack, lastChannels } = state;
+
+  if (alert && ack) {
+    return (
+      <div className="bg-green-50 border border-green-200 p-4 rounded-lg space-y-2">
+        <p className="text-green-900 font-medium flex items-center">
+          <CheckCircle2 className="w-5 h-5 mr-2" />
+          Help is on the way
+        </p>
+        <p className="text-green-700 text-sm">
+          Your admin acknowledged the SOS at {new Date(ack.acknowledgedAt).toLocaleTimeString()}.
+        </p>
+        <Button variant="outline" size="sm" onClick={() => sosService.dismiss()}>
+          Dismiss
+        </Button>
+      </div>
+    );
+  }
+
+  if (alert) {
+    return (
+      <div className="bg-red-50 border border-red-300 p-4 rounded-lg space-y-1">
+        <p className="text-red-900 font-medium flex items-center">
+          <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+          SOS sent — waiting for your admin
+        </p>
+        <p className="text-red-700 text-sm">
+          Attempt {alert.attempt}
+          {lastChannels.length > 0
+            ? `, delivered via ${lastChannels.length} path${lastChannels.length > 1 ? 's' : ''}`
+            : ', no connection yet'}
+          . We keep retrying until it is acknowledged.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <Button
+      variant="destructive"
+      className="w-full h-16 text-lg font-bold"
+      onClick={handleTrigger}
+      disabled={isTriggering}
+    >
+      <Siren className="w-6 h-6 mr-2" />
+      SOS
+    </Button>
+  );
+};
@@ -4,6 +4,7 @@ import { connectToSignalingServer } from "@/services/webrtc/SignalingService";
 import { toast } from "sonner";
 import { JoinRequest } from "@/components/admin/JoinRequests";
 import { appConfig } from "@/config/appConfig";
+import { sosAlertService } from "@/services/sos/SosAlertService";
 
 interface UseAdminDashboardEventsProps {
   onJoinRequest: (request: JoinRequest) => void;
@@ -73,14 +74,27 @@ export const useAdminDashboardEvents = ({ onJoinRequest }: UseAdminDashboardEven
         if (msg.type === 'join_request') {
           console.log('[ADMIN] Handling join request:', msg);
         }
+        if (msg.type === 'sos') {
+          sosAlertService.receive(msg.data, 'signaling', msg.fromPeerId);
+        }
         if (msg.type === 'offer') {
           console.log('[ADMIN] Received offer:', msg);
         }
         if (msg.type === 'answer') {
           console.log('[ADMIN] Received answer:', msg);
+          webRTCService.handleMemberAnswer(msg.fromPeerId, msg.data.sdp, msg.data.deviceId);
+        }
+        if (msg.type === 'new-offer') {
+          // The member renegotiating on its own, e.g. after its network failed
+          webRTCService.handleMemberDescription(msg.fromPeerId, msg.data.offer, msg.data.deviceId);
+        }
+        if (msg.type === 'new-answer') {
+          // Renegotiation answered over the socket because the member's data channel had stalled
+          webRTCService.handleMemberDescription(msg.fromPeerId, msg.data.answer, msg.data.deviceId);
         }
         if (msg.type === 'ice-candidate') {
           console.log('[ADMIN] Received ICE candidate:', msg);
+          webRTCService.addMemberIceCandidate(msg.fromPeerId, msg.data.candidate);
         }
       }, adminId);
       console.log('AdminDashboard: Setting up join request listeners');
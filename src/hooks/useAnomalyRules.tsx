@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import { anomalyRules, AnomalyRule, AnomalyAlert } from '@/services/location/AnomalyRules';
+
+export const useAnomalyRules = (organizationId: string) => {
+  const [rules, setRules] = useState<AnomalyRule[]>([]);
+  const [alerts, setAlerts] = useState<AnomalyAlert[]>([]);
+
+  useEffect(() => {
+    setRules([]);
+    setAlerts([]);
+    if (!organizationId) return;
+
+    let cancelled = false;
+    anomalyRules.loadRules(organizationId).then(loaded => {
+      if (!cancelled) setRules(loaded);
+    });
+
+    // The engine follows the organization the WebRTC server was started for
+    const showAlerts = (all: AnomalyAlert[]) => setAlerts(all.filter(alert => alert.organizationId === organizationId));
+    showAlerts(anomalyRules.getAlerts());
+    const unsubscribe = anomalyRules.onAlertsChange(showAlerts);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [organizationId]);
+
+  const saveRules = useCallback(async (next: AnomalyRule[]) => {
+    if (!organizationId) return;
+    try {
+      await anomalyRules.saveRules(organizationId, next);
+      setRules(next);
+    } catch (error) {
+      console.error('Failed to save anomaly rules:', error);
+      throw error;
+    }
+  }, [organizationId]);
+
+  const addRule = useCallback((rule: Omit<AnomalyRule, 'id' | 'createdAt' | 'enabled'>) => saveRules([
+    ...rules,
+    {
+      ...rule,
+      id: `anomaly_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      enabled: true,
+      createdAt: Date.now()
+    }
+  ]), [rules, saveRules]);
+
+  const updateRule = useCallback((id: string, changes: Partial<AnomalyRule>) => saveRules(
+    rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule)
+  ), [rules, saveRules]);
+
+  const removeRule = useCallback((id: string) => saveRules(rules.filter(rule => rule.id !== id)), [rules, saveRules]);
+
+  const acknowledgeAlert = useCallback((alertId: string) => {
+    anomalyRules.acknowledge(alertId, localStorage.getItem('adminId') || 'admin');
+  }, []);
+
+  const resolveAlert = useCallback((alertId: string) => {
+    anomalyRules.resolve(alertId, localStorage.getItem('adminId') || 'admin');
+  }, []);
+
+  const clearResolved = useCallback(() => anomalyRules.clearResolved(), []);
+
+  return {
+    rules,
+    alerts,
+    addRule,
+    updateRule,
+    removeRule,
+    acknowledgeAlert,
+    resolveAlert,
+    clearResolved,
+  };
+};
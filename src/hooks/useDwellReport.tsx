@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Geofence } from '@/lib/localDb';
+import { DwellReport, DEFAULT_STOP_OPTIONS, getDailyDwellReport } from '@/services/location/StopDetection';
+
+const toDateInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+};
+
+export const useDwellReport = (organizationId: string, memberId: string, zones: Geofence[]) => {
+  const [day, setDay] = useState(() => toDateInputValue(new Date()));
+  const [radiusMeters, setRadiusMeters] = useState(DEFAULT_STOP_OPTIONS.radiusMeters);
+  const [minMinutes, setMinMinutes] = useState(DEFAULT_STOP_OPTIONS.minDurationMs / 60000);
+  const [report, setReport] = useState<DwellReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    if (!organizationId || !memberId) {
+      setReport(null);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await getDailyDwellReport(organizationId, memberId, new Date(`${day}T00:00:00`), zones, {
+        ...DEFAULT_STOP_OPTIONS,
+        radiusMeters: Math.max(radiusMeters, 10),
+        minDurationMs: Math.max(minMinutes, 1) * 60000
+      });
+      setReport(result);
+    } catch (error) {
+      console.error('Failed to build dwell report:', error);
+      setReport(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [organizationId, memberId, day, zones, radiusMeters, minMinutes]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  // Today's report grows while members keep moving
+  useEffect(() => {
+    if (day !== toDateInputValue(new Date())) return;
+    window.addEventListener('location-history-updated', loadReport);
+    return () => window.removeEventListener('location-history-updated', loadReport);
+  }, [day, loadReport]);
+
+  return {
+    day,
+    setDay,
+    radiusMeters,
+    setRadiusMeters,
+    minMinutes,
+    setMinMinutes,
+    report,
+    isLoading,
+    reload: loadReport,
+  };
+};
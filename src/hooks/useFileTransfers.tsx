@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { fileTransferService, FileTransfer } from '@/services/files/FileTransferService';
+import { gracefulDegradationManager, DegradationLevel } from '@/services/webrtc/GracefulDegradationManager';
+
+export const useFileTransfers = (peerId?: string) => {
+  const [transfers, setTransfers] = useState<FileTransfer[]>(() => fileTransferService.getTransfers());
+  const [connectedPeers, setConnectedPeers] = useState<string[]>(() => fileTransferService.getConnectedPeers());
+  const [available, setAvailable] = useState(() => gracefulDegradationManager.isFeatureAvailable('fileTransfer'));
+
+  useEffect(() => fileTransferService.onTransfersChange(next => {
+    setTransfers(next);
+    setConnectedPeers(fileTransferService.getConnectedPeers());
+  }), []);
+
+  useEffect(() => {
+    const listener = (event: CustomEvent<DegradationLevel>) => setAvailable(event.detail.features.fileTransfer);
+    window.addEventListener('webrtc-degradation-change', listener as EventListener);
+    return () => window.removeEventListener('webrtc-degradation-change', listener as EventListener);
+  }, []);
+
+  const sendFile = useCallback(async (file: File) => {
+    if (!peerId) throw new Error('No recipient selected');
+    return fileTransferService.sendFile(peerId, file, file.name);
+  }, [peerId]);
+
+  const cancel = useCallback((transferId: string) => fileTransferService.cancel(transferId), []);
+  const dismiss = useCallback((transferId: string) => fileTransferService.dismiss(transferId), []);
+
+  return {
+    transfers: peerId ? transfers.filter(transfer => transfer.peerId === peerId) : transfers,
+    connectedPeers,
+    canSend: available && !!peerId && connectedPeers.includes(peerId),
+    unavailableReason: available ? null : gracefulDegradationManager.getFeatureMessage('fileTransfer'),
+    sendFile,
+    cancel,
+    dismiss,
+  };
+};
@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Geofence, saveGeofence, deleteGeofence } from '@/lib/localDb';
+import { geofenceService, GeofenceEvent } from '@/services/location/GeofenceService';
+import { GeoPoint } from '@/services/location/geo';
+
+export interface GeofenceDraft {
+  shape: Geofence['shape'];
+  center?: GeoPoint;
+  vertices: GeoPoint[];
+}
+
+const MAX_EVENTS = 20;
+
+export const useGeofences = (organizationId: string) => {
+  const [zones, setZones] = useState<Geofence[]>([]);
+  const [events, setEvents] = useState<GeofenceEvent[]>([]);
+  const [draft, setDraft] = useState<GeofenceDraft | null>(null);
+
+  useEffect(() => {
+    setZones([]);
+    setEvents([]);
+    setDraft(null);
+    if (!organizationId) return;
+
+    let cancelled = false;
+    geofenceService.loadZones(organizationId).then(loaded => {
+      if (!cancelled) setZones(loaded);
+    });
+
+    const unsubscribe = geofenceService.onGeofenceEvent(event => {
+      if (event.organizationId !== organizationId) return;
+      setEvents(prev => [event, ...prev].slice(0, MAX_EVENTS));
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [organizationId]);
+
+  const startDrawing = useCallback((shape: Geofence['shape']) => {
+    setDraft({ shape, vertices: [] });
+  }, []);
+
+  const cancelDrawing = useCallback(() => {
+    setDraft(null);
+  }, []);
+
+  const addDraftPoint = useCallback((point: GeoPoint) => {
+    setDraft(current => {
+      if (!current) return current;
+      if (current.shape === 'circle') {
+        return { ...current, center: point };
+      }
+      return { ...current, vertices: [...current.vertices, point] };
+    });
+  }, []);
+
+  const saveDraft = useCallback(async (name: string, radiusMeters: number, dwellMinutes: number) => {
+    if (!draft || !organizationId) return false;
+    if (draft.shape === 'circle' && (!draft.center || radiusMeters <= 0)) return false;
+    if (draft.shape === 'polygon' && draft.vertices.length < 3) return false;
+
+    const zone: Geofence = {
+      id: `zone_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      organizationId,
+      name: name.trim() || 'Unnamed zone',
+      shape: draft.shape,
+      center: draft.shape === 'circle' ? draft.center : undefined,
+      radiusMeters: draft.shape === 'circle' ? radiusMeters : undefined,
+      vertices: draft.shape === 'polygon' ? draft.vertices : undefined,
+      dwellMinutes: Math.max(1, dwellMinutes),
+      createdAt: Date.now()
+    };
+
+    await saveGeofence(zone);
+    const updated = [...zones, zone];
+    geofenceService.setZones(organizationId, updated);
+    setZones(updated);
+    setDraft(null);
+    return true;
+  }, [draft, organizationId, zones]);
+
+  const removeZone = useCallback(async (zoneId: string) => {
+    await deleteGeofence(zoneId);
+    const updated = zones.filter(zone => zone.id !== zoneId);
+    geofenceService.setZones(organizationId, updated);
+    setZones(updated);
+  }, [organizationId, zones]);
+
+  const dismissEvent = useCallback((eventId: string) => {
+    setEvents(prev => prev.filter(event => event.id !== eventId));
+  }, []);
+
+  const clearEvents = useCallback(() => {
+    setEvents([]);
+  }, []);
+
+  return {
+    zones,
+    events,
+    draft,
+    startDrawing,
+    cancelDrawing,
+    addDraftPoint,
+    saveDraft,
+    removeZone,
+    dismissEvent,
+    clearEvents,
+  };
+};
@@ -0,0 +1,70 @@
+import { useState, useEffect, useCallback } from 'react';
+import { locationHistoryService, selectTrack } from '@/services/location/LocationHistoryService';
+import { DensityCell, buildDensityGrid } from '@/services/location/MemberFeatureIndex';
+
+export const HEATMAP_RANGES = [
+  { label: 'Last hour', hours: 1 },
+  { label: 'Last 24 hours', hours: 24 },
+  { label: 'Last 7 days', hours: 24 * 7 },
+  { label: 'Last 30 days', hours: 24 * 30 },
+];
+
+// Reloads at most this often while new fixes stream in
+const RELOAD_THROTTLE_MS = 30 * 1000;
+
+export const useLocationHeatmap = (organizationId: string) => {
+  const [enabled, setEnabled] = useState(false);
+  const [rangeHours, setRangeHours] = useState(24);
+  const [cells, setCells] = useState<DensityCell[]>([]);
+  const [pointCount, setPointCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadHeatmap = useCallback(async () => {
+    if (!organizationId || !enabled) {
+      setCells([]);
+      setPointCount(0);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const to = Date.now();
+      const history = await locationHistoryService.getOrganizationHistory(organizationId, to - rangeHours * 3600 * 1000, to);
+      const points = selectTrack(history, 'filtered');
+      setCells(buildDensityGrid(points));
+      setPointCount(points.length);
+    } catch (error) {
+      console.error('Failed to load location heatmap:', error);
+      setCells([]);
+      setPointCount(0);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [organizationId, enabled, rangeHours]);
+
+  useEffect(() => {
+    loadHeatmap();
+  }, [loadHeatmap]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let lastLoad = Date.now();
+    const handleUpdate = () => {
+      if (Date.now() - lastLoad < RELOAD_THROTTLE_MS) return;
+      lastLoad = Date.now();
+      loadHeatmap();
+    };
+    window.addEventListener('location-history-updated', handleUpdate);
+    return () => window.removeEventListener('location-history-updated', handleUpdate);
+  }, [enabled, loadHeatmap]);
+
+  return {
+    enabled,
+    setEnabled,
+    rangeHours,
+    setRangeHours,
+    cells,
+    pointCount,
+    isLoading,
+  };
+};
@@ -0,0 +1,24 @@
+import { useState, useEffect, useCallback } from 'react';
+import { webRTCService } from '@/services/WebRTCService';
+import { locationPingService, summarizePing, LocationPing, LocationPingOptions } from '@/services/location/LocationPing';
+
+export const useLocationPing = () => {
+  const [ping, setPing] = useState<LocationPing | null>(() => locationPingService.getCurrent());
+
+  useEffect(() => locationPingService.onChange(setPing), []);
+
+  const pingMembers = useCallback((options: LocationPingOptions) => {
+    try {
+      webRTCService.pingMembers(options);
+    } catch (error) {
+      console.error('Failed to ping members:', error);
+      throw error;
+    }
+  }, []);
+
+  return {
+    ping,
+    summary: ping ? summarizePing(ping) : null,
+    pingMembers,
+  };
+};
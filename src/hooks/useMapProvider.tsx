@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  MapProviderSettings,
+  getOrganization,
+  updateOrganization,
+  saveMapTilesFile,
+  listMapTilesFiles,
+  deleteMapTilesFile
+} from '@/lib/localDb';
+import { checkMbtilesSize } from '@/services/map/MbtilesSource';
+
+export const useMapProvider = (organizationId: string) => {
+  const [settings, setSettings] = useState<MapProviderSettings | null>(null);
+  const [tilesFiles, setTilesFiles] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [org, files] = await Promise.all([
+        organizationId ? getOrganization(organizationId) : Promise.resolve(undefined),
+        listMapTilesFiles()
+      ]);
+      setSettings(org?.mapProvider || null);
+      setTilesFiles(files);
+    } catch (error) {
+      console.error('Failed to load map provider settings:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const saveSettings = useCallback(async (next: MapProviderSettings | null) => {
+    if (!organizationId) return;
+    await updateOrganization(organizationId, { mapProvider: next });
+    setSettings(next);
+  }, [organizationId]);
+
+  // Sideloads an MBTiles file onto this device; it's shared by every organization here
+  const importTilesFile = useCallback(async (file: File): Promise<string> => {
+    checkMbtilesSize(file.name, file.size);
+    const data = await file.arrayBuffer();
+    await saveMapTilesFile({ name: file.name, data, size: file.size, addedAt: Date.now() });
+    setTilesFiles(await listMapTilesFiles());
+    return file.name;
+  }, []);
+
+  const removeTilesFile = useCallback(async (name: string) => {
+    await deleteMapTilesFile(name);
+    setTilesFiles(await listMapTilesFiles());
+  }, []);
+
+  return {
+    settings,
+    tilesFiles,
+    isLoading,
+    saveSettings,
+    importTilesFile,
+    removeTilesFile,
+  };
+};
@@ -0,0 +1,42 @@
+import { useState, useEffect, useCallback } from 'react';
+import { messagingService } from '@/services/messaging/MessagingService';
+import { gracefulDegradationManager, DegradationLevel } from '@/services/webrtc/GracefulDegradationManager';
+import type { ChatMessage } from '@/lib/localDb';
+
+export const useMessaging = (organizationId?: string) => {
+  const [messages, setMessages] = useState<ChatMessage[]>(() => messagingService.getMessages(organizationId));
+  const [available, setAvailable] = useState(() => gracefulDegradationManager.isFeatureAvailable('instantMessaging'));
+
+  useEffect(() => {
+    setMessages(messagingService.getMessages(organizationId));
+    return messagingService.onMessagesChange(() => setMessages(messagingService.getMessages(organizationId)));
+  }, [organizationId]);
+
+  useEffect(() => {
+    const listener = (event: CustomEvent<DegradationLevel>) => setAvailable(event.detail.features.instantMessaging);
+    window.addEventListener('webrtc-degradation-change', listener as EventListener);
+    return () => window.removeEventListener('webrtc-degradation-change', listener as EventListener);
+  }, []);
+
+  const sendDirect = useCallback((peerId: string, text: string) => {
+    if (!organizationId) throw new Error('No organization selected');
+    return messagingService.sendDirect(organizationId, peerId, text);
+  }, [organizationId]);
+
+  const sendAnnouncement = useCallback((memberIds: string[], text: string) => {
+    if (!organizationId) throw new Error('No organization selected');
+    return messagingService.sendAnnouncement(organizationId, memberIds, text);
+  }, [organizationId]);
+
+  const markRead = useCallback((messageIds: string[]) => messagingService.markRead(messageIds), []);
+
+  return {
+    messages,
+    unreadCount: messages.filter(message => message.direction === 'incoming' && !message.readAt).length,
+    // Sending still works while degraded; messages wait in the queue
+    queuedNotice: available ? null : gracefulDegradationManager.getFeatureMessage('instantMessaging'),
+    sendDirect,
+    sendAnnouncement,
+    markRead,
+  };
+};
@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback } from 'react';
+import { proximityRules, ProximityRule, ProximityAlert, TrackedPosition } from '@/services/location/ProximityRules';
+
+const MAX_ALERTS = 20;
+
+export const useProximityRules = (organizationId: string, members: TrackedPosition[]) => {
+  const [rules, setRules] = useState<ProximityRule[]>([]);
+  const [alerts, setAlerts] = useState<ProximityAlert[]>([]);
+
+  useEffect(() => {
+    setRules([]);
+    setAlerts([]);
+    if (!organizationId) return;
+
+    let cancelled = false;
+    proximityRules.loadRules(organizationId).then(loaded => {
+      if (!cancelled) setRules(loaded);
+    });
+
+    const unsubscribe = proximityRules.onAlert(alert => {
+      if (alert.organizationId !== organizationId) return;
+      setAlerts(prev => [alert, ...prev].slice(0, MAX_ALERTS));
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [organizationId]);
+
+  // Every position update re-checks the pairs; cooldowns keep this from spamming
+  useEffect(() => {
+    if (!organizationId || rules.length === 0) return;
+    proximityRules.evaluate(organizationId, members);
+  }, [organizationId, members, rules]);
+
+  const saveRules = useCallback(async (next: ProximityRule[]) => {
+    if (!organizationId) return;
+    try {
+      await proximityRules.saveRules(organizationId, next);
+      setRules(next);
+    } catch (error) {
+      console.error('Failed to save proximity rules:', error);
+      throw error;
+    }
+  }, [organizationId]);
+
+  const addRule = useCallback((rule: Omit<ProximityRule, 'id' | 'createdAt' | 'enabled'>) => saveRules([
+    ...rules,
+    {
+      ...rule,
+      id: `proximity_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      enabled: true,
+      createdAt: Date.now()
+    }
+  ]), [rules, saveRules]);
+
+  const updateRule = useCallback((id: string, changes: Partial<ProximityRule>) => saveRules(
+    rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule)
+  ), [rules, saveRules]);
+
+  const removeRule = useCallback((id: string) => saveRules(rules.filter(rule => rule.id !== id)), [rules, saveRules]);
+
+  const isViolated = useCallback(
+    (ruleId: string) => proximityRules.isViolated(organizationId, ruleId),
+    [organizationId]
+  );
+
+  const dismissAlert = useCallback((alertId: string) => {
+    setAlerts(prev => prev.filter(alert => alert.id !== alertId));
+  }, []);
+
+  const clearAlerts = useCallback(() => {
+    setAlerts([]);
+  }, []);
+
+  return {
+    rules,
+    alerts,
+    addRule,
+    updateRule,
+    removeRule,
+    isViolated,
+    dismissAlert,
+    clearAlerts,
+  };
+};
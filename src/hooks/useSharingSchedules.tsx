@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Organization,
+  SharingSchedule,
+  getOrganization,
+  updateOrganization
+} from '@/lib/localDb';
+import { webRTCService } from '@/services/WebRTCService';
+import { getMemberSchedule, getScheduleStatus, ScheduleStatus, LocationSharingStatus } from '@/services/location/SharingSchedule';
+
+export interface MemberScheduleState extends ScheduleStatus {
+  schedule: SharingSchedule | null;
+  // Latest status the device itself reported, e.g. when it declined a request or entered a private zone
+  reportedStatus: ReportedSharingStatus | null;
+}
+
+export type ReportedSharingStatus = LocationSharingStatus & { receivedAt: number };
+
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+export const useSharingSchedules = (organizationId: string, memberIds: string[]) => {
+  const [organization, setOrganization] = useState<Organization | undefined>();
+  const [reports, setReports] = useState<Record<string, ReportedSharingStatus>>({});
+  const [now, setNow] = useState(() => Date.now());
+
+  const reload = useCallback(async () => {
+    if (!organizationId) {
+      setOrganization(undefined);
+      return;
+    }
+    try {
+      setOrganization(await getOrganization(organizationId));
+    } catch (error) {
+      console.error('Failed to load sharing schedules:', error);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    setReports({});
+    reload();
+  }, [reload]);
+
+  // Window edges pass without any event, so re-evaluate every minute
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const handleLocationStatus = (event: CustomEvent<ReportedSharingStatus & { peerId: string }>) => {
+      const { peerId, ...report } = event.detail || ({} as ReportedSharingStatus & { peerId: string });
+      if (!peerId || !report.status) return;
+      setReports(prev => ({ ...prev, [peerId]: report }));
+    };
+
+    window.addEventListener('webrtc-location-status', handleLocationStatus as EventListener);
+    return () => window.removeEventListener('webrtc-location-status', handleLocationStatus as EventListener);
+  }, []);
+
+  const memberKey = memberIds.join(',');
+  const states = useMemo(() => {
+    const next: Record<string, MemberScheduleState> = {};
+    memberKey.split(',').filter(Boolean).forEach(memberId => {
+      const schedule = getMemberSchedule(organization, memberId);
+      next[memberId] = {
+        schedule,
+        ...getScheduleStatus(schedule, now),
+        reportedStatus: reports[memberId] ?? null
+      };
+    });
+    return next;
+  }, [organization, memberKey, reports, now]);
+
+  const updateOrganizationSchedule = useCallback(async (schedule: SharingSchedule | null) => {
+    if (!organizationId) return;
+    await updateOrganization(organizationId, { sharingSchedule: schedule });
+    webRTCService.setSharingSchedule(organizationId, schedule);
+    await reload();
+  }, [organizationId, reload]);
+
+  const updateMemberSchedule = useCallback(async (memberId: string, schedule: SharingSchedule | null) => {
+    if (!organizationId) return;
+    await updateOrganization(organizationId, org => {
+      const members = org.members || [];
+      if (!members.some(m => m.id === memberId)) throw new Error(`Member not found: ${memberId}`);
+      return { members: members.map(m => m.id === memberId ? { ...m, sharingSchedule: schedule } : m) };
+    });
+    webRTCService.setMemberSharingSchedule(organizationId, memberId, schedule);
+    await reload();
+  }, [organizationId, reload]);
+
+  return {
+    organization,
+    states,
+    updateOrganizationSchedule,
+    updateMemberSchedule,
+  };
+};
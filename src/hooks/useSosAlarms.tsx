@@ -0,0 +1,27 @@
+import { useState, useEffect, useCallback } from 'react';
+import { sosAlertService, SosAlarm } from '@/services/sos/SosAlertService';
+
+export const useSosAlarms = () => {
+  const [alarms, setAlarms] = useState<SosAlarm[]>(() => sosAlertService.getAlarms());
+
+  useEffect(() => {
+    setAlarms(sosAlertService.getAlarms());
+    return sosAlertService.onAlarmsChange(setAlarms);
+  }, []);
+
+  const acknowledge = useCallback((alertId: string) => {
+    const adminId = localStorage.getItem('adminId') || 'admin';
+    sosAlertService.acknowledge(alertId, adminId);
+  }, []);
+
+  const dismiss = useCallback((alertId: string) => {
+    sosAlertService.dismiss(alertId);
+  }, []);
+
+  return {
+    alarms,
+    activeCount: alarms.filter(alarm => !alarm.ack).length,
+    acknowledge,
+    dismiss,
+  };
+};
@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { LocationHistoryPoint } from '@/lib/localDb';
+import { locationHistoryService, interpolatePosition, getDayRange, selectTrack, TrackMode } from '@/services/location/LocationHistoryService';
+
+const TICK_MS = 100;
+
+export const PLAYBACK_SPEEDS = [1, 10, 60, 300, 900];
+
+const toDateInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+};
+
+export const useTrailPlayback = (organizationId: string, memberId: string) => {
+  const [day, setDay] = useState(() => toDateInputValue(new Date()));
+  const [history, setHistory] = useState<LocationHistoryPoint[]>([]);
+  const [trackMode, setTrackMode] = useState<TrackMode>('filtered');
+  const [isLoading, setIsLoading] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(60);
+
+  const loadHistory = useCallback(async () => {
+    if (!organizationId || !memberId) {
+      setHistory([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { from, to } = getDayRange(new Date(`${day}T00:00:00`));
+      const loaded = await locationHistoryService.getMemberHistory(organizationId, memberId, from, to);
+      setHistory(loaded);
+      setCurrentTime(loaded.length > 0 ? loaded[0].timestamp : from);
+    } catch (error) {
+      console.error('Failed to load location history:', error);
+      setHistory([]);
+    } finally {
+      setIsLoading(false);
+      setIsPlaying(false);
+    }
+  }, [organizationId, memberId, day]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  // Pick up fixes recorded while the admin is watching today's trail
+  useEffect(() => {
+    if (day !== toDateInputValue(new Date())) return;
+    const handleUpdate = () => {
+      if (!isPlaying) loadHistory();
+    };
+    window.addEventListener('location-history-updated', handleUpdate);
+    return () => window.removeEventListener('location-history-updated', handleUpdate);
+  }, [day, isPlaying, loadHistory]);
+
+  const points = useMemo(() => selectTrack(history, trackMode), [history, trackMode]);
+  const rejectedCount = useMemo(() => history.filter(point => point.rejectedReason).length, [history]);
+
+  const startTime = points.length > 0 ? points[0].timestamp : 0;
+  const endTime = points.length > 0 ? points[points.length - 1].timestamp : 0;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      setCurrentTime(time => {
+        const next = time + TICK_MS * speed;
+        if (next >= endTime) {
+          setIsPlaying(false);
+          return endTime;
+        }
+        return next;
+      });
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, endTime]);
+
+  const togglePlaying = useCallback(() => {
+    if (points.length < 2) return;
+    if (!isPlaying && currentTime >= endTime) {
+      setCurrentTime(startTime);
+    }
+    setIsPlaying(playing => !playing);
+  }, [points.length, isPlaying, currentTime, startTime, endTime]);
+
+  // Jump to a wall-clock time ("HH:MM") on the selected day
+  const seekToClockTime = useCallback((clock: string) => {
+    const target = new Date(`${day}T${clock}:00`).getTime();
+    if (!isNaN(target)) {
+      setCurrentTime(target);
+    }
+  }, [day]);
+
+  const trail = useMemo(
+    () => points.filter(point => point.timestamp <= currentTime),
+    [points, currentTime]
+  );
+
+  const position = useMemo(
+    () => interpolatePosition(points, currentTime),
+    [points, currentTime]
+  );
+
+  return {
+    day,
+    setDay,
+    points,
+    rejectedCount,
+    trackMode,
+    setTrackMode,
+    trail,
+    position,
+    isLoading,
+    currentTime,
+    setCurrentTime,
+    startTime,
+    endTime,
+    isPlaying,
+    togglePlaying,
+    speed,
+    setSpeed,
+    seekToClockTime,
+  };
+};
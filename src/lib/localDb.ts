@@ -1,4 +1,5 @@
-// Simple persistent local DB using IndexedDB for organizations, members, and roles
+// Simple persistent local DB using IndexedDB for organizations, members, roles, geofences, location history,
+// the outbound location queue, sideloaded map tiles and the anomaly alert log
 // This is a minimal wrapper for demo purposes
 
 export interface Member {
@@ -7,17 +8,185 @@ export interface Member {
   age: number;
   role: 'admin' | 'member';
   connectionInfo: any;
+  // Overrides the organization's sharing schedule when set
+  sharingSchedule?: SharingSchedule | null;
+}
+
+export interface SharingWindow {
+  // 0 = Sunday ... 6 = Saturday, in the schedule's timezone
+  days: number[];
+  // 'HH:MM'; an end at or before the start runs past midnight
+  start: string;
+  end: string;
+}
+
+export interface SharingSchedule {
+  // IANA timezone name, e.g. 'Europe/Berlin'
+  timezone: string;
+  windows: SharingWindow[];
+}
+
+export type SamplingProfileName = 'precise' | 'balanced' | 'low_power';
+
+export type MapProviderKind = 'mapbox' | 'maplibre' | 'mbtiles';
+
+export interface MapProviderSettings {
+  kind: MapProviderKind;
+  // Public token, only used by the Mapbox provider
+  mapboxToken?: string;
+  // Self-hosted style JSON for MapLibre; for MBTiles an optional style for vector tiles
+  styleUrl?: string;
+  // Name of a sideloaded file in the map tiles store, or a URL of a bundled one
+  mbtilesFile?: string;
+  mbtilesUrl?: string;
+}
+
+export type ProximityRuleType = 'proximity' | 'buddy';
+
+// 'proximity' alerts when the two members come within distanceMeters of each other,
+// 'buddy' when they drift further apart than that
+export interface ProximityRule {
+  id: string;
+  name: string;
+  type: ProximityRuleType;
+  memberA: string;
+  memberB: string;
+  distanceMeters: number;
+  // Minimum time between two alerts for the same rule
+  cooldownMinutes: number;
+  enabled: boolean;
+  createdAt: number;
+}
+
+export type AnomalyRuleType = 'speed' | 'inactivity' | 'no_signal';
+
+export interface AnomalyRule {
+  id: string;
+  name: string;
+  type: AnomalyRuleType;
+  // km/h for speed rules, minutes for inactivity and no-signal rules
+  threshold: number;
+  // Members the rule applies to; empty means everyone in the organization
+  memberIds: string[];
+  enabled: boolean;
+  createdAt: number;
+}
+
+export type AnomalyAlertStatus = 'open' | 'acknowledged' | 'resolved';
+
+export interface AnomalyAlert {
+  id: string;
+  organizationId: string;
+  ruleId: string;
+  ruleName: string;
+  type: AnomalyRuleType;
+  memberId: string;
+  // Measured value that broke the threshold, in the rule's unit
+  value: number;
+  threshold: number;
+  status: AnomalyAlertStatus;
+  triggeredAt: number;
+  acknowledgedAt?: number;
+  acknowledgedBy?: string;
+  resolvedAt?: number;
+  // 'auto' when the condition cleared by itself
+  resolvedBy?: string;
+}
+
+export type ChatDeliveryStatus = 'queued' | 'sent' | 'delivered' | 'read';
+
+export interface ChatMessage {
+  id: string;
+  organizationId: string;
+  kind: 'direct' | 'announcement';
+  // The member a direct conversation is with, on both sides; null for announcements
+  memberId: string | null;
+  senderId: string;
+  text: string;
+  sentAt: number;
+  direction: 'outgoing' | 'incoming';
+  // Outgoing: where each recipient's copy stands
+  recipients?: Record<string, ChatDeliveryStatus>;
+  // Incoming: when it was shown, and a receipt the sender hasn't got yet
+  readAt?: number;
+  pendingReceipt?: 'delivered' | 'read';
+}
+
+export interface MapTilesFile {
+  name: string;
+  data: ArrayBuffer;
+  size: number;
+  addedAt: number;
 }
 
 export interface Organization {
   id: string;
   name: string;
   members: Member[];
+  // Location sampling profile pushed to member devices; defaults to balanced
+  samplingProfile?: SamplingProfileName;
+  // Members only share their location inside these windows; no schedule means always
+  sharingSchedule?: SharingSchedule | null;
+  // Map provider for the admin dashboard; Mapbox is asked for when unset
+  mapProvider?: MapProviderSettings | null;
+  proximityRules?: ProximityRule[];
+  anomalyRules?: AnomalyRule[];
+}
+
+export interface GeofenceVertex {
+  latitude: number;
+  longitude: number;
+}
+
+export interface Geofence {
+  id: string;
+  organizationId: string;
+  name: string;
+  shape: 'circle' | 'polygon';
+  // Circle zones use center + radius, polygon zones use vertices
+  center?: GeofenceVertex;
+  radiusMeters?: number;
+  vertices?: GeofenceVertex[];
+  // Minutes a member has to stay inside before a dwell event fires
+  dwellMinutes: number;
+  color?: string;
+  createdAt: number;
+}
+
+export interface LocationHistoryPoint {
+  id?: number;
+  organizationId: string;
+  memberId: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  timestamp: number;
+  // Position as reported before GPS filtering; latitude/longitude hold the smoothed fix
+  raw?: GeofenceVertex;
+  // Set when the filter discarded the fix, such points only show up in raw tracks
+  rejectedReason?: 'poor_accuracy' | 'impossible_speed';
+}
+
+export interface OutboundLocation {
+  // Assigned by IndexedDB, strictly increasing per device
+  seq?: number;
+  organizationId: string;
+  userId: string;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  timestamp: number;
 }
 
 const DB_NAME = 'GeoTrackDB';
-const DB_VERSION = 1;
+const DB_VERSION = 7;
 const ORG_STORE = 'organizations';
+const GEOFENCE_STORE = 'geofences';
+const HISTORY_STORE = 'locationHistory';
+const OUTBOUND_STORE = 'outboundLocations';
+const MAP_TILES_STORE = 'mapTiles';
+const ANOMALY_ALERT_STORE = 'anomalyAlerts';
+const CHAT_STORE = 'chatMessages';
 
 function getDb(): Promise<IDBDatabase> {
   return new Promise((resolve, reject) => {
@@ -27,6 +196,30 @@ function getDb(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(ORG_STORE)) {
         db.createObjectStore(ORG_STORE, { keyPath: 'id' });
       }
+      if (!db.objectStoreNames.contains(GEOFENCE_STORE)) {
+        const store = db.createObjectStore(GEOFENCE_STORE, { keyPath: 'id' });
+        store.createIndex('organizationId', 'organizationId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('memberTime', ['organizationId', 'memberId', 'timestamp'], { unique: false });
+        store.createIndex('orgTime', ['organizationId', 'timestamp'], { unique: false });
+        store.createIndex('timestamp', 'timestamp', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(OUTBOUND_STORE)) {
+        db.createObjectStore(OUTBOUND_STORE, { keyPath: 'seq', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(MAP_TILES_STORE)) {
+        db.createObjectStore(MAP_TILES_STORE, { keyPath: 'name' });
+      }
+      if (!db.objectStoreNames.contains(ANOMALY_ALERT_STORE)) {
+        const store = db.createObjectStore(ANOMALY_ALERT_STORE, { keyPath: 'id' });
+        store.createIndex('organizationId', 'organizationId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(CHAT_STORE)) {
+        const store = db.createObjectStore(CHAT_STORE, { keyPath: 'id' });
+        store.createIndex('organizationId', 'organizationId', { unique: false });
+      }
     };
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
@@ -51,8 +244,31 @@ export async function getOrganizations(): Promise<Organization[]> {
   });
 }
 
-export async function updateOrganization(org: Organization) {
-  return addOrganization(org);
+// Merges the patch into the stored organization in one transaction. A function patch sees the
+// stored record and may throw to abort the update.
+export async function updateOrganization(
+  orgId: string,
+  patch: Partial<Organization> | ((org: Organization) => Partial<Organization>)
+): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(ORG_STORE, 'readwrite');
+  const store = tx.objectStore(ORG_STORE);
+  const req = store.get(orgId);
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => {
+      const org: Organization | undefined = req.result;
+      if (!org) return reject(new Error(`Organization not found: ${orgId}`));
+      try {
+        store.put({ ...org, ...(typeof patch === 'function' ? patch(org) : patch), id: org.id });
+      } catch (error) {
+        tx.abort();
+        reject(error);
+      }
+    };
+    req.onerror = () => reject(req.error);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
 }
 
 export async function deleteOrganization(id: string) {
@@ -90,3 +306,234 @@ export async function getOrganization(id: string): Promise<Organization | undefi
     req.onerror = () => reject(req.error);
   });
 }
+
+export async function getGeofences(organizationId: string): Promise<Geofence[]> {
+  const db = await getDb();
+  const tx = db.transaction(GEOFENCE_STORE, 'readonly');
+  const index = tx.objectStore(GEOFENCE_STORE).index('organizationId');
+  return new Promise((resolve, reject) => {
+    const req = index.getAll(organizationId);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function saveGeofence(geofence: Geofence): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(GEOFENCE_STORE, 'readwrite');
+  tx.objectStore(GEOFENCE_STORE).put(geofence);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function deleteGeofence(id: string): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(GEOFENCE_STORE, 'readwrite');
+  tx.objectStore(GEOFENCE_STORE).delete(id);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function addLocationHistoryPoints(points: LocationHistoryPoint[]): Promise<void> {
+  if (points.length === 0) return;
+  const db = await getDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const store = tx.objectStore(HISTORY_STORE);
+  points.forEach(point => store.add(point));
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// Points for one member within [from, to], oldest first
+export async function getMemberLocationHistory(
+  organizationId: string,
+  memberId: string,
+  from: number,
+  to: number
+): Promise<LocationHistoryPoint[]> {
+  const db = await getDb();
+  const tx = db.transaction(HISTORY_STORE, 'readonly');
+  const index = tx.objectStore(HISTORY_STORE).index('memberTime');
+  const range = IDBKeyRange.bound([organizationId, memberId, from], [organizationId, memberId, to]);
+  return new Promise((resolve, reject) => {
+    const req = index.getAll(range);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Points for every member of an organization within [from, to], oldest first
+export async function getOrganizationLocationHistory(
+  organizationId: string,
+  from: number,
+  to: number
+): Promise<LocationHistoryPoint[]> {
+  const db = await getDb();
+  const tx = db.transaction(HISTORY_STORE, 'readonly');
+  const index = tx.objectStore(HISTORY_STORE).index('orgTime');
+  const range = IDBKeyRange.bound([organizationId, from], [organizationId, to]);
+  return new Promise((resolve, reject) => {
+    const req = index.getAll(range);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function deleteLocationHistoryBefore(timestamp: number): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  const index = tx.objectStore(HISTORY_STORE).index('timestamp');
+  const req = index.openCursor(IDBKeyRange.upperBound(timestamp, true));
+  req.onsuccess = () => {
+    const cursor = req.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function enqueueOutboundLocation(location: OutboundLocation): Promise<number> {
+  const db = await getDb();
+  const tx = db.transaction(OUTBOUND_STORE, 'readwrite');
+  const req = tx.objectStore(OUTBOUND_STORE).add(location);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve(req.result as number);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// Oldest queued locations first, at most `limit` of them
+export async function getOutboundLocations(limit: number): Promise<OutboundLocation[]> {
+  const db = await getDb();
+  const tx = db.transaction(OUTBOUND_STORE, 'readonly');
+  return new Promise((resolve, reject) => {
+    const req = tx.objectStore(OUTBOUND_STORE).getAll(undefined, limit);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function countOutboundLocations(): Promise<number> {
+  const db = await getDb();
+  const tx = db.transaction(OUTBOUND_STORE, 'readonly');
+  return new Promise((resolve, reject) => {
+    const req = tx.objectStore(OUTBOUND_STORE).count();
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function deleteOutboundLocationsUpTo(seq: number): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(OUTBOUND_STORE, 'readwrite');
+  tx.objectStore(OUTBOUND_STORE).delete(IDBKeyRange.upperBound(seq));
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function saveMapTilesFile(file: MapTilesFile): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(MAP_TILES_STORE, 'readwrite');
+  tx.objectStore(MAP_TILES_STORE).put(file);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function getMapTilesFile(name: string): Promise<MapTilesFile | undefined> {
+  const db = await getDb();
+  const tx = db.transaction(MAP_TILES_STORE, 'readonly');
+  return new Promise((resolve, reject) => {
+    const req = tx.objectStore(MAP_TILES_STORE).get(name);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Names only, so listing doesn't pull whole tile sets into memory
+export async function listMapTilesFiles(): Promise<string[]> {
+  const db = await getDb();
+  const tx = db.transaction(MAP_TILES_STORE, 'readonly');
+  return new Promise((resolve, reject) => {
+    const req = tx.objectStore(MAP_TILES_STORE).getAllKeys();
+    req.onsuccess = () => resolve(req.result as string[]);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function deleteMapTilesFile(name: string): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(MAP_TILES_STORE, 'readwrite');
+  tx.objectStore(MAP_TILES_STORE).delete(name);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function saveAnomalyAlert(alert: AnomalyAlert): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(ANOMALY_ALERT_STORE, 'readwrite');
+  tx.objectStore(ANOMALY_ALERT_STORE).put(alert);
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function getAnomalyAlerts(organizationId: string): Promise<AnomalyAlert[]> {
+  const db = await getDb();
+  const tx = db.transaction(ANOMALY_ALERT_STORE, 'readonly');
+  const index = tx.objectStore(ANOMALY_ALERT_STORE).index('organizationId');
+  return new Promise((resolve, reject) => {
+    const req = index.getAll(organizationId);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function deleteAnomalyAlerts(ids: string[]): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(ANOMALY_ALERT_STORE, 'readwrite');
+  const store = tx.objectStore(ANOMALY_ALERT_STORE);
+  ids.forEach(id => store.delete(id));
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function saveChatMessages(messages: ChatMessage[]): Promise<void> {
+  const db = await getDb();
+  const tx = db.transaction(CHAT_STORE, 'readwrite');
+  const store = tx.objectStore(CHAT_STORE);
+  messages.forEach(message => store.put(message));
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function getAllChatMessages(): Promise<ChatMessage[]> {
+  const db = await getDb();
+  const tx = db.transaction(CHAT_STORE, 'readonly');
+  return new Promise((resolve, reject) => {
+    const req = tx.objectStore(CHAT_STORE).getAll();
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
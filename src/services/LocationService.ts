@@ -2,6 +2,15 @@ import { Geolocation } from '@capacitor/geolocation';
 import { App } from '@capacitor/app';
 import { LocalNotifications } from '@capacitor/local-notifications';
 import { webRTCService } from './WebRTCService';
+import { meshRouter } from './webrtc/MeshRouter';
+import { locationWireProtocol } from './location/LocationWireFormat';
+import { locationHistoryService } from './location/LocationHistoryService';
+import { outboundLocationQueue } from './location/OutboundLocationQueue';
+import { sosService } from './sos/SosService';
+import { privacyZoneService } from './location/PrivacyZones';
+import { OutboundLocation } from '@/lib/localDb';
+import { samplingPolicy, SamplingSettings, SamplingProfileName } from './location/SamplingPolicy';
+import { sharingSchedule, SharingSchedule, StoredSchedules } from './location/SharingSchedule';
 
 export interface LocationData {
   id: string;
@@ -19,12 +28,65 @@ class LocationService {
   private locationData: LocationData[] = [];
   private currentUserId: string | null = null;
   private currentOrgId: string | null = null;
+  private activeWatchSettings: SamplingSettings | null = null;
 
   constructor() {
+    // Fixes for the admin go out live, or through a persistent queue so nothing is lost while disconnected.
+    // Without a channel to the admin the queue is replayed through other members; live fixes aren't relayed.
+    outboundLocationQueue.setTransport({
+      sendLive: location => !meshRouter.needsRelay() && webRTCService.sendLocationUpdate(location),
+      sendBatch: batch => meshRouter.needsRelay()
+        ? locationWireProtocol.toMessages(batch).every(message => meshRouter.sendToAdmin(message))
+        : webRTCService.sendLocationBatch(batch),
+      acknowledgesBatches: () => webRTCService.acknowledgesLocationBatches(),
+      isNegotiated: () => webRTCService.locationProtocolNegotiated()
+    });
+    sosService.setTransport(
+      {
+        sendUrgent: (type, data) => webRTCService.sendUrgentMessage(type, data),
+        relayToMiniServer: (type, data) => webRTCService.relayToMiniServer(type, data),
+        relayThroughMesh: (type, data) => meshRouter.needsRelay() && meshRouter.sendToAdmin({ type, data, timestamp: Date.now() })
+      },
+      {
+        getTrackingSession: () => this.getTrackingSession(),
+        getLastLocation: () => this.getStoredLocations().slice(-1)[0] || null
+      }
+    );
+
     // Listen for location requests from WebRTC server
     window.addEventListener('webrtc-location-requested', () => {
       this.sendCurrentLocationToServer();
     });
+
+    // Admin pushed a new sampling profile for this organization
+    window.addEventListener('webrtc-sampling-profile', ((event: CustomEvent<{ organizationId: string; profile: SamplingProfileName }>) => {
+      const { organizationId, profile } = event.detail || {};
+      if (!organizationId || (this.currentOrgId && organizationId !== this.currentOrgId)) return;
+      samplingPolicy.saveProfile(organizationId, profile);
+    }) as EventListener);
+
+    // Admin changed the organization's or this member's sharing windows
+    window.addEventListener('webrtc-sharing-schedule', ((event: CustomEvent<{ organizationId: string; scope: keyof StoredSchedules; schedule: SharingSchedule | null }>) => {
+      const { organizationId, scope, schedule } = event.detail || {};
+      if (!organizationId || (scope !== 'organization' && scope !== 'member')) return;
+      if (this.currentOrgId && organizationId !== this.currentOrgId) return;
+      sharingSchedule.saveSchedule(organizationId, scope, schedule ?? null);
+    }) as EventListener);
+
+    // Outside the sharing window the watch is stopped entirely, not just muted
+    sharingSchedule.onStatusChange((status) => {
+      if (!this.isTracking) return;
+      console.log(status.sharing ? 'Sharing window opened, resuming location watch' : 'Sharing window closed, pausing location watch');
+      this.restartWatch();
+    });
+
+    // Restart the watch when the policy asks for different accuracy or cadence
+    samplingPolicy.onSettingsChange((settings) => {
+      if (this.isTracking && this.watchId && this.needsWatchRestart(settings)) {
+        console.log('Sampling settings changed:', settings.effectiveProfile, settings.reasons);
+        this.restartWatch();
+      }
+    });
   }
 
   async requestPermissions() {
@@ -53,12 +115,34 @@ class LocationService {
       }
     });
 
+    samplingPolicy.loadProfile(organizationId);
+    samplingPolicy.reset();
+    samplingPolicy.start();
+    sharingSchedule.loadSchedules(organizationId);
+    sharingSchedule.start();
+
     // Start continuous location watching
+    await this.startWatch();
+  }
+
+  private async startWatch() {
+    const userId = this.currentUserId;
+    const organizationId = this.currentOrgId;
+    if (!userId || !organizationId) return;
+    if (!sharingSchedule.isSharingNow()) {
+      console.log('Outside the sharing window, location watch not started');
+      return;
+    }
+
+    const settings = samplingPolicy.getSettings();
+    this.activeWatchSettings = settings;
+
     this.watchId = await Geolocation.watchPosition(
       {
-        enableHighAccuracy: true,
-        timeout: 10000,
-        maximumAge: 60000,
+        enableHighAccuracy: settings.enableHighAccuracy,
+        timeout: settings.timeout,
+        maximumAge: settings.maximumAge,
+        minimumUpdateInterval: settings.intervalMs,
       },
       (position, err) => {
         if (err) {
@@ -67,16 +151,24 @@ class LocationService {
         }
 
         if (position) {
+          const timestamp = Date.now();
           const locationData: LocationData = {
-            id: Date.now().toString(),
+            id: timestamp.toString(),
             userId,
             organizationId,
             latitude: position.coords.latitude,
             longitude: position.coords.longitude,
-            timestamp: Date.now(),
+            timestamp,
             accuracy: position.coords.accuracy,
           };
 
+          // Raw fixes are kept and sent as reported; the admin filters them once on arrival
+          const accepted = samplingPolicy.handleFix({
+            ...locationData,
+            speed: position.coords.speed
+          });
+          if (!accepted) return;
+
           this.saveLocationLocally(locationData);
           console.log('Location updated:', locationData);
         }
@@ -84,8 +176,31 @@ class LocationService {
     );
   }
 
+  private needsWatchRestart(settings: SamplingSettings): boolean {
+    const active = this.activeWatchSettings;
+    return !active ||
+      active.enableHighAccuracy !== settings.enableHighAccuracy ||
+      active.intervalMs !== settings.intervalMs ||
+      active.timeout !== settings.timeout;
+  }
+
+  private async restartWatch() {
+    try {
+      if (this.watchId) {
+        await Geolocation.clearWatch({ id: this.watchId });
+        this.watchId = null;
+      }
+      if (this.isTracking) {
+        await this.startWatch();
+      }
+    } catch (error) {
+      console.error('Failed to restart location watch:', error);
+    }
+  }
+
   private async sendCurrentLocationToServer() {
     if (!this.isTracking || !this.currentUserId || !this.currentOrgId) return;
+    if (!sharingSchedule.isSharingNow()) return;
 
     try {
       const position = await Geolocation.getCurrentPosition({
@@ -98,13 +213,12 @@ class LocationService {
         longitude: position.coords.longitude,
         timestamp: Date.now(),
         accuracy: position.coords.accuracy,
-        userId: this.currentUserId
+        userId: this.currentUserId,
+        organizationId: this.currentOrgId
       };
 
-      // Send location update via WebRTC to server
-      webRTCService.sendLocationUpdate(locationData);
-      
-      console.log('Current location sent to server:', locationData);
+      // Send location update via WebRTC to server, queued if the channel is down
+      await this.shareLocation(locationData);
     } catch (error) {
       console.error('Failed to get current location for server:', error);
     }
@@ -117,6 +231,8 @@ class LocationService {
       await Geolocation.clearWatch({ id: this.watchId });
       this.watchId = null;
     }
+    this.activeWatchSettings = null;
+    sharingSchedule.stop();
 
     // Disconnect WebRTC
     webRTCService.disconnect();
@@ -128,10 +244,14 @@ class LocationService {
   }
 
   private async scheduleLocationUpdate(userId: string, organizationId: string) {
+    if (!sharingSchedule.isSharingNow()) return;
+
     try {
+      const settings = samplingPolicy.getSettings();
       const position = await Geolocation.getCurrentPosition({
-        enableHighAccuracy: true,
-        timeout: 5000,
+        enableHighAccuracy: settings.enableHighAccuracy,
+        timeout: settings.timeout,
+        maximumAge: settings.maximumAge,
       });
 
       const locationData: LocationData = {
@@ -146,8 +266,10 @@ class LocationService {
 
       this.saveLocationLocally(locationData);
       
-      // Send background location update via WebRTC
-      webRTCService.sendLocationUpdate({
+      // Send background location update via WebRTC, queued if the channel is down
+      await this.shareLocation({
+        userId,
+        organizationId,
         latitude: locationData.latitude,
         longitude: locationData.longitude,
         timestamp: locationData.timestamp,
@@ -158,16 +280,35 @@ class LocationService {
     }
   }
 
+  // Single exit for fixes leaving the device; private zones are applied before anything is queued
+  private async shareLocation(location: OutboundLocation) {
+    const privacy = privacyZoneService.apply(location);
+
+    if (privacy.zone) {
+      webRTCService.sendLocationStatus({ status: 'in_private_zone' });
+    } else if (privacy.leftZone) {
+      webRTCService.sendLocationStatus({ status: 'sharing' });
+    }
+
+    if (privacy.action === 'suppress') {
+      console.log('Location inside a private zone, not shared');
+      return;
+    }
+    await outboundLocationQueue.enqueue(privacy.location);
+  }
+
   private saveLocationLocally(locationData: LocationData) {
     this.locationData.push(locationData);
     
-    // Keep only last 100 locations to avoid memory issues
+    // Keep only last 100 locations in memory, the full history lives in IndexedDB
     if (this.locationData.length > 100) {
       this.locationData = this.locationData.slice(-100);
     }
 
-    // Save to localStorage for persistence
+    // Save to localStorage for quick access to recent fixes
     localStorage.setItem('locationHistory', JSON.stringify(this.locationData));
+
+    locationHistoryService.record(locationData.organizationId, locationData.userId, locationData);
   }
 
   getStoredLocations(): LocationData[] {
@@ -215,6 +356,11 @@ class LocationService {
   isCurrentlyTracking(): boolean {
     return this.isTracking;
   }
+
+  getTrackingSession(): { userId: string; organizationId: string } | null {
+    if (!this.currentUserId || !this.currentOrgId) return null;
+    return { userId: this.currentUserId, organizationId: this.currentOrgId };
+  }
 }
 
 export const locationService = new LocationService();
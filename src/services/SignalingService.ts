@@ -1,6 +1,8 @@
 // src/services/SignalingService.ts
 // Simple WebSocket signaling client for WebRTC
 
+import { parseSignalingSocketMessage } from './webrtc/protocol';
+
 export class SignalingService {
   private ws: WebSocket | null = null;
   private listeners: ((msg: any) => void)[] = [];
@@ -8,8 +10,9 @@ export class SignalingService {
   connect(url: string) {
     this.ws = new WebSocket(url);
     this.ws.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      this.listeners.forEach((cb) => cb(data));
+      const parsed = parseSignalingSocketMessage(event.data);
+      if (parsed.ok === false) return;
+      this.listeners.forEach((cb) => cb(parsed.message));
     };
   }
 
@@ -4,7 +4,16 @@ import { WebRTCServiceMethods } from './webrtc/WebRTCServiceMethods';
 import { WebRTCServiceReconnection } from './webrtc/WebRTCServiceReconnection';
 import { WebRTCServiceDiagnostics } from './webrtc/WebRTCServiceDiagnostics';
 import { WebRTCServiceEventSetup } from './webrtc/WebRTCServiceEventSetup';
-import { WebRTCServerOffer, PeerConnection } from './webrtc/types';
+import { WebRTCServerOffer, PeerConnection, PeerConnectionStats } from './webrtc/types';
+import { SamplingProfileName, SharingSchedule } from '@/lib/localDb';
+import type { LocationBatch } from '@/services/location/OutboundLocationQueue';
+import type { LocationSharingStatus } from '@/services/location/SharingSchedule';
+import type { LocationPing, LocationPingOptions } from '@/services/location/LocationPing';
+import type { SendQueueStats } from './webrtc/SendScheduler';
+import type { DeliveryReceipt } from './webrtc/ReliableDelivery';
+import type { SignalingMessage } from './webrtc/protocol';
+import { messagingService } from '@/services/messaging/MessagingService';
+import { sosAlertService } from '@/services/sos/SosAlertService';
 
 export class WebRTCService {
   private core: any;
@@ -52,6 +61,21 @@ export class WebRTCService {
     );
     
     this.setupEventManagerCallbacks();
+
+    // Chat rides on reliable delivery over the peers' data channels
+    messagingService.setTransport({
+      send: (peerId, message) => this.sendReliable(peerId, message),
+      isConnected: peerId => this.getConnectedPeers().some(peer => peer.id === peerId && peer.dataChannel?.readyState === 'open'),
+      self: () => {
+        const { deviceId, deviceType } = this.getCurrentDeviceInfo();
+        return { id: deviceId, isAdmin: deviceType === 'admin' };
+      }
+    });
+    sosAlertService.setTransport({
+      sendUrgent: (type, data) => this.sendUrgentMessage(type, data),
+      relayToMiniServer: (type, data) => this.relayToMiniServer(type, data),
+      relayThroughMesh: (type, data, peerId) => !!peerId && this.relayThroughMesh(peerId, type, data)
+    });
   }
 
   // Delegate to methods service
@@ -67,6 +91,42 @@ export class WebRTCService {
     return this.methods.connectToServer(offerData, userId, userName);
   }
 
+  async createMemberOffer(memberId: string, memberName?: string): Promise<WebRTCServerOffer> {
+    return this.methods.createMemberOffer(memberId, memberName);
+  }
+
+  async handleMemberAnswer(memberId: string, answer: RTCSessionDescriptionInit, deviceId?: string): Promise<void> {
+    return this.methods.handleMemberAnswer(memberId, answer, deviceId);
+  }
+
+  async handleMemberDescription(memberId: string, description: RTCSessionDescriptionInit, deviceId?: string): Promise<void> {
+    return this.methods.handleMemberDescription(memberId, description, deviceId);
+  }
+
+  async addMemberIceCandidate(memberId: string, candidate: RTCIceCandidateInit): Promise<void> {
+    return this.methods.addMemberIceCandidate(memberId, candidate);
+  }
+
+  async handleAdminDescription(adminId: string, description: RTCSessionDescriptionInit, deviceId?: string): Promise<void> {
+    return this.methods.handleAdminDescription(adminId, description, deviceId);
+  }
+
+  async addAdminIceCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+    return this.methods.addAdminIceCandidate(candidate);
+  }
+
+  async handleMeshLinkSignal(message: SignalingMessage): Promise<void> {
+    return this.methods.handleMeshLinkSignal(message);
+  }
+
+  closeMemberConnection(memberId: string): void {
+    this.methods.closeMemberConnection(memberId);
+  }
+
+  getPeerStats(): Promise<PeerConnectionStats[]> {
+    return this.methods.getPeerStats();
+  }
+
   getConnectionStatus(): 'disconnected' | 'connecting' | 'connected' {
     return this.methods.getConnectionStatus();
   }
@@ -83,8 +143,30 @@ export class WebRTCService {
     this.methods.requestLocationFromAllClients();
   }
 
-  sendLocationUpdate(locationData: any): void {
-    this.methods.sendLocationUpdate(locationData);
+  pingMembers(options: LocationPingOptions): LocationPing {
+    return this.methods.pingMembers(options);
+  }
+
+  sendLocationUpdate(locationData: any): boolean {
+    return this.methods.sendLocationUpdate(locationData);
+  }
+
+  sendLocationBatch(batch: LocationBatch): boolean {
+    return this.methods.sendLocationBatch(batch);
+  }
+
+  // False while the admin takes replayed fixes as plain location updates, which are never acked
+  acknowledgesLocationBatches(): boolean {
+    return this.methods.acknowledgesLocationBatches();
+  }
+
+  // False until the admin's location protocol version is known on the current channel
+  locationProtocolNegotiated(): boolean {
+    return this.methods.locationProtocolNegotiated();
+  }
+
+  sendLocationStatus(status: LocationSharingStatus): boolean {
+    return this.methods.sendLocationStatus(status);
   }
 
   onLocationUpdate(callback: (userId: string, locationData: any) => void): void {
@@ -99,6 +181,34 @@ export class WebRTCService {
     this.methods.sendToPeer(peerId, message);
   }
 
+  sendReliable(peerId: string, message: { type: string; data: unknown }): Promise<DeliveryReceipt> {
+    return this.methods.sendReliable(peerId, message);
+  }
+
+  setSamplingProfile(organizationId: string, profile: SamplingProfileName): void {
+    this.methods.setSamplingProfile(organizationId, profile);
+  }
+
+  setSharingSchedule(organizationId: string, schedule: SharingSchedule | null): void {
+    this.methods.setSharingSchedule(organizationId, schedule);
+  }
+
+  setMemberSharingSchedule(organizationId: string, memberId: string, schedule: SharingSchedule | null): void {
+    this.methods.setMemberSharingSchedule(organizationId, memberId, schedule);
+  }
+
+  sendUrgentMessage(type: string, data: unknown): number {
+    return this.methods.sendUrgentMessage(type, data);
+  }
+
+  relayToMiniServer(type: string, data: unknown): boolean {
+    return this.methods.relayToMiniServer(type, data);
+  }
+
+  relayThroughMesh(peerId: string, type: string, data: unknown): boolean {
+    return this.methods.relayThroughMesh(peerId, type, data);
+  }
+
   async startMiniServer(): Promise<any> {
     return this.methods.startMiniServer();
   }
@@ -165,6 +275,10 @@ export class WebRTCService {
     return this.diagnostics.generateDiagnosticReport();
   }
 
+  getSendQueueStats(): SendQueueStats[] {
+    return this.diagnostics.getSendQueueStats();
+  }
+
   getMeshNetworkStatus(): any {
     return this.diagnostics.getMeshNetworkStatus();
   }
@@ -0,0 +1,429 @@
+import { gracefulDegradationManager } from '@/services/webrtc/GracefulDegradationManager';
+import { parseFileTransferMessage, FileOfferPayload, FileTransferMessage } from '@/services/webrtc/protocol';
+import { MAX_MESSAGE_BYTES } from '@/services/webrtc/SendScheduler';
+
+export type FileTransferDirection = 'outgoing' | 'incoming';
+export type FileTransferStatus = 'offered' | 'sending' | 'receiving' | 'paused' | 'verifying' | 'completed' | 'failed' | 'cancelled';
+
+export interface FileTransfer {
+  id: string;
+  peerId: string;
+  direction: FileTransferDirection;
+  name: string;
+  mimeType: string;
+  size: number;
+  sha256: string;
+  totalChunks: number;
+  // Chunks the other side has, or that we have when receiving
+  chunksDone: number;
+  status: FileTransferStatus;
+  error?: string;
+  // The received file, once its checksum matched
+  blob?: Blob;
+  startedAt: number;
+  updatedAt: number;
+}
+
+// Room for the frame header below the per-message limit
+export const FILE_CHUNK_BYTES = MAX_MESSAGE_BYTES - 256;
+export const MAX_FILE_BYTES = 50 * 1024 * 1024;
+const HIGH_WATERMARK_BYTES = 1024 * 1024;
+const LOW_WATERMARK_BYTES = 256 * 1024;
+// Negotiated on both sides, so it needs no ondatachannel and no renegotiation
+const FILE_CHANNEL_ID = 1000;
+
+const FINISHED: FileTransferStatus[] = ['completed', 'failed', 'cancelled'];
+
+interface TransferState extends FileTransfer {
+  // Outgoing only
+  file?: Blob;
+  pumping?: boolean;
+  // Incoming only
+  chunks?: ArrayBuffer[];
+}
+
+export async function sha256Hex(data: Blob | ArrayBuffer): Promise<string> {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Binary chunk frame: uint32 chunk index, uint8 id length, the transfer id, then the bytes
+export function encodeChunkFrame(transferId: string, index: number, payload: ArrayBuffer): ArrayBuffer {
+  const id = new TextEncoder().encode(transferId);
+  const frame = new Uint8Array(5 + id.length + payload.byteLength);
+  new DataView(frame.buffer).setUint32(0, index);
+  frame[4] = id.length;
+  frame.set(id, 5);
+  frame.set(new Uint8Array(payload), 5 + id.length);
+  return frame.buffer;
+}
+
+export function decodeChunkFrame(frame: ArrayBuffer): { transferId: string; index: number; payload: ArrayBuffer } | null {
+  if (frame.byteLength < 5) return null;
+  const idLength = new Uint8Array(frame)[4];
+  if (frame.byteLength < 5 + idLength) return null;
+  return {
+    index: new DataView(frame).getUint32(0),
+    transferId: new TextDecoder().decode(new Uint8Array(frame, 5, idLength)),
+    payload: frame.slice(5 + idLength)
+  };
+}
+
+// The first chunk still missing; a resumed sender starts there
+export function firstMissingChunk(chunks: ArrayBuffer[], totalChunks: number): number {
+  for (let index = 0; index < totalChunks; index++) {
+    if (chunks[index] === undefined) return index;
+  }
+  return totalChunks;
+}
+
+// Photos and documents between admin and members, on their own data channel so they never delay live traffic.
+// Transfers survive a dropped channel: when it reopens the sender offers again and the receiver says where to resume.
+export class FileTransferService {
+  private channels = new Map<string, RTCDataChannel>();
+  private transfers = new Map<string, TransferState>();
+  private listeners = new Set<(transfers: FileTransfer[]) => void>();
+
+  constructor() {
+    gracefulDegradationManager.onDegradationChange(level => {
+      if (level.features.fileTransfer) {
+        this.resumeOutgoing();
+      } else {
+        this.transfers.forEach(transfer => {
+          if (transfer.direction === 'outgoing' && transfer.status === 'sending') this.update(transfer, { status: 'paused' });
+        });
+      }
+    });
+  }
+
+  // Both sides call this once for every new peer connection, before it connects
+  openChannel(peerId: string, connection: RTCPeerConnection): void {
+    let channel: RTCDataChannel;
+    try {
+      channel = connection.createDataChannel('file-transfer', { negotiated: true, id: FILE_CHANNEL_ID });
+    } catch (error) {
+      // Already opened on this connection
+      console.error('FileTransfer: could not open file channel with', peerId, error);
+      return;
+    }
+    channel.binaryType = 'arraybuffer';
+    channel.bufferedAmountLowThreshold = LOW_WATERMARK_BYTES;
+
+    channel.onopen = () => {
+      this.channels.set(peerId, channel);
+      this.resumeOutgoing(peerId);
+      this.notify();
+    };
+    channel.onclose = () => {
+      if (this.channels.get(peerId) !== channel) return;
+      this.channels.delete(peerId);
+      this.transfers.forEach(transfer => {
+        if (transfer.peerId === peerId && !FINISHED.includes(transfer.status)) transfer.status = 'paused';
+      });
+      this.notify();
+    };
+    channel.onmessage = (event) => {
+      if (typeof event.data === 'string') {
+        this.handleControlMessage(event.data, peerId);
+      } else if (event.data instanceof ArrayBuffer) {
+        this.handleChunk(event.data, peerId);
+      }
+    };
+  }
+
+  async sendFile(peerId: string, file: Blob, name: string): Promise<FileTransfer> {
+    if (!gracefulDegradationManager.isFeatureAvailable('fileTransfer')) {
+      throw new Error(gracefulDegradationManager.getFeatureMessage('fileTransfer'));
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      throw new Error(`Files are limited to ${MAX_FILE_BYTES / (1024 * 1024)} MB`);
+    }
+    if (this.channels.get(peerId)?.readyState !== 'open') {
+      throw new Error('No file channel to this peer');
+    }
+
+    const now = Date.now();
+    const transfer: TransferState = {
+      id: `file_${now}_${Math.random().toString(36).substring(2, 8)}`,
+      peerId,
+      direction: 'outgoing',
+      name,
+      mimeType: file.type || 'application/octet-stream',
+      size: file.size,
+      sha256: await sha256Hex(file),
+      totalChunks: Math.ceil(file.size / FILE_CHUNK_BYTES),
+      chunksDone: 0,
+      status: 'offered',
+      startedAt: now,
+      updatedAt: now,
+      file
+    };
+    this.transfers.set(transfer.id, transfer);
+    this.sendOffer(transfer);
+    this.notify();
+    return this.snapshot(transfer);
+  }
+
+  cancel(transferId: string): void {
+    const transfer = this.transfers.get(transferId);
+    if (!transfer || FINISHED.includes(transfer.status)) return;
+
+    this.sendControl(transfer.peerId, { type: 'file_cancel', data: { transferId } });
+    this.update(transfer, { status: 'cancelled' });
+    transfer.file = undefined;
+    transfer.chunks = undefined;
+  }
+
+  // Finished transfers are kept until dismissed, so received files stay downloadable
+  dismiss(transferId: string): void {
+    const transfer = this.transfers.get(transferId);
+    if (!transfer || !FINISHED.includes(transfer.status)) return;
+    this.transfers.delete(transferId);
+    this.notify();
+  }
+
+  getTransfers(peerId?: string): FileTransfer[] {
+    return Array.from(this.transfers.values())
+      .filter(transfer => !peerId || transfer.peerId === peerId)
+      .map(transfer => this.snapshot(transfer));
+  }
+
+  // Peers with an open file channel; for a member that is its admin
+  getConnectedPeers(): string[] {
+    return Array.from(this.channels.entries())
+      .filter(([, channel]) => channel.readyState === 'open')
+      .map(([peerId]) => peerId);
+  }
+
+  onTransfersChange(callback: (transfers: FileTransfer[]) => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  private handleControlMessage(raw: string, peerId: string): void {
+    const parsed = parseFileTransferMessage(raw, peerId);
+    if (parsed.ok === false) return;
+    const message = parsed.message;
+    const transfer = this.transfers.get(message.data.transferId);
+
+    switch (message.type) {
+      case 'file_offer':
+        this.handleOffer(message.data, peerId);
+        break;
+      case 'file_accept':
+        if (!transfer || transfer.peerId !== peerId || transfer.direction !== 'outgoing' || FINISHED.includes(transfer.status)) return;
+        // Stays paused until the link is good enough again; resumeOutgoing offers it anew then
+        if (!gracefulDegradationManager.isFeatureAvailable('fileTransfer')) return;
+        transfer.chunksDone = Math.min(message.data.nextChunk, transfer.totalChunks);
+        this.update(transfer, { status: 'sending' });
+        this.pump(transfer);
+        break;
+      case 'file_complete':
+        if (!transfer || transfer.peerId !== peerId || transfer.direction !== 'outgoing') return;
+        this.update(transfer, { status: 'completed', chunksDone: transfer.totalChunks });
+        transfer.file = undefined;
+        break;
+      case 'file_error':
+        if (!transfer || transfer.peerId !== peerId) return;
+        this.update(transfer, { status: 'failed', error: message.data.reason });
+        transfer.file = undefined;
+        transfer.chunks = undefined;
+        break;
+      case 'file_cancel':
+        if (!transfer || transfer.peerId !== peerId || FINISHED.includes(transfer.status)) return;
+        this.update(transfer, { status: 'cancelled', error: 'Cancelled by the other side' });
+        transfer.file = undefined;
+        transfer.chunks = undefined;
+        break;
+    }
+  }
+
+  private handleOffer(offer: FileOfferPayload, peerId: string): void {
+    const existing = this.transfers.get(offer.transferId);
+    if (existing) {
+      if (existing.peerId !== peerId || existing.direction !== 'incoming') return;
+      // Already finished here; the completion was lost with the old channel
+      if (existing.status === 'completed') {
+        this.sendControl(peerId, { type: 'file_complete', data: { transferId: offer.transferId } });
+        return;
+      }
+      if (FINISHED.includes(existing.status)) return;
+
+      const nextChunk = firstMissingChunk(existing.chunks!, existing.totalChunks);
+      this.update(existing, { status: 'receiving', chunksDone: nextChunk });
+      this.sendControl(peerId, { type: 'file_accept', data: { transferId: offer.transferId, nextChunk } });
+      return;
+    }
+
+    if (offer.size > MAX_FILE_BYTES || offer.totalChunks !== Math.ceil(offer.size / FILE_CHUNK_BYTES)) {
+      this.sendControl(peerId, { type: 'file_error', data: { transferId: offer.transferId, reason: 'File too large or malformed offer' } });
+      return;
+    }
+
+    const now = Date.now();
+    const transfer: TransferState = {
+      id: offer.transferId,
+      peerId,
+      direction: 'incoming',
+      name: offer.name,
+      mimeType: offer.mimeType,
+      size: offer.size,
+      sha256: offer.sha256,
+      totalChunks: offer.totalChunks,
+      chunksDone: 0,
+      status: 'receiving',
+      startedAt: now,
+      updatedAt: now,
+      chunks: new Array(offer.totalChunks)
+    };
+    this.transfers.set(transfer.id, transfer);
+    this.notify();
+    this.sendControl(peerId, { type: 'file_accept', data: { transferId: transfer.id, nextChunk: 0 } });
+    // An empty file has no chunks to wait for
+    if (transfer.totalChunks === 0) this.verify(transfer);
+  }
+
+  private handleChunk(frame: ArrayBuffer, peerId: string): void {
+    const chunk = decodeChunkFrame(frame);
+    const transfer = chunk && this.transfers.get(chunk.transferId);
+    if (!transfer || transfer.peerId !== peerId || transfer.status !== 'receiving' || !transfer.chunks) return;
+    if (chunk.index >= transfer.totalChunks || transfer.chunks[chunk.index] !== undefined) return;
+
+    transfer.chunks[chunk.index] = chunk.payload;
+    const chunksDone = firstMissingChunk(transfer.chunks, transfer.totalChunks);
+    if (chunksDone < transfer.totalChunks) {
+      this.progress(transfer, chunksDone);
+      return;
+    }
+    this.verify(transfer);
+  }
+
+  private async verify(transfer: TransferState): Promise<void> {
+    this.update(transfer, { status: 'verifying', chunksDone: transfer.totalChunks });
+    const blob = new Blob(transfer.chunks!, { type: transfer.mimeType });
+    transfer.chunks = undefined;
+
+    const sha256 = await sha256Hex(blob);
+    if (sha256 !== transfer.sha256 || blob.size !== transfer.size) {
+      console.error('FileTransfer: checksum mismatch for', transfer.name, 'from', transfer.peerId);
+      this.sendControl(transfer.peerId, { type: 'file_error', data: { transferId: transfer.id, reason: 'Checksum mismatch' } });
+      this.update(transfer, { status: 'failed', error: 'Checksum mismatch' });
+      return;
+    }
+
+    this.sendControl(transfer.peerId, { type: 'file_complete', data: { transferId: transfer.id } });
+    this.update(transfer, { status: 'completed', blob });
+  }
+
+  // Sends chunks while the channel has room, then waits for it to drain
+  private async pump(transfer: TransferState): Promise<void> {
+    if (transfer.pumping) return;
+    transfer.pumping = true;
+
+    try {
+      while (transfer.status === 'sending' && transfer.chunksDone < transfer.totalChunks) {
+        const channel = this.channels.get(transfer.peerId);
+        if (!channel || channel.readyState !== 'open') return;
+        if (channel.bufferedAmount >= HIGH_WATERMARK_BYTES) {
+          await this.waitForDrain(channel);
+          continue;
+        }
+
+        const index = transfer.chunksDone;
+        const payload = await transfer.file!.slice(index * FILE_CHUNK_BYTES, (index + 1) * FILE_CHUNK_BYTES).arrayBuffer();
+        // Paused or cancelled while the slice was read
+        if (transfer.status !== 'sending' || transfer.chunksDone !== index) continue;
+
+        channel.send(encodeChunkFrame(transfer.id, index, payload));
+        this.progress(transfer, index + 1);
+      }
+
+      if (transfer.status === 'sending') this.update(transfer, { status: 'verifying' });
+    } catch (error) {
+      console.error('FileTransfer: failed to send', transfer.name, error);
+      this.update(transfer, { status: 'paused', error: 'Sending failed, will resume' });
+    } finally {
+      transfer.pumping = false;
+    }
+  }
+
+  private waitForDrain(channel: RTCDataChannel): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        channel.removeEventListener('bufferedamountlow', done);
+        channel.removeEventListener('close', done);
+        resolve();
+      };
+      channel.addEventListener('bufferedamountlow', done);
+      channel.addEventListener('close', done);
+    });
+  }
+
+  // Re-offers unfinished outgoing transfers; the receiver answers with where to continue
+  private resumeOutgoing(peerId?: string): void {
+    if (!gracefulDegradationManager.isFeatureAvailable('fileTransfer')) return;
+    this.transfers.forEach(transfer => {
+      if (transfer.direction !== 'outgoing' || FINISHED.includes(transfer.status)) return;
+      if (peerId && transfer.peerId !== peerId) return;
+      this.sendOffer(transfer);
+    });
+  }
+
+  private sendOffer(transfer: TransferState): void {
+    const { id, name, mimeType, size, sha256, totalChunks } = transfer;
+    this.sendControl(transfer.peerId, { type: 'file_offer', data: { transferId: id, name, mimeType, size, sha256, totalChunks } });
+  }
+
+  private sendControl(peerId: string, message: FileTransferMessage): boolean {
+    const channel = this.channels.get(peerId);
+    if (channel?.readyState !== 'open') return false;
+    try {
+      channel.send(JSON.stringify({ ...message, timestamp: Date.now() }));
+      return true;
+    } catch (error) {
+      console.error('FileTransfer: failed to send', message.type, 'to', peerId, error);
+      return false;
+    }
+  }
+
+  private update(transfer: TransferState, changes: Partial<FileTransfer>): void {
+    Object.assign(transfer, changes, { updatedAt: Date.now() });
+    this.notify();
+  }
+
+  private notify(): void {
+    const transfers = this.getTransfers();
+    this.listeners.forEach(callback => callback(transfers));
+  }
+
+  // Listeners hear about progress once per percent, not once per chunk
+  private progress(transfer: TransferState, chunksDone: number): void {
+    const percent = (done: number) => Math.floor((done / Math.max(transfer.totalChunks, 1)) * 100);
+    const changed = percent(chunksDone) !== percent(transfer.chunksDone);
+    transfer.chunksDone = chunksDone;
+    transfer.updatedAt = Date.now();
+    if (changed) this.notify();
+  }
+
+  private snapshot(transfer: TransferState): FileTransfer {
+    return {
+      id: transfer.id,
+      peerId: transfer.peerId,
+      direction: transfer.direction,
+      name: transfer.name,
+      mimeType: transfer.mimeType,
+      size: transfer.size,
+      sha256: transfer.sha256,
+      totalChunks: transfer.totalChunks,
+      chunksDone: transfer.chunksDone,
+      status: transfer.status,
+      error: transfer.error,
+      blob: transfer.blob,
+      startedAt: transfer.startedAt,
+      updatedAt: transfer.updatedAt
+    };
+  }
+}
+
+export const fileTransferService = new FileTransferService();
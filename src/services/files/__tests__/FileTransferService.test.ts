@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+// jsdom's Blob has no arrayBuffer(); Node's Blob and crypto.subtle are the real ones
+import {
+  FileTransferService,
+  FILE_CHUNK_BYTES,
+  decodeChunkFrame,
+  encodeChunkFrame,
+  firstMissingChunk,
+  sha256Hex
+} from '../FileTransferService';
+
+type Listener = () => void;
+
+// Delivers straight to its partner; the buffer only drains when the test says so
+class FakeChannel {
+  readyState: RTCDataChannelState = 'connecting';
+  bufferedAmount = 0;
+  bufferedAmountLowThreshold = 0;
+  binaryType = 'blob';
+  partner: FakeChannel | null = null;
+  onopen: Listener | null = null;
+  onclose: Listener | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  private listeners: Record<string, Listener[]> = {};
+
+  send(data: string | ArrayBuffer): void {
+    this.bufferedAmount += typeof data === 'string' ? data.length : data.byteLength;
+    this.partner?.onmessage?.({ data });
+  }
+
+  addEventListener(type: string, listener: Listener): void {
+    (this.listeners[type] ||= []).push(listener);
+  }
+
+  removeEventListener(type: string, listener: Listener): void {
+    this.listeners[type] = (this.listeners[type] || []).filter(existing => existing !== listener);
+  }
+
+  open(): void {
+    this.readyState = 'open';
+    this.onopen?.();
+  }
+
+  close(): void {
+    this.readyState = 'closed';
+    this.onclose?.();
+    [...(this.listeners.close || [])].forEach(listener => listener());
+  }
+
+  drain(): void {
+    this.bufferedAmount = 0;
+    [...(this.listeners.bufferedamountlow || [])].forEach(listener => listener());
+  }
+}
+
+const fakeConnection = (channel: FakeChannel) => ({ createDataChannel: () => channel }) as unknown as RTCPeerConnection;
+
+// Opens a fresh channel pair between the admin and member services
+function connect(admin: FileTransferService, member: FileTransferService): [FakeChannel, FakeChannel] {
+  const adminChannel = new FakeChannel();
+  const memberChannel = new FakeChannel();
+  adminChannel.partner = memberChannel;
+  memberChannel.partner = adminChannel;
+  admin.openChannel('member-1', fakeConnection(adminChannel));
+  member.openChannel('admin-1', fakeConnection(memberChannel));
+  memberChannel.open();
+  adminChannel.open();
+  return [adminChannel, memberChannel];
+}
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('FileTransferService', () => {
+  it('round-trips chunk frames', () => {
+    const payload = new Uint8Array([1, 2, 3]).buffer;
+    const decoded = decodeChunkFrame(encodeChunkFrame('file_1', 70000, payload));
+    expect(decoded).toMatchObject({ transferId: 'file_1', index: 70000 });
+    expect(Array.from(new Uint8Array(decoded!.payload))).toEqual([1, 2, 3]);
+    expect(firstMissingChunk([payload, payload, undefined as unknown as ArrayBuffer], 3)).toBe(2);
+  });
+
+  it('resumes where the receiver left off after the channel drops and verifies the checksum', async () => {
+    const admin = new FileTransferService();
+    const member = new FileTransferService();
+    const bytes = new Uint8Array(FILE_CHUNK_BYTES * 80 + 123).map((_, index) => index % 251);
+    const file = new Blob([bytes], { type: 'application/pdf' });
+
+    const [adminChannel, memberChannel] = connect(admin, member);
+    const sent = await admin.sendFile('member-1', file, 'site-plan.pdf');
+    await settle();
+
+    // The buffer filled up, so the sender is waiting part way through
+    const partial = member.getTransfers()[0];
+    expect(partial.status).toBe('receiving');
+    expect(partial.chunksDone).toBeGreaterThan(0);
+    expect(partial.chunksDone).toBeLessThan(partial.totalChunks);
+
+    adminChannel.close();
+    memberChannel.close();
+    expect(admin.getTransfers()[0].status).toBe('paused');
+
+    const [resumedChannel] = connect(admin, member);
+    for (let i = 0; i < 20 && member.getTransfers()[0].status !== 'completed'; i++) {
+      await settle();
+      resumedChannel.drain();
+    }
+    await settle();
+
+    const received = member.getTransfers()[0];
+    expect(received).toMatchObject({ id: sent.id, status: 'completed', name: 'site-plan.pdf' });
+    expect(await sha256Hex(received.blob!)).toBe(await sha256Hex(file));
+    expect(admin.getTransfers()[0].status).toBe('completed');
+  });
+
+  it('stops both sides when the sender cancels', async () => {
+    const admin = new FileTransferService();
+    const member = new FileTransferService();
+    connect(admin, member);
+
+    const sent = await admin.sendFile('member-1', new Blob([new Uint8Array(FILE_CHUNK_BYTES * 100)]), 'photo.jpg');
+    admin.cancel(sent.id);
+    await settle();
+
+    expect(admin.getTransfers()[0].status).toBe('cancelled');
+    expect(member.getTransfers()[0].status).toBe('cancelled');
+  });
+});
@@ -0,0 +1,267 @@
+import {
+  AnomalyAlert,
+  AnomalyAlertStatus,
+  AnomalyRule,
+  AnomalyRuleType,
+  SharingSchedule,
+  getOrganization,
+  updateOrganization,
+  saveAnomalyAlert,
+  getAnomalyAlerts,
+  deleteAnomalyAlerts
+} from '@/lib/localDb';
+import { GeoPoint, haversineDistance } from './geo';
+import { isWithinSchedule } from './SharingSchedule';
+
+export type { AnomalyAlert, AnomalyAlertStatus, AnomalyRule, AnomalyRuleType };
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+// Staying within this distance of the last anchor counts as not moving; GPS jitter stays below it
+const MOVE_RADIUS_METERS = 50;
+// Fixes closer together than this give useless speeds
+const MIN_SPEED_INTERVAL_MS = 5000;
+
+type TimedFix = GeoPoint & { timestamp?: number };
+
+interface MemberActivity {
+  lastFix: GeoPoint & { timestamp: number };
+  anchor: GeoPoint;
+  lastMovedAt: number;
+  // Newest fix time seen; a replayed backlog of older fixes doesn't move it back
+  lastFixAt: number;
+  // When the member's current sharing window was first seen open, null outside one
+  inWindowSince: number | null;
+}
+
+// Where the timer-based rules get their inputs from; wired up by the admin's WebRTC service
+export interface AnomalySources {
+  getSchedule: (memberId: string) => SharingSchedule | null;
+}
+
+export function speedBetweenKmh(a: GeoPoint & { timestamp: number }, b: GeoPoint & { timestamp: number }): number | null {
+  const elapsedMs = b.timestamp - a.timestamp;
+  if (elapsedMs < MIN_SPEED_INTERVAL_MS) return null;
+  return (haversineDistance(a, b) / elapsedMs) * 3600;
+}
+
+export function appliesToMember(rule: AnomalyRule, memberId: string): boolean {
+  return rule.enabled && (rule.memberIds.length === 0 || rule.memberIds.includes(memberId));
+}
+
+// Admin side: speed is checked per fix, inactivity and no-signal on a timer.
+// One alert stays active per rule and member until it resolves, by hand or once the condition clears.
+export class AnomalyRuleEngine {
+  private organizationId: string | null = null;
+  private rules: AnomalyRule[] = [];
+  private activity = new Map<string, MemberActivity>();
+  private alerts: AnomalyAlert[] = [];
+  private sources: AnomalySources | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private listeners = new Set<(alerts: AnomalyAlert[]) => void>();
+
+  async start(organizationId: string, sources: AnomalySources): Promise<void> {
+    this.sources = sources;
+    if (this.organizationId === organizationId && this.timer) return;
+
+    this.stop();
+    this.organizationId = organizationId;
+    this.activity.clear();
+    await Promise.all([this.loadRules(organizationId), this.loadAlerts(organizationId)]);
+    this.timer = setInterval(() => this.checkTimers(), CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async loadRules(organizationId: string): Promise<AnomalyRule[]> {
+    try {
+      const org = await getOrganization(organizationId);
+      if (organizationId === this.organizationId) {
+        this.rules = org?.anomalyRules || [];
+      }
+      return org?.anomalyRules || [];
+    } catch (error) {
+      console.error('AnomalyRuleEngine: Failed to load rules for org:', organizationId, error);
+      return [];
+    }
+  }
+
+  async saveRules(organizationId: string, rules: AnomalyRule[]): Promise<void> {
+    await updateOrganization(organizationId, { anomalyRules: rules });
+    if (organizationId !== this.organizationId) return;
+    this.setRules(rules);
+  }
+
+  setRules(rules: AnomalyRule[]): void {
+    this.rules = rules;
+
+    // Alerts of removed or disabled rules can't clear by themselves anymore
+    const now = Date.now();
+    this.alerts
+      .filter(alert => alert.status !== 'resolved' && !rules.some(rule => rule.id === alert.ruleId && rule.enabled))
+      .forEach(alert => this.updateAlert(alert, { status: 'resolved', resolvedAt: now, resolvedBy: 'auto' }));
+  }
+
+  getRules(): AnomalyRule[] {
+    return this.rules;
+  }
+
+  getAlerts(): AnomalyAlert[] {
+    return [...this.alerts].sort((a, b) => b.triggeredAt - a.triggeredAt);
+  }
+
+  recordLocation(organizationId: string, memberId: string, fix: TimedFix): void {
+    if (organizationId !== this.organizationId) return;
+
+    const timestamp = fix.timestamp || Date.now();
+    const point = { latitude: fix.latitude, longitude: fix.longitude, timestamp };
+    const previous = this.activity.get(memberId);
+
+    if (!previous) {
+      this.activity.set(memberId, { lastFix: point, anchor: point, lastMovedAt: timestamp, lastFixAt: timestamp, inWindowSince: null });
+    } else {
+      const moved = haversineDistance(previous.anchor, point) > MOVE_RADIUS_METERS;
+      this.activity.set(memberId, {
+        ...previous,
+        lastFix: point,
+        anchor: moved ? point : previous.anchor,
+        lastMovedAt: moved ? timestamp : previous.lastMovedAt,
+        lastFixAt: Math.max(previous.lastFixAt, timestamp)
+      });
+
+      const speed = speedBetweenKmh(previous.lastFix, point);
+      if (speed !== null) {
+        this.rules
+          .filter(rule => rule.type === 'speed' && appliesToMember(rule, memberId))
+          .forEach(rule => this.setCondition(rule, memberId, speed > rule.threshold, Math.round(speed), timestamp));
+      }
+    }
+
+    // A fix ends any no-signal condition right away
+    this.rules
+      .filter(rule => rule.type === 'no_signal' && appliesToMember(rule, memberId))
+      .forEach(rule => this.setCondition(rule, memberId, false, 0, timestamp));
+  }
+
+  checkTimers(now = Date.now()): void {
+    if (!this.organizationId || !this.sources) return;
+
+    this.activity.forEach((activity, memberId) => {
+      const inWindow = isWithinSchedule(this.sources!.getSchedule(memberId), now);
+      activity.inWindowSince = inWindow ? (activity.inWindowSince ?? now) : null;
+
+      this.rules.filter(rule => appliesToMember(rule, memberId)).forEach(rule => {
+        const thresholdMs = rule.threshold * 60000;
+
+        if (rule.type === 'no_signal') {
+          // Only fixes count: heartbeats and other messages keep a peer's lastSeen fresh while it shares nothing
+          const silentMs = now - activity.lastFixAt;
+          // Members outside their sharing window are expected to be quiet
+          this.setCondition(rule, memberId, inWindow && silentMs >= thresholdMs, Math.round(silentMs / 60000), now);
+        } else if (rule.type === 'inactivity') {
+          // Stillness only counts from the start of the window and while fixes still come in
+          const stillSince = Math.max(activity.lastMovedAt, activity.inWindowSince ?? now);
+          const stillMs = now - stillSince;
+          const reporting = now - activity.lastFixAt < thresholdMs;
+          this.setCondition(rule, memberId, inWindow && reporting && stillMs >= thresholdMs, Math.round(stillMs / 60000), now);
+        }
+      });
+    });
+  }
+
+  acknowledge(alertId: string, acknowledgedBy: string): void {
+    const alert = this.alerts.find(a => a.id === alertId);
+    if (!alert || alert.status !== 'open') return;
+    this.updateAlert(alert, { status: 'acknowledged', acknowledgedAt: Date.now(), acknowledgedBy });
+  }
+
+  resolve(alertId: string, resolvedBy: string): void {
+    const alert = this.alerts.find(a => a.id === alertId);
+    if (!alert || alert.status === 'resolved') return;
+    this.updateAlert(alert, { status: 'resolved', resolvedAt: Date.now(), resolvedBy });
+  }
+
+  async clearResolved(): Promise<void> {
+    const resolved = this.alerts.filter(alert => alert.status === 'resolved');
+    this.alerts = this.alerts.filter(alert => alert.status !== 'resolved');
+    this.notifyListeners();
+    try {
+      await deleteAnomalyAlerts(resolved.map(alert => alert.id));
+    } catch (error) {
+      console.error('AnomalyRuleEngine: Failed to delete resolved alerts:', error);
+    }
+  }
+
+  onAlertsChange(callback: (alerts: AnomalyAlert[]) => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  private async loadAlerts(organizationId: string): Promise<void> {
+    try {
+      this.alerts = await getAnomalyAlerts(organizationId);
+    } catch (error) {
+      console.error('AnomalyRuleEngine: Failed to load alert log:', error);
+      this.alerts = [];
+    }
+    this.notifyListeners();
+  }
+
+  private setCondition(rule: AnomalyRule, memberId: string, triggered: boolean, value: number, now: number): void {
+    const active = this.alerts.find(alert => alert.ruleId === rule.id && alert.memberId === memberId && alert.status !== 'resolved');
+
+    if (triggered && !active) {
+      const alert: AnomalyAlert = {
+        id: `anomaly_${rule.id}_${memberId}_${now}`,
+        organizationId: this.organizationId!,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        type: rule.type,
+        memberId,
+        value,
+        threshold: rule.threshold,
+        status: 'open',
+        triggeredAt: now
+      };
+      this.alerts.push(alert);
+      this.persist(alert);
+      this.notifyListeners();
+      window.dispatchEvent(new CustomEvent('anomaly-alert', { detail: alert }));
+    } else if (triggered && active && value > active.value) {
+      // Keep the worst value seen while the alert is active
+      this.updateAlert(active, { value });
+    } else if (!triggered && active) {
+      this.updateAlert(active, { status: 'resolved', resolvedAt: now, resolvedBy: 'auto' });
+    }
+  }
+
+  private updateAlert(alert: AnomalyAlert, changes: Partial<AnomalyAlert>): void {
+    const updated = { ...alert, ...changes };
+    this.alerts = this.alerts.map(a => a.id === alert.id ? updated : a);
+    this.persist(updated);
+    this.notifyListeners();
+  }
+
+  private persist(alert: AnomalyAlert): void {
+    saveAnomalyAlert(alert).catch(error => {
+      console.error('AnomalyRuleEngine: Failed to persist alert:', error);
+    });
+  }
+
+  private notifyListeners(): void {
+    const alerts = this.getAlerts();
+    this.listeners.forEach(callback => {
+      try {
+        callback(alerts);
+      } catch (error) {
+        console.error('Anomaly alerts callback error:', error);
+      }
+    });
+  }
+}
+
+export const anomalyRules = new AnomalyRuleEngine();
@@ -0,0 +1,170 @@
+import { Geofence, getGeofences } from '@/lib/localDb';
+import { GeoPoint, haversineDistance, isPointInPolygon, polygonCentroid } from './geo';
+
+export type GeofenceEventType = 'enter' | 'exit' | 'dwell';
+
+export interface GeofenceEvent {
+  id: string;
+  type: GeofenceEventType;
+  organizationId: string;
+  memberId: string;
+  zoneId: string;
+  zoneName: string;
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+  dwellMs?: number;
+}
+
+interface MemberZoneState {
+  inside: boolean;
+  enteredAt: number;
+  dwellReported: boolean;
+}
+
+export function isInsideGeofence(point: GeoPoint, zone: Geofence): boolean {
+  if (zone.shape === 'circle') {
+    if (!zone.center || !zone.radiusMeters) return false;
+    return haversineDistance(point, zone.center) <= zone.radiusMeters;
+  }
+  return isPointInPolygon(point, zone.vertices || []);
+}
+
+// Distance from a point to the zone's center, used to pick the nearest named zone
+export function distanceToGeofence(point: GeoPoint, zone: Geofence): number {
+  if (zone.shape === 'circle' && zone.center) {
+    return Math.max(0, haversineDistance(point, zone.center) - (zone.radiusMeters || 0));
+  }
+  if (isInsideGeofence(point, zone)) return 0;
+  const vertices = zone.vertices || [];
+  return vertices.length > 0 ? haversineDistance(point, polygonCentroid(vertices)) : Infinity;
+}
+
+export class GeofenceService {
+  private zonesByOrg = new Map<string, Geofence[]>();
+  // Keyed by `${organizationId}:${memberId}:${zoneId}`
+  private memberStates = new Map<string, MemberZoneState>();
+  private onEventCallbacks: ((event: GeofenceEvent) => void)[] = [];
+
+  async loadZones(organizationId: string): Promise<Geofence[]> {
+    try {
+      const zones = await getGeofences(organizationId);
+      this.setZones(organizationId, zones);
+      return zones;
+    } catch (error) {
+      console.error('GeofenceService: Failed to load zones for org:', organizationId, error);
+      return this.getZones(organizationId);
+    }
+  }
+
+  setZones(organizationId: string, zones: Geofence[]): void {
+    this.zonesByOrg.set(organizationId, zones);
+
+    // Forget state for zones that no longer exist
+    const zoneIds = new Set(zones.map(zone => zone.id));
+    this.memberStates.forEach((_, key) => {
+      const zoneId = key.slice(key.lastIndexOf(':') + 1);
+      if (key.startsWith(`${organizationId}:`) && !zoneIds.has(zoneId)) {
+        this.memberStates.delete(key);
+      }
+    });
+  }
+
+  getZones(organizationId: string): Geofence[] {
+    return this.zonesByOrg.get(organizationId) || [];
+  }
+
+  evaluate(organizationId: string, memberId: string, location: GeoPoint & { timestamp?: number }): GeofenceEvent[] {
+    const zones = this.getZones(organizationId);
+    if (zones.length === 0) return [];
+
+    const now = location.timestamp || Date.now();
+    const events: GeofenceEvent[] = [];
+
+    zones.forEach(zone => {
+      const key = `${organizationId}:${memberId}:${zone.id}`;
+      const state = this.memberStates.get(key);
+      const inside = isInsideGeofence(location, zone);
+
+      if (inside && !state?.inside) {
+        this.memberStates.set(key, { inside: true, enteredAt: now, dwellReported: false });
+        // The first fix only establishes state, otherwise every zone a member
+        // already sits in would fire an enter event when the admin connects
+        if (state) {
+          events.push(this.createEvent('enter', organizationId, memberId, zone, location, now));
+        }
+      } else if (!inside && state?.inside) {
+        this.memberStates.set(key, { inside: false, enteredAt: 0, dwellReported: false });
+        events.push(this.createEvent('exit', organizationId, memberId, zone, location, now, now - state.enteredAt));
+      } else if (!inside && !state) {
+        this.memberStates.set(key, { inside: false, enteredAt: 0, dwellReported: false });
+      } else if (inside && state && !state.dwellReported) {
+        const dwellMs = now - state.enteredAt;
+        if (dwellMs >= zone.dwellMinutes * 60000) {
+          state.dwellReported = true;
+          events.push(this.createEvent('dwell', organizationId, memberId, zone, location, now, dwellMs));
+        }
+      }
+    });
+
+    events.forEach(event => this.notifyEvent(event));
+    return events;
+  }
+
+  getZonesContaining(organizationId: string, point: GeoPoint): Geofence[] {
+    return this.getZones(organizationId).filter(zone => isInsideGeofence(point, zone));
+  }
+
+  onGeofenceEvent(callback: (event: GeofenceEvent) => void): () => void {
+    this.onEventCallbacks.push(callback);
+    return () => {
+      this.onEventCallbacks = this.onEventCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  clearMemberState(organizationId: string, memberId: string): void {
+    const prefix = `${organizationId}:${memberId}:`;
+    Array.from(this.memberStates.keys())
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.memberStates.delete(key));
+  }
+
+  private createEvent(
+    type: GeofenceEventType,
+    organizationId: string,
+    memberId: string,
+    zone: Geofence,
+    location: GeoPoint,
+    timestamp: number,
+    dwellMs?: number
+  ): GeofenceEvent {
+    return {
+      id: `${zone.id}_${memberId}_${type}_${timestamp}`,
+      type,
+      organizationId,
+      memberId,
+      zoneId: zone.id,
+      zoneName: zone.name,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      timestamp,
+      dwellMs
+    };
+  }
+
+  private notifyEvent(event: GeofenceEvent): void {
+    console.log(`GeofenceService: ${event.memberId} ${event.type} ${event.zoneName}`);
+
+    this.onEventCallbacks.forEach(callback => {
+      try {
+        callback(event);
+      } catch (error) {
+        console.error('Geofence event callback error:', error);
+      }
+    });
+
+    window.dispatchEvent(new CustomEvent('geofence-event', { detail: event }));
+  }
+}
+
+export const geofenceService = new GeofenceService();
@@ -0,0 +1,72 @@
+import type { LocationData } from '@/services/LocationService';
+import { locationSchema } from '@/utils/validation';
+
+export interface ImportedTrack {
+  id: string;
+  name: string;
+  points: LocationData[];
+}
+
+const IMPORT_USER_ID = 'gpx-import';
+
+// GPX documents may or may not declare the 1.1 namespace, so match on local names
+const childrenByName = (parent: Element | Document, name: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', name));
+
+const childText = (parent: Element, name: string): string | undefined => {
+  const child = Array.from(parent.children).find(el => el.localName === name);
+  return child?.textContent?.trim() || undefined;
+};
+
+function parsePoints(elements: Element[], trackId: string, organizationId: string): LocationData[] {
+  const points: LocationData[] = [];
+
+  elements.forEach((el, index) => {
+    const latitude = parseFloat(el.getAttribute('lat') || '');
+    const longitude = parseFloat(el.getAttribute('lon') || '');
+    if (!locationSchema.safeParse({ latitude, longitude }).success) return;
+
+    const time = childText(el, 'time');
+    const timestamp = time ? Date.parse(time) : NaN;
+
+    points.push({
+      id: `${trackId}_${index}`,
+      userId: IMPORT_USER_ID,
+      organizationId,
+      latitude,
+      longitude,
+      timestamp: isNaN(timestamp) ? 0 : timestamp
+    });
+  });
+
+  return points;
+}
+
+// Reads <trk> segments and <rte> routes; waypoints on their own are ignored
+export function parseGpx(xml: string, organizationId = ''): ImportedTrack[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('File is not valid XML');
+  }
+  if (doc.documentElement.localName !== 'gpx') {
+    throw new Error('File is not a GPX document');
+  }
+
+  const tracks: ImportedTrack[] = [];
+  const addTrack = (el: Element, pointTag: string, fallbackName: string) => {
+    const id = `gpx_${tracks.length}`;
+    const points = parsePoints(childrenByName(el, pointTag), id, organizationId);
+    if (points.length < 2) return;
+    tracks.push({ id, name: childText(el, 'name') || fallbackName, points });
+  };
+
+  childrenByName(doc, 'trk').forEach((trk, index) => addTrack(trk, 'trkpt', `Track ${index + 1}`));
+  childrenByName(doc, 'rte').forEach((rte, index) => addTrack(rte, 'rtept', `Route ${index + 1}`));
+
+  return tracks;
+}
+
+export async function readGpxFile(file: File, organizationId = ''): Promise<ImportedTrack[]> {
+  const text = await file.text();
+  return parseGpx(text, organizationId);
+}
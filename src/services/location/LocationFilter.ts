@@ -0,0 +1,174 @@
+import { GeoPoint, haversineDistance } from './geo';
+
+export type FixRejectionReason = 'poor_accuracy' | 'impossible_speed';
+
+export interface RawFix extends GeoPoint {
+  accuracy?: number;
+  timestamp?: number;
+}
+
+export interface FilterResult<T extends RawFix = RawFix> {
+  // The fix exactly as it was reported
+  raw: T;
+  // Smoothed copy of the fix, null when it was rejected
+  filtered: T | null;
+  rejectedReason?: FixRejectionReason;
+}
+
+export interface LocationFilterOptions {
+  // Fixes reporting a worse accuracy radius than this are dropped
+  maxAccuracyMeters: number;
+  // Anything faster than this between two fixes is treated as a GPS jump
+  maxSpeedMps: number;
+  // Expected movement noise in m/s; larger values follow the raw fixes more closely
+  processNoiseMps: number;
+  // After this many consecutive speed rejections the filter accepts the new position
+  maxConsecutiveJumps: number;
+}
+
+export const DEFAULT_FILTER_OPTIONS: LocationFilterOptions = {
+  maxAccuracyMeters: 100,
+  maxSpeedMps: 70,
+  processNoiseMps: 3,
+  maxConsecutiveJumps: 3
+};
+
+const MIN_ACCURACY_METERS = 1;
+// Used when a fix carries no accuracy at all
+const UNKNOWN_ACCURACY_METERS = 30;
+
+// Constant-position Kalman filter over latitude/longitude with variance in metres²
+export class KalmanFilter {
+  private latitude = 0;
+  private longitude = 0;
+  private variance = -1;
+  private timestamp = 0;
+
+  constructor(private processNoiseMps: number) {}
+
+  isInitialized(): boolean {
+    return this.variance >= 0;
+  }
+
+  process(latitude: number, longitude: number, accuracy: number, timestamp: number): GeoPoint {
+    const measurementVariance = Math.max(accuracy, MIN_ACCURACY_METERS) ** 2;
+
+    if (!this.isInitialized()) {
+      this.reset(latitude, longitude, accuracy, timestamp);
+      return { latitude, longitude };
+    }
+
+    const elapsedSeconds = (timestamp - this.timestamp) / 1000;
+    if (elapsedSeconds > 0) {
+      this.variance += elapsedSeconds * this.processNoiseMps ** 2;
+      this.timestamp = timestamp;
+    }
+
+    const gain = this.variance / (this.variance + measurementVariance);
+    this.latitude += gain * (latitude - this.latitude);
+    this.longitude += gain * (longitude - this.longitude);
+    this.variance = (1 - gain) * this.variance;
+
+    return { latitude: this.latitude, longitude: this.longitude };
+  }
+
+  reset(latitude: number, longitude: number, accuracy: number, timestamp: number): void {
+    this.latitude = latitude;
+    this.longitude = longitude;
+    this.variance = Math.max(accuracy, MIN_ACCURACY_METERS) ** 2;
+    this.timestamp = timestamp;
+  }
+}
+
+export class LocationFilter {
+  private kalman: KalmanFilter;
+  private lastAccepted: (GeoPoint & { timestamp: number; accuracy: number }) | null = null;
+  private consecutiveJumps = 0;
+
+  constructor(private options: LocationFilterOptions = DEFAULT_FILTER_OPTIONS) {
+    this.kalman = new KalmanFilter(options.processNoiseMps);
+  }
+
+  process<T extends RawFix>(fix: T): FilterResult<T> {
+    const accuracy = typeof fix.accuracy === 'number' ? fix.accuracy : UNKNOWN_ACCURACY_METERS;
+    const timestamp = fix.timestamp || Date.now();
+
+    if (accuracy > this.options.maxAccuracyMeters) {
+      return { raw: fix, filtered: null, rejectedReason: 'poor_accuracy' };
+    }
+
+    if (this.lastAccepted && this.isImpossibleJump(fix, accuracy, timestamp)) {
+      this.consecutiveJumps++;
+      if (this.consecutiveJumps < this.options.maxConsecutiveJumps) {
+        return { raw: fix, filtered: null, rejectedReason: 'impossible_speed' };
+      }
+      // Several fixes agree on the new position, so the old one was the outlier
+      this.kalman.reset(fix.latitude, fix.longitude, accuracy, timestamp);
+    }
+    this.consecutiveJumps = 0;
+
+    const smoothed = this.kalman.process(fix.latitude, fix.longitude, accuracy, timestamp);
+    this.lastAccepted = { latitude: fix.latitude, longitude: fix.longitude, timestamp, accuracy };
+
+    return {
+      raw: fix,
+      filtered: { ...fix, latitude: smoothed.latitude, longitude: smoothed.longitude }
+    };
+  }
+
+  private isImpossibleJump(fix: RawFix, accuracy: number, timestamp: number): boolean {
+    const last = this.lastAccepted!;
+    const elapsedSeconds = (timestamp - last.timestamp) / 1000;
+    // Both fixes could be off by their accuracy radius, only the rest counts as movement
+    const distance = Math.max(0, haversineDistance(last, fix) - accuracy - last.accuracy);
+    if (elapsedSeconds <= 0) return distance > 0;
+    return distance / elapsedSeconds > this.options.maxSpeedMps;
+  }
+}
+
+// One filter per member; repeated calls for the same fix return the cached result
+export class LocationFilterService {
+  private filters = new Map<string, LocationFilter>();
+  private lastResults = new Map<string, { timestamp: number; result: FilterResult }>();
+
+  constructor(private options: LocationFilterOptions = DEFAULT_FILTER_OPTIONS) {}
+
+  process<T extends RawFix>(memberId: string, fix: T): FilterResult<T> {
+    const cached = this.lastResults.get(memberId);
+    if (fix.timestamp && cached && cached.timestamp === fix.timestamp) {
+      return cached.result as FilterResult<T>;
+    }
+
+    let filter = this.filters.get(memberId);
+    if (!filter) {
+      filter = new LocationFilter(this.options);
+      this.filters.set(memberId, filter);
+    }
+
+    const result = filter.process(fix);
+    if (fix.timestamp) {
+      this.lastResults.set(memberId, { timestamp: fix.timestamp, result });
+    }
+    return result;
+  }
+
+  reset(memberId?: string): void {
+    if (memberId) {
+      this.filters.delete(memberId);
+      this.lastResults.delete(memberId);
+    } else {
+      this.filters.clear();
+      this.lastResults.clear();
+    }
+  }
+}
+
+// Shape stored in location history: the smoothed fix, or the raw one flagged as rejected
+export function toHistoryFix<T extends RawFix>(result: FilterResult<T>): T & { raw: GeoPoint; rejectedReason?: FixRejectionReason } {
+  const raw = { latitude: result.raw.latitude, longitude: result.raw.longitude };
+  return result.filtered
+    ? { ...result.filtered, raw }
+    : { ...result.raw, raw, rejectedReason: result.rejectedReason };
+}
+
+export const locationFilterService = new LocationFilterService();
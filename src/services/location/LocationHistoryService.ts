@@ -0,0 +1,170 @@
+import {
+  LocationHistoryPoint,
+  addLocationHistoryPoints,
+  getMemberLocationHistory,
+  getOrganizationLocationHistory,
+  deleteLocationHistoryBefore
+} from '@/lib/localDb';
+import { GeoPoint } from './geo';
+
+const FLUSH_DELAY_MS = 2000;
+const MAX_PENDING_POINTS = 50;
+// History older than this is deleted once per session
+export const RETENTION_DAYS = 30;
+
+export type TrackMode = 'filtered' | 'raw';
+
+export type HistoryFix = GeoPoint & {
+  accuracy?: number;
+  timestamp?: number;
+  raw?: GeoPoint;
+  rejectedReason?: LocationHistoryPoint['rejectedReason'];
+};
+
+// Filtered tracks skip rejected fixes; raw tracks show every fix where it was reported
+export function selectTrack(points: LocationHistoryPoint[], mode: TrackMode): LocationHistoryPoint[] {
+  if (mode === 'filtered') {
+    return points.filter(point => !point.rejectedReason);
+  }
+  return points.map(point => point.raw ? { ...point, latitude: point.raw.latitude, longitude: point.raw.longitude } : point);
+}
+
+// Linear interpolation between the two fixes around `time`; clamps to the ends of the track
+export function interpolatePosition(points: LocationHistoryPoint[], time: number): GeoPoint | null {
+  if (points.length === 0) return null;
+  if (time <= points[0].timestamp) return points[0];
+
+  const last = points[points.length - 1];
+  if (time >= last.timestamp) return last;
+
+  // Binary search for the first point after `time`
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (points[mid].timestamp <= time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  const after = points[low];
+  const before = points[low - 1];
+  const span = after.timestamp - before.timestamp;
+  const ratio = span > 0 ? (time - before.timestamp) / span : 0;
+
+  return {
+    latitude: before.latitude + (after.latitude - before.latitude) * ratio,
+    longitude: before.longitude + (after.longitude - before.longitude) * ratio
+  };
+}
+
+export function getDayRange(date: Date): { from: number; to: number } {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { from: start.getTime(), to: end.getTime() - 1 };
+}
+
+// Where history is kept; IndexedDB in the app
+export interface LocationHistoryStore {
+  add(points: LocationHistoryPoint[]): Promise<void>;
+  getMember(organizationId: string, memberId: string, from: number, to: number): Promise<LocationHistoryPoint[]>;
+  getOrganization(organizationId: string, from: number, to: number): Promise<LocationHistoryPoint[]>;
+  deleteBefore(timestamp: number): Promise<void>;
+}
+
+const indexedDbStore: LocationHistoryStore = {
+  add: addLocationHistoryPoints,
+  getMember: getMemberLocationHistory,
+  getOrganization: getOrganizationLocationHistory,
+  deleteBefore: deleteLocationHistoryBefore
+};
+
+export class LocationHistoryService {
+  private store: LocationHistoryStore;
+  private pendingPoints: LocationHistoryPoint[] = [];
+  private flushTimeout: ReturnType<typeof setTimeout> | null = null;
+  private hasPruned = false;
+
+  constructor(store: LocationHistoryStore = indexedDbStore) {
+    this.store = store;
+  }
+
+  record(organizationId: string, memberId: string, location: HistoryFix): void {
+    if (typeof location.latitude !== 'number' || typeof location.longitude !== 'number') return;
+
+    this.pendingPoints.push({
+      organizationId,
+      memberId,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      accuracy: location.accuracy,
+      timestamp: location.timestamp || Date.now(),
+      ...(location.raw && { raw: { latitude: location.raw.latitude, longitude: location.raw.longitude } }),
+      ...(location.rejectedReason && { rejectedReason: location.rejectedReason })
+    });
+
+    if (this.pendingPoints.length >= MAX_PENDING_POINTS) {
+      this.flush();
+    } else if (!this.flushTimeout) {
+      this.flushTimeout = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = null;
+    }
+    if (this.pendingPoints.length === 0) return;
+
+    const batch = this.pendingPoints;
+    this.pendingPoints = [];
+
+    try {
+      await this.store.add(batch);
+      window.dispatchEvent(new CustomEvent('location-history-updated', {
+        detail: { count: batch.length }
+      }));
+    } catch (error) {
+      console.error('LocationHistoryService: Failed to persist points, keeping them for retry:', error);
+      this.pendingPoints = [...batch, ...this.pendingPoints];
+    }
+
+    this.pruneOnce();
+  }
+
+  async getMemberHistory(organizationId: string, memberId: string, from: number, to: number): Promise<LocationHistoryPoint[]> {
+    await this.flush();
+    const points = await this.store.getMember(organizationId, memberId, from, to);
+    return points.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async getOrganizationHistory(organizationId: string, from: number, to: number): Promise<LocationHistoryPoint[]> {
+    await this.flush();
+    const points = await this.store.getOrganization(organizationId, from, to);
+    return points.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async getPositionAt(organizationId: string, memberId: string, time: number): Promise<GeoPoint | null> {
+    const { from, to } = getDayRange(new Date(time));
+    const points = await this.getMemberHistory(organizationId, memberId, from, to);
+    return interpolatePosition(selectTrack(points, 'filtered'), time);
+  }
+
+  private async pruneOnce(): Promise<void> {
+    if (this.hasPruned) return;
+    this.hasPruned = true;
+
+    try {
+      await this.store.deleteBefore(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    } catch (error) {
+      console.warn('LocationHistoryService: Failed to prune old history:', error);
+    }
+  }
+}
+
+export const locationHistoryService = new LocationHistoryService();
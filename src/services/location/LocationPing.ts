@@ -0,0 +1,178 @@
+export type PingAccuracy = 'high' | 'balanced';
+
+export type PingFailureReason = 'permission_denied' | 'timeout' | 'not_sharing' | 'unavailable' | 'not_connected';
+
+// Carried by location_request; requests without it are answered with a plain location_update
+export interface LocationPingRequest {
+  requestId: string;
+  accuracy: PingAccuracy;
+  timeoutMs: number;
+}
+
+export interface LocationPingResponse {
+  requestId: string;
+  location: { latitude: number; longitude: number; accuracy?: number; timestamp: number } | null;
+  // Set whenever location is null
+  reason?: PingFailureReason;
+}
+
+export interface LocationPingOptions {
+  accuracy: PingAccuracy;
+  timeoutMs: number;
+}
+
+export type PingMemberStatus = 'pending' | 'responded' | 'failed';
+
+export interface PingMemberResult {
+  memberId: string;
+  status: PingMemberStatus;
+  sentAt: number;
+  respondedAt?: number;
+  responseMs?: number;
+  accuracyMeters?: number;
+  reason?: PingFailureReason;
+}
+
+export interface LocationPing {
+  id: string;
+  accuracy: PingAccuracy;
+  timeoutMs: number;
+  startedAt: number;
+  results: Record<string, PingMemberResult>;
+}
+
+export interface PingSummary {
+  total: number;
+  responded: number;
+  failed: number;
+  pending: number;
+  medianMs: number | null;
+}
+
+// Answers can take a moment to travel back after the member's own GPS timeout
+const TRANSIT_GRACE_MS = 3000;
+
+export function positionOptionsFor(request?: LocationPingRequest): PositionOptions {
+  if (!request) return { enableHighAccuracy: true, timeout: 10000, maximumAge: 30000 };
+  return {
+    enableHighAccuracy: request.accuracy === 'high',
+    timeout: request.timeoutMs,
+    // A precise ping wants a fresh fix, not the last cached one
+    maximumAge: request.accuracy === 'high' ? 0 : 30000
+  };
+}
+
+export function positionErrorReason(error: unknown): PingFailureReason {
+  const code = (error as GeolocationPositionError | undefined)?.code;
+  if (code === 1) return 'permission_denied';
+  if (code === 3) return 'timeout';
+  return 'unavailable';
+}
+
+export function summarizePing(ping: LocationPing): PingSummary {
+  const results = Object.values(ping.results);
+  const times = results
+    .filter(result => result.status === 'responded' && result.responseMs !== undefined)
+    .map(result => result.responseMs!)
+    .sort((a, b) => a - b);
+  const middle = Math.floor(times.length / 2);
+
+  return {
+    total: results.length,
+    responded: times.length,
+    failed: results.filter(result => result.status === 'failed').length,
+    pending: results.filter(result => result.status === 'pending').length,
+    medianMs: times.length === 0 ? null : times.length % 2 ? times[middle] : (times[middle - 1] + times[middle]) / 2
+  };
+}
+
+// Admin side: one ping at a time, each member answering or timing out on its own
+export class LocationPingService {
+  private current: LocationPing | null = null;
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private listeners = new Set<(ping: LocationPing | null) => void>();
+
+  constructor() {
+    window.addEventListener('webrtc-location-response', ((event: CustomEvent<{ response: LocationPingResponse; peerId: string; receivedAt: number }>) => {
+      this.handleResponse(event.detail.peerId, event.detail.response, event.detail.receivedAt);
+    }) as EventListener);
+  }
+
+  start(
+    memberIds: string[],
+    send: (memberId: string, request: LocationPingRequest) => boolean,
+    options: LocationPingOptions,
+    now = Date.now()
+  ): LocationPing {
+    this.clearTimers();
+    const request: LocationPingRequest = {
+      requestId: `ping_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      accuracy: options.accuracy,
+      timeoutMs: options.timeoutMs
+    };
+    this.current = { id: request.requestId, accuracy: options.accuracy, timeoutMs: options.timeoutMs, startedAt: now, results: {} };
+
+    memberIds.forEach(memberId => {
+      const sent = send(memberId, request);
+      this.current!.results[memberId] = sent
+        ? { memberId, status: 'pending', sentAt: now }
+        : { memberId, status: 'failed', sentAt: now, reason: 'not_connected' };
+      if (sent) {
+        this.timers.set(memberId, setTimeout(() => {
+          this.finish(request.requestId, memberId, { status: 'failed', reason: 'timeout' });
+        }, options.timeoutMs + TRANSIT_GRACE_MS));
+      }
+    });
+
+    this.notifyListeners();
+    return this.current;
+  }
+
+  handleResponse(memberId: string, response: LocationPingResponse | undefined, now = Date.now()): void {
+    if (!response?.requestId) return;
+
+    const sentAt = this.current?.results[memberId]?.sentAt ?? now;
+    this.finish(response.requestId, memberId, response.location
+      ? { status: 'responded', respondedAt: now, responseMs: now - sentAt, accuracyMeters: response.location.accuracy }
+      : { status: 'failed', respondedAt: now, responseMs: now - sentAt, reason: response.reason || 'unavailable' });
+  }
+
+  getCurrent(): LocationPing | null {
+    return this.current;
+  }
+
+  onChange(callback: (ping: LocationPing | null) => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  private finish(requestId: string, memberId: string, changes: Partial<PingMemberResult>): void {
+    const result = this.current?.results[memberId];
+    // Late answers to an older ping, or a second answer from the same member, are ignored
+    if (this.current?.id !== requestId || !result || result.status !== 'pending') return;
+
+    const timer = this.timers.get(memberId);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(memberId);
+
+    this.current = { ...this.current, results: { ...this.current.results, [memberId]: { ...result, ...changes } } };
+    this.notifyListeners();
+  }
+
+  private clearTimers(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(callback => {
+      try {
+        callback(this.current);
+      } catch (error) {
+        console.error('Location ping callback error:', error);
+      }
+    });
+  }
+}
+
+export const locationPingService = new LocationPingService();
@@ -0,0 +1,196 @@
+import type { LocationBatch, LocationBatchAck } from './OutboundLocationQueue';
+
+// 1: one location_update per fix, for admins that never announce a version. 2: delta-encoded location_batch_compact
+export const JSON_LOCATION_PROTOCOL = 1;
+export const LOCATION_PROTOCOL_VERSION = 2;
+// How long a member waits for the admin's announcement on a new channel before settling on version 1
+export const LOCATION_NEGOTIATION_TIMEOUT_MS = 3000;
+
+// Fixed-point degrees, about 11 cm at the equator
+const COORDINATE_SCALE = 1e6;
+// Batch ends the admin keeps per queue; the member's reference is always one of its last few
+const MAX_REFERENCES = 8;
+
+export interface CompactLocationBatch {
+  v: number;
+  q: string;
+  u: string;
+  o: string;
+  // Seq of the acknowledged fix the first point is relative to, 0 when the batch is absolute
+  r: number;
+  // [seq delta, latitude delta, longitude delta, milliseconds since the previous fix, accuracy in m?]
+  p: number[][];
+}
+
+interface FixReference {
+  seq: number;
+  lat: number;
+  lng: number;
+  timestamp: number;
+}
+
+const ORIGIN: FixReference = { seq: 0, lat: 0, lng: 0, timestamp: 0 };
+
+const toFixed = (degrees: number) => Math.round(degrees * COORDINATE_SCALE);
+
+export function encodeLocationBatch(batch: LocationBatch, reference: FixReference | null): CompactLocationBatch {
+  let previous = reference || ORIGIN;
+  const points = batch.points.map(point => {
+    const current = { seq: point.seq, lat: toFixed(point.latitude), lng: toFixed(point.longitude), timestamp: point.timestamp };
+    const encoded = [current.seq - previous.seq, current.lat - previous.lat, current.lng - previous.lng, current.timestamp - previous.timestamp];
+    if (point.accuracy !== undefined) encoded.push(Math.round(point.accuracy));
+    previous = current;
+    return encoded;
+  });
+
+  return { v: LOCATION_PROTOCOL_VERSION, q: batch.queueId, u: batch.userId, o: batch.organizationId, r: reference?.seq || 0, p: points };
+}
+
+export function decodeLocationBatch(compact: CompactLocationBatch, reference: FixReference | null): LocationBatch {
+  let previous = reference || ORIGIN;
+  const points = compact.p.map(([seqDelta, latDelta, lngDelta, timeDelta, accuracy]) => {
+    previous = {
+      seq: previous.seq + seqDelta,
+      lat: previous.lat + latDelta,
+      lng: previous.lng + lngDelta,
+      timestamp: previous.timestamp + timeDelta
+    };
+    return {
+      seq: previous.seq,
+      organizationId: compact.o,
+      userId: compact.u,
+      latitude: previous.lat / COORDINATE_SCALE,
+      longitude: previous.lng / COORDINATE_SCALE,
+      ...(accuracy !== undefined && { accuracy }),
+      timestamp: previous.timestamp
+    };
+  });
+
+  return { queueId: compact.q, userId: compact.u, organizationId: compact.o, points };
+}
+
+const lastReference = (batch: LocationBatch): FixReference | null => {
+  const last = batch.points[batch.points.length - 1];
+  return last ? { seq: last.seq, lat: toFixed(last.latitude), lng: toFixed(last.longitude), timestamp: last.timestamp } : null;
+};
+
+// Member side: deltas refer to the last fix the admin acknowledged, never to one that may have been lost
+export class LocationDeltaEncoder {
+  private reference: FixReference | null = null;
+  // Last fix of every batch in flight, keyed by its seq
+  private inFlight = new Map<number, FixReference>();
+
+  encode(batch: LocationBatch): CompactLocationBatch {
+    const end = lastReference(batch);
+    if (end) this.inFlight.set(end.seq, end);
+    return encodeLocationBatch(batch, this.reference);
+  }
+
+  acknowledge(upToSeq: number): void {
+    const acked = this.inFlight.get(upToSeq);
+    if (acked) this.reference = acked;
+    this.inFlight.forEach((_, seq) => {
+      if (seq <= upToSeq) this.inFlight.delete(seq);
+    });
+  }
+
+  reset(): void {
+    this.reference = null;
+    this.inFlight.clear();
+  }
+}
+
+// Admin side: returns null when the member refers to a fix this admin doesn't know (e.g. after a restart)
+export class LocationDeltaDecoder {
+  private references = new Map<string, Map<number, FixReference>>();
+
+  decode(compact: CompactLocationBatch): LocationBatch | null {
+    const known = this.references.get(compact.q) || new Map<number, FixReference>();
+    const reference = compact.r ? known.get(compact.r) : null;
+    if (compact.r && !reference) return null;
+
+    const batch = decodeLocationBatch(compact, reference);
+    const end = lastReference(batch);
+    if (end) {
+      known.set(end.seq, end);
+      if (known.size > MAX_REFERENCES) known.delete(Math.min(...known.keys()));
+      this.references.set(compact.q, known);
+    }
+    return batch;
+  }
+}
+
+// Member side: the format agreed with the admin on the current channel
+export class LocationWireProtocol {
+  private version = JSON_LOCATION_PROTOCOL;
+  private encoder = new LocationDeltaEncoder();
+  private negotiated = false;
+  private negotiationTimer: ReturnType<typeof setTimeout> | null = null;
+  private timeoutMs: number;
+
+  constructor(timeoutMs = LOCATION_NEGOTIATION_TIMEOUT_MS) {
+    this.timeoutMs = timeoutMs;
+    // The admin announces its version on every new channel; admins that never do only speak JSON
+    window.addEventListener('webrtc-data-channel-open', () => this.renegotiate());
+
+    window.addEventListener('webrtc-location-batch-ack', ((event: CustomEvent<LocationBatchAck>) => {
+      if (event.detail?.resync) {
+        this.encoder.reset();
+      } else if (event.detail) {
+        this.encoder.acknowledge(event.detail.upToSeq);
+      }
+    }) as EventListener);
+  }
+
+  // Settles on the highest version both sides speak
+  negotiate(remoteVersion: number | undefined): number {
+    const version = Math.max(JSON_LOCATION_PROTOCOL, Math.min(LOCATION_PROTOCOL_VERSION, remoteVersion || JSON_LOCATION_PROTOCOL));
+    this.setVersion(version);
+    this.settle();
+    return version;
+  }
+
+  getVersion(): number {
+    return this.version;
+  }
+
+  // False from a channel opening until the admin's announcement, or its timeout, says how replayed fixes go out
+  isNegotiated(): boolean {
+    return this.negotiated;
+  }
+
+  private renegotiate(): void {
+    this.setVersion(JSON_LOCATION_PROTOCOL);
+    this.negotiated = false;
+    if (this.negotiationTimer) clearTimeout(this.negotiationTimer);
+    this.negotiationTimer = setTimeout(() => this.settle(), this.timeoutMs);
+  }
+
+  private setVersion(version: number): void {
+    if (version === this.version) return;
+    this.version = version;
+    this.encoder.reset();
+  }
+
+  private settle(): void {
+    if (this.negotiationTimer) clearTimeout(this.negotiationTimer);
+    this.negotiationTimer = null;
+    this.negotiated = true;
+    window.dispatchEvent(new CustomEvent('location-protocol-negotiated', { detail: { version: this.version } }));
+  }
+
+  // Version 1 admins only take single fixes and never ack them
+  acknowledgesBatches(): boolean {
+    return this.version >= LOCATION_PROTOCOL_VERSION;
+  }
+
+  toMessages(batch: LocationBatch): { type: string; data: unknown; timestamp: number }[] {
+    const timestamp = Date.now();
+    if (this.acknowledgesBatches()) {
+      return [{ type: 'location_batch_compact', data: this.encoder.encode(batch), timestamp }];
+    }
+    return batch.points.map(({ seq: _seq, ...fix }) => ({ type: 'location_update', data: fix, timestamp }));
+  }
+}
+
+export const locationWireProtocol = new LocationWireProtocol();
@@ -0,0 +1,119 @@
+// Keeps member positions as GeoJSON features and works out what changed between renders,
+// so the map only touches members that actually moved or changed state.
+
+export interface MapMember {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  lastSeen: string;
+  status: 'active' | 'offline';
+}
+
+export type MemberFeature = GeoJSON.Feature<GeoJSON.Point, {
+  id: string;
+  name: string;
+  lastSeen: string;
+  status: MapMember['status'];
+  selected: boolean;
+}>;
+
+export interface MemberFeatureDiff {
+  changed: MemberFeature[];
+  removed: string[];
+  // Members that were not on the map before; used to decide whether to re-frame it
+  added: string[];
+}
+
+const toFeature = (member: MapMember, selected: boolean): MemberFeature => ({
+  type: 'Feature',
+  id: member.id,
+  properties: {
+    id: member.id,
+    name: member.name,
+    lastSeen: member.lastSeen,
+    status: member.status,
+    selected
+  },
+  geometry: { type: 'Point', coordinates: [member.longitude, member.latitude] }
+});
+
+const isSameFeature = (a: MemberFeature, b: MemberFeature): boolean => {
+  const [aLng, aLat] = a.geometry.coordinates;
+  const [bLng, bLat] = b.geometry.coordinates;
+  return aLng === bLng && aLat === bLat &&
+    a.properties.name === b.properties.name &&
+    a.properties.lastSeen === b.properties.lastSeen &&
+    a.properties.status === b.properties.status &&
+    a.properties.selected === b.properties.selected;
+};
+
+export class MemberFeatureIndex {
+  private features = new Map<string, MemberFeature>();
+
+  update(members: MapMember[], selectedMember?: string): MemberFeatureDiff {
+    const diff: MemberFeatureDiff = { changed: [], removed: [], added: [] };
+    const seen = new Set<string>();
+
+    members.forEach(member => {
+      seen.add(member.id);
+      const next = toFeature(member, member.id === selectedMember);
+      const previous = this.features.get(member.id);
+      if (!previous) {
+        diff.added.push(member.id);
+      } else if (isSameFeature(previous, next)) {
+        return;
+      }
+      this.features.set(member.id, next);
+      diff.changed.push(next);
+    });
+
+    this.features.forEach((_, id) => {
+      if (!seen.has(id)) {
+        this.features.delete(id);
+        diff.removed.push(id);
+      }
+    });
+
+    return diff;
+  }
+
+  hasChanges(diff: MemberFeatureDiff): boolean {
+    return diff.changed.length > 0 || diff.removed.length > 0;
+  }
+
+  get(id: string): MemberFeature | undefined {
+    return this.features.get(id);
+  }
+
+  toCollection(): GeoJSON.FeatureCollection<GeoJSON.Point> {
+    return { type: 'FeatureCollection', features: Array.from(this.features.values()) };
+  }
+}
+
+export interface DensityCell {
+  latitude: number;
+  longitude: number;
+  count: number;
+}
+
+// Bins history points into a grid so long ranges of large orgs stay cheap to render as a heatmap
+export function buildDensityGrid(points: { latitude: number; longitude: number }[], cellDegrees = 0.0005): DensityCell[] {
+  const cells = new Map<string, DensityCell>();
+  points.forEach(point => {
+    const row = Math.floor(point.latitude / cellDegrees);
+    const col = Math.floor(point.longitude / cellDegrees);
+    const key = `${row}:${col}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.count++;
+    } else {
+      cells.set(key, {
+        latitude: (row + 0.5) * cellDegrees,
+        longitude: (col + 0.5) * cellDegrees,
+        count: 1
+      });
+    }
+  });
+  return Array.from(cells.values());
+}
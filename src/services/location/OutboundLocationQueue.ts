@@ -0,0 +1,213 @@
+import {
+  OutboundLocation,
+  enqueueOutboundLocation,
+  getOutboundLocations,
+  countOutboundLocations,
+  deleteOutboundLocationsUpTo
+} from '@/lib/localDb';
+
+const BATCH_SIZE = 50;
+const ACK_TIMEOUT_MS = 10000;
+const QUEUE_ID_KEY = 'outboundLocationQueueId';
+// New fixes wait this long so high-frequency tracking sends several per message
+const BATCH_LINGER_MS = 2000;
+
+export interface LocationBatch {
+  // Changes when the device's queue database is recreated, so the admin resets its sequence tracking
+  queueId: string;
+  userId: string;
+  organizationId: string;
+  points: (OutboundLocation & { seq: number })[];
+}
+
+export interface LocationBatchAck {
+  queueId: string;
+  upToSeq: number;
+  // The admin couldn't decode a compact batch; it wants the same points again, absolute
+  resync?: boolean;
+}
+
+// What the queue needs from the WebRTC layer; both return false when no data channel is open
+export interface LocationQueueTransport {
+  // One fix as a live location_update
+  sendLive(location: OutboundLocation): boolean;
+  // Replayed backlog
+  sendBatch(batch: LocationBatch): boolean;
+  // False while the admin only takes single fixes; a sent batch then counts as delivered
+  acknowledgesBatches(): boolean;
+  // False until the admin's protocol version is known on the current channel; nothing is replayed before
+  isNegotiated(): boolean;
+}
+
+// Where fixes wait for the replay; IndexedDB in the app
+export interface OutboundLocationStore {
+  // Resolves with the fix's seq
+  add(location: OutboundLocation): Promise<number>;
+  // Oldest first
+  getOldest(limit: number): Promise<OutboundLocation[]>;
+  count(): Promise<number>;
+  deleteUpTo(seq: number): Promise<void>;
+}
+
+const indexedDbStore: OutboundLocationStore = {
+  add: enqueueOutboundLocation,
+  getOldest: getOutboundLocations,
+  count: countOutboundLocations,
+  deleteUpTo: deleteOutboundLocationsUpTo
+};
+
+export class OutboundLocationQueue {
+  private store: OutboundLocationStore;
+  private transport: LocationQueueTransport | null = null;
+  private isFlushing = false;
+  private flushRequested = false;
+  private resendRequested = false;
+  private lingerTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingAck: { upToSeq: number; resolve: (acked: boolean) => void; timeout: ReturnType<typeof setTimeout> } | null = null;
+  private queueId: string;
+
+  constructor(store: OutboundLocationStore = indexedDbStore) {
+    this.store = store;
+    this.queueId = localStorage.getItem(QUEUE_ID_KEY) || '';
+    if (!this.queueId) {
+      this.queueId = `q_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+      localStorage.setItem(QUEUE_ID_KEY, this.queueId);
+    }
+
+    // Replay the backlog once a new channel to the admin has agreed how batches go out. Replaying as soon as
+    // it opens would send them as unacknowledged single fixes and delete them before the admin's version is known.
+    window.addEventListener('location-protocol-negotiated', () => this.flush());
+    // A link to another member may be the way to the admin now
+    window.addEventListener('mesh-link-open', () => this.flush());
+
+    window.addEventListener('webrtc-location-batch-ack', ((event: CustomEvent<LocationBatchAck>) => {
+      this.handleAck(event.detail);
+    }) as EventListener);
+  }
+
+  setTransport(transport: LocationQueueTransport): void {
+    this.transport = transport;
+  }
+
+  // Sent live while the channel is up and nothing older is waiting, so the admin never gets fixes out of order.
+  // Otherwise persisted, so the fix survives a dropped channel or an app restart, and replayed in batches.
+  async enqueue(location: OutboundLocation): Promise<void> {
+    try {
+      if (this.transport && !this.isFlushing && await this.store.count() === 0 && this.transport.sendLive(location)) {
+        return;
+      }
+      await this.store.add(location);
+    } catch (error) {
+      console.error('OutboundLocationQueue: Failed to persist location:', error);
+      return;
+    }
+    if (!this.lingerTimer) {
+      this.lingerTimer = setTimeout(() => {
+        this.lingerTimer = null;
+        this.flush();
+      }, BATCH_LINGER_MS);
+    }
+  }
+
+  async getBacklogSize(): Promise<number> {
+    try {
+      return await this.store.count();
+    } catch (error) {
+      console.error('OutboundLocationQueue: Failed to count backlog:', error);
+      return 0;
+    }
+  }
+
+  // Sends the backlog in order, one batch at a time, waiting for the admin's ack between batches
+  async flush(): Promise<void> {
+    if (!this.transport || !this.transport.isNegotiated()) return;
+    if (this.isFlushing) {
+      this.flushRequested = true;
+      return;
+    }
+    this.isFlushing = true;
+    this.flushRequested = false;
+    let delivered = true;
+
+    try {
+      while (true) {
+        const queued = await this.store.getOldest(BATCH_SIZE);
+        if (queued.length === 0) break;
+
+        // A batch only ever carries fixes of one member and organization
+        const mismatch = queued.findIndex(p => p.userId !== queued[0].userId || p.organizationId !== queued[0].organizationId);
+        const points = mismatch === -1 ? queued : queued.slice(0, mismatch);
+
+        const batch: LocationBatch = {
+          queueId: this.queueId,
+          userId: points[0].userId,
+          organizationId: points[0].organizationId,
+          points: points as LocationBatch['points']
+        };
+        const upToSeq = batch.points[batch.points.length - 1].seq;
+
+        const acknowledged = this.transport.acknowledgesBatches();
+        const ackPromise = acknowledged ? this.waitForAck(upToSeq) : Promise.resolve(true);
+        if (!this.transport.sendBatch(batch)) {
+          this.clearPendingAck(false);
+          delivered = false;
+          break;
+        }
+
+        if (!await ackPromise) {
+          if (this.resendRequested) {
+            this.resendRequested = false;
+            continue;
+          }
+          delivered = false;
+          console.warn('OutboundLocationQueue: No ack for batch up to seq', upToSeq, '- will retry on reconnect');
+          break;
+        }
+
+        await this.store.deleteUpTo(upToSeq);
+        window.dispatchEvent(new CustomEvent('outbound-location-queue-drained', {
+          detail: { upToSeq, count: points.length }
+        }));
+      }
+    } catch (error) {
+      console.error('OutboundLocationQueue: Replay failed:', error);
+      delivered = false;
+    } finally {
+      this.isFlushing = false;
+    }
+
+    // Fixes queued while the last batch was in flight
+    if (delivered && this.flushRequested) {
+      this.flush();
+    }
+  }
+
+  private waitForAck(upToSeq: number): Promise<boolean> {
+    return new Promise(resolve => {
+      this.pendingAck = {
+        upToSeq,
+        resolve,
+        timeout: setTimeout(() => this.clearPendingAck(false), ACK_TIMEOUT_MS)
+      };
+    });
+  }
+
+  private handleAck(ack: LocationBatchAck | undefined): void {
+    if (!ack || ack.queueId !== this.queueId || !this.pendingAck) return;
+    if (ack.resync) {
+      this.resendRequested = true;
+      this.clearPendingAck(false);
+    } else if (ack.upToSeq >= this.pendingAck.upToSeq) {
+      this.clearPendingAck(true);
+    }
+  }
+
+  private clearPendingAck(acked: boolean): void {
+    if (!this.pendingAck) return;
+    clearTimeout(this.pendingAck.timeout);
+    this.pendingAck.resolve(acked);
+    this.pendingAck = null;
+  }
+}
+
+export const outboundLocationQueue = new OutboundLocationQueue();
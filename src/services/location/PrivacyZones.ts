@@ -0,0 +1,145 @@
+import { GeoPoint, haversineDistance, destinationPoint, initialBearing } from './geo';
+
+// Private zones live only on the member's device and are applied before any fix is sent,
+// so nothing the admin does can reveal a location inside one.
+
+export type PrivacyZoneMode = 'suppress' | 'snap_to_edge' | 'coarse_grid';
+
+export interface PrivacyZone {
+  id: string;
+  name: string;
+  center: GeoPoint;
+  radiusMeters: number;
+  mode: PrivacyZoneMode;
+  createdAt: number;
+}
+
+export type PrivacyResult<T extends GeoPoint> =
+  | { action: 'share'; location: T; zone: null }
+  | { action: 'blur'; location: T; zone: PrivacyZone }
+  | { action: 'suppress'; location: null; zone: PrivacyZone };
+
+// Roughly 1.1 km north-south; cells are centred so a fix never lands on its true grid line
+export const COARSE_GRID_DEGREES = 0.01;
+
+const STORAGE_KEY = 'privacyZones';
+
+// The strictest mode wins where zones overlap
+const MODE_STRICTNESS: Record<PrivacyZoneMode, number> = {
+  suppress: 3,
+  coarse_grid: 2,
+  snap_to_edge: 1
+};
+
+export function findPrivacyZone(point: GeoPoint, zones: PrivacyZone[]): PrivacyZone | null {
+  let match: PrivacyZone | null = null;
+  zones.forEach(zone => {
+    if (haversineDistance(point, zone.center) > zone.radiusMeters) return;
+    if (!match || MODE_STRICTNESS[zone.mode] > MODE_STRICTNESS[match.mode]) {
+      match = zone;
+    }
+  });
+  return match;
+}
+
+export function snapToZoneEdge(point: GeoPoint, zone: PrivacyZone): GeoPoint {
+  const bearing = haversineDistance(zone.center, point) > 0 ? initialBearing(zone.center, point) : 0;
+  return destinationPoint(zone.center, zone.radiusMeters, bearing);
+}
+
+export function snapToGrid(point: GeoPoint, gridDegrees = COARSE_GRID_DEGREES): GeoPoint {
+  const snap = (value: number) => (Math.floor(value / gridDegrees) + 0.5) * gridDegrees;
+  return { latitude: snap(point.latitude), longitude: snap(point.longitude) };
+}
+
+export function applyPrivacyZones<T extends GeoPoint & { accuracy?: number }>(fix: T, zones: PrivacyZone[]): PrivacyResult<T> {
+  const zone = findPrivacyZone(fix, zones);
+  if (!zone) return { action: 'share', location: fix, zone: null };
+
+  switch (zone.mode) {
+    case 'snap_to_edge':
+      return {
+        action: 'blur',
+        location: { ...fix, ...snapToZoneEdge(fix, zone), accuracy: Math.max(fix.accuracy ?? 0, zone.radiusMeters) },
+        zone
+      };
+    case 'coarse_grid':
+      return {
+        action: 'blur',
+        location: { ...fix, ...snapToGrid(fix), accuracy: Math.max(fix.accuracy ?? 0, COARSE_GRID_DEGREES * 111320) },
+        zone
+      };
+    default:
+      return { action: 'suppress', location: null, zone };
+  }
+}
+
+export class PrivacyZoneService {
+  private zones: PrivacyZone[] = [];
+  private currentZoneId: string | null = null;
+  private onZonesChangeCallbacks: ((zones: PrivacyZone[]) => void)[] = [];
+
+  constructor() {
+    try {
+      this.zones = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    } catch (error) {
+      console.warn('PrivacyZoneService: Failed to load zones:', error);
+      this.zones = [];
+    }
+  }
+
+  getZones(): PrivacyZone[] {
+    return this.zones;
+  }
+
+  addZone(zone: Omit<PrivacyZone, 'id' | 'createdAt'>): PrivacyZone {
+    const created: PrivacyZone = {
+      ...zone,
+      id: `privacy_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: Date.now()
+    };
+    this.setZones([...this.zones, created]);
+    return created;
+  }
+
+  updateZone(id: string, changes: Partial<Omit<PrivacyZone, 'id' | 'createdAt'>>): void {
+    this.setZones(this.zones.map(zone => zone.id === id ? { ...zone, ...changes } : zone));
+  }
+
+  removeZone(id: string): void {
+    this.setZones(this.zones.filter(zone => zone.id !== id));
+  }
+
+  onZonesChange(callback: (zones: PrivacyZone[]) => void): () => void {
+    this.onZonesChangeCallbacks.push(callback);
+    return () => {
+      this.onZonesChangeCallbacks = this.onZonesChangeCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  // Every outgoing fix goes through here; also reports when the member leaves a zone
+  apply<T extends GeoPoint & { accuracy?: number }>(fix: T): PrivacyResult<T> & { leftZone: boolean } {
+    const result = applyPrivacyZones(fix, this.zones);
+    const leftZone = this.currentZoneId !== null && result.zone === null;
+    this.currentZoneId = result.zone?.id ?? null;
+    return { ...result, leftZone };
+  }
+
+  isInPrivateZone(): boolean {
+    return this.currentZoneId !== null;
+  }
+
+  private setZones(zones: PrivacyZone[]): void {
+    this.zones = zones;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(zones));
+    this.onZonesChangeCallbacks.forEach(callback => {
+      try {
+        callback(zones);
+      } catch (error) {
+        console.error('Privacy zones callback error:', error);
+      }
+    });
+  }
+}
+
+export const privacyZoneService = new PrivacyZoneService();
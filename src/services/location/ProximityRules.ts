@@ -0,0 +1,152 @@
+import { ProximityRule, ProximityRuleType, getOrganization, updateOrganization } from '@/lib/localDb';
+import { GeoPoint, haversineDistance } from './geo';
+
+export type { ProximityRule, ProximityRuleType };
+
+export interface ProximityAlert {
+  id: string;
+  organizationId: string;
+  ruleId: string;
+  ruleName: string;
+  type: ProximityRuleType;
+  memberA: string;
+  memberB: string;
+  distanceMeters: number;
+  thresholdMeters: number;
+  timestamp: number;
+}
+
+export interface TrackedPosition extends GeoPoint {
+  id: string;
+  status: 'active' | 'offline';
+}
+
+interface RuleState {
+  violated: boolean;
+  lastAlertAt: number | null;
+}
+
+// Distance between the rule's two members, or null while either has no usable position
+export function getRuleDistance(rule: ProximityRule, positions: Map<string, TrackedPosition>): number | null {
+  const a = positions.get(rule.memberA);
+  const b = positions.get(rule.memberB);
+  if (!a || !b || a.status !== 'active' || b.status !== 'active') return null;
+  return haversineDistance(a, b);
+}
+
+export function isRuleViolated(rule: ProximityRule, distanceMeters: number): boolean {
+  return rule.type === 'proximity'
+    ? distanceMeters <= rule.distanceMeters
+    : distanceMeters > rule.distanceMeters;
+}
+
+// Admin side: checks member pairs against the organization's rules as live positions arrive
+export class ProximityRuleEngine {
+  private rulesByOrg = new Map<string, ProximityRule[]>();
+  // Keyed by `${organizationId}:${ruleId}`
+  private ruleStates = new Map<string, RuleState>();
+  private onAlertCallbacks: ((alert: ProximityAlert) => void)[] = [];
+
+  async loadRules(organizationId: string): Promise<ProximityRule[]> {
+    try {
+      const org = await getOrganization(organizationId);
+      this.rulesByOrg.set(organizationId, org?.proximityRules || []);
+    } catch (error) {
+      console.error('ProximityRuleEngine: Failed to load rules for org:', organizationId, error);
+    }
+    return this.getRules(organizationId);
+  }
+
+  async saveRules(organizationId: string, rules: ProximityRule[]): Promise<void> {
+    await updateOrganization(organizationId, { proximityRules: rules });
+    this.setRules(organizationId, rules);
+  }
+
+  setRules(organizationId: string, rules: ProximityRule[]): void {
+    const previous = new Map(this.getRules(organizationId).map(rule => [rule.id, rule]));
+    this.rulesByOrg.set(organizationId, rules);
+
+    // Edited, disabled and removed rules start over so a new threshold can alert right away
+    rules.forEach(rule => {
+      if (!rule.enabled || JSON.stringify(previous.get(rule.id)) !== JSON.stringify(rule)) {
+        this.ruleStates.delete(`${organizationId}:${rule.id}`);
+      }
+      previous.delete(rule.id);
+    });
+    previous.forEach(rule => this.ruleStates.delete(`${organizationId}:${rule.id}`));
+  }
+
+  getRules(organizationId: string): ProximityRule[] {
+    return this.rulesByOrg.get(organizationId) || [];
+  }
+
+  evaluate(organizationId: string, members: TrackedPosition[], now = Date.now()): ProximityAlert[] {
+    const rules = this.getRules(organizationId).filter(rule => rule.enabled);
+    if (rules.length === 0) return [];
+
+    const positions = new Map(
+      members
+        .filter(member => member.latitude !== 0 || member.longitude !== 0)
+        .map(member => [member.id, member])
+    );
+    const alerts: ProximityAlert[] = [];
+
+    rules.forEach(rule => {
+      const distance = getRuleDistance(rule, positions);
+      if (distance === null) return;
+
+      const key = `${organizationId}:${rule.id}`;
+      const state = this.ruleStates.get(key) || { violated: false, lastAlertAt: null };
+      const violated = isRuleViolated(rule, distance);
+
+      // Alert on every violation, but at most once per cooldown, also while it persists
+      if (violated && (state.lastAlertAt === null || now - state.lastAlertAt >= rule.cooldownMinutes * 60000)) {
+        state.lastAlertAt = now;
+        alerts.push({
+          id: `${rule.id}_${now}`,
+          organizationId,
+          ruleId: rule.id,
+          ruleName: rule.name,
+          type: rule.type,
+          memberA: rule.memberA,
+          memberB: rule.memberB,
+          distanceMeters: Math.round(distance),
+          thresholdMeters: rule.distanceMeters,
+          timestamp: now
+        });
+      }
+      state.violated = violated;
+      this.ruleStates.set(key, state);
+    });
+
+    alerts.forEach(alert => this.notifyAlert(alert));
+    return alerts;
+  }
+
+  isViolated(organizationId: string, ruleId: string): boolean {
+    return this.ruleStates.get(`${organizationId}:${ruleId}`)?.violated || false;
+  }
+
+  onAlert(callback: (alert: ProximityAlert) => void): () => void {
+    this.onAlertCallbacks.push(callback);
+    return () => {
+      this.onAlertCallbacks = this.onAlertCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  private notifyAlert(alert: ProximityAlert): void {
+    console.log(`ProximityRuleEngine: ${alert.ruleName} ${alert.memberA}/${alert.memberB} at ${alert.distanceMeters} m`);
+
+    this.onAlertCallbacks.forEach(callback => {
+      try {
+        callback(alert);
+      } catch (error) {
+        console.error('Proximity alert callback error:', error);
+      }
+    });
+
+    window.dispatchEvent(new CustomEvent('proximity-alert', { detail: alert }));
+  }
+}
+
+export const proximityRules = new ProximityRuleEngine();
@@ -0,0 +1,266 @@
+import { SamplingProfileName } from '@/lib/localDb';
+import { healthMonitor, BatteryState } from '@/services/production/HealthMonitor';
+import { gracefulDegradationManager, DegradationLevel } from '@/services/webrtc/GracefulDegradationManager';
+import { GeoPoint, haversineDistance } from './geo';
+
+export type { SamplingProfileName };
+
+export const SAMPLING_PROFILES: SamplingProfileName[] = ['precise', 'balanced', 'low_power'];
+export const DEFAULT_SAMPLING_PROFILE: SamplingProfileName = 'balanced';
+
+export interface SamplingInputs {
+  profile: SamplingProfileName;
+  // Metres per second, null until two fixes or a device speed reading are available
+  speed: number | null;
+  isStationary: boolean;
+  battery: BatteryState | null;
+  degradationLevel: DegradationLevel['level'];
+}
+
+export interface SamplingSettings {
+  enableHighAccuracy: boolean;
+  timeout: number;
+  maximumAge: number;
+  // Minimum time and distance between fixes that are kept
+  intervalMs: number;
+  distanceFilterMeters: number;
+  effectiveProfile: SamplingProfileName;
+  reasons: string[];
+}
+
+// A policy maps the current inputs to watch options; swap it out with setPolicy()
+export type SamplingPolicy = (inputs: SamplingInputs) => SamplingSettings;
+
+interface ProfileTuning {
+  highAccuracy: boolean;
+  movingIntervalMs: number;
+  stationaryIntervalMs: number;
+  distanceFilterMeters: number;
+}
+
+const PROFILE_TUNING: Record<SamplingProfileName, ProfileTuning> = {
+  precise: { highAccuracy: true, movingIntervalMs: 5000, stationaryIntervalMs: 30000, distanceFilterMeters: 5 },
+  balanced: { highAccuracy: true, movingIntervalMs: 15000, stationaryIntervalMs: 120000, distanceFilterMeters: 15 },
+  low_power: { highAccuracy: false, movingIntervalMs: 60000, stationaryIntervalMs: 300000, distanceFilterMeters: 50 }
+};
+
+const LOW_BATTERY = 0.2;
+const CRITICAL_BATTERY = 0.1;
+const FAST_SPEED_MPS = 10; // roughly 36 km/h, driving
+const MIN_INTERVAL_MS = 3000;
+
+const STATIONARY_RADIUS_METERS = 25;
+const STATIONARY_AFTER_MS = 3 * 60 * 1000;
+
+const stepDown = (profile: SamplingProfileName): SamplingProfileName =>
+  profile === 'precise' ? 'balanced' : 'low_power';
+
+export const adaptiveSamplingPolicy: SamplingPolicy = ({ profile, speed, isStationary, battery, degradationLevel }) => {
+  const reasons: string[] = [];
+  let effectiveProfile = profile;
+
+  // Battery only matters while unplugged
+  if (battery && !battery.charging) {
+    if (battery.level <= CRITICAL_BATTERY && effectiveProfile !== 'low_power') {
+      effectiveProfile = 'low_power';
+      reasons.push(`battery critical (${Math.round(battery.level * 100)}%)`);
+    } else if (battery.level <= LOW_BATTERY && effectiveProfile !== 'low_power') {
+      effectiveProfile = stepDown(effectiveProfile);
+      reasons.push(`battery low (${Math.round(battery.level * 100)}%)`);
+    }
+  }
+
+  // Without real-time delivery there is no point in sampling faster than fixes can be sent
+  if (degradationLevel === 'minimal' || degradationLevel === 'offline') {
+    if (effectiveProfile !== 'low_power') reasons.push(`connection ${degradationLevel}`);
+    effectiveProfile = 'low_power';
+  }
+
+  const tuning = PROFILE_TUNING[effectiveProfile];
+  let intervalMs = isStationary ? tuning.stationaryIntervalMs : tuning.movingIntervalMs;
+  let enableHighAccuracy = tuning.highAccuracy;
+
+  if (isStationary) {
+    reasons.push('stationary');
+    // A stationary device does not need GPS unless the admin asked for precise tracking
+    if (effectiveProfile !== 'precise') enableHighAccuracy = false;
+  } else if (speed !== null && speed >= FAST_SPEED_MPS) {
+    reasons.push('moving fast');
+    intervalMs = intervalMs / 2;
+  }
+
+  if (degradationLevel === 'limited') {
+    reasons.push('connection limited');
+    intervalMs *= 2;
+  }
+
+  intervalMs = Math.max(MIN_INTERVAL_MS, Math.round(intervalMs));
+
+  return {
+    enableHighAccuracy,
+    timeout: enableHighAccuracy ? 10000 : 30000,
+    maximumAge: intervalMs,
+    intervalMs,
+    distanceFilterMeters: isStationary ? STATIONARY_RADIUS_METERS : tuning.distanceFilterMeters,
+    effectiveProfile,
+    reasons
+  };
+};
+
+export interface SampledFix extends GeoPoint {
+  timestamp: number;
+  // Device-reported speed in m/s when available
+  speed?: number | null;
+}
+
+export class SamplingPolicyEngine {
+  private policy: SamplingPolicy = adaptiveSamplingPolicy;
+  private profile: SamplingProfileName = DEFAULT_SAMPLING_PROFILE;
+  private battery: BatteryState | null = null;
+  private degradationLevel: DegradationLevel['level'] = 'full';
+  private speed: number | null = null;
+  private lastFix: SampledFix | null = null;
+  private lastAcceptedFix: SampledFix | null = null;
+  private anchor: SampledFix | null = null;
+  private settings: SamplingSettings;
+  private onSettingsChangeCallbacks: ((settings: SamplingSettings) => void)[] = [];
+  private isStarted = false;
+
+  constructor() {
+    this.settings = this.evaluate();
+  }
+
+  // Subscribes to battery and connection quality; called when tracking starts
+  start(): void {
+    if (this.isStarted) return;
+    this.isStarted = true;
+
+    healthMonitor.onBatteryChange(battery => {
+      this.battery = battery;
+      this.reevaluate();
+    });
+
+    gracefulDegradationManager.onDegradationChange(level => {
+      this.degradationLevel = level.level;
+      this.reevaluate();
+    });
+    this.degradationLevel = gracefulDegradationManager.getCurrentLevel().level;
+    this.reevaluate();
+  }
+
+  setPolicy(policy: SamplingPolicy): void {
+    this.policy = policy;
+    this.reevaluate();
+  }
+
+  getProfile(): SamplingProfileName {
+    return this.profile;
+  }
+
+  setProfile(profile: SamplingProfileName): void {
+    if (!SAMPLING_PROFILES.includes(profile) || profile === this.profile) return;
+    this.profile = profile;
+    this.reevaluate();
+  }
+
+  // Member devices remember the profile their admin pushed per organization
+  loadProfile(organizationId: string): SamplingProfileName {
+    const stored = localStorage.getItem(`samplingProfile_${organizationId}`) as SamplingProfileName | null;
+    this.setProfile(stored && SAMPLING_PROFILES.includes(stored) ? stored : DEFAULT_SAMPLING_PROFILE);
+    return this.profile;
+  }
+
+  saveProfile(organizationId: string, profile: SamplingProfileName): void {
+    if (!SAMPLING_PROFILES.includes(profile)) return;
+    localStorage.setItem(`samplingProfile_${organizationId}`, profile);
+    this.setProfile(profile);
+  }
+
+  getSettings(): SamplingSettings {
+    return this.settings;
+  }
+
+  onSettingsChange(callback: (settings: SamplingSettings) => void): () => void {
+    this.onSettingsChangeCallbacks.push(callback);
+    return () => {
+      this.onSettingsChangeCallbacks = this.onSettingsChangeCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  // Feeds every raw fix into motion detection; returns false when the fix should be skipped
+  handleFix(fix: SampledFix): boolean {
+    this.updateMotion(fix);
+    this.reevaluate();
+
+    const last = this.lastAcceptedFix;
+    if (last) {
+      const elapsed = fix.timestamp - last.timestamp;
+      const moved = haversineDistance(last, fix);
+      if (elapsed < this.settings.intervalMs && moved < this.settings.distanceFilterMeters) {
+        return false;
+      }
+    }
+
+    this.lastAcceptedFix = fix;
+    return true;
+  }
+
+  reset(): void {
+    this.speed = null;
+    this.lastFix = null;
+    this.lastAcceptedFix = null;
+    this.anchor = null;
+    this.reevaluate();
+  }
+
+  private updateMotion(fix: SampledFix): void {
+    if (typeof fix.speed === 'number' && fix.speed >= 0) {
+      this.speed = fix.speed;
+    } else if (this.lastFix && fix.timestamp > this.lastFix.timestamp) {
+      this.speed = haversineDistance(this.lastFix, fix) / ((fix.timestamp - this.lastFix.timestamp) / 1000);
+    }
+    this.lastFix = fix;
+
+    // Re-anchor whenever the device leaves the stationary radius
+    if (!this.anchor || haversineDistance(this.anchor, fix) > STATIONARY_RADIUS_METERS) {
+      this.anchor = fix;
+    }
+  }
+
+  private isStationary(): boolean {
+    if (!this.anchor || !this.lastFix) return false;
+    return this.lastFix.timestamp - this.anchor.timestamp >= STATIONARY_AFTER_MS;
+  }
+
+  private evaluate(): SamplingSettings {
+    return this.policy({
+      profile: this.profile,
+      speed: this.speed,
+      isStationary: this.isStationary(),
+      battery: this.battery,
+      degradationLevel: this.degradationLevel
+    });
+  }
+
+  private reevaluate(): void {
+    const next = this.evaluate();
+    const previous = this.settings;
+    this.settings = next;
+
+    const changed = !previous ||
+      previous.enableHighAccuracy !== next.enableHighAccuracy ||
+      previous.intervalMs !== next.intervalMs ||
+      previous.timeout !== next.timeout;
+    if (!changed) return;
+
+    this.onSettingsChangeCallbacks.forEach(callback => {
+      try {
+        callback(next);
+      } catch (error) {
+        console.error('Sampling settings callback error:', error);
+      }
+    });
+  }
+}
+
+export const samplingPolicy = new SamplingPolicyEngine();
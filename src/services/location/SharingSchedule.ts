@@ -0,0 +1,246 @@
+import { Organization, SharingSchedule, SharingWindow } from '@/lib/localDb';
+
+export type { SharingSchedule, SharingWindow };
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+const COARSE_STEP_MS = 15 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const LOOKAHEAD_MS = 8 * 24 * 60 * 60 * 1000;
+
+export interface ScheduleStatus {
+  sharing: boolean;
+  // When sharing next starts or stops; null without a schedule or if it never changes
+  nextChange: number | null;
+}
+
+// What a member reports when it withholds or blurs its location, and 'sharing' once it stops doing so
+export interface LocationSharingStatus {
+  status: 'sharing' | 'not_sharing' | 'in_private_zone';
+  reason?: 'outside_schedule';
+  resumesAt?: number | null;
+}
+
+// Organization and member schedules as pushed by the admin; the member one wins
+export interface StoredSchedules {
+  organization: SharingSchedule | null;
+  member: SharingSchedule | null;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', { timeZone: timezone, weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+    } catch (error) {
+      // Unknown timezone: fall back to the device's own
+      console.warn('SharingSchedule: Invalid timezone', timezone, error);
+      formatter = new Intl.DateTimeFormat('en-US', { weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+    }
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Weekday and minute of the day on the wall clock of the given timezone
+export function getZonedTime(timestamp: number, timezone: string): { day: number; minutes: number } {
+  const parts = getFormatter(timezone).formatToParts(new Date(timestamp));
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return {
+    day: DAY_LABELS.indexOf(part('weekday')),
+    minutes: (Number(part('hour')) % 24) * 60 + Number(part('minute'))
+  };
+}
+
+export function parseTime(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+function isWithinWindow(sharingWindow: SharingWindow, day: number, minutes: number): boolean {
+  const start = parseTime(sharingWindow.start);
+  const end = parseTime(sharingWindow.end);
+
+  if (start < end) {
+    return sharingWindow.days.includes(day) && minutes >= start && minutes < end;
+  }
+  // Overnight window belongs to the day it starts on
+  const previousDay = (day + 6) % 7;
+  return (sharingWindow.days.includes(day) && minutes >= start) || (sharingWindow.days.includes(previousDay) && minutes < end);
+}
+
+export function hasSchedule(schedule: SharingSchedule | null | undefined): schedule is SharingSchedule {
+  return !!schedule && Array.isArray(schedule.windows) && schedule.windows.length > 0;
+}
+
+export function isWithinSchedule(schedule: SharingSchedule | null | undefined, timestamp: number): boolean {
+  if (!hasSchedule(schedule)) return true;
+  const { day, minutes } = getZonedTime(timestamp, schedule.timezone);
+  return schedule.windows.some(sharingWindow => isWithinWindow(sharingWindow, day, minutes));
+}
+
+// Steps forward coarsely, then narrows down to the minute the state flips
+export function getNextScheduleChange(schedule: SharingSchedule | null | undefined, from: number): number | null {
+  if (!hasSchedule(schedule)) return null;
+
+  const current = isWithinSchedule(schedule, from);
+  const startMinute = Math.floor(from / MINUTE_MS) * MINUTE_MS;
+  for (let t = startMinute + COARSE_STEP_MS; t <= from + LOOKAHEAD_MS; t += COARSE_STEP_MS) {
+    if (isWithinSchedule(schedule, t) !== current) {
+      for (let fine = t - COARSE_STEP_MS + MINUTE_MS; fine <= t; fine += MINUTE_MS) {
+        if (isWithinSchedule(schedule, fine) !== current) return fine;
+      }
+      return t;
+    }
+  }
+  return null;
+}
+
+export function getScheduleStatus(schedule: SharingSchedule | null | undefined, now = Date.now()): ScheduleStatus {
+  return {
+    sharing: isWithinSchedule(schedule, now),
+    nextChange: getNextScheduleChange(schedule, now)
+  };
+}
+
+export function resolveSchedule(schedules: StoredSchedules): SharingSchedule | null {
+  if (hasSchedule(schedules.member)) return schedules.member;
+  return hasSchedule(schedules.organization) ? schedules.organization : null;
+}
+
+// Effective schedule for a member as the admin has it stored
+export function getMemberSchedule(org: Organization | undefined, memberId: string): SharingSchedule | null {
+  if (!org) return null;
+  return resolveSchedule({
+    organization: org.sharingSchedule || null,
+    member: org.members?.find(m => m.id === memberId)?.sharingSchedule || null
+  });
+}
+
+// Collapses consecutive days into ranges, e.g. "Mon–Fri"
+const describeDays = (days: number[]): string => {
+  // Monday-first order reads more naturally for work weeks
+  const ordered = [1, 2, 3, 4, 5, 6, 0].filter(day => days.includes(day));
+  if (ordered.length === 7) return 'Every day';
+
+  const ranges: number[][] = [];
+  ordered.forEach(day => {
+    const last = ranges[ranges.length - 1];
+    if (last && (last[last.length - 1] + 1) % 7 === day) {
+      last.push(day);
+    } else {
+      ranges.push([day]);
+    }
+  });
+  return ranges
+    .map(range => range.length > 2
+      ? `${DAY_LABELS[range[0]]}–${DAY_LABELS[range[range.length - 1]]}`
+      : range.map(day => DAY_LABELS[day]).join(', '))
+    .join(', ');
+};
+
+export function describeSchedule(schedule: SharingSchedule | null | undefined): string {
+  if (!hasSchedule(schedule)) return 'Always sharing';
+  const windows = schedule.windows.map(w => `${describeDays(w.days)} ${w.start}–${w.end}`);
+  return `${windows.join('; ')} (${schedule.timezone})`;
+}
+
+// Member side: tracks whether the device may share right now and reports flips
+export class SharingScheduleEngine {
+  private organizationId: string | null = null;
+  private schedules: StoredSchedules = { organization: null, member: null };
+  private sharing = true;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private onStatusChangeCallbacks: ((status: ScheduleStatus) => void)[] = [];
+
+  // Member devices remember the schedules their admin pushed per organization
+  loadSchedules(organizationId: string): StoredSchedules {
+    this.organizationId = organizationId;
+    this.schedules = this.readStored(organizationId);
+    this.reevaluate();
+    return this.schedules;
+  }
+
+  saveSchedule(organizationId: string, scope: keyof StoredSchedules, schedule: SharingSchedule | null): void {
+    const current = organizationId === this.organizationId ? this.schedules : this.readStored(organizationId);
+    const next = { ...current, [scope]: schedule };
+    localStorage.setItem(`sharingSchedule_${organizationId}`, JSON.stringify(next));
+
+    if (organizationId === this.organizationId) {
+      this.schedules = next;
+      this.reevaluate();
+    }
+  }
+
+  getSchedule(): SharingSchedule | null {
+    return resolveSchedule(this.schedules);
+  }
+
+  isSharingNow(): boolean {
+    return isWithinSchedule(this.getSchedule(), Date.now());
+  }
+
+  getStatus(): ScheduleStatus {
+    return getScheduleStatus(this.getSchedule());
+  }
+
+  // Re-checks once a minute while tracking; window edges are minute-precise
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.reevaluate(), CHECK_INTERVAL_MS);
+    this.reevaluate();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  onStatusChange(callback: (status: ScheduleStatus) => void): () => void {
+    this.onStatusChangeCallbacks.push(callback);
+    return () => {
+      this.onStatusChangeCallbacks = this.onStatusChangeCallbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  private readStored(organizationId: string): StoredSchedules {
+    try {
+      const stored = localStorage.getItem(`sharingSchedule_${organizationId}`);
+      return { organization: null, member: null, ...(stored ? JSON.parse(stored) : {}) };
+    } catch (error) {
+      console.warn('SharingSchedule: Failed to load schedules:', error);
+      return { organization: null, member: null };
+    }
+  }
+
+  private reevaluate(): void {
+    const sharing = this.isSharingNow();
+    if (sharing === this.sharing) return;
+    this.sharing = sharing;
+
+    const status = this.getStatus();
+    this.onStatusChangeCallbacks.forEach(callback => {
+      try {
+        callback(status);
+      } catch (error) {
+        console.error('Sharing schedule callback error:', error);
+      }
+    });
+  }
+}
+
+export const sharingSchedule = new SharingScheduleEngine();
@@ -0,0 +1,175 @@
+import { Geofence, LocationHistoryPoint } from '@/lib/localDb';
+import { GeoPoint, haversineDistance } from './geo';
+import { distanceToGeofence } from './GeofenceService';
+import { locationHistoryService, getDayRange, selectTrack } from './LocationHistoryService';
+
+export interface StopDetectionOptions {
+  // A stop is any stretch of fixes that stays within this radius of its first fix...
+  radiusMeters: number;
+  // ...for at least this long
+  minDurationMs: number;
+  // Zones further away than this are not reported as the stop's nearest place
+  maxGeofenceDistanceMeters: number;
+}
+
+export const DEFAULT_STOP_OPTIONS: StopDetectionOptions = {
+  radiusMeters: 100,
+  minDurationMs: 10 * 60 * 1000,
+  maxGeofenceDistanceMeters: 250
+};
+
+export interface Stop {
+  type: 'stop';
+  arrival: number;
+  departure: number;
+  durationMs: number;
+  center: GeoPoint;
+  pointCount: number;
+}
+
+export interface Trip {
+  type: 'trip';
+  start: number;
+  end: number;
+  durationMs: number;
+  distanceMeters: number;
+  pointCount: number;
+}
+
+export type TrackSegment = Stop | Trip;
+
+export interface StopVisit extends Stop {
+  nearestGeofence: { id: string; name: string; distanceMeters: number } | null;
+}
+
+export interface DwellReport {
+  organizationId: string;
+  memberId: string;
+  from: number;
+  to: number;
+  stops: StopVisit[];
+  trips: Trip[];
+  totalStopMs: number;
+  totalTripMs: number;
+  totalDistanceMeters: number;
+}
+
+const centroid = (points: GeoPoint[]): GeoPoint => ({
+  latitude: points.reduce((sum, p) => sum + p.latitude, 0) / points.length,
+  longitude: points.reduce((sum, p) => sum + p.longitude, 0) / points.length
+});
+
+const pathLength = (points: GeoPoint[]) =>
+  points.reduce((sum, point, i) => (i === 0 ? 0 : sum + haversineDistance(points[i - 1], point)), 0);
+
+const buildTrip = (points: LocationHistoryPoint[]): Trip => ({
+  type: 'trip',
+  start: points[0].timestamp,
+  end: points[points.length - 1].timestamp,
+  durationMs: points[points.length - 1].timestamp - points[0].timestamp,
+  distanceMeters: pathLength(points),
+  pointCount: points.length
+});
+
+// Stay-point detection: grow a window from each anchor fix while it stays within the radius.
+// Expects points sorted by timestamp.
+export function segmentTrack(points: LocationHistoryPoint[], options: StopDetectionOptions = DEFAULT_STOP_OPTIONS): TrackSegment[] {
+  const segments: TrackSegment[] = [];
+  let tripStart = 0;
+  let i = 0;
+
+  while (i < points.length) {
+    let j = i + 1;
+    while (j < points.length && haversineDistance(points[i], points[j]) <= options.radiusMeters) {
+      j++;
+    }
+
+    const last = points[j - 1];
+    if (last.timestamp - points[i].timestamp >= options.minDurationMs) {
+      // Trips include the fixes where they leave and reach a stop so their distance is complete
+      if (i > tripStart) {
+        segments.push(buildTrip(points.slice(Math.max(tripStart - 1, 0), i + 1)));
+      }
+
+      const stopPoints = points.slice(i, j);
+      segments.push({
+        type: 'stop',
+        arrival: points[i].timestamp,
+        departure: last.timestamp,
+        durationMs: last.timestamp - points[i].timestamp,
+        center: centroid(stopPoints),
+        pointCount: stopPoints.length
+      });
+
+      tripStart = j;
+      i = j;
+    } else {
+      i++;
+    }
+  }
+
+  if (tripStart < points.length) {
+    const tripPoints = points.slice(Math.max(tripStart - 1, 0));
+    if (tripPoints.length > 1) {
+      segments.push(buildTrip(tripPoints));
+    }
+  }
+
+  return segments;
+}
+
+export function findNearestGeofence(point: GeoPoint, zones: Geofence[], maxDistanceMeters: number): StopVisit['nearestGeofence'] {
+  let nearest: StopVisit['nearestGeofence'] = null;
+  zones.forEach(zone => {
+    const distance = distanceToGeofence(point, zone);
+    if (distance <= maxDistanceMeters && (!nearest || distance < nearest.distanceMeters)) {
+      nearest = { id: zone.id, name: zone.name, distanceMeters: distance };
+    }
+  });
+  return nearest;
+}
+
+export function buildDwellReport(
+  organizationId: string,
+  memberId: string,
+  range: { from: number; to: number },
+  points: LocationHistoryPoint[],
+  zones: Geofence[],
+  options: StopDetectionOptions = DEFAULT_STOP_OPTIONS
+): DwellReport {
+  const segments = segmentTrack(selectTrack(points, 'filtered'), options);
+
+  const stops: StopVisit[] = [];
+  const trips: Trip[] = [];
+  segments.forEach(segment => {
+    if (segment.type === 'stop') {
+      stops.push({ ...segment, nearestGeofence: findNearestGeofence(segment.center, zones, options.maxGeofenceDistanceMeters) });
+    } else {
+      trips.push(segment);
+    }
+  });
+
+  return {
+    organizationId,
+    memberId,
+    from: range.from,
+    to: range.to,
+    stops,
+    trips,
+    totalStopMs: stops.reduce((sum, stop) => sum + stop.durationMs, 0),
+    totalTripMs: trips.reduce((sum, trip) => sum + trip.durationMs, 0),
+    totalDistanceMeters: trips.reduce((sum, trip) => sum + trip.distanceMeters, 0)
+  };
+}
+
+export async function getDailyDwellReport(
+  organizationId: string,
+  memberId: string,
+  day: Date,
+  zones: Geofence[],
+  options: StopDetectionOptions = DEFAULT_STOP_OPTIONS
+): Promise<DwellReport> {
+  const range = getDayRange(day);
+  const points = await locationHistoryService.getMemberHistory(organizationId, memberId, range.from, range.to);
+  return buildDwellReport(organizationId, memberId, range, points, zones, options);
+}
@@ -0,0 +1,206 @@
+import type { LocationData } from '@/services/LocationService';
+import { locationSchema } from '@/utils/validation';
+import { LocationHistoryPoint } from '@/lib/localDb';
+import { locationHistoryService } from './LocationHistoryService';
+
+export type TrackExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export interface MemberTrack {
+  memberId: string;
+  memberName: string;
+  organizationId: string;
+  points: LocationData[];
+}
+
+export interface TrackExportOptions {
+  organizationId: string;
+  organizationName?: string;
+  // Export a single member when set, otherwise the whole organization
+  memberId?: string;
+  memberNames?: Record<string, string>;
+  from: number;
+  to: number;
+}
+
+const CREATOR = 'LocationSync';
+
+const FORMAT_DETAILS: Record<TrackExportFormat, { extension: string; mimeType: string }> = {
+  gpx: { extension: 'gpx', mimeType: 'application/gpx+xml' },
+  kml: { extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json' }
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const isoTime = (timestamp: number) => new Date(timestamp).toISOString();
+
+function toLocationData(point: LocationHistoryPoint): LocationData {
+  return {
+    id: point.id !== undefined ? String(point.id) : `${point.memberId}_${point.timestamp}`,
+    userId: point.memberId,
+    organizationId: point.organizationId,
+    latitude: point.latitude,
+    longitude: point.longitude,
+    timestamp: point.timestamp,
+    accuracy: point.accuracy
+  };
+}
+
+// Drops fixes that fail the shared location validator or the GPS filter so exports never contain junk coordinates
+export function groupIntoTracks(points: LocationHistoryPoint[], memberNames: Record<string, string> = {}): MemberTrack[] {
+  const tracks = new Map<string, MemberTrack>();
+
+  points.forEach(point => {
+    if (point.rejectedReason || !locationSchema.safeParse(point).success) return;
+
+    let track = tracks.get(point.memberId);
+    if (!track) {
+      track = {
+        memberId: point.memberId,
+        memberName: memberNames[point.memberId] || `User ${point.memberId.slice(-4)}`,
+        organizationId: point.organizationId,
+        points: []
+      };
+      tracks.set(point.memberId, track);
+    }
+    track.points.push(toLocationData(point));
+  });
+
+  tracks.forEach(track => track.points.sort((a, b) => a.timestamp - b.timestamp));
+  return Array.from(tracks.values());
+}
+
+export function toGpx(tracks: MemberTrack[], name = 'Location export'): string {
+  const trks = tracks.map(track => {
+    const trkpts = track.points
+      .map(p => `      <trkpt lat="${p.latitude}" lon="${p.longitude}"><time>${isoTime(p.timestamp)}</time></trkpt>`)
+      .join('\n');
+    return [
+      '  <trk>',
+      `    <name>${escapeXml(track.memberName)}</name>`,
+      `    <src>${escapeXml(track.memberId)}</src>`,
+      '    <trkseg>',
+      trkpts,
+      '    </trkseg>',
+      '  </trk>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    '  <metadata>',
+    `    <name>${escapeXml(name)}</name>`,
+    `    <time>${isoTime(Date.now())}</time>`,
+    '  </metadata>',
+    ...trks,
+    '</gpx>'
+  ].join('\n');
+}
+
+export function toKml(tracks: MemberTrack[], name = 'Location export'): string {
+  const placemarks = tracks.map(track => {
+    const whens = track.points.map(p => `        <when>${isoTime(p.timestamp)}</when>`).join('\n');
+    const coords = track.points.map(p => `        <gx:coord>${p.longitude} ${p.latitude} 0</gx:coord>`).join('\n');
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(track.memberName)}</name>`,
+      `      <description>${escapeXml(track.memberId)}</description>`,
+      '      <gx:Track>',
+      whens,
+      coords,
+      '      </gx:Track>',
+      '    </Placemark>'
+    ].join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...placemarks,
+    '  </Document>',
+    '</kml>'
+  ].join('\n');
+}
+
+export function toGeoJson(tracks: MemberTrack[]): GeoJSON.FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: tracks.map(track => ({
+      type: 'Feature',
+      properties: {
+        memberId: track.memberId,
+        name: track.memberName,
+        organizationId: track.organizationId,
+        coordTimes: track.points.map(p => isoTime(p.timestamp)),
+        accuracies: track.points.map(p => p.accuracy ?? null)
+      },
+      geometry: {
+        type: 'LineString',
+        coordinates: track.points.map(p => [p.longitude, p.latitude])
+      }
+    }))
+  };
+}
+
+export class TrackExportService {
+  async buildExport(format: TrackExportFormat, options: TrackExportOptions): Promise<{ content: string; trackCount: number; pointCount: number }> {
+    const points = options.memberId
+      ? await locationHistoryService.getMemberHistory(options.organizationId, options.memberId, options.from, options.to)
+      : await locationHistoryService.getOrganizationHistory(options.organizationId, options.from, options.to);
+
+    const tracks = groupIntoTracks(points, options.memberNames);
+    const name = options.organizationName || options.organizationId;
+
+    let content: string;
+    switch (format) {
+      case 'gpx':
+        content = toGpx(tracks, name);
+        break;
+      case 'kml':
+        content = toKml(tracks, name);
+        break;
+      case 'geojson':
+        content = JSON.stringify(toGeoJson(tracks), null, 2);
+        break;
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
+
+    return {
+      content,
+      trackCount: tracks.length,
+      pointCount: tracks.reduce((sum, track) => sum + track.points.length, 0)
+    };
+  }
+
+  async downloadExport(format: TrackExportFormat, options: TrackExportOptions): Promise<number> {
+    const { content, pointCount } = await this.buildExport(format, options);
+    const { extension, mimeType } = FORMAT_DETAILS[format];
+
+    const day = (timestamp: number) => isoTime(timestamp).slice(0, 10);
+    const scope = options.memberId ? options.memberId.slice(-8) : 'all-members';
+    const filename = `tracks_${scope}_${day(options.from)}_${day(options.to)}.${extension}`;
+
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    return pointCount;
+  }
+}
+
+export const trackExportService = new TrackExportService();
@@ -0,0 +1,99 @@
+import { AnomalyRuleEngine, AnomalyRule, speedBetweenKmh } from '../AnomalyRules';
+
+const rule = (type: AnomalyRule['type'], threshold: number): AnomalyRule => ({
+  id: `rule_${type}`,
+  name: type,
+  type,
+  threshold,
+  memberIds: [],
+  enabled: true,
+  createdAt: 0
+});
+
+const MINUTE = 60000;
+const T0 = Date.UTC(2024, 0, 1);
+
+// Storage isn't available here; the engine logs those failures and keeps its state in memory
+const engineWith = async (rules: AnomalyRule[]) => {
+  const engine = new AnomalyRuleEngine();
+  await engine.start('org', { getSchedule: () => null });
+  engine.stop();
+  engine.setRules(rules);
+  return engine;
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('AnomalyRuleEngine', () => {
+  it('computes speeds between fixes and skips ones too close together', () => {
+    // 0.01 degrees of latitude is about 1.1 km
+    const a = { latitude: 52.52, longitude: 13.405, timestamp: T0 };
+    expect(speedBetweenKmh(a, { latitude: 52.53, longitude: 13.405, timestamp: T0 + MINUTE })).toBeCloseTo(66.7, 0);
+    expect(speedBetweenKmh(a, { latitude: 52.53, longitude: 13.405, timestamp: T0 + 1000 })).toBeNull();
+  });
+
+  it('raises one speed alert and resolves it once the member slows down', async () => {
+    const engine = await engineWith([rule('speed', 50)]);
+    engine.recordLocation('org', 'm1', { latitude: 52.52, longitude: 13.405, timestamp: T0 });
+    engine.recordLocation('org', 'm1', { latitude: 52.53, longitude: 13.405, timestamp: T0 + MINUTE });
+    engine.recordLocation('org', 'm1', { latitude: 52.545, longitude: 13.405, timestamp: T0 + 2 * MINUTE });
+
+    expect(engine.getAlerts()).toHaveLength(1);
+    expect(engine.getAlerts()[0]).toMatchObject({ status: 'open', value: 100 });
+
+    engine.recordLocation('org', 'm1', { latitude: 52.546, longitude: 13.405, timestamp: T0 + 3 * MINUTE });
+    expect(engine.getAlerts()[0]).toMatchObject({ status: 'resolved', resolvedBy: 'auto' });
+  });
+
+  it('alerts on silent peers and clears when a fix arrives', async () => {
+    const engine = await engineWith([rule('no_signal', 10)]);
+    engine.recordLocation('org', 'm1', { latitude: 52.52, longitude: 13.405, timestamp: T0 });
+
+    engine.checkTimers(T0 + 5 * MINUTE);
+    expect(engine.getAlerts()).toHaveLength(0);
+
+    engine.checkTimers(T0 + 11 * MINUTE);
+    expect(engine.getAlerts()[0]).toMatchObject({ memberId: 'm1', status: 'open', value: 11 });
+
+    engine.recordLocation('org', 'm1', { latitude: 52.52, longitude: 13.405, timestamp: T0 + 12 * MINUTE });
+    expect(engine.getAlerts()[0].status).toBe('resolved');
+  });
+
+  it('keeps counting silence from the newest fix when an older backlog is replayed', async () => {
+    const engine = await engineWith([rule('no_signal', 10)]);
+    engine.recordLocation('org', 'm1', { latitude: 52.52, longitude: 13.405, timestamp: T0 + 10 * MINUTE });
+    engine.recordLocation('org', 'm1', { latitude: 52.52, longitude: 13.405, timestamp: T0 });
+
+    engine.checkTimers(T0 + 15 * MINUTE);
+    expect(engine.getAlerts()).toHaveLength(0);
+
+    engine.checkTimers(T0 + 21 * MINUTE);
+    expect(engine.getAlerts()[0]).toMatchObject({ memberId: 'm1', status: 'open', value: 11 });
+  });
+
+  it('alerts on members that keep reporting without moving', async () => {
+    const engine = await engineWith([rule('inactivity', 10)]);
+    engine.checkTimers(T0);
+
+    for (let minute = 0; minute <= 12; minute += 2) {
+      // A few meters of jitter doesn't count as movement
+      engine.recordLocation('org', 'm1', { latitude: 52.52 + (minute % 4) * 0.00001, longitude: 13.405, timestamp: T0 + minute * MINUTE });
+      engine.checkTimers(T0 + minute * MINUTE);
+    }
+    const alert = engine.getAlerts()[0];
+    expect(alert).toMatchObject({ type: 'inactivity', status: 'open' });
+
+    engine.acknowledge(alert.id, 'admin');
+    expect(engine.getAlerts()[0]).toMatchObject({ status: 'acknowledged', acknowledgedBy: 'admin' });
+
+    engine.recordLocation('org', 'm1', { latitude: 52.53, longitude: 13.405, timestamp: T0 + 13 * MINUTE });
+    engine.checkTimers(T0 + 13 * MINUTE);
+    expect(engine.getAlerts()[0].status).toBe('resolved');
+  });
+});
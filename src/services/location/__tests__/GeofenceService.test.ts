@@ -0,0 +1,75 @@
+import { GeofenceService, GeofenceEvent } from '../GeofenceService';
+import { Geofence } from '@/lib/localDb';
+
+const depot: Geofence = {
+  id: 'zone_depot',
+  organizationId: 'org_1',
+  name: 'Depot',
+  shape: 'circle',
+  center: { latitude: 52.52, longitude: 13.405 },
+  radiusMeters: 100,
+  dwellMinutes: 5,
+  createdAt: 0,
+};
+
+const school: Geofence = {
+  id: 'zone_school',
+  organizationId: 'org_1',
+  name: 'School',
+  shape: 'polygon',
+  vertices: [
+    { latitude: 52.50, longitude: 13.30 },
+    { latitude: 52.50, longitude: 13.31 },
+    { latitude: 52.51, longitude: 13.31 },
+    { latitude: 52.51, longitude: 13.30 },
+  ],
+  dwellMinutes: 5,
+  createdAt: 0,
+};
+
+const outside = { latitude: 52.60, longitude: 13.50 };
+
+describe('GeofenceService', () => {
+  let service: GeofenceService;
+  let events: GeofenceEvent[];
+
+  beforeEach(() => {
+    service = new GeofenceService();
+    service.setZones('org_1', [depot, school]);
+    events = [];
+    service.onGeofenceEvent(event => events.push(event));
+  });
+
+  it('emits enter and exit when a member crosses a circular zone', () => {
+    service.evaluate('org_1', 'member_1', { ...outside, timestamp: 1000 });
+    service.evaluate('org_1', 'member_1', { latitude: 52.5201, longitude: 13.4051, timestamp: 2000 });
+    service.evaluate('org_1', 'member_1', { ...outside, timestamp: 3000 });
+
+    expect(events.map(e => `${e.type}:${e.zoneName}`)).toEqual(['enter:Depot', 'exit:Depot']);
+    expect(events[1].dwellMs).toBe(1000);
+  });
+
+  it('detects polygon zones', () => {
+    service.evaluate('org_1', 'member_1', { ...outside, timestamp: 1000 });
+    service.evaluate('org_1', 'member_1', { latitude: 52.505, longitude: 13.305, timestamp: 2000 });
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'enter', zoneId: 'zone_school' });
+  });
+
+  it('does not fire enter for the first fix inside a zone', () => {
+    service.evaluate('org_1', 'member_1', { latitude: 52.52, longitude: 13.405, timestamp: 1000 });
+    expect(events).toHaveLength(0);
+  });
+
+  it('fires a single dwell event once the dwell time has passed', () => {
+    const inside = { latitude: 52.52, longitude: 13.405 };
+    service.evaluate('org_1', 'member_1', { ...outside, timestamp: 0 });
+    service.evaluate('org_1', 'member_1', { ...inside, timestamp: 1000 });
+    service.evaluate('org_1', 'member_1', { ...inside, timestamp: 1000 + 4 * 60000 });
+    service.evaluate('org_1', 'member_1', { ...inside, timestamp: 1000 + 5 * 60000 });
+    service.evaluate('org_1', 'member_1', { ...inside, timestamp: 1000 + 6 * 60000 });
+
+    expect(events.map(e => e.type)).toEqual(['enter', 'dwell']);
+  });
+});
@@ -0,0 +1,56 @@
+import { LocationFilter, LocationFilterService } from '../LocationFilter';
+
+const origin = { latitude: 52.52, longitude: 13.405 };
+
+describe('LocationFilter', () => {
+  it('rejects fixes with poor accuracy', () => {
+    const filter = new LocationFilter();
+    const result = filter.process({ ...origin, accuracy: 500, timestamp: 1000 });
+
+    expect(result.filtered).toBeNull();
+    expect(result.rejectedReason).toBe('poor_accuracy');
+  });
+
+  it('drops physically impossible jumps', () => {
+    const filter = new LocationFilter();
+    filter.process({ ...origin, accuracy: 10, timestamp: 0 });
+    // Roughly 11 km in 10 seconds
+    const result = filter.process({ latitude: 52.62, longitude: 13.405, accuracy: 10, timestamp: 10000 });
+
+    expect(result.rejectedReason).toBe('impossible_speed');
+  });
+
+  it('accepts the new position once several fixes agree on it', () => {
+    const filter = new LocationFilter();
+    filter.process({ ...origin, accuracy: 10, timestamp: 0 });
+    const moved = { latitude: 52.62, longitude: 13.405, accuracy: 10 };
+
+    filter.process({ ...moved, timestamp: 1000 });
+    filter.process({ ...moved, timestamp: 2000 });
+    const result = filter.process({ ...moved, timestamp: 3000 });
+
+    expect(result.filtered).toMatchObject({ latitude: 52.62, longitude: 13.405 });
+  });
+
+  it('smooths noisy fixes towards the previous estimate', () => {
+    const filter = new LocationFilter();
+    filter.process({ ...origin, accuracy: 5, timestamp: 0 });
+    const result = filter.process({ latitude: 52.5203, longitude: 13.405, accuracy: 30, timestamp: 1000 });
+
+    expect(result.filtered!.latitude).toBeGreaterThan(origin.latitude);
+    expect(result.filtered!.latitude).toBeLessThan(52.5203);
+  });
+});
+
+describe('LocationFilterService', () => {
+  it('returns the cached result when the same fix is processed twice', () => {
+    const service = new LocationFilterService();
+    service.process('member_1', { ...origin, accuracy: 5, timestamp: 0 });
+    const fix = { latitude: 52.5203, longitude: 13.405, accuracy: 30, timestamp: 1000 };
+
+    const first = service.process('member_1', fix);
+    const second = service.process('member_1', { ...fix, latitude: first.filtered!.latitude });
+
+    expect(second).toBe(first);
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  LocationHistoryService,
+  LocationHistoryStore,
+  RETENTION_DAYS,
+  interpolatePosition,
+  selectTrack
+} from '../LocationHistoryService';
+import type { LocationHistoryPoint } from '@/lib/localDb';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 5, 15, 12);
+
+// IndexedDB stand-in with the same upper-bound-exclusive delete
+function memoryStore() {
+  let rows: LocationHistoryPoint[] = [];
+  const store: LocationHistoryStore = {
+    add: async points => { rows.push(...points); },
+    getMember: async (organizationId, memberId, from, to) =>
+      rows.filter(row => row.organizationId === organizationId && row.memberId === memberId && row.timestamp >= from && row.timestamp <= to),
+    getOrganization: async (organizationId, from, to) =>
+      rows.filter(row => row.organizationId === organizationId && row.timestamp >= from && row.timestamp <= to),
+    deleteBefore: async timestamp => { rows = rows.filter(row => row.timestamp >= timestamp); }
+  };
+  return { store, rows: () => rows };
+}
+
+const point = (timestamp: number, latitude = 52.52, extra: Partial<LocationHistoryPoint> = {}): LocationHistoryPoint => ({
+  organizationId: 'org-1',
+  memberId: 'member-1',
+  latitude,
+  longitude: 13.405,
+  timestamp,
+  ...extra
+});
+
+beforeEach(() => {
+  jest.useFakeTimers({ now: NOW });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('LocationHistoryService', () => {
+  it(`drops history older than ${RETENTION_DAYS} days on the first write of a session`, async () => {
+    const { store, rows } = memoryStore();
+    await store.add([
+      point(NOW - RETENTION_DAYS * DAY_MS - 1),
+      point(NOW - RETENTION_DAYS * DAY_MS + 1000),
+      point(NOW - DAY_MS)
+    ]);
+    const deleteBefore = jest.spyOn(store, 'deleteBefore');
+    const service = new LocationHistoryService(store);
+
+    service.record('org-1', 'member-1', { latitude: 52.53, longitude: 13.41, timestamp: NOW });
+    await service.flush();
+
+    expect(deleteBefore).toHaveBeenCalledWith(NOW - RETENTION_DAYS * DAY_MS);
+    expect(rows().map(row => row.timestamp)).toEqual([NOW - RETENTION_DAYS * DAY_MS + 1000, NOW - DAY_MS, NOW]);
+
+    // Only once per session
+    service.record('org-1', 'member-1', { latitude: 52.54, longitude: 13.41, timestamp: NOW + 1000 });
+    await service.flush();
+    expect(deleteBefore).toHaveBeenCalledTimes(1);
+  });
+
+  it('writes fixes in batches and keeps them when the write fails', async () => {
+    const { store, rows } = memoryStore();
+    const service = new LocationHistoryService(store);
+    const add = jest.spyOn(store, 'add').mockRejectedValueOnce(new Error('quota'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    service.record('org-1', 'member-1', { latitude: 52.52, longitude: 13.405, timestamp: NOW - 2000 });
+    service.record('org-1', 'member-1', { latitude: 52.53, longitude: 13.405, timestamp: NOW - 1000 });
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(add).toHaveBeenCalledTimes(1);
+    expect(rows()).toHaveLength(0);
+
+    const history = await service.getMemberHistory('org-1', 'member-1', NOW - DAY_MS, NOW);
+    expect(add).toHaveBeenCalledTimes(2);
+    expect(history.map(row => row.latitude)).toEqual([52.52, 52.53]);
+  });
+});
+
+describe('selectTrack', () => {
+  const track = [
+    point(1000, 52.52),
+    point(2000, 52.6, { raw: { latitude: 52.7, longitude: 13.5 }, rejectedReason: 'impossible_speed' }),
+    point(3000, 52.53)
+  ];
+
+  it('leaves out rejected fixes from the filtered track', () => {
+    expect(selectTrack(track, 'filtered').map(row => row.timestamp)).toEqual([1000, 3000]);
+  });
+
+  it('shows every fix where it was reported in the raw track', () => {
+    expect(selectTrack(track, 'raw')[1]).toMatchObject({ latitude: 52.7, longitude: 13.5 });
+  });
+});
+
+describe('interpolatePosition', () => {
+  const track = [point(1000, 52.0), point(3000, 53.0), point(4000, 53.5)];
+
+  it('interpolates between the surrounding fixes and clamps to the ends', () => {
+    expect(interpolatePosition(track, 2000)).toEqual({ latitude: 52.5, longitude: 13.405 });
+    expect(interpolatePosition(track, 0)).toBe(track[0]);
+    expect(interpolatePosition(track, 9000)).toBe(track[2]);
+    expect(interpolatePosition([], 2000)).toBeNull();
+  });
+});
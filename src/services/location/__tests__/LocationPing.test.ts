@@ -0,0 +1,54 @@
+import { LocationPingService, LocationPingRequest, summarizePing } from '../LocationPing';
+
+const fix = { latitude: 52.52, longitude: 13.405, accuracy: 8, timestamp: 0 };
+
+describe('LocationPingService', () => {
+  let sent: { memberId: string; request: LocationPingRequest }[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sent = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const start = (service: LocationPingService, memberIds: string[], offline: string[] = []) =>
+    service.start(memberIds, (memberId, request) => {
+      sent.push({ memberId, request });
+      return !offline.includes(memberId);
+    }, { accuracy: 'high', timeoutMs: 10000 }, 0);
+
+  it('correlates answers by request id and reports the median response time', () => {
+    const service = new LocationPingService();
+    const ping = start(service, ['a', 'b', 'c']);
+    expect(sent.map(s => s.request.requestId)).toEqual([ping.id, ping.id, ping.id]);
+
+    service.handleResponse('a', { requestId: ping.id, location: fix }, 1000);
+    service.handleResponse('b', { requestId: ping.id, location: fix }, 3000);
+    service.handleResponse('c', { requestId: ping.id, location: null, reason: 'permission_denied' }, 2000);
+    // Stale or repeated answers don't count
+    service.handleResponse('a', { requestId: ping.id, location: fix }, 9000);
+    service.handleResponse('b', { requestId: 'ping_old', location: fix }, 9000);
+
+    const current = service.getCurrent()!;
+    expect(current.results.a).toMatchObject({ status: 'responded', responseMs: 1000, accuracyMeters: 8 });
+    expect(current.results.c).toMatchObject({ status: 'failed', reason: 'permission_denied' });
+    expect(summarizePing(current)).toEqual({ total: 3, responded: 2, failed: 1, pending: 0, medianMs: 2000 });
+  });
+
+  it('times out each member that never answers and flags unreachable ones right away', () => {
+    const service = new LocationPingService();
+    const ping = start(service, ['a', 'b', 'c'], ['c']);
+    expect(service.getCurrent()!.results.c).toMatchObject({ status: 'failed', reason: 'not_connected' });
+
+    service.handleResponse('a', { requestId: ping.id, location: fix }, 500);
+    jest.advanceTimersByTime(20000);
+
+    const current = service.getCurrent()!;
+    expect(current.results.a.status).toBe('responded');
+    expect(current.results.b).toMatchObject({ status: 'failed', reason: 'timeout' });
+    expect(summarizePing(current)).toMatchObject({ responded: 1, failed: 2, pending: 0, medianMs: 500 });
+  });
+});
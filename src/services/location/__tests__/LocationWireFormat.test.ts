@@ -0,0 +1,106 @@
+import { LocationDeltaEncoder, LocationDeltaDecoder, LocationWireProtocol } from '../LocationWireFormat';
+import type { LocationBatch } from '../OutboundLocationQueue';
+
+const batchOf = (seqs: number[], start = 0): LocationBatch => ({
+  queueId: 'q1',
+  userId: 'u1',
+  organizationId: 'o1',
+  points: seqs.map((seq, i) => ({
+    seq,
+    userId: 'u1',
+    organizationId: 'o1',
+    latitude: 52.520008 + (start + i) * 0.0001,
+    longitude: 13.404954 - (start + i) * 0.00005,
+    accuracy: 5.4,
+    timestamp: 1700000000000 + (start + i) * 1000
+  }))
+});
+
+describe('LocationWireFormat', () => {
+  it('round-trips batches through deltas against the last acknowledged fix', () => {
+    const encoder = new LocationDeltaEncoder();
+    const decoder = new LocationDeltaDecoder();
+
+    const first = batchOf([1, 2, 3]);
+    const firstCompact = encoder.encode(first);
+    expect(firstCompact.r).toBe(0);
+    const decodedFirst = decoder.decode(firstCompact)!;
+    expect(decodedFirst.points.map(p => p.seq)).toEqual([1, 2, 3]);
+    expect(decodedFirst.points[2].latitude).toBeCloseTo(first.points[2].latitude, 6);
+    expect(decodedFirst.points[2].accuracy).toBe(5);
+    expect(decodedFirst.points[2].timestamp).toBe(first.points[2].timestamp);
+
+    encoder.acknowledge(3);
+    const second = batchOf([4, 6], 3);
+    const secondCompact = encoder.encode(second);
+    expect(secondCompact.r).toBe(3);
+    // Small integer deltas instead of full coordinates
+    expect(secondCompact.p[0]).toEqual([1, 100, -50, 1000, 5]);
+
+    const decodedSecond = decoder.decode(secondCompact)!;
+    expect(decodedSecond.points.map(p => p.seq)).toEqual([4, 6]);
+    expect(decodedSecond.points[1].longitude).toBeCloseTo(second.points[1].longitude, 6);
+  });
+
+  it('keeps referring to the acknowledged fix while a later batch is unacknowledged', () => {
+    const encoder = new LocationDeltaEncoder();
+    encoder.encode(batchOf([1, 2]));
+    encoder.acknowledge(2);
+    encoder.encode(batchOf([3], 2));
+    // Batch 3 was lost; the resend still refers to fix 2
+    expect(encoder.encode(batchOf([3], 2)).r).toBe(2);
+  });
+
+  it('refuses batches that refer to a fix the admin never saw', () => {
+    const encoder = new LocationDeltaEncoder();
+    encoder.encode(batchOf([1]));
+    encoder.acknowledge(1);
+    expect(new LocationDeltaDecoder().decode(encoder.encode(batchOf([2], 1)))).toBeNull();
+  });
+
+  it('only sends compact batches once the admin announced support', () => {
+    const protocol = new LocationWireProtocol();
+    expect(protocol.negotiate(5)).toBe(2);
+    expect(protocol.toMessages(batchOf([1, 2])).map(message => message.type)).toEqual(['location_batch_compact']);
+    expect(protocol.acknowledgesBatches()).toBe(true);
+    expect(protocol.negotiate(undefined)).toBe(1);
+  });
+
+  it('renegotiates on every new channel and settles on version 1 when the admin stays silent', () => {
+    jest.useFakeTimers();
+    const negotiated: number[] = [];
+    const listener = ((event: CustomEvent<{ version: number }>) => negotiated.push(event.detail.version)) as EventListener;
+    window.addEventListener('location-protocol-negotiated', listener);
+    const protocol = new LocationWireProtocol(1000);
+
+    window.dispatchEvent(new CustomEvent('webrtc-data-channel-open', { detail: { peerId: 'admin-1' } }));
+    expect(protocol.isNegotiated()).toBe(false);
+    protocol.negotiate(2);
+    expect(protocol.isNegotiated()).toBe(true);
+
+    window.dispatchEvent(new CustomEvent('webrtc-data-channel-open', { detail: { peerId: 'admin-1' } }));
+    expect(protocol.acknowledgesBatches()).toBe(false);
+    jest.advanceTimersByTime(1000);
+    expect(protocol.isNegotiated()).toBe(true);
+    expect(negotiated).toEqual([2, 1]);
+
+    window.removeEventListener('location-protocol-negotiated', listener);
+    jest.useRealTimers();
+  });
+
+  it('falls back to one location_update per fix for version 1 admins', () => {
+    const protocol = new LocationWireProtocol();
+    const messages = protocol.toMessages(batchOf([1, 2]));
+
+    expect(protocol.acknowledgesBatches()).toBe(false);
+    expect(messages.map(message => message.type)).toEqual(['location_update', 'location_update']);
+    expect(messages[1].data).toEqual({
+      userId: 'u1',
+      organizationId: 'o1',
+      latitude: 52.520108,
+      longitude: 13.404904,
+      accuracy: 5.4,
+      timestamp: 1700000001000
+    });
+  });
+});
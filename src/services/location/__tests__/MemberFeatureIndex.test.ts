@@ -0,0 +1,44 @@
+import { MemberFeatureIndex, MapMember, buildDensityGrid } from '../MemberFeatureIndex';
+
+const member = (id: string, latitude = 52.52, status: MapMember['status'] = 'active'): MapMember => ({
+  id,
+  name: `Member ${id}`,
+  latitude,
+  longitude: 13.405,
+  lastSeen: '12:00',
+  status
+});
+
+describe('MemberFeatureIndex', () => {
+  it('reports only members that changed', () => {
+    const index = new MemberFeatureIndex();
+    const first = index.update([member('a'), member('b')]);
+    expect(first.added).toEqual(['a', 'b']);
+
+    const second = index.update([member('a'), member('b', 52.53)]);
+    expect(second.changed.map(f => f.id)).toEqual(['b']);
+    expect(second.added).toEqual([]);
+
+    expect(index.hasChanges(index.update([member('a'), member('b', 52.53)]))).toBe(false);
+  });
+
+  it('tracks removals and selection', () => {
+    const index = new MemberFeatureIndex();
+    index.update([member('a'), member('b')]);
+
+    const diff = index.update([member('a')], 'a');
+    expect(diff.removed).toEqual(['b']);
+    expect(diff.changed[0].properties.selected).toBe(true);
+    expect(index.toCollection().features).toHaveLength(1);
+  });
+
+  it('bins nearby points into one density cell', () => {
+    const cells = buildDensityGrid([
+      { latitude: 52.52001, longitude: 13.40501 },
+      { latitude: 52.52002, longitude: 13.40502 },
+      { latitude: 52.6, longitude: 13.5 }
+    ]);
+    expect(cells).toHaveLength(2);
+    expect(cells.find(c => c.count === 2)).toBeDefined();
+  });
+});
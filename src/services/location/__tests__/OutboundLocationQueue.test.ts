@@ -0,0 +1,171 @@
+import { OutboundLocationQueue, OutboundLocationStore, LocationBatch, LocationBatchAck } from '../OutboundLocationQueue';
+import type { OutboundLocation } from '@/lib/localDb';
+
+// IndexedDB stand-in: seqs count up from 1 and are never reused
+function memoryStore() {
+  let nextSeq = 1;
+  const rows: OutboundLocation[] = [];
+  const store: OutboundLocationStore = {
+    add: async location => {
+      const seq = nextSeq++;
+      rows.push({ ...location, seq });
+      return seq;
+    },
+    getOldest: async limit => rows.slice(0, limit),
+    count: async () => rows.length,
+    deleteUpTo: async seq => {
+      rows.splice(0, rows.filter(row => row.seq! <= seq).length);
+    }
+  };
+  return { store, rows };
+}
+
+const fix = (timestamp: number): OutboundLocation => ({
+  organizationId: 'org-1',
+  userId: 'member-1',
+  latitude: 52.52 + timestamp / 1e6,
+  longitude: 13.405,
+  timestamp
+});
+
+const ack = (detail: LocationBatchAck) => window.dispatchEvent(new CustomEvent('webrtc-location-batch-ack', { detail }));
+const settle = () => jest.advanceTimersByTimeAsync(0);
+
+beforeEach(() => {
+  // Also holds back the linger flush that enqueue schedules
+  jest.useFakeTimers();
+  localStorage.clear();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('OutboundLocationQueue', () => {
+  it('sends fixes live while the channel is up and queues them while it is down', async () => {
+    const { store, rows } = memoryStore();
+    const live: OutboundLocation[] = [];
+    let connected = true;
+    const queue = new OutboundLocationQueue(store);
+    queue.setTransport({ sendLive: location => connected && live.push(location) > 0, sendBatch: () => connected, acknowledgesBatches: () => true, isNegotiated: () => true });
+
+    await queue.enqueue(fix(1));
+    expect(live).toHaveLength(1);
+    expect(rows).toHaveLength(0);
+
+    connected = false;
+    await queue.enqueue(fix(2));
+    // With a backlog waiting, a live fix would overtake it
+    connected = true;
+    await queue.enqueue(fix(3));
+
+    expect(live).toHaveLength(1);
+    expect(rows.map(row => row.seq)).toEqual([1, 2]);
+  });
+
+  it('replays the backlog in seq order and deletes only what the admin acked', async () => {
+    const { store, rows } = memoryStore();
+    const batches: LocationBatch[] = [];
+    const queue = new OutboundLocationQueue(store);
+    queue.setTransport({ sendLive: () => false, sendBatch: batch => batches.push(batch) > 0, acknowledgesBatches: () => true, isNegotiated: () => true });
+
+    await Promise.all([fix(1), fix(2), fix(3)].map(location => queue.enqueue(location)));
+    const flushed = queue.flush();
+    await settle();
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0].points.map(point => point.seq)).toEqual([1, 2, 3]);
+    const { queueId } = batches[0];
+
+    // Acks for another queue or for an earlier batch don't release it
+    ack({ queueId: 'q_other', upToSeq: 3 });
+    ack({ queueId, upToSeq: 2 });
+    await settle();
+    expect(rows).toHaveLength(3);
+
+    ack({ queueId, upToSeq: 3 });
+    await flushed;
+    expect(rows).toHaveLength(0);
+    expect(await queue.getBacklogSize()).toBe(0);
+  });
+
+  it('sends the same batch again when the admin asks for a resync', async () => {
+    const { store, rows } = memoryStore();
+    const batches: LocationBatch[] = [];
+    const queue = new OutboundLocationQueue(store);
+    queue.setTransport({ sendLive: () => false, sendBatch: batch => batches.push(batch) > 0, acknowledgesBatches: () => true, isNegotiated: () => true });
+
+    await queue.enqueue(fix(1));
+    await queue.enqueue(fix(2));
+    const flushed = queue.flush();
+    await settle();
+
+    ack({ queueId: batches[0].queueId, upToSeq: 0, resync: true });
+    await settle();
+    expect(batches).toHaveLength(2);
+    expect(batches[1].points).toEqual(batches[0].points);
+    expect(rows).toHaveLength(2);
+
+    ack({ queueId: batches[0].queueId, upToSeq: 2 });
+    await flushed;
+    expect(rows).toHaveLength(0);
+  });
+
+  it('holds the backlog on a new channel until the admin protocol is negotiated', async () => {
+    const { store, rows } = memoryStore();
+    const batches: LocationBatch[] = [];
+    let negotiated = false;
+    const queue = new OutboundLocationQueue(store);
+    queue.setTransport({ sendLive: () => false, sendBatch: batch => batches.push(batch) > 0, acknowledgesBatches: () => negotiated, isNegotiated: () => negotiated });
+
+    await queue.enqueue(fix(1));
+    window.dispatchEvent(new CustomEvent('webrtc-data-channel-open', { detail: { peerId: 'admin-1' } }));
+    // The linger flush comes before the admin's announcement
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(batches).toHaveLength(0);
+
+    negotiated = true;
+    window.dispatchEvent(new CustomEvent('location-protocol-negotiated', { detail: { version: 2 } }));
+    await settle();
+    expect(batches).toHaveLength(1);
+
+    // Acked batches only; the fix stays queued until the admin confirms it
+    expect(rows).toHaveLength(1);
+    ack({ queueId: batches[0].queueId, upToSeq: 1 });
+    await settle();
+    expect(rows).toHaveLength(0);
+  });
+
+  it('replays the backlog as soon as a link to another member opens a route to the admin', async () => {
+    const { store } = memoryStore();
+    const batches: LocationBatch[] = [];
+    let routed = false;
+    const queue = new OutboundLocationQueue(store);
+    queue.setTransport({ sendLive: () => false, sendBatch: batch => routed && batches.push(batch) > 0, acknowledgesBatches: () => true, isNegotiated: () => true });
+
+    await queue.enqueue(fix(1));
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(batches).toHaveLength(0);
+
+    routed = true;
+    window.dispatchEvent(new CustomEvent('mesh-link-open', { detail: { peerId: 'member-2' } }));
+    await settle();
+    expect(batches).toHaveLength(1);
+  });
+
+  it('counts a sent batch as delivered when the admin only takes single fixes', async () => {
+    const { store, rows } = memoryStore();
+    const batches: LocationBatch[] = [];
+    const queue = new OutboundLocationQueue(store);
+    queue.setTransport({ sendLive: () => false, sendBatch: batch => batches.push(batch) > 0, acknowledgesBatches: () => false, isNegotiated: () => true });
+
+    await queue.enqueue(fix(1));
+    await queue.flush();
+
+    expect(batches).toHaveLength(1);
+    expect(rows).toHaveLength(0);
+  });
+});
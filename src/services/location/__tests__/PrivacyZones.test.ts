@@ -0,0 +1,45 @@
+import { applyPrivacyZones, findPrivacyZone, snapToGrid, PrivacyZone } from '../PrivacyZones';
+import { haversineDistance } from '../geo';
+
+const zone = (mode: PrivacyZone['mode'], radiusMeters = 200): PrivacyZone => ({
+  id: mode,
+  name: mode,
+  center: { latitude: 52.52, longitude: 13.405 },
+  radiusMeters,
+  mode,
+  createdAt: 0
+});
+
+const inside = { latitude: 52.5205, longitude: 13.4055, accuracy: 10, timestamp: 1 };
+const outside = { latitude: 52.53, longitude: 13.405, accuracy: 10, timestamp: 1 };
+
+describe('PrivacyZones', () => {
+  it('shares fixes outside every zone unchanged', () => {
+    const result = applyPrivacyZones(outside, [zone('suppress')]);
+    expect(result.action).toBe('share');
+    expect(result.location).toBe(outside);
+  });
+
+  it('drops fixes inside a suppress zone', () => {
+    const result = applyPrivacyZones(inside, [zone('suppress')]);
+    expect(result.action).toBe('suppress');
+    expect(result.location).toBeNull();
+  });
+
+  it('snaps fixes to the zone edge', () => {
+    const result = applyPrivacyZones(inside, [zone('snap_to_edge')]);
+    expect(result.action).toBe('blur');
+    expect(haversineDistance(result.location!, zone('snap_to_edge').center)).toBeCloseTo(200, 0);
+    expect(result.location!.accuracy).toBe(200);
+  });
+
+  it('places coarse fixes at the centre of their grid cell', () => {
+    const snapped = snapToGrid(inside);
+    expect(snapped.latitude).toBeCloseTo(52.525, 6);
+    expect(snapped.longitude).toBeCloseTo(13.405, 6);
+  });
+
+  it('picks the strictest overlapping zone', () => {
+    expect(findPrivacyZone(inside, [zone('snap_to_edge', 500), zone('suppress')])?.mode).toBe('suppress');
+  });
+});
@@ -0,0 +1,55 @@
+import { ProximityRuleEngine, ProximityRule, TrackedPosition } from '../ProximityRules';
+
+const rule = (type: ProximityRule['type'], distanceMeters: number): ProximityRule => ({
+  id: `rule_${type}`,
+  name: 'A / B',
+  type,
+  memberA: 'a',
+  memberB: 'b',
+  distanceMeters,
+  cooldownMinutes: 5,
+  enabled: true,
+  createdAt: 0
+});
+
+// 0.001 degrees of latitude is about 111 m
+const pair = (latitudeB: number, statusB: TrackedPosition['status'] = 'active'): TrackedPosition[] => [
+  { id: 'a', latitude: 52.52, longitude: 13.405, status: 'active' },
+  { id: 'b', latitude: latitudeB, longitude: 13.405, status: statusB }
+];
+
+const engineWith = (rules: ProximityRule[]) => {
+  const engine = new ProximityRuleEngine();
+  engine.setRules('org', rules);
+  return engine;
+};
+
+describe('ProximityRuleEngine', () => {
+  it('alerts when two members come closer than the limit', () => {
+    const engine = engineWith([rule('proximity', 50)]);
+    expect(engine.evaluate('org', pair(52.521), 0)).toHaveLength(0);
+
+    const alerts = engine.evaluate('org', pair(52.5202), 1000);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].distanceMeters).toBeLessThanOrEqual(50);
+  });
+
+  it('alerts when buddies drift apart', () => {
+    const engine = engineWith([rule('buddy', 100)]);
+    expect(engine.evaluate('org', pair(52.5205), 0)).toHaveLength(0);
+    expect(engine.evaluate('org', pair(52.522), 1000)).toHaveLength(1);
+  });
+
+  it('holds repeat alerts back until the cooldown has passed', () => {
+    const engine = engineWith([rule('buddy', 100)]);
+    expect(engine.evaluate('org', pair(52.522), 0)).toHaveLength(1);
+    expect(engine.evaluate('org', pair(52.5205), 60000)).toHaveLength(0);
+    expect(engine.evaluate('org', pair(52.522), 120000)).toHaveLength(0);
+    expect(engine.evaluate('org', pair(52.522), 5 * 60000)).toHaveLength(1);
+  });
+
+  it('ignores members without a live position', () => {
+    const engine = engineWith([rule('buddy', 100)]);
+    expect(engine.evaluate('org', pair(52.53, 'offline'), 0)).toHaveLength(0);
+  });
+});
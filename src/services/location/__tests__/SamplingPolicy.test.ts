@@ -0,0 +1,87 @@
+import { SamplingInputs, SamplingPolicyEngine, SamplingSettings, adaptiveSamplingPolicy } from '../SamplingPolicy';
+
+const inputs = (overrides: Partial<SamplingInputs> = {}): SamplingInputs => ({
+  profile: 'balanced',
+  speed: null,
+  isStationary: false,
+  battery: null,
+  degradationLevel: 'full',
+  ...overrides
+});
+
+// About 11 m north per step
+const fix = (seconds: number, steps = 0, speed?: number) => ({
+  latitude: 52.52 + steps * 0.0001,
+  longitude: 13.405,
+  timestamp: seconds * 1000,
+  speed
+});
+
+describe('adaptiveSamplingPolicy', () => {
+  it('uses the profile tuning while moving at walking pace', () => {
+    expect(adaptiveSamplingPolicy(inputs({ speed: 1.4 }))).toMatchObject({
+      enableHighAccuracy: true,
+      intervalMs: 15000,
+      distanceFilterMeters: 15,
+      effectiveProfile: 'balanced',
+      reasons: []
+    });
+  });
+
+  it('steps down on low battery and drops to low power when critical, unless charging', () => {
+    expect(adaptiveSamplingPolicy(inputs({ profile: 'precise', battery: { level: 0.15, charging: false } })).effectiveProfile).toBe('balanced');
+    expect(adaptiveSamplingPolicy(inputs({ profile: 'precise', battery: { level: 0.05, charging: false } })).effectiveProfile).toBe('low_power');
+    expect(adaptiveSamplingPolicy(inputs({ profile: 'precise', battery: { level: 0.05, charging: true } })).effectiveProfile).toBe('precise');
+  });
+
+  it('samples faster when driving and slower on a limited connection', () => {
+    expect(adaptiveSamplingPolicy(inputs({ speed: 15 })).intervalMs).toBe(7500);
+    expect(adaptiveSamplingPolicy(inputs({ degradationLevel: 'limited' })).intervalMs).toBe(30000);
+    expect(adaptiveSamplingPolicy(inputs({ degradationLevel: 'offline' })).effectiveProfile).toBe('low_power');
+  });
+
+  it('turns GPS off for a stationary device unless tracking is precise', () => {
+    expect(adaptiveSamplingPolicy(inputs({ isStationary: true }))).toMatchObject({ enableHighAccuracy: false, intervalMs: 120000, distanceFilterMeters: 25 });
+    expect(adaptiveSamplingPolicy(inputs({ profile: 'precise', isStationary: true })).enableHighAccuracy).toBe(true);
+  });
+});
+
+describe('SamplingPolicyEngine', () => {
+  it('skips fixes that come sooner and closer than the profile allows', () => {
+    const engine = new SamplingPolicyEngine();
+
+    expect(engine.handleFix(fix(0))).toBe(true);
+    expect(engine.handleFix(fix(5))).toBe(false);
+    // 22 m away is past the 15 m distance filter
+    expect(engine.handleFix(fix(6, 2))).toBe(true);
+    expect(engine.handleFix(fix(22, 2))).toBe(true);
+  });
+
+  it('goes stationary after three minutes inside the radius and tells subscribers', () => {
+    const engine = new SamplingPolicyEngine();
+    const changes: SamplingSettings[] = [];
+    engine.onSettingsChange(settings => changes.push(settings));
+
+    engine.handleFix(fix(0, 0, 0));
+    engine.handleFix(fix(120, 1, 0));
+    expect(engine.getSettings().reasons).not.toContain('stationary');
+
+    engine.handleFix(fix(180, 1, 0));
+    expect(engine.getSettings()).toMatchObject({ enableHighAccuracy: false, intervalMs: 120000 });
+    expect(changes[changes.length - 1].reasons).toContain('stationary');
+
+    // Leaving the radius starts a new anchor
+    engine.handleFix(fix(190, 5, 2));
+    expect(engine.getSettings().reasons).not.toContain('stationary');
+  });
+
+  it('keeps the profile the admin pushed per organization', () => {
+    localStorage.clear();
+    const engine = new SamplingPolicyEngine();
+
+    engine.saveProfile('org-1', 'low_power');
+    expect(engine.loadProfile('org-2')).toBe('balanced');
+    expect(engine.loadProfile('org-1')).toBe('low_power');
+    expect(engine.getSettings().effectiveProfile).toBe('low_power');
+  });
+});
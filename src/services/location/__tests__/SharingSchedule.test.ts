@@ -0,0 +1,38 @@
+import { isWithinSchedule, getNextScheduleChange, describeSchedule, SharingSchedule } from '../SharingSchedule';
+
+const workHours: SharingSchedule = {
+  timezone: 'Europe/Berlin',
+  windows: [{ days: [1, 2, 3, 4, 5], start: '08:00', end: '18:00' }]
+};
+
+// 2024-01-15 is a Monday; Berlin is UTC+1 in January
+const berlin = (day: number, time: string) => Date.parse(`2024-01-${String(day).padStart(2, '0')}T${time}:00+01:00`);
+
+describe('SharingSchedule', () => {
+  it('shares inside the window in the schedule timezone', () => {
+    expect(isWithinSchedule(workHours, berlin(15, '08:00'))).toBe(true);
+    expect(isWithinSchedule(workHours, berlin(15, '17:59'))).toBe(true);
+    expect(isWithinSchedule(workHours, berlin(15, '18:00'))).toBe(false);
+    expect(isWithinSchedule(workHours, berlin(13, '12:00'))).toBe(false);
+  });
+
+  it('always shares without a schedule', () => {
+    expect(isWithinSchedule(null, berlin(13, '03:00'))).toBe(true);
+  });
+
+  it('runs overnight windows past midnight', () => {
+    const nightShift: SharingSchedule = { timezone: 'Europe/Berlin', windows: [{ days: [5], start: '22:00', end: '06:00' }] };
+
+    expect(isWithinSchedule(nightShift, berlin(19, '23:00'))).toBe(true);
+    expect(isWithinSchedule(nightShift, berlin(20, '05:30'))).toBe(true);
+    expect(isWithinSchedule(nightShift, berlin(20, '23:00'))).toBe(false);
+  });
+
+  it('finds the minute the window next opens', () => {
+    expect(getNextScheduleChange(workHours, berlin(19, '18:30'))).toBe(berlin(22, '08:00'));
+  });
+
+  it('describes consecutive days as a range', () => {
+    expect(describeSchedule(workHours)).toBe('Mon–Fri 08:00–18:00 (Europe/Berlin)');
+  });
+});
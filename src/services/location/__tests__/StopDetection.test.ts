@@ -0,0 +1,73 @@
+import { buildDwellReport, segmentTrack } from '../StopDetection';
+import { Geofence, LocationHistoryPoint } from '@/lib/localDb';
+
+const MINUTE = 60 * 1000;
+
+const point = (minute: number, latitude: number, extra: Partial<LocationHistoryPoint> = {}): LocationHistoryPoint => ({
+  organizationId: 'org_1',
+  memberId: 'member_1',
+  latitude,
+  longitude: 13.405,
+  timestamp: minute * MINUTE,
+  ...extra
+});
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+// 15 minutes at home with a little GPS jitter, a drive of about 2.4 km, then 14 minutes at the depot
+const day: LocationHistoryPoint[] = [
+  ...range(0, 15).map(minute => point(minute, 52.4 + (minute % 2) * 0.00002)),
+  ...range(16, 25).map(minute => point(minute, 52.4 + (minute - 15) * 0.002)),
+  ...range(26, 40).map(minute => point(minute, 52.422))
+];
+
+const depot: Geofence = {
+  id: 'zone_depot',
+  organizationId: 'org_1',
+  name: 'Depot',
+  shape: 'circle',
+  center: { latitude: 52.4205, longitude: 13.405 },
+  radiusMeters: 100,
+  dwellMinutes: 5,
+  createdAt: 0,
+};
+
+describe('segmentTrack', () => {
+  it('splits a day into stops and the trip between them', () => {
+    const segments = segmentTrack(day);
+
+    expect(segments.map(segment => segment.type)).toEqual(['stop', 'trip', 'stop']);
+    expect(segments[0]).toMatchObject({ arrival: 0, departure: 15 * MINUTE, pointCount: 16 });
+    // The trip runs from the last fix at home to the first at the depot
+    expect(segments[1]).toMatchObject({ start: 15 * MINUTE, end: 26 * MINUTE, pointCount: 12 });
+    expect(segments[2]).toMatchObject({ arrival: 26 * MINUTE, departure: 40 * MINUTE, durationMs: 14 * MINUTE });
+  });
+
+  it('does not count a pause shorter than the minimum as a stop', () => {
+    const segments = segmentTrack([
+      ...range(0, 5).map(minute => point(minute, 52.4)),
+      ...range(6, 10).map(minute => point(minute, 52.4 + (minute - 5) * 0.002))
+    ]);
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({ type: 'trip', start: 0, end: 10 * MINUTE });
+  });
+});
+
+describe('buildDwellReport', () => {
+  it('names the nearby zone and ignores fixes the GPS filter rejected', () => {
+    const glitch = point(7.5, 52.5, { rejectedReason: 'impossible_speed' });
+    const points = [...day.slice(0, 8), glitch, ...day.slice(8)];
+
+    const report = buildDwellReport('org_1', 'member_1', { from: 0, to: 40 * MINUTE }, points, [depot]);
+
+    expect(report.stops).toHaveLength(2);
+    expect(report.stops[0].nearestGeofence).toBeNull();
+    expect(report.stops[1].nearestGeofence).toMatchObject({ id: 'zone_depot', name: 'Depot' });
+    expect(report.stops[1].nearestGeofence!.distanceMeters).toBeLessThan(250);
+    expect(report.totalStopMs).toBe(29 * MINUTE);
+    expect(report.totalTripMs).toBe(11 * MINUTE);
+    expect(report.totalDistanceMeters).toBeGreaterThan(2300);
+    expect(report.totalDistanceMeters).toBeLessThan(2600);
+  });
+});
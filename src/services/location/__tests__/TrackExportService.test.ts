@@ -0,0 +1,73 @@
+import { groupIntoTracks, toGeoJson, toGpx, toKml } from '../TrackExportService';
+import { parseGpx } from '../GpxImportService';
+import type { LocationHistoryPoint } from '@/lib/localDb';
+
+const T0 = Date.UTC(2024, 5, 15, 8);
+
+const point = (memberId: string, minutes: number, latitude: number, extra: Partial<LocationHistoryPoint> = {}): LocationHistoryPoint => ({
+  organizationId: 'org-1',
+  memberId,
+  latitude,
+  longitude: 13.4,
+  timestamp: T0 + minutes * 60000,
+  ...extra
+});
+
+const history = [
+  point('member-1', 2, 52.52),
+  point('member-2', 0, 48.13),
+  point('member-1', 0, 52.5),
+  point('member-1', 1, 52.9, { rejectedReason: 'impossible_speed' }),
+  point('member-1', 3, 91),
+  point('member-2', 1, 48.14)
+];
+
+describe('groupIntoTracks', () => {
+  it('groups fixes per member in time order and leaves out rejected or invalid ones', () => {
+    const tracks = groupIntoTracks(history, { 'member-1': 'Ana & Ben' });
+
+    expect(tracks.map(track => track.memberName)).toEqual(['Ana & Ben', 'User er-2']);
+    expect(tracks[0].points.map(p => p.latitude)).toEqual([52.5, 52.52]);
+    expect(tracks[1].points.map(p => p.latitude)).toEqual([48.13, 48.14]);
+  });
+});
+
+describe('track formats', () => {
+  const tracks = groupIntoTracks(history, { 'member-1': 'Ana & Ben' });
+
+  it('reads back an exported GPX file with the same points and times', () => {
+    const imported = parseGpx(toGpx(tracks, 'Site <north>'), 'org-1');
+
+    expect(imported.map(track => track.name)).toEqual(['Ana & Ben', 'User er-2']);
+    expect(imported[0].points.map(p => [p.latitude, p.longitude, p.timestamp])).toEqual(
+      tracks[0].points.map(p => [p.latitude, p.longitude, p.timestamp])
+    );
+  });
+
+  it('writes longitude before latitude in KML and GeoJSON', () => {
+    expect(toKml(tracks)).toContain('<gx:coord>13.4 52.5 0</gx:coord>');
+
+    const [feature] = toGeoJson(tracks).features;
+    expect(feature.geometry).toEqual({ type: 'LineString', coordinates: [[13.4, 52.5], [13.4, 52.52]] });
+    expect(feature.properties).toMatchObject({ memberId: 'member-1', coordTimes: [new Date(T0).toISOString(), new Date(T0 + 120000).toISOString()] });
+  });
+});
+
+describe('parseGpx', () => {
+  it('skips tracks with fewer than two valid points', () => {
+    const xml = `<?xml version="1.0"?>
+      <gpx version="1.1">
+        <trk><name>Short</name><trkseg><trkpt lat="52.5" lon="13.4"/><trkpt lat="95" lon="13.4"/></trkseg></trk>
+        <rte><rtept lat="52.5" lon="13.4"/><rtept lat="52.6" lon="13.5"/></rte>
+      </gpx>`;
+
+    const tracks = parseGpx(xml);
+    expect(tracks).toHaveLength(1);
+    expect(tracks[0]).toMatchObject({ name: 'Route 1' });
+    expect(tracks[0].points.map(p => p.timestamp)).toEqual([0, 0]);
+  });
+
+  it('refuses documents that are not GPX', () => {
+    expect(() => parseGpx('<kml></kml>')).toThrow('not a GPX document');
+  });
+});
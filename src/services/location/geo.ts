@@ -0,0 +1,88 @@
+// Small spherical-geometry helpers shared by the location features
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// Great-circle distance between two points in meters
+export function haversineDistance(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const lat1 = toRadians(a.latitude);
+  const lat2 = toRadians(b.latitude);
+
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Initial bearing from a to b in degrees clockwise from north
+export function initialBearing(a: GeoPoint, b: GeoPoint): number {
+  const lat1 = toRadians(a.latitude);
+  const lat2 = toRadians(b.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360;
+}
+
+// Ray casting test; good enough for zones a few kilometres across
+export function isPointInPolygon(point: GeoPoint, vertices: GeoPoint[]): boolean {
+  if (vertices.length < 3) return false;
+
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const vi = vertices[i];
+    const vj = vertices[j];
+    const intersects =
+      (vi.latitude > point.latitude) !== (vj.latitude > point.latitude) &&
+      point.longitude <
+        ((vj.longitude - vi.longitude) * (point.latitude - vi.latitude)) / (vj.latitude - vi.latitude) + vi.longitude;
+    if (intersects) inside = !inside;
+  }
+  return inside;
+}
+
+// Point at the given distance and bearing (degrees clockwise from north)
+export function destinationPoint(origin: GeoPoint, distanceMeters: number, bearingDegrees: number): GeoPoint {
+  const angular = distanceMeters / EARTH_RADIUS_METERS;
+  const bearing = toRadians(bearingDegrees);
+  const lat1 = toRadians(origin.latitude);
+  const lng1 = toRadians(origin.longitude);
+
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing)
+  );
+  const lng2 =
+    lng1 +
+    Math.atan2(
+      Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+      Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+    );
+
+  return { latitude: toDegrees(lat2), longitude: ((toDegrees(lng2) + 540) % 360) - 180 };
+}
+
+// Approximates a circle as a closed ring of vertices, e.g. for drawing on the map
+export function circleToPolygon(center: GeoPoint, radiusMeters: number, steps = 64): GeoPoint[] {
+  const ring: GeoPoint[] = [];
+  for (let i = 0; i < steps; i++) {
+    ring.push(destinationPoint(center, radiusMeters, (i * 360) / steps));
+  }
+  ring.push(ring[0]);
+  return ring;
+}
+
+export function polygonCentroid(vertices: GeoPoint[]): GeoPoint {
+  const sum = vertices.reduce(
+    (acc, v) => ({ latitude: acc.latitude + v.latitude, longitude: acc.longitude + v.longitude }),
+    { latitude: 0, longitude: 0 }
+  );
+  return { latitude: sum.latitude / vertices.length, longitude: sum.longitude / vertices.length };
+}
@@ -0,0 +1,112 @@
+import mapboxgl from 'mapbox-gl';
+import 'mapbox-gl/dist/mapbox-gl.css';
+import { MapProviderKind, MapProviderSettings } from '@/lib/localDb';
+import { MBTILES_PROTOCOL, openMbtiles, buildMbtilesStyle, loadMbtilesTile } from './MbtilesSource';
+
+export type { MapProviderKind, MapProviderSettings };
+
+// A map ready for MapView to add its sources and layers to. MapLibre implements the same
+// map and popup surface MapView uses, so both are handed out with Mapbox's types.
+export interface ProviderMap {
+  map: mapboxgl.Map;
+  createPopup: (options?: { offset?: number }) => mapboxgl.Popup;
+}
+
+export interface MapProvider {
+  kind: MapProviderKind;
+  label: string;
+  // Works without internet once configured
+  offline: boolean;
+  isConfigured: (settings: MapProviderSettings) => boolean;
+  create: (container: HTMLElement, settings: MapProviderSettings) => Promise<ProviderMap>;
+}
+
+const INITIAL_VIEW = { center: [0, 0] as [number, number], zoom: 2 };
+
+const loadMapLibre = async () => {
+  const [maplibre] = await Promise.all([
+    import('maplibre-gl'),
+    import('maplibre-gl/dist/maplibre-gl.css')
+  ]);
+  return maplibre;
+};
+
+let mbtilesProtocolRegistered = false;
+
+const mapboxProvider: MapProvider = {
+  kind: 'mapbox',
+  label: 'Mapbox',
+  offline: false,
+  isConfigured: (settings) => !!settings.mapboxToken?.startsWith('pk.'),
+  create: async (container, settings) => {
+    mapboxgl.accessToken = settings.mapboxToken!;
+    const map = new mapboxgl.Map({
+      container,
+      style: settings.styleUrl || 'mapbox://styles/mapbox/streets-v12',
+      ...INITIAL_VIEW
+    });
+    map.addControl(new mapboxgl.NavigationControl(), 'top-right');
+    return { map, createPopup: (options) => new mapboxgl.Popup(options) };
+  }
+};
+
+const mapLibreProvider: MapProvider = {
+  kind: 'maplibre',
+  label: 'MapLibre (self-hosted style)',
+  offline: false,
+  isConfigured: (settings) => !!settings.styleUrl,
+  create: async (container, settings) => {
+    const maplibre = await loadMapLibre();
+    const map = new maplibre.Map({ container, style: settings.styleUrl!, ...INITIAL_VIEW });
+    map.addControl(new maplibre.NavigationControl(), 'top-right');
+    return {
+      map: map as unknown as mapboxgl.Map,
+      createPopup: (options) => new maplibre.Popup(options) as unknown as mapboxgl.Popup
+    };
+  }
+};
+
+const mbtilesProvider: MapProvider = {
+  kind: 'mbtiles',
+  label: 'Local MBTiles file',
+  offline: true,
+  isConfigured: (settings) => !!(settings.mbtilesFile || settings.mbtilesUrl),
+  create: async (container, settings) => {
+    const maplibre = await loadMapLibre();
+    if (!mbtilesProtocolRegistered) {
+      maplibre.addProtocol(MBTILES_PROTOCOL, loadMbtilesTile);
+      mbtilesProtocolRegistered = true;
+    }
+
+    const { key, metadata } = await openMbtiles({ file: settings.mbtilesFile, url: settings.mbtilesUrl });
+    const style = await buildMbtilesStyle(key, metadata, settings.styleUrl);
+    const map = new maplibre.Map({
+      container,
+      style,
+      center: metadata.center ? [metadata.center[0], metadata.center[1]] : INITIAL_VIEW.center,
+      zoom: metadata.center ? metadata.center[2] : Math.max(metadata.minzoom, INITIAL_VIEW.zoom),
+      minZoom: metadata.minzoom,
+      // Overzoom a little past the last tile level
+      maxZoom: metadata.maxzoom + 2
+    });
+    map.addControl(new maplibre.NavigationControl(), 'top-right');
+    return {
+      map: map as unknown as mapboxgl.Map,
+      createPopup: (options) => new maplibre.Popup(options) as unknown as mapboxgl.Popup
+    };
+  }
+};
+
+export const MAP_PROVIDERS: Record<MapProviderKind, MapProvider> = {
+  mapbox: mapboxProvider,
+  maplibre: mapLibreProvider,
+  mbtiles: mbtilesProvider
+};
+
+export function isMapProviderConfigured(settings: MapProviderSettings | null | undefined): settings is MapProviderSettings {
+  return !!settings && !!MAP_PROVIDERS[settings.kind]?.isConfigured(settings);
+}
+
+export function createProviderMap(container: HTMLElement, settings: MapProviderSettings): Promise<ProviderMap> {
+  return MAP_PROVIDERS[settings.kind].create(container, settings);
+}
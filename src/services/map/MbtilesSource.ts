@@ -0,0 +1,210 @@
+import type { Database } from 'sql.js';
+import type { StyleSpecification, LayerSpecification, AddProtocolAction } from 'maplibre-gl';
+import { getMapTilesFile } from '@/lib/localDb';
+
+// Serves tiles straight out of an MBTiles (SQLite) file so the dashboard map works without internet.
+// Tiles are requested by MapLibre as mbtiles://<file>/{z}/{x}/{y}.
+
+export const MBTILES_PROTOCOL = 'mbtiles';
+
+// sql.js keeps the whole database in memory, so an open file costs its full size on top of the copy
+// in IndexedDB. Larger files are refused rather than taking the tab down; split big regions into
+// several files.
+export const MAX_MBTILES_BYTES = 256 * 1024 * 1024;
+
+export function checkMbtilesSize(name: string, bytes: number): void {
+  if (bytes > MAX_MBTILES_BYTES) {
+    const sizeMb = Math.ceil(bytes / (1024 * 1024));
+    throw new Error(`MBTiles file "${name}" is ${sizeMb} MB; files up to ${MAX_MBTILES_BYTES / (1024 * 1024)} MB are supported`);
+  }
+}
+
+export interface MbtilesMetadata {
+  name: string;
+  format: 'pbf' | 'png' | 'jpg' | 'webp';
+  minzoom: number;
+  maxzoom: number;
+  bounds?: [number, number, number, number];
+  center?: [number, number, number];
+  vectorLayers: string[];
+}
+
+const databases = new Map<string, { db: Database; metadata: MbtilesMetadata }>();
+
+const loadSqlJs = async () => {
+  const [{ default: initSqlJs }, { default: wasmUrl }] = await Promise.all([
+    import('sql.js'),
+    import('sql.js/dist/sql-wasm.wasm?url')
+  ]);
+  return initSqlJs({ locateFile: () => wasmUrl });
+};
+
+let sqlJs: ReturnType<typeof loadSqlJs> | null = null;
+
+const parseNumbers = (value: string | undefined): number[] | undefined =>
+  value ? value.split(',').map(Number).filter(n => !Number.isNaN(n)) : undefined;
+
+export function readMetadata(db: Database, fallbackName: string): MbtilesMetadata {
+  const rows = new Map<string, string>();
+  const result = db.exec('SELECT name, value FROM metadata');
+  result[0]?.values.forEach(([name, value]) => rows.set(String(name), String(value)));
+
+  let vectorLayers: string[] = [];
+  try {
+    const json = JSON.parse(rows.get('json') || '{}');
+    vectorLayers = (json.vector_layers || []).map((layer: { id: string }) => layer.id);
+  } catch (error) {
+    console.warn('MbtilesSource: Invalid json metadata:', error);
+  }
+
+  const bounds = parseNumbers(rows.get('bounds'));
+  const center = parseNumbers(rows.get('center'));
+  return {
+    name: rows.get('name') || fallbackName,
+    format: (rows.get('format') as MbtilesMetadata['format']) || 'png',
+    minzoom: Number(rows.get('minzoom') ?? 0),
+    maxzoom: Number(rows.get('maxzoom') ?? 14),
+    bounds: bounds?.length === 4 ? bounds as MbtilesMetadata['bounds'] : undefined,
+    center: center?.length === 3 ? center as MbtilesMetadata['center'] : undefined,
+    vectorLayers
+  };
+}
+
+// Opens a sideloaded file from IndexedDB or a bundled one by URL; files stay open for the session
+export async function openMbtiles(source: { file?: string; url?: string }): Promise<{ key: string; metadata: MbtilesMetadata }> {
+  const key = source.file || source.url;
+  if (!key) throw new Error('No MBTiles file configured');
+
+  const open = databases.get(key);
+  if (open) return { key, metadata: open.metadata };
+
+  let data: ArrayBuffer;
+  if (source.file) {
+    const stored = await getMapTilesFile(source.file);
+    if (!stored) throw new Error(`MBTiles file "${source.file}" is not on this device`);
+    checkMbtilesSize(key, stored.data.byteLength);
+    data = stored.data;
+  } else {
+    const response = await fetch(source.url!);
+    if (!response.ok) throw new Error(`Failed to load MBTiles from ${source.url}: ${response.status}`);
+    // Refuse before downloading when the server says how big it is
+    checkMbtilesSize(key, Number(response.headers.get('Content-Length')) || 0);
+    data = await response.arrayBuffer();
+    checkMbtilesSize(key, data.byteLength);
+  }
+
+  sqlJs = sqlJs || loadSqlJs();
+  const SQL = await sqlJs;
+  const metadata = attachMbtiles(key, new SQL.Database(new Uint8Array(data)));
+  return { key, metadata };
+}
+
+// Serves tiles for key from an open database
+export function attachMbtiles(key: string, db: Database): MbtilesMetadata {
+  const metadata = readMetadata(db, key);
+  databases.set(key, { db, metadata });
+  return metadata;
+}
+
+export function closeMbtiles(key: string): void {
+  databases.get(key)?.db.close();
+  databases.delete(key);
+}
+
+const isGzipped = (data: Uint8Array) => data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
+
+const gunzip = async (data: Uint8Array): Promise<ArrayBuffer> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).arrayBuffer();
+};
+
+// MBTiles rows are in TMS order, so y is flipped relative to the XYZ scheme the map asks for
+export const loadMbtilesTile: AddProtocolAction = async (params) => {
+  const match = params.url.match(/^mbtiles:\/\/(.+)\/(\d+)\/(\d+)\/(\d+)$/);
+  if (!match) throw new Error(`Invalid MBTiles tile URL: ${params.url}`);
+
+  const [, encodedKey, z, x, y] = match;
+  const open = databases.get(decodeURIComponent(encodedKey));
+  if (!open) throw new Error(`MBTiles file ${encodedKey} is not open`);
+
+  const zoom = Number(z);
+  const row = (1 << zoom) - 1 - Number(y);
+  const statement = open.db.prepare('SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?');
+  try {
+    statement.bind([zoom, Number(x), row]);
+    if (!statement.step()) return { data: new ArrayBuffer(0) };
+    const tile = statement.get()[0] as Uint8Array;
+    const data = isGzipped(tile) ? await gunzip(tile) : tile.slice().buffer;
+    return { data };
+  } finally {
+    statement.free();
+  }
+};
+
+export function tileUrlTemplate(key: string): string {
+  return `${MBTILES_PROTOCOL}://${encodeURIComponent(key)}/{z}/{x}/{y}`;
+}
+
+// Plain styling for vector tiles that come without a style; no glyphs, so no labels
+const genericVectorLayers = (sourceId: string, vectorLayers: string[]): LayerSpecification[] =>
+  vectorLayers.flatMap((layer): LayerSpecification[] => [
+    {
+      id: `${layer}-fill`,
+      type: 'fill',
+      source: sourceId,
+      'source-layer': layer,
+      filter: ['==', ['geometry-type'], 'Polygon'],
+      paint: { 'fill-color': '#e5e7eb', 'fill-outline-color': '#d1d5db' }
+    },
+    {
+      id: `${layer}-line`,
+      type: 'line',
+      source: sourceId,
+      'source-layer': layer,
+      filter: ['==', ['geometry-type'], 'LineString'],
+      paint: { 'line-color': '#9ca3af', 'line-width': 1 }
+    }
+  ]);
+
+export async function buildMbtilesStyle(key: string, metadata: MbtilesMetadata, styleUrl?: string): Promise<StyleSpecification> {
+  const tiles = [tileUrlTemplate(key)];
+  const bounds = metadata.bounds;
+
+  if (metadata.format !== 'pbf') {
+    return {
+      version: 8,
+      sources: {
+        local: { type: 'raster', tiles, tileSize: 256, minzoom: metadata.minzoom, maxzoom: metadata.maxzoom, bounds }
+      },
+      layers: [
+        { id: 'background', type: 'background', paint: { 'background-color': '#f3f4f6' } },
+        { id: 'local-tiles', type: 'raster', source: 'local' }
+      ]
+    };
+  }
+
+  // A self-hosted style for these tiles: keep its layers and point its vector sources at the file
+  if (styleUrl) {
+    const response = await fetch(styleUrl);
+    if (!response.ok) throw new Error(`Failed to load map style from ${styleUrl}: ${response.status}`);
+    const style: StyleSpecification = await response.json();
+    Object.keys(style.sources).forEach(id => {
+      const source = style.sources[id];
+      if (source.type === 'vector') {
+        style.sources[id] = { type: 'vector', tiles, minzoom: metadata.minzoom, maxzoom: metadata.maxzoom, bounds };
+      }
+    });
+    return style;
+  }
+
+  return {
+    version: 8,
+    sources: {
+      local: { type: 'vector', tiles, minzoom: metadata.minzoom, maxzoom: metadata.maxzoom, bounds }
+    },
+    layers: [
+      { id: 'background', type: 'background', paint: { 'background-color': '#f9fafb' } },
+      ...genericVectorLayers('local', metadata.vectorLayers)
+    ]
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * @jest-environment node
+ */
+// sql.js loads its wasm from node_modules here; the app gets it through Vite
+import { gzipSync } from 'zlib';
+import initSqlJs, { Database } from 'sql.js';
+import type { RequestParameters } from 'maplibre-gl';
+import {
+  MAX_MBTILES_BYTES,
+  attachMbtiles,
+  buildMbtilesStyle,
+  checkMbtilesSize,
+  closeMbtiles,
+  loadMbtilesTile,
+  readMetadata,
+  tileUrlTemplate,
+  MbtilesMetadata
+} from '../MbtilesSource';
+
+let db: Database;
+
+beforeEach(async () => {
+  const SQL = await initSqlJs({ locateFile: file => require.resolve(`sql.js/dist/${file}`) });
+  db = new SQL.Database();
+  db.run('CREATE TABLE metadata (name TEXT, value TEXT)');
+  db.run('CREATE TABLE tiles (zoom_level INTEGER, tile_column INTEGER, tile_row INTEGER, tile_data BLOB)');
+});
+
+afterEach(() => {
+  closeMbtiles('site.mbtiles');
+  jest.restoreAllMocks();
+});
+
+const setMetadata = (rows: Record<string, string>) =>
+  Object.entries(rows).forEach(([name, value]) => db.run('INSERT INTO metadata VALUES (?, ?)', [name, value]));
+
+const requestTile = async (url: string) => {
+  const response = await loadMbtilesTile({ url, type: 'arrayBuffer' } as RequestParameters, new AbortController());
+  return Array.from(new Uint8Array(response.data as ArrayBuffer));
+};
+
+const vectorMetadata: MbtilesMetadata = { name: 'Site', format: 'pbf', minzoom: 0, maxzoom: 14, vectorLayers: ['roads'] };
+
+describe('readMetadata', () => {
+  it('reads bounds, center, zooms and vector layers', () => {
+    setMetadata({
+      name: 'Site',
+      format: 'pbf',
+      minzoom: '2',
+      maxzoom: '16',
+      bounds: '13.3,52.4,13.5,52.6',
+      center: '13.4,52.5,12',
+      json: JSON.stringify({ vector_layers: [{ id: 'roads' }, { id: 'buildings' }] })
+    });
+
+    expect(readMetadata(db, 'site.mbtiles')).toEqual({
+      name: 'Site',
+      format: 'pbf',
+      minzoom: 2,
+      maxzoom: 16,
+      bounds: [13.3, 52.4, 13.5, 52.6],
+      center: [13.4, 52.5, 12],
+      vectorLayers: ['roads', 'buildings']
+    });
+  });
+
+  it('falls back to defaults for missing or broken fields', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    setMetadata({ bounds: '13.3,52.4', json: '{not json' });
+
+    expect(readMetadata(db, 'site.mbtiles')).toEqual({
+      name: 'site.mbtiles',
+      format: 'png',
+      minzoom: 0,
+      maxzoom: 14,
+      bounds: undefined,
+      center: undefined,
+      vectorLayers: []
+    });
+  });
+});
+
+describe('loadMbtilesTile', () => {
+  it('flips y into the TMS row the file stores tiles under', async () => {
+    // z2: XYZ y=1 is TMS row 4 - 1 - 1 = 2
+    db.run('INSERT INTO tiles VALUES (2, 1, 2, ?)', [new Uint8Array([1, 2, 3])]);
+    db.run('INSERT INTO tiles VALUES (2, 1, 1, ?)', [new Uint8Array([9])]);
+    attachMbtiles('site.mbtiles', db);
+
+    const template = tileUrlTemplate('site.mbtiles');
+    expect(await requestTile(template.replace('{z}/{x}/{y}', '2/1/1'))).toEqual([1, 2, 3]);
+    expect(await requestTile(template.replace('{z}/{x}/{y}', '2/1/2'))).toEqual([9]);
+    expect(await requestTile(template.replace('{z}/{x}/{y}', '2/0/0'))).toEqual([]);
+  });
+
+  it('unzips gzipped vector tiles', async () => {
+    db.run('INSERT INTO tiles VALUES (0, 0, 0, ?)', [new Uint8Array(gzipSync(Buffer.from([4, 5, 6])))]);
+    attachMbtiles('site.mbtiles', db);
+
+    expect(await requestTile('mbtiles://site.mbtiles/0/0/0')).toEqual([4, 5, 6]);
+  });
+
+  it('rejects tiles from files that are not open', async () => {
+    await expect(requestTile('mbtiles://other.mbtiles/0/0/0')).rejects.toThrow('is not open');
+  });
+});
+
+describe('buildMbtilesStyle', () => {
+  it('shows raster tiles as a single raster layer', async () => {
+    const style = await buildMbtilesStyle('site.mbtiles', { ...vectorMetadata, format: 'png', vectorLayers: [] });
+
+    expect(style.sources.local).toMatchObject({ type: 'raster', tiles: ['mbtiles://site.mbtiles/{z}/{x}/{y}'], tileSize: 256 });
+    expect(style.layers.map(layer => layer.id)).toEqual(['background', 'local-tiles']);
+  });
+
+  it('draws polygons and lines of every vector layer when there is no style', async () => {
+    const style = await buildMbtilesStyle('site.mbtiles', vectorMetadata);
+
+    expect(style.sources.local).toMatchObject({ type: 'vector', minzoom: 0, maxzoom: 14 });
+    expect(style.layers.map(layer => layer.id)).toEqual(['background', 'roads-fill', 'roads-line']);
+  });
+
+  it('points the vector sources of a self-hosted style at the file', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify({
+      version: 8,
+      sources: {
+        openmaptiles: { type: 'vector', url: 'https://tiles.example.com/tiles.json' },
+        hillshade: { type: 'raster', tiles: ['https://tiles.example.com/hillshade/{z}/{x}/{y}.png'] }
+      },
+      layers: [{ id: 'roads', type: 'line', source: 'openmaptiles', 'source-layer': 'roads' }]
+    })));
+
+    const style = await buildMbtilesStyle('site.mbtiles', vectorMetadata, '/styles/site.json');
+
+    expect(style.sources.openmaptiles).toEqual({
+      type: 'vector',
+      tiles: ['mbtiles://site.mbtiles/{z}/{x}/{y}'],
+      minzoom: 0,
+      maxzoom: 14,
+      bounds: undefined
+    });
+    expect(style.sources.hillshade).toMatchObject({ type: 'raster' });
+    expect(style.layers).toHaveLength(1);
+  });
+});
+
+describe('checkMbtilesSize', () => {
+  it('refuses files over the limit', () => {
+    expect(() => checkMbtilesSize('site.mbtiles', MAX_MBTILES_BYTES)).not.toThrow();
+    expect(() => checkMbtilesSize('site.mbtiles', MAX_MBTILES_BYTES + 1)).toThrow('up to 256 MB');
+  });
+});
@@ -0,0 +1,282 @@
+import { getAllChatMessages, saveChatMessages, ChatMessage, ChatDeliveryStatus } from '@/lib/localDb';
+import { gracefulDegradationManager } from '@/services/webrtc/GracefulDegradationManager';
+import type { ChatMessagePayload, ChatReceiptPayload } from '@/services/webrtc/protocol';
+
+// What the service needs from the WebRTC layer
+export interface ChatTransport {
+  // Resolves once the peer acks the message, rejects when the retries run out
+  send(peerId: string, message: { type: string; data: unknown }): Promise<unknown>;
+  isConnected(peerId: string): boolean;
+  self(): { id: string; isAdmin: boolean };
+}
+
+export const MAX_CHAT_TEXT = 4000;
+// The receipt schema's limit
+const MAX_RECEIPT_IDS = 500;
+const STATUS_ORDER: ChatDeliveryStatus[] = ['queued', 'sent', 'delivered', 'read'];
+
+// Statuses only move forward, so a late ack never undoes a read receipt
+export function upgradeStatus(current: ChatDeliveryStatus | undefined, next: ChatDeliveryStatus): ChatDeliveryStatus {
+  if (!current) return next;
+  return STATUS_ORDER.indexOf(next) > STATUS_ORDER.indexOf(current) ? next : current;
+}
+
+const toPayload = (message: ChatMessage): ChatMessagePayload => ({
+  id: message.id,
+  organizationId: message.organizationId,
+  kind: message.kind,
+  memberId: message.memberId,
+  senderId: message.senderId,
+  text: message.text,
+  sentAt: message.sentAt
+});
+
+// 1:1 chat between admin and members plus admin announcements, over the reliable data channel path.
+// Everything is kept in IndexedDB; messages and receipts wait there until the peer is reachable again.
+export class MessagingService {
+  private transport: ChatTransport | null = null;
+  private messages = new Map<string, ChatMessage>();
+  // `${peerId}:${id}` for messages, `${peerId}:${status}:${id}` for receipts
+  private inFlight = new Set<string>();
+  private listeners = new Set<(messages: ChatMessage[]) => void>();
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.load();
+
+    window.addEventListener('webrtc-chat-message', ((event: CustomEvent<{ message: ChatMessagePayload; peerId: string }>) => {
+      this.handleIncoming(event.detail.message, event.detail.peerId);
+    }) as EventListener);
+    window.addEventListener('webrtc-chat-receipt', ((event: CustomEvent<{ receipt: ChatReceiptPayload; peerId: string }>) => {
+      this.handleReceipt(event.detail.receipt, event.detail.peerId);
+    }) as EventListener);
+    window.addEventListener('webrtc-data-channel-open', ((event: CustomEvent<{ peerId: string }>) => {
+      this.flush(event.detail?.peerId);
+    }) as EventListener);
+
+    gracefulDegradationManager.onDegradationChange(level => {
+      if (level.features.instantMessaging) this.flush();
+    });
+  }
+
+  setTransport(transport: ChatTransport): void {
+    this.transport = transport;
+    this.flush();
+  }
+
+  async sendDirect(organizationId: string, peerId: string, text: string): Promise<ChatMessage> {
+    const self = this.requireTransport().self();
+    // The member is the conversation key on both sides
+    return this.queue(organizationId, 'direct', self.isAdmin ? peerId : self.id, text, [peerId]);
+  }
+
+  async sendAnnouncement(organizationId: string, memberIds: string[], text: string): Promise<ChatMessage> {
+    if (!this.requireTransport().self().isAdmin) throw new Error('Only admins can send announcements');
+    if (memberIds.length === 0) throw new Error('There are no members to announce to');
+    return this.queue(organizationId, 'announcement', null, text, memberIds);
+  }
+
+  // Marks incoming messages as read and tells their senders
+  async markRead(messageIds: string[]): Promise<void> {
+    await this.ready;
+    const changed: ChatMessage[] = [];
+    messageIds.forEach(id => {
+      const message = this.messages.get(id);
+      if (!message || message.direction !== 'incoming' || message.readAt) return;
+      message.readAt = Date.now();
+      message.pendingReceipt = 'read';
+      changed.push(message);
+    });
+    if (changed.length === 0) return;
+
+    this.persist(changed);
+    this.notify();
+    new Set(changed.map(message => message.senderId)).forEach(peerId => this.flushReceipts(peerId));
+  }
+
+  getMessages(organizationId?: string): ChatMessage[] {
+    return Array.from(this.messages.values())
+      .filter(message => !organizationId || message.organizationId === organizationId)
+      .sort((a, b) => a.sentAt - b.sentAt);
+  }
+
+  onMessagesChange(callback: (messages: ChatMessage[]) => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  private async queue(
+    organizationId: string,
+    kind: ChatMessage['kind'],
+    memberId: string | null,
+    text: string,
+    recipientIds: string[]
+  ): Promise<ChatMessage> {
+    const trimmed = text.trim();
+    if (!trimmed) throw new Error('Message is empty');
+    if (trimmed.length > MAX_CHAT_TEXT) throw new Error(`Messages are limited to ${MAX_CHAT_TEXT} characters`);
+
+    await this.ready;
+    const now = Date.now();
+    const message: ChatMessage = {
+      id: `chat_${now}_${Math.random().toString(36).substring(2, 8)}`,
+      organizationId,
+      kind,
+      memberId,
+      senderId: this.requireTransport().self().id,
+      text: trimmed,
+      sentAt: now,
+      direction: 'outgoing',
+      recipients: Object.fromEntries(recipientIds.map(peerId => [peerId, 'queued' as ChatDeliveryStatus]))
+    };
+    this.messages.set(message.id, message);
+    this.persist([message]);
+    this.notify();
+
+    recipientIds.forEach(peerId => this.deliver(message, peerId));
+    return message;
+  }
+
+  private deliver(message: ChatMessage, peerId: string): void {
+    const key = `${peerId}:${message.id}`;
+    if (message.recipients?.[peerId] !== 'queued' || this.inFlight.has(key)) return;
+    if (!this.canReach(peerId)) return;
+
+    this.inFlight.add(key);
+    this.transport.send(peerId, { type: 'chat_message', data: toPayload(message) })
+      .then(() => this.setRecipientStatus(message.id, peerId, 'sent'))
+      .catch(error => console.warn('Messaging: chat message to', peerId, 'was not acknowledged, keeping it queued', error))
+      .finally(() => this.inFlight.delete(key));
+  }
+
+  private flushReceipts(peerId: string): void {
+    if (!this.canReach(peerId)) return;
+
+    (['delivered', 'read'] as const).forEach(status => {
+      const ids = Array.from(this.messages.values())
+        .filter(message => message.direction === 'incoming' && message.senderId === peerId && message.pendingReceipt === status)
+        .map(message => message.id)
+        .filter(id => !this.inFlight.has(`${peerId}:${status}:${id}`));
+
+      for (let start = 0; start < ids.length; start += MAX_RECEIPT_IDS) {
+        const batch = ids.slice(start, start + MAX_RECEIPT_IDS);
+        const keys = batch.map(id => `${peerId}:${status}:${id}`);
+        keys.forEach(key => this.inFlight.add(key));
+
+        const receipt: ChatReceiptPayload = { ids: batch, status };
+        this.transport.send(peerId, { type: 'chat_receipt', data: receipt })
+          .then(() => {
+            // A read receipt may have replaced a delivered one while this was in flight
+            const sent = batch.map(id => this.messages.get(id)).filter(message => message?.pendingReceipt === status);
+            sent.forEach(message => delete message.pendingReceipt);
+            this.persist(sent);
+          })
+          .catch(error => console.warn('Messaging: receipt to', peerId, 'was not acknowledged, keeping it queued', error))
+          .finally(() => keys.forEach(key => this.inFlight.delete(key)));
+      }
+    });
+  }
+
+  private canReach(peerId: string): boolean {
+    return !!this.transport?.isConnected(peerId) && gracefulDegradationManager.isFeatureAvailable('instantMessaging');
+  }
+
+  private requireTransport(): ChatTransport {
+    if (!this.transport) throw new Error('Messaging is not ready yet');
+    return this.transport;
+  }
+
+  // Everything still waiting for the peer, or for every peer after messaging comes back
+  private async flush(peerId?: string): Promise<void> {
+    await this.ready;
+    const peers = new Set<string>();
+    this.messages.forEach(message => {
+      if (message.direction === 'incoming') {
+        if (message.pendingReceipt) peers.add(message.senderId);
+        return;
+      }
+      Object.entries(message.recipients || {}).forEach(([recipient, status]) => {
+        if (status === 'queued' && (!peerId || recipient === peerId)) this.deliver(message, recipient);
+      });
+    });
+    peers.forEach(sender => {
+      if (!peerId || sender === peerId) this.flushReceipts(sender);
+    });
+  }
+
+  private async handleIncoming(payload: ChatMessagePayload, peerId: string): Promise<void> {
+    await this.ready;
+    // Every peer of the admin is a member: members can't announce and only write in their own thread
+    const isAdmin = !!this.transport?.self().isAdmin;
+    if (isAdmin && payload.kind === 'announcement') {
+      console.warn(`Messaging: dropped announcement from member ${peerId}`);
+      return;
+    }
+    if (!this.messages.has(payload.id)) {
+      // The channel says who sent it, not the payload
+      const message: ChatMessage = {
+        ...payload,
+        memberId: isAdmin ? peerId : payload.memberId,
+        senderId: peerId,
+        direction: 'incoming',
+        pendingReceipt: 'delivered'
+      };
+      this.messages.set(message.id, message);
+      this.persist([message]);
+      this.notify();
+    }
+    this.flushReceipts(peerId);
+  }
+
+  private async handleReceipt(receipt: ChatReceiptPayload, peerId: string): Promise<void> {
+    await this.ready;
+    const changed: ChatMessage[] = [];
+    receipt.ids.forEach(id => {
+      const message = this.messages.get(id);
+      if (message && this.applyStatus(message, peerId, receipt.status)) changed.push(message);
+    });
+    if (changed.length === 0) return;
+    this.persist(changed);
+    this.notify();
+  }
+
+  private setRecipientStatus(messageId: string, peerId: string, status: ChatDeliveryStatus): void {
+    const message = this.messages.get(messageId);
+    if (!message || !this.applyStatus(message, peerId, status)) return;
+    this.persist([message]);
+    this.notify();
+  }
+
+  // False when the peer isn't a recipient or the status didn't move forward
+  private applyStatus(message: ChatMessage, peerId: string, status: ChatDeliveryStatus): boolean {
+    if (message.direction !== 'outgoing' || !message.recipients || !(peerId in message.recipients)) return false;
+    const next = upgradeStatus(message.recipients[peerId], status);
+    if (next === message.recipients[peerId]) return false;
+    message.recipients = { ...message.recipients, [peerId]: next };
+    return true;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await getAllChatMessages();
+      stored.forEach(message => this.messages.set(message.id, message));
+      this.notify();
+    } catch (error) {
+      console.error('Messaging: failed to load chat history:', error);
+    }
+  }
+
+  private persist(messages: ChatMessage[]): void {
+    if (messages.length === 0) return;
+    saveChatMessages(messages).catch(error => {
+      console.error('Messaging: failed to save chat messages:', error);
+    });
+  }
+
+  private notify(): void {
+    const messages = this.getMessages();
+    this.listeners.forEach(listener => listener(messages));
+  }
+}
+
+export const messagingService = new MessagingService();
@@ -0,0 +1,127 @@
+import { MessagingService, ChatTransport, upgradeStatus } from '../MessagingService';
+import type { ChatMessagePayload } from '@/services/webrtc/protocol';
+
+interface SentMessage {
+  peerId: string;
+  type: string;
+  data: unknown;
+}
+
+// Acks every send straight away; only peers in `connected` are reachable
+function fakeTransport(self: { id: string; isAdmin: boolean }) {
+  const sent: SentMessage[] = [];
+  const connected = new Set<string>();
+  const transport: ChatTransport = {
+    send: async (peerId, message) => {
+      sent.push({ peerId, ...message });
+    },
+    isConnected: peerId => connected.has(peerId),
+    self: () => self
+  };
+  return { transport, sent, connected };
+}
+
+const dispatch = (type: string, detail: unknown) => window.dispatchEvent(new CustomEvent(type, { detail }));
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  // A real event target, so the service's listeners fire
+  (global as unknown as { window: EventTarget }).window = new EventTarget();
+  // There is no IndexedDB here, so loading and saving fail and get logged
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('MessagingService', () => {
+  it('queues while the member is offline and sends once its channel opens', async () => {
+    const { transport, sent, connected } = fakeTransport({ id: 'admin-1', isAdmin: true });
+    const service = new MessagingService();
+    service.setTransport(transport);
+
+    const message = await service.sendDirect('org-1', 'member-1', '  Meet at the north gate  ');
+    expect(sent).toHaveLength(0);
+    expect(service.getMessages('org-1')[0]).toMatchObject({ text: 'Meet at the north gate', memberId: 'member-1', recipients: { 'member-1': 'queued' } });
+
+    connected.add('member-1');
+    dispatch('webrtc-data-channel-open', { peerId: 'member-1', isServer: true });
+    await settle();
+
+    expect(sent).toEqual([{ peerId: 'member-1', type: 'chat_message', data: expect.objectContaining({ id: message.id, kind: 'direct' }) }]);
+    expect(service.getMessages()[0].recipients).toEqual({ 'member-1': 'sent' });
+
+    dispatch('webrtc-chat-receipt', { receipt: { ids: [message.id], status: 'read' }, peerId: 'member-1' });
+    dispatch('webrtc-chat-receipt', { receipt: { ids: [message.id], status: 'delivered' }, peerId: 'member-1' });
+    await settle();
+    expect(service.getMessages()[0].recipients).toEqual({ 'member-1': 'read' });
+  });
+
+  it('stores an incoming message once and sends delivered and read receipts', async () => {
+    const { transport, sent, connected } = fakeTransport({ id: 'member-1', isAdmin: false });
+    const service = new MessagingService();
+    service.setTransport(transport);
+    const announcement: ChatMessagePayload = {
+      id: 'chat_1',
+      organizationId: 'org-1',
+      kind: 'announcement',
+      memberId: null,
+      senderId: 'someone-else',
+      text: 'Storm warning, head back to camp',
+      sentAt: 1000
+    };
+
+    dispatch('webrtc-chat-message', { message: announcement, peerId: 'admin-1' });
+    dispatch('webrtc-chat-message', { message: announcement, peerId: 'admin-1' });
+    await settle();
+
+    const [stored] = service.getMessages();
+    expect(service.getMessages()).toHaveLength(1);
+    expect(stored).toMatchObject({ senderId: 'admin-1', direction: 'incoming', pendingReceipt: 'delivered' });
+
+    // Offline, the read receipt waits with the delivered one
+    await service.markRead(['chat_1']);
+    expect(sent).toHaveLength(0);
+
+    connected.add('admin-1');
+    dispatch('webrtc-data-channel-open', { peerId: 'admin-1', isServer: false });
+    await settle();
+
+    expect(sent).toEqual([{ peerId: 'admin-1', type: 'chat_receipt', data: { ids: ['chat_1'], status: 'read' } }]);
+    expect(service.getMessages()[0].pendingReceipt).toBeUndefined();
+  });
+
+  it('files a member message under the sending member and drops announcements from members', async () => {
+    const { transport } = fakeTransport({ id: 'admin-1', isAdmin: true });
+    const service = new MessagingService();
+    service.setTransport(transport);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const fromMember = (id: string, kind: ChatMessagePayload['kind']): ChatMessagePayload => ({
+      id,
+      organizationId: 'org-1',
+      kind,
+      memberId: 'member-2',
+      senderId: 'member-2',
+      text: 'Running late',
+      sentAt: 1000
+    });
+
+    dispatch('webrtc-chat-message', { message: fromMember('chat_1', 'direct'), peerId: 'member-1' });
+    dispatch('webrtc-chat-message', { message: fromMember('chat_2', 'announcement'), peerId: 'member-1' });
+    await settle();
+
+    expect(service.getMessages()).toHaveLength(1);
+    expect(service.getMessages()[0]).toMatchObject({ id: 'chat_1', kind: 'direct', memberId: 'member-1', senderId: 'member-1' });
+  });
+
+  it('only lets admins announce and only moves statuses forward', async () => {
+    const { transport } = fakeTransport({ id: 'member-1', isAdmin: false });
+    const service = new MessagingService();
+    service.setTransport(transport);
+
+    await expect(service.sendAnnouncement('org-1', ['member-2'], 'hello')).rejects.toThrow('Only admins');
+    expect(upgradeStatus('delivered', 'sent')).toBe('delivered');
+    expect(upgradeStatus('sent', 'read')).toBe('read');
+  });
+});
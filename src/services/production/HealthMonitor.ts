@@ -15,6 +15,11 @@ interface HealthStatus {
   uptime: number;
 }
 
+export interface BatteryState {
+  level: number;
+  charging: boolean;
+}
+
 interface HealthThresholds {
   memoryUsage: number;
   renderTime: number;
@@ -35,6 +40,9 @@ export class HealthMonitor {
   private connectionAttempts = 0;
   private connectionFailures = 0;
   private onHealthChangeCallbacks: ((status: HealthStatus) => void)[] = [];
+  private onBatteryChangeCallbacks: ((battery: BatteryState) => void)[] = [];
+  private batteryState: BatteryState | null = null;
+  private batteryMonitoringStarted = false;
 
   private thresholds: HealthThresholds = {
     memoryUsage: 50 * 1024 * 1024, // 50MB
@@ -90,6 +98,19 @@ export class HealthMonitor {
     this.onHealthChangeCallbacks.push(callback);
   }
 
+  // Battery readings are useful outside of full health monitoring (e.g. location sampling)
+  onBatteryChange(callback: (battery: BatteryState) => void) {
+    this.onBatteryChangeCallbacks.push(callback);
+    if (this.batteryState) {
+      callback(this.batteryState);
+    }
+    this.monitorBattery();
+  }
+
+  getBatteryState(): BatteryState | null {
+    return this.batteryState;
+  }
+
   private async checkHealth() {
     this.metrics = [];
 
@@ -108,6 +129,11 @@ export class HealthMonitor {
     // Check network connectivity
     await this.checkNetworkConnectivity();
 
+    // Keep the last battery reading, it only changes on battery events
+    if (this.batteryState) {
+      this.metrics.push(this.createBatteryMetric(this.batteryState));
+    }
+
     // Generate overall health status
     const healthStatus = this.generateHealthStatus();
 
@@ -239,21 +265,25 @@ export class HealthMonitor {
   }
 
   private async monitorBattery() {
+    if (this.batteryMonitoringStarted) return;
+    this.batteryMonitoringStarted = true;
+
     if ('getBattery' in navigator) {
       try {
         const battery = await (navigator as any).getBattery();
         
         const checkBatteryLevel = () => {
-          const metric: HealthMetric = {
-            name: 'battery_level',
-            status: battery.level < this.thresholds.batteryLevel ? 'warning' : 'healthy',
-            value: battery.level,
-            threshold: this.thresholds.batteryLevel,
-            timestamp: Date.now(),
-            details: `${(battery.level * 100).toFixed(0)}% battery, charging: ${battery.charging}`
-          };
-
-          this.metrics.push(metric);
+          this.batteryState = { level: battery.level, charging: battery.charging };
+          this.metrics = this.metrics.filter(m => m.name !== 'battery_level');
+          this.metrics.push(this.createBatteryMetric(this.batteryState));
+
+          this.onBatteryChangeCallbacks.forEach(callback => {
+            try {
+              callback(this.batteryState!);
+            } catch (error) {
+              console.error('Error in battery change callback:', error);
+            }
+          });
         };
 
         // Initial check
@@ -268,6 +298,17 @@ export class HealthMonitor {
     }
   }
 
+  private createBatteryMetric(battery: BatteryState): HealthMetric {
+    return {
+      name: 'battery_level',
+      status: battery.level < this.thresholds.batteryLevel ? 'warning' : 'healthy',
+      value: battery.level,
+      threshold: this.thresholds.batteryLevel,
+      timestamp: Date.now(),
+      details: `${(battery.level * 100).toFixed(0)}% battery, charging: ${battery.charging}`
+    };
+  }
+
   private monitorNetwork() {
     window.addEventListener('online', () => {
       console.log('Network came back online');
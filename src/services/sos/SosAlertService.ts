@@ -0,0 +1,202 @@
+import { LocalNotifications } from '@capacitor/local-notifications';
+import { sendSignalingViaWebSocket } from '@/services/webrtc/SignalingService';
+import type { SosAlert, SosAck, SosChannel, SosTransport } from './SosService';
+
+const ALARMS_KEY = 'sosAlarms';
+const NOTIFICATION_CHANNEL_ID = 'sos-alarms';
+
+export interface SosAlarm {
+  alert: SosAlert;
+  // Peer the alert last arrived from, used to route the ack back over signaling
+  peerId: string;
+  channels: SosChannel[];
+  receivedAt: number;
+  updatedAt: number;
+  ack: SosAck | null;
+}
+
+// Admin side of SOS: keeps the alarm up until someone acknowledges it, then acks on every path
+export class SosAlertService {
+  private transport: SosTransport | null = null;
+  private alarms = new Map<string, SosAlarm>();
+  private listeners = new Set<(alarms: SosAlarm[]) => void>();
+  private channelReady: Promise<void> | null = null;
+
+  constructor() {
+    const stored = localStorage.getItem(ALARMS_KEY);
+    if (stored) {
+      try {
+        (JSON.parse(stored) as SosAlarm[]).forEach(alarm => this.alarms.set(alarm.alert.id, alarm));
+      } catch (error) {
+        console.warn('SosAlertService: Failed to restore alarms:', error);
+      }
+    }
+
+    window.addEventListener('webrtc-sos', ((event: CustomEvent<{ alert: SosAlert; peerId: string; channel: SosChannel }>) => {
+      const { alert, peerId, channel } = event.detail || {};
+      if (alert) this.receive(alert, channel, peerId);
+    }) as EventListener);
+  }
+
+  setTransport(transport: SosTransport): void {
+    this.transport = transport;
+  }
+
+  receive(alert: SosAlert, channel: SosChannel, peerId: string): void {
+    if (!alert?.id) return;
+
+    const existing = this.alarms.get(alert.id);
+    if (existing) {
+      // Retries carry fresher locations; keep the newest one
+      const isNewer = alert.attempt > existing.alert.attempt;
+      this.alarms.set(alert.id, {
+        ...existing,
+        alert: isNewer ? alert : existing.alert,
+        peerId: peerId || existing.peerId,
+        channels: existing.channels.includes(channel) ? existing.channels : [...existing.channels, channel],
+        updatedAt: Date.now()
+      });
+
+      // The member is still retrying, so our earlier ack got lost
+      if (existing.ack) {
+        this.sendAck(existing.ack, peerId || existing.peerId);
+      }
+    } else {
+      const now = Date.now();
+      this.alarms.set(alert.id, { alert, peerId, channels: [channel], receivedAt: now, updatedAt: now, ack: null });
+      this.raiseNotification(alert);
+    }
+
+    this.persist();
+    this.notifyListeners();
+  }
+
+  acknowledge(alertId: string, acknowledgedBy: string): void {
+    const alarm = this.alarms.get(alertId);
+    if (!alarm || alarm.ack) return;
+
+    const ack: SosAck = { id: alertId, acknowledgedBy, acknowledgedAt: Date.now() };
+    this.alarms.set(alertId, { ...alarm, ack });
+    this.sendAck(ack, alarm.peerId);
+    this.clearNotification(alarm.alert);
+
+    this.persist();
+    this.notifyListeners();
+  }
+
+  // Removes an acknowledged alarm from the dashboard
+  dismiss(alertId: string): void {
+    const alarm = this.alarms.get(alertId);
+    if (!alarm?.ack) return;
+
+    this.alarms.delete(alertId);
+    this.persist();
+    this.notifyListeners();
+  }
+
+  getAlarms(): SosAlarm[] {
+    return Array.from(this.alarms.values()).sort((a, b) => b.receivedAt - a.receivedAt);
+  }
+
+  onAlarmsChange(callback: (alarms: SosAlarm[]) => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  private sendAck(ack: SosAck, peerId: string): void {
+    try {
+      this.transport?.sendUrgent('sos_ack', ack);
+    } catch (error) {
+      console.error('SosAlertService: Data channel ack failed:', error);
+    }
+
+    try {
+      this.transport?.relayToMiniServer('sos_ack', ack);
+    } catch (error) {
+      console.error('SosAlertService: Mini server ack relay failed:', error);
+    }
+
+    try {
+      this.transport?.relayThroughMesh('sos_ack', ack, peerId);
+    } catch (error) {
+      console.error('SosAlertService: Mesh ack relay failed:', error);
+    }
+
+    sendSignalingViaWebSocket({
+      type: 'sos_ack',
+      data: ack,
+      fromPeerId: localStorage.getItem('adminId') || ack.acknowledgedBy,
+      toPeerId: peerId
+    });
+  }
+
+  private async raiseNotification(alert: SosAlert): Promise<void> {
+    try {
+      await this.ensureNotificationChannel();
+      await LocalNotifications.schedule({
+        notifications: [
+          {
+            id: this.notificationId(alert),
+            title: 'SOS — member needs help',
+            body: alert.latitude !== null && alert.longitude !== null
+              ? `${alert.userId} triggered SOS at ${alert.latitude.toFixed(5)}, ${alert.longitude.toFixed(5)}`
+              : `${alert.userId} triggered SOS (location unknown)`,
+            channelId: NOTIFICATION_CHANNEL_ID,
+            // Stays in the shade until the alarm is acknowledged in the dashboard
+            ongoing: true,
+            autoCancel: false,
+            extra: { sosId: alert.id },
+          },
+        ],
+      });
+    } catch (error) {
+      console.error('SosAlertService: Failed to raise notification:', error);
+    }
+  }
+
+  private async clearNotification(alert: SosAlert): Promise<void> {
+    try {
+      await LocalNotifications.cancel({ notifications: [{ id: this.notificationId(alert) }] });
+    } catch (error) {
+      console.error('SosAlertService: Failed to clear notification:', error);
+    }
+  }
+
+  // Android delivers alarms on a max-importance channel so they sound and show as heads-up notifications
+  private ensureNotificationChannel(): Promise<void> {
+    if (!this.channelReady) {
+      this.channelReady = LocalNotifications.createChannel({
+        id: NOTIFICATION_CHANNEL_ID,
+        name: 'SOS alarms',
+        description: 'Emergency alerts from organization members',
+        importance: 5,
+        visibility: 1,
+        vibration: true,
+      }).catch(error => {
+        // Not available on web and iOS; the default channel is used there
+        console.warn('SosAlertService: Could not create notification channel:', error);
+      });
+    }
+    return this.channelReady;
+  }
+
+  // Notification ids must be 32-bit integers
+  private notificationId(alert: SosAlert): number {
+    let hash = 0;
+    for (let i = 0; i < alert.id.length; i++) {
+      hash = (hash * 31 + alert.id.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash) || 1;
+  }
+
+  private persist(): void {
+    localStorage.setItem(ALARMS_KEY, JSON.stringify(this.getAlarms()));
+  }
+
+  private notifyListeners(): void {
+    const alarms = this.getAlarms();
+    this.listeners.forEach(callback => callback(alarms));
+  }
+}
+
+export const sosAlertService = new SosAlertService();
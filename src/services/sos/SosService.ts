@@ -0,0 +1,264 @@
+import { Geolocation } from '@capacitor/geolocation';
+import { sendSignalingViaWebSocket } from '@/services/webrtc/SignalingService';
+import { ExponentialBackoff } from '@/utils/backoff';
+
+const ACTIVE_SOS_KEY = 'activeSos';
+
+export type SosChannel = 'data_channel' | 'signaling' | 'mini_server' | 'mesh';
+
+export interface SosAlert {
+  id: string;
+  userId: string;
+  organizationId: string | null;
+  // Null when no fix could be obtained; the admin still gets the alarm
+  latitude: number | null;
+  longitude: number | null;
+  accuracy?: number;
+  triggeredAt: number;
+  // Time of the location above, refreshed on every retry
+  timestamp: number;
+  attempt: number;
+}
+
+export interface SosAck {
+  id: string;
+  acknowledgedBy: string;
+  acknowledgedAt: number;
+}
+
+// Data channel and mini server side of SOS; WebRTCService on the admin, LocationService on members
+export interface SosTransport {
+  // Number of open data channels the message went out on
+  sendUrgent(type: 'sos' | 'sos_ack', data: SosAlert | SosAck): number;
+  // False when this device runs no mini server to fan the message out to its clients
+  relayToMiniServer(type: 'sos' | 'sos_ack', data: SosAlert | SosAck): boolean;
+  // Through other members when there is no direct channel: a member's alert to the admin, the admin's ack to peerId.
+  // False when the direct channel is up or the mesh has no route.
+  relayThroughMesh(type: 'sos' | 'sos_ack', data: SosAlert | SosAck, peerId?: string): boolean;
+}
+
+// The member's tracking session and last tracked fix; LocationService in the app
+export interface SosLocationSource {
+  getTrackingSession(): { userId: string; organizationId: string } | null;
+  getLastLocation(): { latitude: number; longitude: number; accuracy?: number; timestamp: number } | null;
+}
+
+export interface SosState {
+  alert: SosAlert | null;
+  ack: SosAck | null;
+  // Paths the last attempt went out on; empty while every path is down
+  lastChannels: SosChannel[];
+}
+
+export class SosService {
+  private transport: SosTransport | null = null;
+  private locations: SosLocationSource | null = null;
+  private alert: SosAlert | null = null;
+  private ack: SosAck | null = null;
+  private lastChannels: SosChannel[] = [];
+  private backoff = new ExponentialBackoff({ initial: 2000, max: 15000, jitterFactor: 0.1 });
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private isSending = false;
+  private listeners = new Set<(state: SosState) => void>();
+
+  constructor() {
+    window.addEventListener('webrtc-sos-ack', ((event: CustomEvent<SosAck>) => {
+      this.handleAck(event.detail);
+    }) as EventListener);
+
+    // Don't wait for the next backoff step when a path to the admin comes back
+    window.addEventListener('webrtc-data-channel-open', () => this.resendNow());
+    window.addEventListener('mesh-link-open', () => this.resendNow());
+    window.addEventListener('online', () => this.resendNow());
+
+    // An SOS that was never acknowledged keeps going after an app restart
+    const stored = localStorage.getItem(ACTIVE_SOS_KEY);
+    if (stored) {
+      try {
+        this.alert = JSON.parse(stored);
+        this.scheduleRetry();
+      } catch (error) {
+        console.warn('SosService: Failed to restore active SOS:', error);
+        localStorage.removeItem(ACTIVE_SOS_KEY);
+      }
+    }
+  }
+
+  setTransport(transport: SosTransport, locations: SosLocationSource): void {
+    this.transport = transport;
+    this.locations = locations;
+  }
+
+  async trigger(): Promise<SosAlert> {
+    if (this.alert && !this.ack) return this.alert;
+
+    const session = this.locations?.getTrackingSession();
+    const now = Date.now();
+    this.ack = null;
+    this.alert = {
+      id: `sos_${now}_${Math.random().toString(36).slice(2, 8)}`,
+      userId: session?.userId || localStorage.getItem('clientId') || 'unknown',
+      organizationId: session?.organizationId || null,
+      latitude: null,
+      longitude: null,
+      triggeredAt: now,
+      timestamp: now,
+      attempt: 0
+    };
+    this.persist();
+
+    this.backoff.reset();
+    await this.send();
+    return this.alert;
+  }
+
+  // Clears an acknowledged SOS from the member screen
+  dismiss(): void {
+    if (!this.ack) return;
+    this.alert = null;
+    this.ack = null;
+    this.lastChannels = [];
+    this.persist();
+    this.notifyListeners();
+  }
+
+  getState(): SosState {
+    return { alert: this.alert, ack: this.ack, lastChannels: this.lastChannels };
+  }
+
+  onStateChange(callback: (state: SosState) => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  // Every attempt refreshes the location and goes out on all paths, so the admin sees the member move
+  private async send(): Promise<void> {
+    if (!this.alert || this.ack || this.isSending) return;
+    this.clearRetry();
+
+    this.isSending = true;
+    const location = await this.getLocation();
+    this.isSending = false;
+    if (!this.alert || this.ack) return;
+
+    this.alert = {
+      ...this.alert,
+      ...location,
+      attempt: this.alert.attempt + 1
+    };
+    this.persist();
+
+    const channels: SosChannel[] = [];
+    try {
+      if ((this.transport?.sendUrgent('sos', this.alert) ?? 0) > 0) channels.push('data_channel');
+    } catch (error) {
+      console.error('SosService: Data channel send failed:', error);
+    }
+
+    try {
+      if (this.transport?.relayToMiniServer('sos', this.alert)) channels.push('mini_server');
+    } catch (error) {
+      console.error('SosService: Mini server relay failed:', error);
+    }
+
+    try {
+      if (this.transport?.relayThroughMesh('sos', this.alert)) channels.push('mesh');
+    } catch (error) {
+      console.error('SosService: Mesh relay failed:', error);
+    }
+
+    if (sendSignalingViaWebSocket({
+      type: 'sos',
+      data: this.alert,
+      fromPeerId: localStorage.getItem('clientId') || this.alert.userId,
+      toPeerId: this.findAdminId()
+    })) {
+      channels.push('signaling');
+    }
+
+    this.lastChannels = channels;
+    if (channels.length === 0) {
+      console.warn('SosService: No path to the admin, attempt', this.alert.attempt);
+    }
+    this.notifyListeners();
+    this.scheduleRetry();
+  }
+
+  private async getLocation(): Promise<Pick<SosAlert, 'latitude' | 'longitude' | 'accuracy' | 'timestamp'> | null> {
+    try {
+      const position = await Geolocation.getCurrentPosition({
+        enableHighAccuracy: true,
+        timeout: 5000,
+        maximumAge: 10000
+      });
+      return {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+        timestamp: position.timestamp || Date.now()
+      };
+    } catch (error) {
+      console.error('SosService: Failed to get current location:', error);
+    }
+
+    // Fall back to the last fix we tracked rather than sending no position
+    const last = this.locations?.getLastLocation();
+    if (last && (this.alert?.latitude === null || last.timestamp > (this.alert?.timestamp ?? 0))) {
+      return { latitude: last.latitude, longitude: last.longitude, accuracy: last.accuracy, timestamp: last.timestamp };
+    }
+    return null;
+  }
+
+  // The admin who invited this member, so the signaling server can route the alert directly
+  private findAdminId(): string | undefined {
+    try {
+      const requests: { organizationId: string; adminId: string }[] = JSON.parse(localStorage.getItem('pendingJoinRequests') || '[]');
+      return requests.find(r => r.organizationId === this.alert?.organizationId)?.adminId;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private resendNow(): void {
+    if (this.alert && !this.ack) {
+      this.send();
+    }
+  }
+
+  private scheduleRetry(): void {
+    this.clearRetry();
+    if (!this.alert || this.ack) return;
+    this.retryTimer = setTimeout(() => this.send(), this.backoff.getNextInterval());
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private handleAck(ack: SosAck | undefined): void {
+    if (!ack || !this.alert || ack.id !== this.alert.id || this.ack) return;
+
+    this.ack = ack;
+    this.clearRetry();
+    this.persist();
+    this.notifyListeners();
+  }
+
+  private persist(): void {
+    if (this.alert && !this.ack) {
+      localStorage.setItem(ACTIVE_SOS_KEY, JSON.stringify(this.alert));
+    } else {
+      localStorage.removeItem(ACTIVE_SOS_KEY);
+    }
+  }
+
+  private notifyListeners(): void {
+    const state = this.getState();
+    this.listeners.forEach(callback => callback(state));
+  }
+}
+
+export const sosService = new SosService();
@@ -0,0 +1,58 @@
+import { SosAlertService } from '../SosAlertService';
+import type { SosAlert, SosAck } from '../SosService';
+
+const alert = (attempt: number, latitude: number): SosAlert => ({
+  id: 'sos_1',
+  userId: 'member-1',
+  organizationId: 'org-1',
+  latitude,
+  longitude: 13.405,
+  triggeredAt: 1000,
+  timestamp: 1000 + attempt,
+  attempt
+});
+
+beforeEach(() => {
+  localStorage.clear();
+  // Notifications are not available here
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('SosAlertService', () => {
+  it('acks again when an acknowledged alert keeps arriving, and keeps the newest position', () => {
+    const acks: SosAck[] = [];
+    const relayedTo: string[] = [];
+    const service = new SosAlertService();
+    service.setTransport({
+      sendUrgent: (_type, data) => { acks.push(data as SosAck); return 1; },
+      relayToMiniServer: () => false,
+      relayThroughMesh: (_type, _data, peerId) => relayedTo.push(peerId!) > 0
+    });
+
+    service.receive(alert(1, 52.52), 'data_channel', 'member-1');
+    service.receive(alert(3, 52.53), 'signaling', 'member-1');
+    // An older retry that took the slow path
+    service.receive(alert(2, 52.51), 'data_channel', 'member-1');
+    expect(acks).toHaveLength(0);
+
+    service.acknowledge('sos_1', 'admin-1');
+    expect(acks).toHaveLength(1);
+
+    // The member never got the ack and retried
+    service.receive(alert(4, 52.54), 'data_channel', 'member-1');
+    expect(acks).toHaveLength(2);
+    expect(acks[1]).toEqual(acks[0]);
+    // Also back through the mesh, in case the member lost its own channel
+    expect(relayedTo).toEqual(['member-1', 'member-1']);
+
+    const [alarm] = service.getAlarms();
+    expect(alarm.alert).toMatchObject({ attempt: 4, latitude: 52.54 });
+    expect(alarm.channels).toEqual(['data_channel', 'signaling']);
+    expect(alarm.ack).toMatchObject({ id: 'sos_1', acknowledgedBy: 'admin-1' });
+  });
+});
@@ -0,0 +1,87 @@
+import { SosService, SosAlert, SosLocationSource } from '../SosService';
+
+const locations: SosLocationSource = {
+  getTrackingSession: () => ({ userId: 'member-1', organizationId: 'org-1' }),
+  getLastLocation: () => ({ latitude: 52.52, longitude: 13.405, accuracy: 8, timestamp: 1000 })
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  localStorage.clear();
+  // No GPS and no signaling socket here; both failures are logged
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('SosService', () => {
+  it('keeps retrying with a fresh attempt number until the admin acks', async () => {
+    const sent: SosAlert[] = [];
+    const service = new SosService();
+    service.setTransport({ sendUrgent: (_type, data) => { sent.push(data as SosAlert); return 1; }, relayToMiniServer: () => false, relayThroughMesh: () => false }, locations);
+
+    const alert = await service.trigger();
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ id: alert.id, userId: 'member-1', organizationId: 'org-1', latitude: 52.52, attempt: 1 });
+    expect(service.getState().lastChannels).toEqual(['data_channel']);
+    expect(localStorage.getItem('activeSos')).not.toBeNull();
+
+    await jest.advanceTimersByTimeAsync(30000);
+    expect(sent.length).toBeGreaterThan(2);
+    expect(sent.map(retry => retry.attempt)).toEqual(sent.map((_, index) => index + 1));
+
+    window.dispatchEvent(new CustomEvent('webrtc-sos-ack', { detail: { id: alert.id, acknowledgedBy: 'admin-1', acknowledgedAt: 5000 } }));
+    const attempts = sent.length;
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(sent).toHaveLength(attempts);
+    expect(service.getState().ack).toMatchObject({ id: alert.id, acknowledgedBy: 'admin-1' });
+    expect(localStorage.getItem('activeSos')).toBeNull();
+  });
+
+  it('reports the mini server as a path while this device runs one', async () => {
+    const relayed: SosAlert[] = [];
+    let serverRunning = true;
+    const service = new SosService();
+    service.setTransport({
+      sendUrgent: () => 0,
+      relayToMiniServer: (_type, data) => serverRunning && relayed.push(data as SosAlert) > 0,
+      relayThroughMesh: () => false
+    }, locations);
+
+    const alert = await service.trigger();
+    expect(relayed).toEqual([expect.objectContaining({ id: alert.id, attempt: 1 })]);
+    expect(service.getState().lastChannels).toEqual(['mini_server']);
+
+    serverRunning = false;
+    await jest.advanceTimersByTimeAsync(3000);
+    expect(service.getState().lastChannels).toEqual([]);
+  });
+
+  it('reports the mesh as a path when other members relay it to the admin', async () => {
+    const service = new SosService();
+    service.setTransport({ sendUrgent: () => 0, relayToMiniServer: () => false, relayThroughMesh: type => type === 'sos' }, locations);
+
+    await service.trigger();
+    expect(service.getState().lastChannels).toEqual(['mesh']);
+  });
+
+  it('ignores acks for other alerts', async () => {
+    const sent: SosAlert[] = [];
+    const service = new SosService();
+    service.setTransport({ sendUrgent: (_type, data) => { sent.push(data as SosAlert); return 0; }, relayToMiniServer: () => false, relayThroughMesh: () => false }, locations);
+
+    await service.trigger();
+    expect(service.getState().lastChannels).toEqual([]);
+
+    window.dispatchEvent(new CustomEvent('webrtc-sos-ack', { detail: { id: 'sos_other', acknowledgedBy: 'admin-1', acknowledgedAt: 5000 } }));
+    await jest.advanceTimersByTimeAsync(30000);
+
+    expect(service.getState().ack).toBeNull();
+    expect(sent.length).toBeGreaterThan(1);
+  });
+});
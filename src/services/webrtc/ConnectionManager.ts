@@ -1,8 +1,12 @@
 
-import { PeerConnection, WebRTCMessage } from './types';
+import { PeerConnection, PeerConnectionStats, WebRTCMessage } from './types';
+import { WebRTCConnection } from './WebRTCConnection';
+import { sendScheduler } from './SendScheduler';
 
 export class ConnectionManager {
   private peers = new Map<string, PeerConnection>();
+  // Admin side: one peer connection per member, keyed like `peers`
+  private connections = new Map<string, WebRTCConnection>();
   private onLocationUpdateCallback?: (userId: string, locationData: any) => void;
   private onPeerStatusUpdateCallback?: (peers: PeerConnection[]) => void;
   private isServer = false;
@@ -17,10 +21,58 @@ export class ConnectionManager {
   }
 
   removePeer(peerId: string): void {
+    this.closePeerConnection(peerId);
+    sendScheduler.detach(peerId);
     this.peers.delete(peerId);
     this.notifyPeerStatusUpdate();
   }
 
+  // Replaces (and closes) any connection the member had before
+  setPeerConnection(peerId: string, connection: WebRTCConnection): void {
+    const previous = this.connections.get(peerId);
+    if (previous && previous !== connection) previous.close();
+    this.connections.set(peerId, connection);
+  }
+
+  getPeerConnection(peerId: string): WebRTCConnection | undefined {
+    return this.connections.get(peerId);
+  }
+
+  closePeerConnection(peerId: string): void {
+    const connection = this.connections.get(peerId);
+    if (!connection) return;
+    this.connections.delete(peerId);
+    connection.close();
+  }
+
+  updatePeerStatus(peerId: string, status: PeerConnection['status']): void {
+    const peer = this.peers.get(peerId);
+    if (!peer || peer.status === status) return;
+    peer.status = status;
+    this.notifyPeerStatusUpdate();
+  }
+
+  updatePeerLastSeen(peerId: string): void {
+    const peer = this.peers.get(peerId);
+    if (peer) peer.lastSeen = Date.now();
+  }
+
+  setPeerDataChannel(peerId: string, dataChannel: RTCDataChannel): void {
+    const peer = this.peers.get(peerId);
+    if (peer) peer.dataChannel = dataChannel;
+  }
+
+  async getPeerStats(peerId: string): Promise<PeerConnectionStats | null> {
+    return this.connections.get(peerId)?.getStats(peerId) ?? null;
+  }
+
+  async getAllPeerStats(): Promise<PeerConnectionStats[]> {
+    const stats = await Promise.all(
+      Array.from(this.connections.entries()).map(([peerId, connection]) => connection.getStats(peerId))
+    );
+    return stats.filter((entry): entry is PeerConnectionStats => entry !== null);
+  }
+
   getPeer(peerId: string): PeerConnection | undefined {
     return this.peers.get(peerId);
   }
@@ -34,79 +86,70 @@ export class ConnectionManager {
   }
 
   clearPeers(): void {
+    this.connections.forEach(connection => connection.close());
+    this.connections.clear();
+    this.peers.forEach(peer => sendScheduler.detach(peer.id));
     this.peers.clear();
     this.notifyPeerStatusUpdate();
   }
 
   requestLocationFromAllClients(): void {
     this.peers.forEach((peer) => {
-      if (peer.dataChannel && peer.dataChannel.readyState === 'open') {
-        try {
-          peer.dataChannel.send(JSON.stringify({
-            type: 'location_request',
-            timestamp: Date.now()
-          }));
-        } catch (error) {
-          console.error('Failed to request location from peer:', peer.id, error);
-        }
+      if (peer.dataChannel) {
+        sendScheduler.send(peer.id, peer.dataChannel, {
+          type: 'location_request',
+          timestamp: Date.now()
+        });
       }
     });
   }
 
-  sendToPeer(peerId: string, message: any): void {
+  // False when the peer has no open channel or its send queue is full
+  sendToPeer(peerId: string, message: { type: string; data?: unknown; timestamp: number }): boolean {
     const peer = this.getPeer(peerId);
-    if (peer?.dataChannel && peer.dataChannel.readyState === 'open') {
-      try {
-        peer.dataChannel.send(JSON.stringify(message));
-      } catch (error) {
-        console.error('Failed to send message to peer:', peerId, error);
-      }
-    }
+    if (!peer?.dataChannel) return false;
+    return sendScheduler.send(peerId, peer.dataChannel, message);
   }
 
-  sendLocationUpdate(locationData: any): void {
+  // Returns how many peers the message was handed to
+  broadcastMessage(message: { type: string; data: unknown; timestamp: number }): number {
+    let sent = 0;
     this.peers.forEach((peer) => {
-      if (peer.dataChannel && peer.dataChannel.readyState === 'open') {
-        try {
-          peer.dataChannel.send(JSON.stringify({
-            type: 'location_update',
-            data: locationData,
-            timestamp: Date.now()
-          }));
-        } catch (error) {
-          console.error('Failed to send location update to peer:', peer.id, error);
-        }
+      if (peer.dataChannel && sendScheduler.send(peer.id, peer.dataChannel, message)) {
+        sent++;
       }
     });
+    return sent;
+  }
+
+  // False when no peer took it
+  sendLocationUpdate(locationData: any): boolean {
+    return this.broadcastMessage({
+      type: 'location_update',
+      data: locationData,
+      timestamp: Date.now()
+    }) > 0;
   }
 
   sendNewOffer(peerId: string, offer: any): void {
     const peer = this.getPeer(peerId);
-    if (peer?.dataChannel && peer.dataChannel.readyState === 'open') {
-      try {
-        peer.dataChannel.send(JSON.stringify({
-          type: 'new-offer',
-          data: offer,
-          timestamp: Date.now()
-        }));
-      } catch (error) {
-        console.error('Failed to send new offer to peer:', peerId, error);
-      }
+    if (peer?.dataChannel) {
+      sendScheduler.send(peerId, peer.dataChannel, {
+        type: 'new-offer',
+        data: offer,
+        timestamp: Date.now()
+      });
     }
   }
 
   notifyIpChange(newIP: string): void {
     this.peers.forEach((peer) => {
-      if (peer.dataChannel && peer.dataChannel.readyState === 'open') {
-        try {
-          peer.dataChannel.send(JSON.stringify({
-            type: 'ip-change',
-            data: { newIP },
-            timestamp: Date.now()
-          }));
-        } catch (error) {
-          console.error('Failed to notify IP change to peer:', peer.id, error);
-        }
+      if (peer.dataChannel) {
+        sendScheduler.send(peer.id, peer.dataChannel, {
+          type: 'ip-change',
+          data: { newIP },
+          timestamp: Date.now()
+        });
       }
     });
   }
@@ -1,22 +1,27 @@
 
-import { WebRTCMessage } from './types';
-import { SignalingService } from './SignalingService';
-import { PeerManager } from './PeerManager';
+import { WebRTCMessage, PeerRegistry } from './types';
+import { SignalingService, SignalingMessage } from './SignalingService';
 import { MessageRouter } from './MessageRouter';
 import { SecureMessageSender } from './SecureMessageSender';
+import { ReliableDelivery, DeliveryOptions, DeliveryReceipt } from './ReliableDelivery';
+import { sendScheduler } from './SendScheduler';
+import type { MeshPacket } from './MeshRouter';
 
 export class DataChannelManager {
-  private peerManager: PeerManager;
+  private peerManager: PeerRegistry;
   private signalingService: SignalingService;
   private messageRouter: MessageRouter;
   private messageSender: SecureMessageSender;
+  private reliableDelivery: ReliableDelivery;
   private isServer: boolean = false;
 
-  constructor(peerManager: PeerManager, signalingService: SignalingService) {
+  constructor(peerManager: PeerRegistry, signalingService: SignalingService) {
     this.peerManager = peerManager;
     this.signalingService = signalingService;
     this.messageRouter = new MessageRouter(peerManager);
     this.messageSender = new SecureMessageSender(peerManager);
+    this.reliableDelivery = new ReliableDelivery((peerId, envelope) => this.messageSender.sendEnvelope(peerId, envelope));
+    this.messageRouter.setReliableDelivery(this.reliableDelivery);
   }
 
   setAsServer(isServer: boolean) {
@@ -41,8 +46,17 @@ export class DataChannelManager {
       
       // If server, request initial location from client
       if (this.isServer) {
+        this.messageSender.announceLocationProtocol(peerId);
         this.messageSender.requestLocationUpdate(peerId);
       }
+
+      // Retransmit what was still unacknowledged when the previous channel went away
+      this.reliableDelivery.resume(peerId);
+
+      // Lets the member's outbound location queue replay its backlog
+      window.dispatchEvent(new CustomEvent('webrtc-data-channel-open', {
+        detail: { peerId, isServer: this.isServer }
+      }));
     };
 
     dataChannel.onmessage = async (event) => {
@@ -51,8 +65,16 @@ export class DataChannelManager {
 
     dataChannel.onclose = () => {
       console.log('WebRTC: Data channel closed with', peerId);
+      // A replaced channel closing must not mark the peer's newer one as down
+      const peer = this.peerManager.getPeer(peerId);
+      if (peer && peer.dataChannel !== dataChannel) return;
       this.peerManager.updatePeerStatus(peerId, 'disconnected');
       this.signalingService.removeDataChannel(peerId);
+      sendScheduler.detach(peerId, dataChannel);
+
+      window.dispatchEvent(new CustomEvent('webrtc-data-channel-closed', {
+        detail: { peerId, isServer: this.isServer }
+      }));
     };
 
     dataChannel.onerror = (error) => {
@@ -66,14 +88,32 @@ export class DataChannelManager {
     this.messageSender.requestLocationUpdate(peerId);
   }
 
-  sendMeshData(peerId: string, meshData: any): void {
-    this.messageSender.sendMeshData(peerId, meshData);
+  // Messages from the links MeshLinkManager opens to other members
+  routeMeshLinkMessage(event: Pick<MessageEvent, 'data'>, peerId: string): Promise<void> {
+    return this.messageRouter.routeMeshLinkMessage(event, peerId);
+  }
+
+  sendMeshData(peerId: string, packet: MeshPacket): void {
+    this.messageSender.sendMeshData(peerId, packet);
   }
 
   public send(peerId: string, data: { type: string; data: any }): void {
     this.messageSender.sendMessage(peerId, data.data, data.type);
   }
 
+  // Resolves once the peer acks the message, rejects when the retries run out
+  sendReliable(peerId: string, data: { type: string; data: unknown }, options?: DeliveryOptions): Promise<DeliveryReceipt> {
+    return this.reliableDelivery.send(peerId, data.type, data.data, options);
+  }
+
+  cancelReliable(peerId?: string): void {
+    this.reliableDelivery.cancel(peerId);
+  }
+
+  getPendingReliableCount(peerId?: string): number {
+    return this.reliableDelivery.getPendingCount(peerId);
+  }
+
   async sendSecureMessage(peerId: string, message: any, messageType: string): Promise<void> {
     await this.messageSender.sendSecureMessage(peerId, message, messageType);
   }
@@ -86,8 +126,7 @@ export class DataChannelManager {
     this.messageRouter.onMessage(callback);
   }
 
-  onSignalingMessage(callback: (message: any, fromPeerId: string) => void) {
-    // This method exists for backward compatibility
-    // Signaling messages are now handled by the SignalingService directly
+  onSignalingMessage(callback: (message: SignalingMessage, fromPeerId: string) => void) {
+    this.messageRouter.onSignalingMessage(callback);
   }
 }
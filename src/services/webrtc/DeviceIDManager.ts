@@ -68,6 +68,11 @@ export class DeviceIDManager {
     return info?.deviceType === 'admin' || false;
   }
 
+  // Perfect negotiation role: the device with the higher ID is polite and yields when both sides offer at once
+  static isPoliteTowards(remoteDeviceId: string): boolean {
+    return this.getOrCreateDeviceId() > remoteDeviceId;
+  }
+
   static regenerateDeviceId(): string {
     const newId = this.generateDeviceId();
     
@@ -149,6 +149,10 @@ export class GracefulDegradationManager {
         console.error('Degradation callback error:', error);
       }
     });
+
+    window.dispatchEvent(new CustomEvent('webrtc-degradation-change', {
+      detail: this.getCurrentLevel()
+    }));
   }
 
   getFeatureMessage(feature: keyof DegradationLevel['features']): string {
@@ -172,3 +176,5 @@ export class GracefulDegradationManager {
     this.currentLevel = this.getFullFeatures();
   }
 }
+
+export const gracefulDegradationManager = new GracefulDegradationManager();
@@ -0,0 +1,88 @@
+// Restarts tried on a connection before it is torn down
+export const MAX_ICE_RESTARTS = 3;
+// How long a restart may take before it is rolled back and tried again
+export const ICE_RESTART_TIMEOUT_MS = 10000;
+
+// The parts of WebRTCConnection a restart touches
+export interface IceRestartable {
+  restartIce(): Promise<void>;
+  rollbackLocalOffer(): Promise<void>;
+  getConnectionState(): RTCPeerConnectionState | null;
+  getSignalingState(): RTCSignalingState | null;
+}
+
+export interface IceRestartOptions {
+  maxAttempts: number;
+  timeoutMs: number;
+}
+
+// ICE restarts on one connection, one at a time. An offer whose answer never comes (lost, or ignored by
+// an impolite peer in glare) is rolled back after the timeout so the next restart, or the peer's offer, can go through.
+export class IceRestartGuard {
+  private connection: IceRestartable;
+  private onExhausted: () => void;
+  private options: IceRestartOptions;
+  private attempts = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    connection: IceRestartable,
+    onExhausted: () => void,
+    options: IceRestartOptions = { maxAttempts: MAX_ICE_RESTARTS, timeoutMs: ICE_RESTART_TIMEOUT_MS }
+  ) {
+    this.connection = connection;
+    this.onExhausted = onExhausted;
+    this.options = options;
+  }
+
+  async restart(): Promise<void> {
+    // The running restart's timeout decides whether another is needed
+    if (this.timer) return;
+    if (this.attempts >= this.options.maxAttempts) {
+      this.reset();
+      this.onExhausted();
+      return;
+    }
+    this.attempts++;
+
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      if (this.isRecovered()) {
+        this.reset();
+        return;
+      }
+      try {
+        await this.connection.rollbackLocalOffer();
+      } catch (error) {
+        console.error('WebRTC: Failed to roll back ICE restart offer:', error);
+      }
+      // The old path may have come back while the offer went unanswered
+      if (this.isRecovered()) {
+        this.reset();
+        return;
+      }
+      this.restart();
+    }, this.options.timeoutMs);
+
+    try {
+      await this.connection.restartIce();
+    } catch (error) {
+      console.error('WebRTC: ICE restart failed:', error);
+    }
+  }
+
+  // On 'connected'; a restart still waiting for its answer is left to its timeout
+  settle(): void {
+    if (this.isRecovered()) this.reset();
+  }
+
+  reset(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.attempts = 0;
+  }
+
+  private isRecovered(): boolean {
+    return this.connection.getConnectionState() === 'connected' && this.connection.getSignalingState() === 'stable';
+  }
+}
@@ -1,6 +1,8 @@
 
 import { PeerManager } from './PeerManager';
 import { LocationData } from './types';
+import { sendScheduler } from './SendScheduler';
+import { privacyZoneService } from '@/services/location/PrivacyZones';
 
 export class LocationManager {
   private peerManager: PeerManager;
@@ -30,15 +32,11 @@ export class LocationManager {
 
   requestLocationUpdate(peerId: string) {
     const peer = this.peerManager.getPeer(peerId);
-    if (peer?.dataChannel && peer.dataChannel.readyState === 'open') {
-      try {
-        peer.dataChannel.send(JSON.stringify({
-          type: 'location_request',
-          timestamp: Date.now()
-        }));
-      } catch (error) {
-        console.error('Failed to request location update:', error);
-      }
+    if (peer?.dataChannel) {
+      sendScheduler.send(peerId, peer.dataChannel, {
+        type: 'location_request',
+        timestamp: Date.now()
+      });
     }
   }
 
@@ -47,16 +45,12 @@ export class LocationManager {
     if (!targetPeerId) return;
 
     const peer = this.peerManager.getPeer(targetPeerId);
-    if (peer?.dataChannel && peer.dataChannel.readyState === 'open') {
-      try {
-        peer.dataChannel.send(JSON.stringify({
-          type: 'location_update',
-          data: locationData,
-          timestamp: Date.now()
-        }));
-      } catch (error) {
-        console.error('Failed to send location update:', error);
-      }
+    if (peer?.dataChannel) {
+      sendScheduler.send(targetPeerId, peer.dataChannel, {
+        type: 'location_update',
+        data: locationData,
+        timestamp: Date.now()
+      });
     }
   }
 
@@ -84,12 +78,13 @@ export class LocationManager {
         });
       });
 
-      return {
+      // Suppressed (null) or blurred inside a private zone
+      return privacyZoneService.apply({
         latitude: position.coords.latitude,
         longitude: position.coords.longitude,
         accuracy: position.coords.accuracy,
         timestamp: Date.now()
-      };
+      }).location;
     } catch (error) {
       console.error('Failed to get current location:', error);
       return null;
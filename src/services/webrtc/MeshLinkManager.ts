@@ -0,0 +1,210 @@
+import { WebRTCConnection } from './WebRTCConnection';
+import { sendSignalingViaWebSocket } from './SignalingService';
+import { sendScheduler } from './SendScheduler';
+import type { SignalingMessage } from './protocol';
+
+// Links each member offers to the next members on the ring; every member ends up with about twice as many
+export const MESH_LINKS_PER_MEMBER = 2;
+// Offers from other members are taken up to this many links, so one device can't be swamped
+const MAX_MESH_LINKS = 4;
+// A link that isn't open by then is dropped and offered again on the next topology change
+const MESH_LINK_TIMEOUT_MS = 20000;
+
+export interface MeshLinkPlan {
+  // Members this one offers a link to
+  offerTo: string[];
+  // Members expected to offer one to us
+  acceptFrom: string[];
+}
+
+// Members sorted into a ring, each linked to the next `linksPerMember`. The lower id of a pair offers,
+// so both sides agree on who does without talking first.
+export function meshLinkPlan(memberIds: string[], localId: string, linksPerMember = MESH_LINKS_PER_MEMBER): MeshLinkPlan {
+  const ring = Array.from(new Set([...memberIds, localId])).sort();
+  const count = Math.min(linksPerMember, ring.length - 1);
+  const index = ring.indexOf(localId);
+  const linked = new Set<string>();
+  for (let step = 1; step <= count; step++) {
+    linked.add(ring[(index + step) % ring.length]);
+    linked.add(ring[(index - step + ring.length) % ring.length]);
+  }
+  const peers = Array.from(linked);
+  return {
+    offerTo: peers.filter(peerId => localId < peerId),
+    acceptFrom: peers.filter(peerId => peerId < localId)
+  };
+}
+
+// The parts of WebRTCConnection a mesh link uses
+export type MeshLinkConnection = Pick<WebRTCConnection,
+  'createConnection' | 'createDataChannel' | 'createOffer' | 'createAnswer' | 'setRemoteDescription' |
+  'addIceCandidate' | 'onIceCandidate' | 'onStateChange' | 'close'>;
+
+interface MeshLinkEntry {
+  connection: MeshLinkConnection;
+  channel: RTCDataChannel | null;
+  offered: boolean;
+  // Set once the channel opened; it reads 'closed' by the time onclose runs
+  opened: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// Data channels between members, so the mesh router can relay around a member that lost the admin.
+// They are negotiated over the signaling socket and kept out of the ConnectionManager: only mesh traffic
+// uses them, and broadcasts meant for the admin never reach another member.
+export class MeshLinkManager {
+  private signal: (message: SignalingMessage) => boolean;
+  private createConnection: () => MeshLinkConnection;
+  private links = new Map<string, MeshLinkEntry>();
+  private members = new Set<string>();
+  private localId: string | null = null;
+  private listeners = new Set<(event: Pick<MessageEvent, 'data'>, peerId: string) => void>();
+
+  constructor(
+    signal: (message: SignalingMessage) => boolean = sendSignalingViaWebSocket,
+    createConnection: () => MeshLinkConnection = () => new WebRTCConnection()
+  ) {
+    this.signal = signal;
+    this.createConnection = createConnection;
+  }
+
+  // Called with every member the mesh knows of; offers the planned links that are missing and
+  // closes ones we offered that the plan no longer has
+  update(localId: string, memberIds: string[]): void {
+    if (this.localId !== localId) this.close();
+    this.localId = localId;
+    this.members = new Set(memberIds.filter(id => id !== localId));
+
+    const { offerTo } = meshLinkPlan(Array.from(this.members), localId);
+    this.links.forEach((link, peerId) => {
+      if (link.offered && !offerTo.includes(peerId)) this.drop(peerId);
+    });
+    offerTo
+      .filter(peerId => !this.links.has(peerId) && this.links.size < MAX_MESH_LINKS)
+      .forEach(peerId => this.offer(peerId));
+  }
+
+  // mesh-offer, mesh-answer and mesh-ice-candidate from the signaling socket
+  async handleSignal(message: SignalingMessage): Promise<void> {
+    const peerId = message.fromPeerId;
+    try {
+      if (message.type === 'mesh-offer') {
+        await this.accept(peerId, message.data.sdp);
+      } else if (message.type === 'mesh-answer') {
+        await this.links.get(peerId)?.connection.setRemoteDescription(message.data.sdp);
+      } else if (message.type === 'mesh-ice-candidate') {
+        await this.links.get(peerId)?.connection.addIceCandidate(message.data.candidate);
+      }
+    } catch (error) {
+      console.error(`MeshLinkManager: Failed to handle ${message.type} from`, peerId, error);
+      this.drop(peerId);
+    }
+  }
+
+  // Members with an open link
+  getOpenLinks(): string[] {
+    return Array.from(this.links.entries())
+      .filter(([, link]) => link.channel?.readyState === 'open')
+      .map(([peerId]) => peerId);
+  }
+
+  getChannel(peerId: string): RTCDataChannel | null {
+    const channel = this.links.get(peerId)?.channel;
+    return channel?.readyState === 'open' ? channel : null;
+  }
+
+  onMessage(callback: (event: Pick<MessageEvent, 'data'>, peerId: string) => void): () => void {
+    this.listeners.add(callback);
+    return () => this.listeners.delete(callback);
+  }
+
+  close(): void {
+    Array.from(this.links.keys()).forEach(peerId => this.drop(peerId));
+  }
+
+  private async offer(peerId: string): Promise<void> {
+    const link = this.open(peerId, true);
+    this.watch(peerId, link, link.connection.createDataChannel('mesh', { ordered: true }));
+    try {
+      const offer = await link.connection.createOffer();
+      if (this.links.get(peerId) !== link) return;
+      this.send('mesh-offer', peerId, { sdp: offer });
+    } catch (error) {
+      console.error('MeshLinkManager: Failed to offer a link to', peerId, error);
+      this.drop(peerId);
+    }
+  }
+
+  private async accept(peerId: string, sdp: RTCSessionDescriptionInit): Promise<void> {
+    if (!this.localId || !this.members.has(peerId)) {
+      console.warn('MeshLinkManager: Ignoring link offer from unknown peer', peerId);
+      return;
+    }
+    // The peer started over, e.g. after an app restart
+    if (this.links.has(peerId)) this.drop(peerId);
+    if (this.links.size >= MAX_MESH_LINKS) {
+      console.warn('MeshLinkManager: Link limit reached, ignoring offer from', peerId);
+      return;
+    }
+
+    const link = this.open(peerId, false);
+    link.connection.createConnection().ondatachannel = event => this.watch(peerId, link, event.channel);
+    await link.connection.setRemoteDescription(sdp);
+    const answer = await link.connection.createAnswer();
+    if (this.links.get(peerId) !== link) return;
+    this.send('mesh-answer', peerId, { sdp: answer });
+  }
+
+  private open(peerId: string, offered: boolean): MeshLinkEntry {
+    const link: MeshLinkEntry = { connection: this.createConnection(), channel: null, offered, opened: false, timer: null };
+    this.links.set(peerId, link);
+
+    link.connection.onIceCandidate(candidate => this.send('mesh-ice-candidate', peerId, { candidate }));
+    link.connection.onStateChange(state => {
+      if ((state === 'failed' || state === 'closed') && this.links.get(peerId) === link) this.drop(peerId);
+    });
+    link.timer = setTimeout(() => {
+      link.timer = null;
+      if (this.links.get(peerId) === link && link.channel?.readyState !== 'open') {
+        console.warn('MeshLinkManager: Link to', peerId, 'did not open in time');
+        this.drop(peerId);
+      }
+    }, MESH_LINK_TIMEOUT_MS);
+    return link;
+  }
+
+  private watch(peerId: string, link: MeshLinkEntry, channel: RTCDataChannel): void {
+    link.channel = channel;
+    channel.onopen = () => {
+      if (this.links.get(peerId) !== link) return;
+      link.opened = true;
+      console.log('MeshLinkManager: Link open with', peerId);
+      window.dispatchEvent(new CustomEvent('mesh-link-open', { detail: { peerId } }));
+    };
+    channel.onmessage = event => {
+      if (this.links.get(peerId) === link) this.listeners.forEach(listener => listener(event, peerId));
+    };
+    channel.onclose = () => {
+      if (this.links.get(peerId) === link) this.drop(peerId);
+    };
+  }
+
+  private drop(peerId: string): void {
+    const link = this.links.get(peerId);
+    if (!link) return;
+    this.links.delete(peerId);
+    if (link.timer) clearTimeout(link.timer);
+    if (link.channel) sendScheduler.detach(peerId, link.channel);
+    link.connection.close();
+    if (link.opened) {
+      window.dispatchEvent(new CustomEvent('mesh-link-closed', { detail: { peerId } }));
+    }
+  }
+
+  private send(type: 'mesh-offer' | 'mesh-answer' | 'mesh-ice-candidate', peerId: string, data: unknown): void {
+    const sent = this.signal({ type, data, fromPeerId: this.localId!, toPeerId: peerId } as SignalingMessage);
+    if (!sent) console.warn('MeshLinkManager: Signaling socket closed, could not send', type, 'to', peerId);
+  }
+}
+
+export const meshLinkManager = new MeshLinkManager();
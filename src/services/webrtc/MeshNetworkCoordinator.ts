@@ -267,3 +267,5 @@ export class MeshNetworkCoordinator {
     DeviceIDManager.markAsTemporaryServer(false);
   }
 }
+
+export const meshNetworkCoordinator = new MeshNetworkCoordinator();
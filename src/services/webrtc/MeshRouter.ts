@@ -0,0 +1,333 @@
+import { meshNetworkCoordinator } from './MeshNetworkCoordinator';
+
+// Destination of packets every node handles and passes on, e.g. topology adverts
+export const MESH_BROADCAST = '*';
+// Enough for a chain of members strung out along a trail or through a building
+export const DEFAULT_MESH_TTL = 8;
+// Longer than a packet can take to cross the mesh, so a late copy is still recognised
+const SEEN_WINDOW_MS = 2 * 60 * 1000;
+const MAX_SEEN_ENTRIES = 5000;
+const ADVERTISE_INTERVAL_MS = 30 * 1000;
+
+// What members may send through each other. Control and signaling (offers, settings) only ever travel
+// over a direct channel, where the peer id is the one the connection was made with.
+export const MESH_RELAYABLE_TYPES = ['location_batch', 'location_batch_compact', 'location_status', 'sos', 'mesh_topology'];
+// Answers to relayed messages, which only an admin may originate
+export const MESH_ADMIN_TYPES = ['location_batch_ack', 'sos_ack'];
+
+// The inner message, handled at the destination as if its origin had sent it directly
+export interface MeshPayload {
+  type: string;
+  data?: unknown;
+  timestamp?: number;
+  id?: string;
+}
+
+export interface MeshPacket {
+  id: string;
+  origin: string;
+  // A peer id, or MESH_BROADCAST
+  destination: string;
+  // Hops left; a packet that arrives with none is not passed on
+  ttl: number;
+  // Hops taken so far
+  hops: number;
+  // Every node that sent it, origin first
+  path: string[];
+  payload: MeshPayload;
+}
+
+// Flooded by every node so the others can work out routes; peers are its open data channels
+export interface MeshTopologyAdvert {
+  peers: string[];
+  isAdmin: boolean;
+}
+
+export type MeshDropReason = 'duplicate' | 'expired' | 'loop' | 'no_route' | 'rejected';
+
+export interface MeshRelayStats {
+  originated: number;
+  delivered: number;
+  forwarded: number;
+  dropped: Record<MeshDropReason, number>;
+}
+
+// What the router needs from the data channel layer
+export interface MeshLink {
+  // Peers with an open data channel
+  neighbors(): string[];
+  // False when the channel isn't open or its send queue is full
+  send(peerId: string, envelope: { type: 'mesh_data'; data: MeshPacket; timestamp: number }): boolean;
+}
+
+// Where the advertised links are kept; MeshNetworkCoordinator in the app
+export interface MeshTopologySource {
+  getNetworkStatus(): { meshTopology: Map<string, string[]> };
+  updateMeshTopology(deviceId: string, connectedPeers: string[]): void;
+}
+
+interface MeshDecision {
+  deliver: boolean;
+  forwardTo: string[];
+  dropReason?: MeshDropReason;
+}
+
+// First hop on a shortest path to the destination, through live neighbors and then the advertised links.
+// Links count both ways, so one side's stale advert doesn't hide a route. Null when nothing reaches it.
+export function nextHop(
+  topology: Map<string, string[]>,
+  localId: string,
+  neighbors: string[],
+  destination: string,
+  avoid: Set<string> = new Set()
+): string | null {
+  if (neighbors.includes(destination) && !avoid.has(destination)) return destination;
+
+  const adjacency = new Map<string, Set<string>>();
+  const connect = (a: string, b: string) => {
+    if (!adjacency.has(a)) adjacency.set(a, new Set());
+    adjacency.get(a)!.add(b);
+  };
+  topology.forEach((peers, node) => peers.forEach(peer => {
+    connect(node, peer);
+    connect(peer, node);
+  }));
+
+  // Breadth first, each node remembering which neighbor the search reached it through
+  const firstHop = new Map<string, string>();
+  const queue: string[] = [];
+  neighbors.forEach(neighbor => {
+    if (neighbor === localId || avoid.has(neighbor) || firstHop.has(neighbor)) return;
+    firstHop.set(neighbor, neighbor);
+    queue.push(neighbor);
+  });
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    if (node === destination) return firstHop.get(node)!;
+    adjacency.get(node)?.forEach(next => {
+      if (next === localId || avoid.has(next) || firstHop.has(next)) return;
+      firstHop.set(next, firstHop.get(node)!);
+      queue.push(next);
+    });
+  }
+  return null;
+}
+
+// Multi-hop routing over the data channels this device has open: the member channels to and from the admin,
+// and the links MeshLinkManager opens between members. App traffic goes direct while it can; a member that lost
+// the admin sends through the others, and the admin answers the same way.
+// Loops are stopped three ways: the TTL, the path carried in each packet, and a cache of packet ids already seen.
+export class MeshRouter {
+  private topology: MeshTopologySource;
+  private link: MeshLink | null = null;
+  private localId: string | null = null;
+  private isAdmin = false;
+  private admins = new Set<string>();
+  // Packet id -> first time it was seen
+  private seen = new Map<string, number>();
+  private stats: MeshRelayStats = this.emptyStats();
+  private advertiseTimer: ReturnType<typeof setInterval> | null = null;
+  private topologyListeners = new Set<() => void>();
+
+  constructor(topology: MeshTopologySource) {
+    this.topology = topology;
+
+    // Neighbors changed, so routes through this node did too
+    window.addEventListener('webrtc-data-channel-open', () => this.advertise());
+    window.addEventListener('webrtc-data-channel-closed', () => this.advertise());
+    window.addEventListener('mesh-link-open', () => this.advertise());
+    window.addEventListener('mesh-link-closed', () => this.advertise());
+  }
+
+  setLocalNode(localId: string | null, isAdmin: boolean): void {
+    this.localId = localId;
+    this.isAdmin = isAdmin;
+  }
+
+  // Adverts repeat on an interval so nodes that joined later learn the whole mesh
+  setLink(link: MeshLink): void {
+    this.link = link;
+    if (!this.advertiseTimer) {
+      this.advertiseTimer = setInterval(() => this.advertise(), ADVERTISE_INTERVAL_MS);
+    }
+  }
+
+  // False when no route to the destination is known, or the payload is not one members may relay
+  send(destination: string, payload: MeshPayload): boolean {
+    if (!this.link || !this.localId || destination === this.localId) return false;
+    if (!this.isRelayable(payload.type, this.localId)) return false;
+
+    const packet = this.createPacket(destination, payload);
+    let hops = this.link.neighbors();
+    if (destination !== MESH_BROADCAST) {
+      const hop = nextHop(this.getTopology(), this.localId, hops, destination, new Set(packet.path));
+      hops = hop ? [hop] : [];
+    }
+    if (hops.length === 0) {
+      this.stats.dropped.no_route++;
+      return false;
+    }
+    return this.transmit(packet, hops) > 0;
+  }
+
+  // Members out of the admin's direct reach send through the first admin the mesh has a route to
+  sendToAdmin(payload: MeshPayload): boolean {
+    return Array.from(this.admins).some(adminId => this.send(adminId, payload));
+  }
+
+  // True once an admin is known but none of this node's channels lead straight to one
+  needsRelay(): boolean {
+    if (!this.link || this.admins.size === 0) return false;
+    return !this.link.neighbors().some(neighbor => this.admins.has(neighbor));
+  }
+
+  // Handles a mesh_data packet from a neighbor: passes it on as needed and returns it when it is for this node too
+  receive(packet: MeshPacket, fromPeerId: string, now = Date.now()): MeshPacket | null {
+    const decision = this.route(packet, fromPeerId, now);
+    if (decision.dropReason) {
+      this.stats.dropped[decision.dropReason]++;
+      if (decision.dropReason === 'no_route') {
+        console.warn('MeshRouter: no route to', packet.destination, 'for packet from', packet.origin);
+      } else if (decision.dropReason === 'rejected') {
+        console.warn('MeshRouter: rejected', packet.payload.type, 'packet claiming origin', packet.origin, 'from', fromPeerId);
+      }
+    }
+    if (decision.forwardTo.length > 0) {
+      this.stats.forwarded += this.transmit({ ...packet, path: [...packet.path, this.localId!] }, decision.forwardTo);
+    }
+    if (!decision.deliver) return null;
+    this.stats.delivered++;
+    return packet;
+  }
+
+  handleAdvert(nodeId: string, advert: MeshTopologyAdvert): void {
+    this.topology.updateMeshTopology(nodeId, advert.peers);
+    if (advert.isAdmin) {
+      this.admins.add(nodeId);
+    } else {
+      this.admins.delete(nodeId);
+    }
+    this.topologyListeners.forEach(listener => listener());
+  }
+
+  // Every node the adverts name, apart from admins and this one
+  getMembers(): string[] {
+    const nodes = new Set<string>();
+    this.getTopology().forEach((peers, node) => [node, ...peers].forEach(id => nodes.add(id)));
+    return Array.from(nodes).filter(id => id !== this.localId && !this.admins.has(id));
+  }
+
+  onTopologyChange(callback: () => void): () => void {
+    this.topologyListeners.add(callback);
+    return () => this.topologyListeners.delete(callback);
+  }
+
+  advertise(): void {
+    if (!this.link || !this.localId) return;
+    const advert: MeshTopologyAdvert = { peers: this.link.neighbors(), isAdmin: this.isAdmin };
+    this.topology.updateMeshTopology(this.localId, advert.peers);
+    if (advert.peers.length > 0) {
+      this.send(MESH_BROADCAST, { type: 'mesh_topology', data: advert, timestamp: Date.now() });
+    }
+  }
+
+  getStats(): MeshRelayStats {
+    return { ...this.stats, dropped: { ...this.stats.dropped } };
+  }
+
+  cleanup(): void {
+    if (this.advertiseTimer) {
+      clearInterval(this.advertiseTimer);
+      this.advertiseTimer = null;
+    }
+    this.seen.clear();
+    this.admins.clear();
+    this.stats = this.emptyStats();
+  }
+
+  private route(packet: MeshPacket, fromPeerId: string, now: number): MeshDecision {
+    const localId = this.localId;
+    if (!this.link || !localId) return { deliver: false, forwardTo: [], dropReason: 'no_route' };
+    if (!this.isWellFormed(packet, fromPeerId)) return { deliver: false, forwardTo: [], dropReason: 'rejected' };
+
+    this.pruneSeen(now);
+    if (this.seen.has(packet.id)) return { deliver: false, forwardTo: [], dropReason: 'duplicate' };
+    this.seen.set(packet.id, now);
+
+    if (packet.origin === localId || packet.path.includes(localId)) {
+      return { deliver: false, forwardTo: [], dropReason: 'loop' };
+    }
+    if (packet.destination === localId) return { deliver: true, forwardTo: [] };
+
+    const broadcast = packet.destination === MESH_BROADCAST;
+    if (packet.ttl <= 0) {
+      return broadcast ? { deliver: true, forwardTo: [] } : { deliver: false, forwardTo: [], dropReason: 'expired' };
+    }
+
+    const avoid = new Set([...packet.path, fromPeerId]);
+    const neighbors = this.link.neighbors();
+    if (broadcast) {
+      return { deliver: true, forwardTo: neighbors.filter(neighbor => !avoid.has(neighbor)) };
+    }
+    const hop = nextHop(this.getTopology(), localId, neighbors, packet.destination, avoid);
+    return hop
+      ? { deliver: false, forwardTo: [hop] }
+      : { deliver: false, forwardTo: [], dropReason: 'no_route' };
+  }
+
+  // The path has to start at the claimed origin and end at the neighbor that handed it over,
+  // and only relayable payloads are passed on or delivered
+  private isWellFormed(packet: MeshPacket, fromPeerId: string): boolean {
+    return packet.path[0] === packet.origin &&
+      packet.path[packet.path.length - 1] === fromPeerId &&
+      this.isRelayable(packet.payload.type, packet.origin);
+  }
+
+  private isRelayable(type: string, origin: string): boolean {
+    if (MESH_RELAYABLE_TYPES.includes(type)) return true;
+    const fromAdmin = origin === this.localId ? this.isAdmin : this.admins.has(origin);
+    return fromAdmin && MESH_ADMIN_TYPES.includes(type);
+  }
+
+  private createPacket(destination: string, payload: MeshPayload): MeshPacket {
+    const now = Date.now();
+    const packet: MeshPacket = {
+      id: `mesh_${now}_${Math.random().toString(36).substring(2, 8)}`,
+      origin: this.localId!,
+      destination,
+      ttl: DEFAULT_MESH_TTL,
+      hops: 0,
+      path: [this.localId!],
+      payload
+    };
+    // Our own packet coming back around is dropped as a duplicate
+    this.seen.set(packet.id, now);
+    this.stats.originated++;
+    return packet;
+  }
+
+  // Returns how many neighbors took it
+  private transmit(packet: MeshPacket, peerIds: string[]): number {
+    const relayed: MeshPacket = { ...packet, ttl: packet.ttl - 1, hops: packet.hops + 1 };
+    return peerIds.filter(peerId => this.link!.send(peerId, { type: 'mesh_data', data: relayed, timestamp: Date.now() })).length;
+  }
+
+  private getTopology(): Map<string, string[]> {
+    return this.topology.getNetworkStatus().meshTopology;
+  }
+
+  private pruneSeen(now: number): void {
+    // A Map keeps insertion order, so the oldest entries come first
+    for (const [id, seenAt] of this.seen) {
+      if (now - seenAt <= SEEN_WINDOW_MS && this.seen.size <= MAX_SEEN_ENTRIES) break;
+      this.seen.delete(id);
+    }
+  }
+
+  private emptyStats(): MeshRelayStats {
+    return { originated: 0, delivered: 0, forwarded: 0, dropped: { duplicate: 0, expired: 0, loop: 0, no_route: 0, rejected: 0 } };
+  }
+}
+
+export const meshRouter = new MeshRouter(meshNetworkCoordinator);
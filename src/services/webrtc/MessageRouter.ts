@@ -1,16 +1,40 @@
 
-import { WebRTCMessage } from './types';
-import { SignalingMessage } from './SignalingService';
+import { WebRTCMessage, PeerRegistry } from './types';
+import { parseDataChannelMessage, DataChannelMessage, DataChannelMessageOf, SignalingMessage, ChatMessagePayload } from './protocol';
 import { SecurityMessageHandler } from './SecurityMessageHandler';
-import { PeerManager } from './PeerManager';
+import type { ReliableDelivery } from './ReliableDelivery';
+import { ChunkAssembler, sendScheduler } from './SendScheduler';
+import { meshRouter, MeshPacket } from './MeshRouter';
+import type { LocationBatch, LocationBatchAck } from '@/services/location/OutboundLocationQueue';
+import type { SosAlert, SosAck, SosChannel } from '@/services/sos/SosService';
+import { sharingSchedule, LocationSharingStatus } from '@/services/location/SharingSchedule';
+import { privacyZoneService } from '@/services/location/PrivacyZones';
+import {
+  LocationPingRequest,
+  LocationPingResponse,
+  PingFailureReason,
+  positionOptionsFor,
+  positionErrorReason
+} from '@/services/location/LocationPing';
+import {
+  CompactLocationBatch,
+  LocationDeltaDecoder,
+  locationWireProtocol
+} from '@/services/location/LocationWireFormat';
 
 export class MessageRouter {
-  private peerManager: PeerManager;
+  private peerManager: PeerRegistry;
   private isServer: boolean = false;
+  // Highest location sequence number applied per member queue
+  private lastBatchSeq = new Map<string, number>();
+  private locationDecoder = new LocationDeltaDecoder();
+  private reliableDelivery?: ReliableDelivery;
+  private chunkAssembler = new ChunkAssembler();
   private onLocationReceived?: (userId: string, location: any) => void;
   private onMessageReceived?: (message: WebRTCMessage, fromPeerId: string) => void;
+  private onSignalingReceived?: (message: SignalingMessage, fromPeerId: string) => void;
 
-  constructor(peerManager: PeerManager) {
+  constructor(peerManager: PeerRegistry) {
     this.peerManager = peerManager;
   }
 
@@ -18,10 +42,35 @@ export class MessageRouter {
     this.isServer = isServer;
   }
 
-  async routeMessage(event: MessageEvent, peerId: string): Promise<void> {
+  setReliableDelivery(reliableDelivery: ReliableDelivery) {
+    this.reliableDelivery = reliableDelivery;
+  }
+
+  // relayed: the message reached us through the mesh rather than from peerId directly
+  async routeMessage(event: Pick<MessageEvent, 'data'>, peerId: string, relayed = false): Promise<void> {
     try {
-      const message = JSON.parse(event.data);
-      
+      // Malformed and unknown messages are counted and dropped before any handler sees them
+      const parsed = parseDataChannelMessage(event.data, peerId);
+      if (parsed.ok === false) return;
+      const message = parsed.message;
+
+      // Large messages arrive in slices; the joined message goes through validation like any other
+      if (message.type === 'chunk') {
+        const whole = this.chunkAssembler.accept(peerId, message.data);
+        if (whole) await this.routeMessage({ data: whole }, peerId, relayed);
+        return;
+      }
+
+      if (message.type === 'delivery_ack') {
+        this.reliableDelivery?.handleAck(message.data.id, peerId);
+        return;
+      }
+
+      // Reliable messages are acked on every copy but handled only once
+      if (message.id && this.reliableDelivery && !this.reliableDelivery.receive(peerId, message.id)) {
+        return;
+      }
+
       // Handle security messages first
       if (SecurityMessageHandler.isSecurityMessage(message)) {
         await SecurityMessageHandler.handleSecurityMessage(message, peerId);
@@ -37,13 +86,52 @@ export class MessageRouter {
           this.handleLocationUpdate(message, peerId);
           break;
         case 'location_request':
-          this.handleLocationRequest(peerId);
+          this.handleLocationRequest(message.data as LocationPingRequest | undefined, peerId);
+          break;
+        case 'location_response':
+          this.handleLocationResponse(message.data, peerId);
           break;
         case 'signaling':
-          this.handleSignalingMessage(message, peerId);
+          this.handleSignalingMessage(message.data, peerId);
           break;
         case 'mesh_data':
-          this.handleMeshData(message, peerId);
+          await this.handleMeshData(message.data, peerId);
+          break;
+        case 'mesh_topology':
+          meshRouter.handleAdvert(peerId, message.data);
+          break;
+        case 'location_batch':
+          this.handleLocationBatch(message.data, peerId);
+          break;
+        case 'location_batch_compact':
+          this.handleCompactLocationBatch(message.data, peerId);
+          break;
+        case 'location_protocol':
+          this.handleLocationProtocol(message.data, peerId);
+          break;
+        case 'location_batch_ack':
+          this.handleLocationBatchAck(message.data);
+          break;
+        case 'sampling_profile':
+          this.handleSamplingProfile(message);
+          break;
+        case 'sharing_schedule':
+          this.handleSharingSchedule(message);
+          break;
+        case 'location_status':
+          this.handleLocationStatus(message.data, peerId);
+          break;
+        case 'sos':
+          this.handleSos(message.data, peerId, relayed ? 'mesh' : 'data_channel');
+          break;
+        case 'sos_ack':
+          this.handleSosAck(message.data);
+          break;
+        case 'chat_message':
+          this.handleChatMessage(message.data, peerId);
+          break;
+        case 'chat_receipt':
+          window.dispatchEvent(new CustomEvent('webrtc-chat-receipt', { detail: { receipt: message.data, peerId } }));
           break;
         default:
           this.handleGenericMessage(message, peerId);
@@ -53,25 +141,141 @@ export class MessageRouter {
     }
   }
 
-  private handleLocationUpdate(message: any, peerId: string) {
-    if (this.onLocationReceived && message.data) {
-      this.onLocationReceived(peerId, message.data);
+  // Links to other members carry mesh traffic only; anything else on them is dropped
+  async routeMeshLinkMessage(event: Pick<MessageEvent, 'data'>, peerId: string): Promise<void> {
+    try {
+      const parsed = parseDataChannelMessage(event.data, peerId);
+      if (parsed.ok === false) return;
+      const message = parsed.message;
+
+      if (message.type === 'chunk') {
+        const whole = this.chunkAssembler.accept(peerId, message.data);
+        if (whole) await this.routeMeshLinkMessage({ data: whole }, peerId);
+      } else if (message.type === 'mesh_data') {
+        await this.handleMeshData(message.data, peerId);
+      } else if (message.type === 'mesh_topology') {
+        // Only members are on the other end of these links
+        meshRouter.handleAdvert(peerId, { ...message.data, isAdmin: false });
+      } else {
+        console.warn('Dropping', message.type, 'on the mesh link with', peerId);
+      }
+    } catch (error) {
+      console.error('Failed to route mesh link message:', error);
+    }
+  }
+
+  private handleLocationUpdate(message: DataChannelMessageOf<'location_update'>, peerId: string) {
+    if (!message.data) return;
+    this.applyLocation(message.data, peerId);
+  }
+
+  private applyLocation(location: { latitude: number; longitude: number; accuracy?: number; timestamp?: number }, peerId: string) {
+    // Passed on unfiltered so rejected fixes still reach the raw history
+    this.onLocationReceived?.(peerId, location);
+  }
+
+  // Replayed backlog from a member: apply fixes in sequence order, skip ones already seen, then ack
+  private handleLocationBatch(batch: LocationBatch | undefined, peerId: string) {
+    if (!this.isServer || !batch?.queueId || !Array.isArray(batch.points)) return;
+
+    const lastSeq = this.lastBatchSeq.get(batch.queueId) ?? 0;
+    let upToSeq = lastSeq;
+    [...batch.points]
+      .sort((a, b) => a.seq - b.seq)
+      .forEach(point => {
+        if (point.seq <= lastSeq) return;
+        this.applyLocation(point, peerId);
+        upToSeq = Math.max(upToSeq, point.seq);
+      });
+    this.lastBatchSeq.set(batch.queueId, upToSeq);
+
+    this.sendBatchAck({
+      queueId: batch.queueId,
+      upToSeq: Math.max(upToSeq, ...batch.points.map(point => point.seq))
+    }, peerId);
+  }
+
+  private handleCompactLocationBatch(compact: CompactLocationBatch | undefined, peerId: string) {
+    if (!this.isServer || !compact?.q || !Array.isArray(compact.p)) return;
+
+    const batch = this.locationDecoder.decode(compact);
+    if (!batch) {
+      console.warn('Unknown location reference', compact.r, 'from', peerId, '- asking for a resend');
+      this.sendBatchAck({ queueId: compact.q, upToSeq: this.lastBatchSeq.get(compact.q) ?? 0, resync: true }, peerId);
+      return;
+    }
+    this.handleLocationBatch(batch, peerId);
+  }
+
+  private sendBatchAck(ack: LocationBatchAck, peerId: string) {
+    const message = { type: 'location_batch_ack', data: ack, timestamp: Date.now() };
+    const peer = this.peerManager.getPeer(peerId);
+    // A member without a channel to us sent the batch through the mesh, so the ack goes back the same way;
+    // an unacked batch is replayed later either way
+    if (peer?.dataChannel?.readyState === 'open') {
+      sendScheduler.send(peerId, peer.dataChannel, message);
+    } else {
+      meshRouter.send(peerId, message);
     }
   }
 
-  private async handleLocationRequest(peerId: string) {
+  // The admin announces its location format version on each new channel; the member answers with the one it will use
+  private handleLocationProtocol(data: { version?: number } | undefined, peerId: string) {
+    if (this.isServer) {
+      console.log('Location protocol with', peerId, 'is version', data?.version);
+      return;
+    }
+
+    const version = locationWireProtocol.negotiate(data?.version);
+    const peer = this.peerManager.getPeer(peerId);
+    if (peer?.dataChannel) {
+      sendScheduler.send(peerId, peer.dataChannel, { type: 'location_protocol', data: { version }, timestamp: Date.now() });
+    }
+  }
+
+  private handleLocationBatchAck(ack: LocationBatchAck | undefined) {
+    if (this.isServer || !ack) return;
+    window.dispatchEvent(new CustomEvent('webrtc-location-batch-ack', { detail: ack }));
+  }
+
+  // Requests with a requestId get exactly one location_response back, with a fix or the reason there is none
+  private async handleLocationRequest(request: LocationPingRequest | undefined, peerId: string) {
     if (!this.isServer) {
       try {
-        const location = await this.getCurrentLocation();
-        if (location) {
-          const peer = this.peerManager.getPeer(peerId);
-          if (peer?.dataChannel && peer.dataChannel.readyState === 'open') {
-            peer.dataChannel.send(JSON.stringify({
-              type: 'location_update',
-              data: location,
-              timestamp: Date.now()
-            }));
+        const peer = this.peerManager.getPeer(peerId);
+        const send = (type: string, data: unknown) => {
+          if (peer?.dataChannel) {
+            sendScheduler.send(peerId, peer.dataChannel, { type, data, timestamp: Date.now() });
           }
+        };
+        const respond = (location: LocationPingResponse['location'], reason?: PingFailureReason) => {
+          if (!request?.requestId) return;
+          const response: LocationPingResponse = { requestId: request.requestId, location, reason };
+          send('location_response', response);
+        };
+
+        // Outside the member's sharing window the admin only learns that, never the coordinates
+        if (!sharingSchedule.isSharingNow()) {
+          const status: LocationSharingStatus = {
+            status: 'not_sharing',
+            reason: 'outside_schedule',
+            resumesAt: sharingSchedule.getStatus().nextChange
+          };
+          send('location_status', status);
+          respond(null, 'not_sharing');
+          return;
+        }
+
+        const { location, reason } = await this.getCurrentLocation(request);
+        if (request?.requestId) {
+          respond(location, reason);
+        } else if (location) {
+          send('location_update', location);
+        }
+        // Suppressed or blurred by a private zone; the admin is told only that
+        if (privacyZoneService.isInPrivateZone()) {
+          const status: LocationSharingStatus = { status: 'in_private_zone' };
+          send('location_status', status);
         }
       } catch (error) {
         console.error('Failed to handle location request:', error);
@@ -79,45 +283,96 @@ export class MessageRouter {
     }
   }
 
-  private handleSignalingMessage(message: any, peerId: string) {
-    console.log('Signaling message received:', message, 'from:', peerId);
+  // Answer to an admin ping: the fix goes through the normal pipeline, the ping table hears about the rest
+  private handleLocationResponse(response: LocationPingResponse | undefined, peerId: string) {
+    if (!this.isServer || !response?.requestId) return;
+    if (response.location) {
+      this.applyLocation(response.location, peerId);
+    }
+    window.dispatchEvent(new CustomEvent('webrtc-location-response', { detail: { response, peerId, receivedAt: Date.now() } }));
+  }
+
+  // Admin-selected sampling profile, applied by LocationService on member devices
+  private handleSamplingProfile(message: { data?: unknown }) {
+    if (this.isServer || !message.data) return;
+    window.dispatchEvent(new CustomEvent('webrtc-sampling-profile', { detail: message.data }));
+  }
+
+  private handleSharingSchedule(message: { data?: unknown }) {
+    if (this.isServer || !message.data) return;
+    window.dispatchEvent(new CustomEvent('webrtc-sharing-schedule', { detail: message.data }));
+  }
+
+  // Member answered a location request without coordinates
+  private handleLocationStatus(status: LocationSharingStatus | undefined, peerId: string) {
+    if (!this.isServer || !status?.status) return;
+    window.dispatchEvent(new CustomEvent('webrtc-location-status', { detail: { ...status, peerId, receivedAt: Date.now() } }));
+  }
+
+  // Raised on the admin; the alarm stays up until someone acknowledges it there
+  private handleSos(alert: SosAlert | undefined, peerId: string, channel: SosChannel) {
+    if (!this.isServer || !alert?.id) return;
+    window.dispatchEvent(new CustomEvent('webrtc-sos', { detail: { alert, peerId, channel } }));
   }
 
-  private handleMeshData(message: any, peerId: string) {
-    console.log('Mesh data received:', message, 'from:', peerId);
+  private handleSosAck(ack: SosAck | undefined) {
+    if (this.isServer || !ack?.id) return;
+    window.dispatchEvent(new CustomEvent('webrtc-sos-ack', { detail: ack }));
   }
 
-  private handleGenericMessage(message: any, peerId: string) {
+  // Announcements only ever come from the admin, and a member can only write in its own conversation
+  private handleChatMessage(chat: ChatMessagePayload, peerId: string) {
+    if (this.isServer && (chat.kind !== 'direct' || chat.memberId !== peerId)) {
+      console.warn('Dropping chat message with a foreign conversation from', peerId);
+      return;
+    }
+    window.dispatchEvent(new CustomEvent('webrtc-chat-message', { detail: { message: chat, peerId } }));
+  }
+
+  // Renegotiation (ICE restarts) travels over the channel it keeps alive
+  private handleSignalingMessage(message: SignalingMessage, peerId: string) {
+    console.log('Signaling message received:', message.type, 'from:', peerId);
+    this.onSignalingReceived?.(message, peerId);
+  }
+
+  // Relayed packets are passed on by the mesh router; ours are routed as if the origin had sent them directly.
+  // The router only delivers relayable payload types whose path starts at the origin.
+  private async handleMeshData(packet: MeshPacket, peerId: string) {
+    const delivered = meshRouter.receive(packet, peerId);
+    if (!delivered) return;
+    await this.routeMessage({ data: JSON.stringify(delivered.payload) }, delivered.origin, true);
+  }
+
+  private handleGenericMessage(message: DataChannelMessage, peerId: string) {
     if (this.onMessageReceived) {
+      const { type, data, timestamp } = message as { type: string; data?: unknown; timestamp?: number };
       const webrtcMessage: WebRTCMessage = {
-        type: message.type,
-        data: message.data,
-        timestamp: message.timestamp || Date.now(),
+        type,
+        data,
+        timestamp: timestamp || Date.now(),
         fromUserId: peerId
       };
       this.onMessageReceived(webrtcMessage, peerId);
     }
   }
 
-  private async getCurrentLocation(): Promise<any> {
+  private async getCurrentLocation(request?: LocationPingRequest): Promise<Pick<LocationPingResponse, 'location' | 'reason'>> {
     try {
       const position = await new Promise<GeolocationPosition>((resolve, reject) => {
-        navigator.geolocation.getCurrentPosition(resolve, reject, {
-          enableHighAccuracy: true,
-          timeout: 10000,
-          maximumAge: 30000
-        });
+        navigator.geolocation.getCurrentPosition(resolve, reject, positionOptionsFor(request));
       });
 
-      return {
+      // Private zones are applied on-device, before the fix can reach any peer
+      const privacy = privacyZoneService.apply({
         latitude: position.coords.latitude,
         longitude: position.coords.longitude,
         accuracy: position.coords.accuracy,
         timestamp: Date.now()
-      };
+      });
+      return privacy.location ? { location: privacy.location } : { location: null, reason: 'not_sharing' };
     } catch (error) {
       console.error('Failed to get current location:', error);
-      return null;
+      return { location: null, reason: positionErrorReason(error) };
     }
   }
 
@@ -128,4 +383,8 @@ export class MessageRouter {
   onMessage(callback: (message: WebRTCMessage, fromPeerId: string) => void) {
     this.onMessageReceived = callback;
   }
+
+  onSignalingMessage(callback: (message: SignalingMessage, fromPeerId: string) => void) {
+    this.onSignalingReceived = callback;
+  }
 }
@@ -47,6 +47,15 @@ export class MiniServerBridge {
     this.onServerOfferReadyCallback = callback;
   }
 
+  // Hands a message to the mini server for fan-out to its WebSocket clients; false when it is not running
+  relayMessage(message: { type: string; data: unknown; timestamp: number }): boolean {
+    if (!this.serverRunning) return false;
+
+    window.dispatchEvent(new CustomEvent('mini-server-broadcast', { detail: message }));
+    this.incrementMessages();
+    return true;
+  }
+
   incrementConnections(): void {
     this.serverStats.connections++;
   }
@@ -0,0 +1,106 @@
+// The parts of RTCPeerConnection negotiation touches
+export type NegotiablePeerConnection = Pick<
+  RTCPeerConnection,
+  'signalingState' | 'localDescription' | 'createOffer' | 'createAnswer' | 'setLocalDescription' | 'setRemoteDescription' | 'addIceCandidate'
+>;
+
+export interface PerfectNegotiatorOptions {
+  // The polite side rolls back its own offer when both sides offer at once; the impolite side ignores the other's
+  polite: boolean;
+  // Hands our offer or answer to the other side
+  send: (description: RTCSessionDescriptionInit) => void | Promise<void>;
+}
+
+// "Perfect negotiation": either side may offer at any time, glare is resolved by role.
+// Every change to the descriptions runs through one queue, so two negotiations never interleave.
+export class PerfectNegotiator {
+  private connection: NegotiablePeerConnection;
+  private polite: boolean;
+  private send: PerfectNegotiatorOptions['send'];
+  // Set while an offer from the other side is being ignored; its candidates fail and are expected to
+  private ignoreOffer = false;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(connection: NegotiablePeerConnection, options: PerfectNegotiatorOptions) {
+    this.connection = connection;
+    this.polite = options.polite;
+    this.send = options.send;
+  }
+
+  setPolite(polite: boolean): void {
+    this.polite = polite;
+  }
+
+  isPolite(): boolean {
+    return this.polite;
+  }
+
+  negotiate(options?: RTCOfferOptions): Promise<void> {
+    return this.enqueue(async () => {
+      // An offer of ours is already out; its answer (or a rollback) comes first
+      if (this.connection.signalingState !== 'stable') return;
+
+      const offer = await this.connection.createOffer(options);
+      await this.connection.setLocalDescription(offer);
+      await this.send(this.connection.localDescription!.toJSON());
+    });
+  }
+
+  handleDescription(description: RTCSessionDescriptionInit): Promise<void> {
+    return this.enqueue(async () => {
+      if (description.type === 'answer') {
+        // A late or duplicate answer; applying it in 'stable' would throw and leave things half-set
+        if (this.connection.signalingState !== 'have-local-offer') return;
+        await this.connection.setRemoteDescription(description);
+        return;
+      }
+
+      // Steps are queued, so a collision means our own offer is out and unanswered
+      const offerCollision = description.type === 'offer' && this.connection.signalingState !== 'stable';
+      this.ignoreOffer = !this.polite && offerCollision;
+      if (this.ignoreOffer) {
+        console.log('WebRTC: Ignoring colliding offer (impolite side)');
+        return;
+      }
+
+      // Our offer is dropped; the other side's (usually the same ICE restart) replaces it
+      if (offerCollision) {
+        await this.connection.setLocalDescription({ type: 'rollback' });
+      }
+      await this.connection.setRemoteDescription(description);
+
+      if (description.type === 'offer') {
+        const answer = await this.connection.createAnswer();
+        await this.connection.setLocalDescription(answer);
+        await this.send(this.connection.localDescription!.toJSON());
+      }
+    });
+  }
+
+  handleCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+    return this.enqueue(async () => {
+      try {
+        await this.connection.addIceCandidate(candidate);
+      } catch (error) {
+        if (!this.ignoreOffer) throw error;
+      }
+    });
+  }
+
+  // Withdraws an offer the other side never answered
+  rollback(): Promise<void> {
+    return this.enqueue(async () => {
+      if (this.connection.signalingState !== 'have-local-offer') return;
+      await this.connection.setLocalDescription({ type: 'rollback' });
+    });
+  }
+
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(operation);
+    // A failed step must not block the ones after it
+    this.queue = run.catch(error => {
+      console.error('WebRTC: Negotiation step failed:', error);
+    });
+    return run;
+  }
+}
@@ -0,0 +1,155 @@
+import { ExponentialBackoff } from '@/utils/backoff';
+
+export interface ReliableEnvelope {
+  type: string;
+  data: unknown;
+  id: string;
+  timestamp: number;
+}
+
+export interface DeliveryOptions {
+  // Transmissions before the promise rejects, including the first one
+  maxAttempts?: number;
+}
+
+export interface DeliveryReceipt {
+  id: string;
+  peerId: string;
+  type: string;
+  attempts: number;
+  latencyMs: number;
+}
+
+// Hands an envelope to the data channel; false when the channel isn't open or the send threw
+export type ReliableTransport = (peerId: string, envelope: ReliableEnvelope | { type: 'delivery_ack'; data: { id: string }; timestamp: number }) => boolean;
+
+interface PendingDelivery {
+  envelope: ReliableEnvelope;
+  peerId: string;
+  attempts: number;
+  maxAttempts: number;
+  startedAt: number;
+  backoff: ExponentialBackoff;
+  timer: ReturnType<typeof setTimeout> | null;
+  resolve: (receipt: DeliveryReceipt) => void;
+  reject: (error: Error) => void;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 6;
+const RETRY_INITIAL_MS = 1000;
+const RETRY_MAX_MS = 15000;
+// Longer than a full retry cycle, so a late retransmit is still recognised
+const DEDUP_WINDOW_MS = 2 * 60 * 1000;
+const MAX_DEDUP_ENTRIES = 2000;
+
+// At-least-once delivery with acks and retransmits; the receiver handles each id once
+export class ReliableDelivery {
+  private transport: ReliableTransport;
+  private pending = new Map<string, PendingDelivery>();
+  // `${peerId}:${id}` -> first time it was received
+  private seen = new Map<string, number>();
+
+  constructor(transport: ReliableTransport) {
+    this.transport = transport;
+  }
+
+  send(peerId: string, type: string, data: unknown, options: DeliveryOptions = {}): Promise<DeliveryReceipt> {
+    const envelope: ReliableEnvelope = {
+      type,
+      data,
+      id: `msg_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      timestamp: Date.now()
+    };
+
+    return new Promise((resolve, reject) => {
+      const delivery: PendingDelivery = {
+        envelope,
+        peerId,
+        attempts: 0,
+        maxAttempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+        startedAt: Date.now(),
+        backoff: new ExponentialBackoff({ initial: RETRY_INITIAL_MS, max: RETRY_MAX_MS }),
+        timer: null,
+        resolve,
+        reject
+      };
+      this.pending.set(envelope.id, delivery);
+      this.transmit(delivery);
+    });
+  }
+
+  handleAck(id: string, peerId: string): void {
+    const delivery = this.pending.get(id);
+    if (!delivery || delivery.peerId !== peerId) return;
+
+    this.settle(delivery);
+    delivery.resolve({
+      id,
+      peerId,
+      type: delivery.envelope.type,
+      attempts: delivery.attempts,
+      latencyMs: Date.now() - delivery.startedAt
+    });
+  }
+
+  // Acks every copy (an earlier ack may have been lost) and returns false for duplicates
+  receive(peerId: string, id: string, now = Date.now()): boolean {
+    this.transport(peerId, { type: 'delivery_ack', data: { id }, timestamp: now });
+
+    this.pruneSeen(now);
+    const key = `${peerId}:${id}`;
+    if (this.seen.has(key)) return false;
+    this.seen.set(key, now);
+    return true;
+  }
+
+  // Sends what is waiting for this peer right away instead of at the next backoff step
+  resume(peerId: string): void {
+    this.pending.forEach(delivery => {
+      if (delivery.peerId !== peerId) return;
+      if (delivery.timer) clearTimeout(delivery.timer);
+      this.transmit(delivery);
+    });
+  }
+
+  cancel(peerId?: string): void {
+    this.pending.forEach(delivery => {
+      if (peerId && delivery.peerId !== peerId) return;
+      this.settle(delivery);
+      delivery.reject(new Error(`Delivery of ${delivery.envelope.type} to ${delivery.peerId} was cancelled`));
+    });
+  }
+
+  getPendingCount(peerId?: string): number {
+    if (!peerId) return this.pending.size;
+    return Array.from(this.pending.values()).filter(delivery => delivery.peerId === peerId).length;
+  }
+
+  private transmit(delivery: PendingDelivery): void {
+    delivery.timer = null;
+    if (delivery.attempts >= delivery.maxAttempts) {
+      this.settle(delivery);
+      delivery.reject(new Error(`Delivery of ${delivery.envelope.type} to ${delivery.peerId} failed after ${delivery.attempts} attempts`));
+      return;
+    }
+
+    delivery.attempts++;
+    // A closed channel still uses up an attempt; resume() retries as soon as it reopens
+    this.transport(delivery.peerId, delivery.envelope);
+    delivery.timer = setTimeout(() => this.transmit(delivery), delivery.backoff.getNextInterval());
+  }
+
+  private settle(delivery: PendingDelivery): void {
+    if (delivery.timer) clearTimeout(delivery.timer);
+    delivery.timer = null;
+    this.pending.delete(delivery.envelope.id);
+  }
+
+  private pruneSeen(now: number): void {
+    // Map keeps insertion order, so the oldest entries come first
+    for (const [key, receivedAt] of this.seen) {
+      if (now - receivedAt < DEDUP_WINDOW_MS && this.seen.size < MAX_DEDUP_ENTRIES) break;
+      this.seen.delete(key);
+    }
+  }
+}
@@ -1,26 +1,29 @@
 
-import { PeerManager } from './PeerManager';
+import { PeerRegistry } from './types';
+import { sendScheduler } from './SendScheduler';
+import type { MeshPacket } from './MeshRouter';
+import { LOCATION_PROTOCOL_VERSION } from '@/services/location/LocationWireFormat';
 
 export class SecureMessageSender {
-  private peerManager: PeerManager;
+  private peerManager: PeerRegistry;
 
-  constructor(peerManager: PeerManager) {
+  constructor(peerManager: PeerRegistry) {
     this.peerManager = peerManager;
   }
 
   sendMessage(peerId: string, data: any, messageType: string) {
+    this.sendEnvelope(peerId, {
+      type: messageType,
+      data: data,
+      timestamp: Date.now()
+    });
+  }
+
+  // False when the channel isn't open or its send queue is full
+  sendEnvelope(peerId: string, envelope: { type: string; data: unknown; timestamp: number; id?: string }): boolean {
     const peer = this.peerManager.getPeer(peerId);
-    if (peer?.dataChannel && peer.dataChannel.readyState === 'open') {
-      try {
-        peer.dataChannel.send(JSON.stringify({
-          type: messageType,
-          data: data,
-          timestamp: Date.now()
-        }));
-      } catch (error) {
-        console.error('Failed to send message:', error);
-      }
-    }
+    if (!peer?.dataChannel) return false;
+    return sendScheduler.send(peerId, peer.dataChannel, envelope);
   }
 
   async sendSecureMessage(peerId: string, message: any, messageType: string): Promise<void> {
@@ -32,7 +35,12 @@ export class SecureMessageSender {
     this.sendMessage(peerId, {}, 'location_request');
   }
 
-  sendMeshData(peerId: string, meshData: any) {
-    this.sendMessage(peerId, meshData, 'mesh_data');
+  // Members that don't know the message ignore it and keep sending JSON
+  announceLocationProtocol(peerId: string) {
+    this.sendMessage(peerId, { version: LOCATION_PROTOCOL_VERSION }, 'location_protocol');
+  }
+
+  sendMeshData(peerId: string, packet: MeshPacket) {
+    this.sendMessage(peerId, packet, 'mesh_data');
   }
 }
@@ -0,0 +1,233 @@
+export type SendPriority = 'control' | 'sos' | 'location' | 'bulk';
+
+// Highest first; a lane is only served when every lane above it is empty
+export const SEND_PRIORITIES: SendPriority[] = ['control', 'sos', 'location', 'bulk'];
+
+const CONTROL_TYPES = new Set([
+  'delivery_ack', 'signaling', 'new-offer', 'ip-change', 'security', 'auth', 'encryption',
+  'join_request', 'join_response', 'cancel_join_request', 'location_protocol', 'sampling_profile', 'sharing_schedule', 'mesh_topology'
+]);
+const SOS_TYPES = new Set(['sos', 'sos_ack']);
+const LOCATION_TYPES = new Set([
+  'location_update', 'location_request', 'location_response', 'location_batch',
+  'location_batch_compact', 'location_batch_ack', 'location_status'
+]);
+
+// Anything not listed (mesh data, history sync, broadcasts) waits behind live traffic
+export function priorityFor(type: string): SendPriority {
+  if (CONTROL_TYPES.has(type)) return 'control';
+  if (SOS_TYPES.has(type)) return 'sos';
+  if (LOCATION_TYPES.has(type)) return 'location';
+  return 'bulk';
+}
+
+// Largest message every browser's SCTP stack accepts without fragmentation trouble
+export const MAX_MESSAGE_BYTES = 16 * 1024;
+// A UTF-8 character takes at most three bytes, so a slice this long always fits with its envelope
+const CHUNK_CHARS = 4 * 1024;
+// Stop handing frames to the channel above this, resume on bufferedamountlow
+const HIGH_WATERMARK_BYTES = 256 * 1024;
+const LOW_WATERMARK_BYTES = 64 * 1024;
+// Per peer; past this a send is refused instead of growing memory without bound
+const MAX_QUEUED_FRAMES = 2000;
+
+const MAX_CHUNKS = 1024;
+const CHUNK_TIMEOUT_MS = 60 * 1000;
+
+export interface ChunkPayload {
+  id: string;
+  index: number;
+  total: number;
+  payload: string;
+}
+
+export interface SendQueueStats {
+  peerId: string;
+  queued: Record<SendPriority, number>;
+  bufferedAmount: number;
+  // True while the channel's buffer is above the high watermark
+  paused: boolean;
+  framesSent: number;
+  messagesChunked: number;
+}
+
+interface PeerSendQueue {
+  peerId: string;
+  channel: RTCDataChannel;
+  lanes: Record<SendPriority, string[]>;
+  onBufferedAmountLow: () => void;
+  framesSent: number;
+  messagesChunked: number;
+}
+
+// Created on first use so importing this module needs no TextEncoder
+let encoder: TextEncoder | null = null;
+
+// Splits a serialized message into `chunk` frames the receiver joins back together
+export function toFrames(serialized: string): string[] {
+  encoder = encoder || new TextEncoder();
+  if (encoder.encode(serialized).length <= MAX_MESSAGE_BYTES) return [serialized];
+
+  const id = `chunk_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+  const total = Math.ceil(serialized.length / CHUNK_CHARS);
+  const frames: string[] = [];
+  for (let index = 0; index < total; index++) {
+    const payload = serialized.slice(index * CHUNK_CHARS, (index + 1) * CHUNK_CHARS);
+    const chunk: ChunkPayload = { id, index, total, payload };
+    frames.push(JSON.stringify({ type: 'chunk', data: chunk, timestamp: Date.now() }));
+  }
+  return frames;
+}
+
+// One queue per peer in front of its data channel: priority lanes, watermark pausing and chunking
+export class SendScheduler {
+  private queues = new Map<string, PeerSendQueue>();
+
+  // False when the channel isn't open or the peer's queue is full
+  send<T extends { type: string }>(peerId: string, channel: RTCDataChannel, message: T, priority: SendPriority = priorityFor(message.type)): boolean {
+    if (channel.readyState !== 'open') return false;
+
+    const queue = this.queueFor(peerId, channel);
+    if (this.getQueueDepth(peerId) >= MAX_QUEUED_FRAMES) {
+      console.warn(`SendScheduler: queue for ${peerId} is full, dropping ${message.type}`);
+      return false;
+    }
+
+    const frames = toFrames(JSON.stringify(message));
+    if (frames.length > MAX_CHUNKS) {
+      console.warn(`SendScheduler: ${message.type} for ${peerId} is too large to send`);
+      return false;
+    }
+    if (frames.length > 1) queue.messagesChunked++;
+    queue.lanes[priority].push(...frames);
+    this.flush(queue);
+    return true;
+  }
+
+  // Frames still queued for a closed channel are dropped; reliable delivery resends what matters
+  detach(peerId: string, channel?: RTCDataChannel): void {
+    const queue = this.queues.get(peerId);
+    if (!queue || (channel && queue.channel !== channel)) return;
+
+    queue.channel.removeEventListener('bufferedamountlow', queue.onBufferedAmountLow);
+    const dropped = this.getQueueDepth(peerId);
+    if (dropped > 0) console.log(`SendScheduler: dropped ${dropped} queued frames for ${peerId}`);
+    this.queues.delete(peerId);
+  }
+
+  getQueueDepth(peerId?: string): number {
+    let depth = 0;
+    this.queues.forEach(queue => {
+      if (peerId && queue.peerId !== peerId) return;
+      SEND_PRIORITIES.forEach(priority => {
+        depth += queue.lanes[priority].length;
+      });
+    });
+    return depth;
+  }
+
+  getStats(): SendQueueStats[] {
+    return Array.from(this.queues.values()).map(queue => ({
+      peerId: queue.peerId,
+      queued: {
+        control: queue.lanes.control.length,
+        sos: queue.lanes.sos.length,
+        location: queue.lanes.location.length,
+        bulk: queue.lanes.bulk.length
+      },
+      bufferedAmount: queue.channel.bufferedAmount,
+      paused: queue.channel.bufferedAmount >= HIGH_WATERMARK_BYTES,
+      framesSent: queue.framesSent,
+      messagesChunked: queue.messagesChunked
+    }));
+  }
+
+  private queueFor(peerId: string, channel: RTCDataChannel): PeerSendQueue {
+    const existing = this.queues.get(peerId);
+    if (existing?.channel === channel) return existing;
+    // The peer reconnected on a new channel
+    if (existing) this.detach(peerId);
+
+    const queue: PeerSendQueue = {
+      peerId,
+      channel,
+      lanes: { control: [], sos: [], location: [], bulk: [] },
+      onBufferedAmountLow: () => this.flush(queue),
+      framesSent: 0,
+      messagesChunked: 0
+    };
+    channel.bufferedAmountLowThreshold = LOW_WATERMARK_BYTES;
+    channel.addEventListener('bufferedamountlow', queue.onBufferedAmountLow);
+    this.queues.set(peerId, queue);
+    return queue;
+  }
+
+  private flush(queue: PeerSendQueue): void {
+    const { channel } = queue;
+    while (channel.readyState === 'open' && channel.bufferedAmount < HIGH_WATERMARK_BYTES) {
+      const lane = SEND_PRIORITIES.find(priority => queue.lanes[priority].length > 0);
+      if (!lane) return;
+
+      const frame = queue.lanes[lane].shift()!;
+      try {
+        channel.send(frame);
+        queue.framesSent++;
+      } catch (error) {
+        console.error('SendScheduler: failed to send to', queue.peerId, error);
+        return;
+      }
+    }
+  }
+}
+
+interface PartialMessage {
+  parts: string[];
+  received: number;
+  startedAt: number;
+}
+
+// Receiving side of chunking: joins the frames of each message, dropping ones that never complete
+export class ChunkAssembler {
+  private partial = new Map<string, PartialMessage>();
+
+  // The whole serialized message once its last chunk arrives, otherwise null
+  accept(peerId: string, chunk: ChunkPayload, now = Date.now()): string | null {
+    this.prune(now);
+    if (chunk.total > MAX_CHUNKS || chunk.index >= chunk.total) {
+      console.warn('Dropping malformed chunk from', peerId, chunk.id);
+      return null;
+    }
+
+    const key = `${peerId}:${chunk.id}`;
+    let message = this.partial.get(key);
+    if (!message) {
+      message = { parts: new Array(chunk.total), received: 0, startedAt: now };
+      this.partial.set(key, message);
+    } else if (message.parts.length !== chunk.total) {
+      console.warn('Dropping chunk with a changed total from', peerId, chunk.id);
+      return null;
+    }
+    if (message.parts[chunk.index] === undefined) {
+      message.parts[chunk.index] = chunk.payload;
+      message.received++;
+    }
+    if (message.received < chunk.total) return null;
+
+    this.partial.delete(key);
+    return message.parts.join('');
+  }
+
+  clear(peerId: string): void {
+    this.partial.forEach((_, key) => {
+      if (key.startsWith(`${peerId}:`)) this.partial.delete(key);
+    });
+  }
+
+  private prune(now: number): void {
+    this.partial.forEach((message, key) => {
+      if (now - message.startedAt > CHUNK_TIMEOUT_MS) this.partial.delete(key);
+    });
+  }
+}
+
+export const sendScheduler = new SendScheduler();
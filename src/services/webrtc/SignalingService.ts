@@ -1,24 +1,19 @@
 import { PeerManager } from './PeerManager';
-
-// Define payload types for each message
-export interface OfferPayload { sdp: RTCSessionDescriptionInit; }
-export interface AnswerPayload { sdp: RTCSessionDescriptionInit; }
-export interface IceCandidatePayload { candidate: RTCIceCandidateInit; }
-export interface NewOfferPayload { offer: RTCSessionDescriptionInit; }
-export interface NewAnswerPayload { answer: RTCSessionDescriptionInit; }
-export interface IpChangePayload { newIp: string; }
-export interface JoinRequestPayload { userData: Record<string, unknown>; qrData: Record<string, unknown>; }
-export interface JoinResponsePayload { status: string; reason?: string; }
-
-export type SignalingMessage =
-  | { type: 'offer'; data: OfferPayload; fromPeerId: string; toPeerId?: string }
-  | { type: 'answer'; data: AnswerPayload; fromPeerId: string; toPeerId?: string }
-  | { type: 'ice-candidate'; data: IceCandidatePayload; fromPeerId: string; toPeerId?: string }
-  | { type: 'new-offer'; data: NewOfferPayload; fromPeerId: string; toPeerId?: string }
-  | { type: 'new-answer'; data: NewAnswerPayload; fromPeerId: string; toPeerId?: string }
-  | { type: 'ip-change'; data: IpChangePayload; fromPeerId: string; toPeerId?: string }
-  | { type: 'join_request'; data: JoinRequestPayload; fromPeerId: string; toPeerId?: string }
-  | { type: 'join_response'; data: JoinResponsePayload; fromPeerId: string; toPeerId?: string };
+import { DeviceIDManager } from './DeviceIDManager';
+import { sendScheduler } from './SendScheduler';
+import { parseSignalingSocketMessage, SignalingMessage } from './protocol';
+
+export type {
+  OfferPayload,
+  AnswerPayload,
+  IceCandidatePayload,
+  NewOfferPayload,
+  NewAnswerPayload,
+  IpChangePayload,
+  JoinRequestPayload,
+  JoinResponsePayload,
+  SignalingMessage
+} from './protocol';
 
 export class SignalingService {
   private dataChannels = new Map<string, RTCDataChannel>();
@@ -45,24 +40,40 @@ export class SignalingService {
     this.signalingMessageHandler = handler;
   }
 
-  sendNewOffer(peerId: string, offer: RTCSessionDescriptionInit) {
-    this.sendSignalingMessage(peerId, {
+  // False when there is no open data channel to the peer
+  sendNewOffer(peerId: string, offer: RTCSessionDescriptionInit): boolean {
+    return this.sendSignalingMessage(peerId, {
       type: 'new-offer',
-      data: { offer },
+      data: { offer, deviceId: DeviceIDManager.getOrCreateDeviceId() },
       fromPeerId: 'server',
       toPeerId: peerId
     });
   }
 
-  sendNewAnswer(adminId: string, answer: RTCSessionDescriptionInit) {
-    this.sendSignalingMessage(adminId, {
+  sendNewAnswer(adminId: string, answer: RTCSessionDescriptionInit): boolean {
+    return this.sendSignalingMessage(adminId, {
       type: 'new-answer',
-      data: { answer },
+      data: { answer, deviceId: DeviceIDManager.getOrCreateDeviceId() },
       fromPeerId: 'client',
       toPeerId: adminId
     });
   }
 
+  // Renegotiation goes over the data channel while ICE is up; a stalled channel can still
+  // report 'open', so otherwise the signaling socket is tried first
+  sendDescription(peerId: string, description: RTCSessionDescriptionInit, fromPeerId: string, channelUsable: boolean): boolean {
+    const viaDataChannel = () => description.type === 'offer'
+      ? this.sendNewOffer(peerId, description)
+      : this.sendNewAnswer(peerId, description);
+    const viaSocket = () => sendSignalingViaWebSocket(description.type === 'offer'
+      ? { type: 'new-offer', data: { offer: description, deviceId: DeviceIDManager.getOrCreateDeviceId() }, fromPeerId, toPeerId: peerId }
+      : { type: 'new-answer', data: { answer: description, deviceId: DeviceIDManager.getOrCreateDeviceId() }, fromPeerId, toPeerId: peerId });
+
+    return channelUsable
+      ? viaDataChannel() || viaSocket()
+      : viaSocket() || viaDataChannel();
+  }
+
   sendIceCandidate(peerId: string, candidate: RTCIceCandidate) {
     this.sendSignalingMessage(peerId, {
       type: 'ice-candidate',
@@ -86,18 +97,13 @@ export class SignalingService {
     });
   }
 
-  private sendSignalingMessage(peerId: string, message: SignalingMessage) {
+  private sendSignalingMessage(peerId: string, message: SignalingMessage): boolean {
     const dataChannel = this.dataChannels.get(peerId);
-    if (dataChannel && dataChannel.readyState === 'open') {
-      try {
-        dataChannel.send(JSON.stringify({
-          type: 'signaling',
-          data: message
-        }));
-      } catch (error) {
-        console.error('Failed to send signaling message:', error);
-      }
-    }
+    if (!dataChannel) return false;
+    return sendScheduler.send(peerId, dataChannel, {
+      type: 'signaling',
+      data: message
+    });
   }
 }
 
@@ -122,12 +128,13 @@ export function connectToSignalingServer(url: string, onMessage: (msg: Signaling
     }
   };
   ws.onmessage = (event) => {
-    try {
-      const msg = JSON.parse(event.data);
-      onMessage(msg);
-    } catch (e) {
-      console.error('Failed to parse signaling message:', e);
-    }
+    // Rejected messages are counted by the protocol module and never reach the handler
+    const parsed = parseSignalingSocketMessage(event.data);
+    if (parsed.ok === false) return;
+    // Server replies like register_ack are only for the socket itself
+    const message = parsed.message;
+    if (message.type === 'register_ack' || message.type === 'pong' || message.type === 'welcome' || message.type === 'client_disconnected') return;
+    onMessage(message);
   };
   ws.onerror = (err) => {
     console.error('[SIGNALING] WebSocket error:', err);
@@ -144,8 +151,11 @@ export function connectToSignalingServer(url: string, onMessage: (msg: Signaling
   };
 }
 
-export function sendSignalingViaWebSocket(msg: SignalingMessage) {
+// Returns false when the signaling socket is not open
+export function sendSignalingViaWebSocket(msg: SignalingMessage): boolean {
   if (ws && ws.readyState === WebSocket.OPEN) {
     ws.send(JSON.stringify(msg));
+    return true;
   }
+  return false;
 }
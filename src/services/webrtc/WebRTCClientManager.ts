@@ -4,12 +4,22 @@ import { WebRTCConnection } from './WebRTCConnection';
 import { ConnectionManager } from './ConnectionManager';
 import { ReconnectionManager } from './ReconnectionManager';
 import { WebRTCOfferManager } from './WebRTCOfferManager';
+import { DataChannelManager } from './DataChannelManager';
+import type { DeliveryReceipt } from './ReliableDelivery';
+import { SignalingService, sendSignalingViaWebSocket } from './SignalingService';
+import { DeviceIDManager } from './DeviceIDManager';
+import { IceRestartGuard } from './IceRestart';
+import { meshLinkManager } from './MeshLinkManager';
+import { fileTransferService } from '@/services/files/FileTransferService';
 
 export class WebRTCClientManager {
   private webrtcConnection: WebRTCConnection;
   private connectionManager: ConnectionManager;
   private reconnectionManager: ReconnectionManager;
   private offerManager: WebRTCOfferManager;
+  private dataChannelManager: DataChannelManager;
+  private signalingService = new SignalingService();
+  private iceRestart: IceRestartGuard | null = null;
 
   constructor(
     webrtcConnection: WebRTCConnection,
@@ -21,6 +31,15 @@ export class WebRTCClientManager {
     this.connectionManager = connectionManager;
     this.reconnectionManager = reconnectionManager;
     this.offerManager = offerManager;
+    this.dataChannelManager = new DataChannelManager(connectionManager, this.signalingService);
+    this.dataChannelManager.onSignalingMessage((message, adminId) => {
+      if (message.type === 'new-offer') {
+        this.handleAdminDescription(adminId, message.data.offer, message.data.deviceId);
+      } else if (message.type === 'new-answer') {
+        this.handleAdminDescription(adminId, message.data.answer, message.data.deviceId);
+      }
+    });
+    meshLinkManager.onMessage((event, peerId) => this.dataChannelManager.routeMeshLinkMessage(event, peerId));
   }
 
   async connectToServer(
@@ -34,14 +53,69 @@ export class WebRTCClientManager {
     
     console.log('WebRTC: Connecting to server');
     
+    // A new offer from the admin replaces the connection made for an earlier one
+    this.iceRestart?.reset();
+    if (this.webrtcConnection.getConnection()?.remoteDescription) {
+      this.webrtcConnection.close();
+    }
     const connection = this.webrtcConnection.createConnection();
 
+    // The admin opens the data channel on its side of the connection
+    connection.ondatachannel = (event) => {
+      this.dataChannelManager.setupDataChannel(event.channel, offerData.adminId);
+    };
+    fileTransferService.openChannel(offerData.adminId, connection);
+    this.webrtcConnection.onIceCandidate((candidate) => {
+      sendSignalingViaWebSocket({
+        type: 'ice-candidate',
+        data: { candidate },
+        fromPeerId: userId,
+        toPeerId: offerData.adminId
+      });
+    });
+
     await this.webrtcConnection.setRemoteDescription(offerData.offer);
-    await this.webrtcConnection.createAnswer();
+    const answer = await this.webrtcConnection.createAnswer();
     
     // Process pending ICE candidates
     await this.webrtcConnection.processPendingIceCandidates();
 
+    // Older offers carry no device ID; the member then stays polite and yields to the admin
+    this.webrtcConnection.enableNegotiation(
+      offerData.deviceId ? DeviceIDManager.isPoliteTowards(offerData.deviceId) : true,
+      (description) => {
+        const sent = this.signalingService.sendDescription(
+          offerData.adminId,
+          description,
+          userId,
+          this.webrtcConnection.getConnectionState() === 'connected'
+        );
+        if (!sent) console.warn('WebRTC: No route to admin for renegotiation');
+      }
+    );
+    // Either side may restart ICE; the negotiator sorts out who wins if both do
+    const iceRestart = new IceRestartGuard(this.webrtcConnection, () => {
+      console.warn('WebRTC: ICE restarts exhausted, closing connection to admin:', offerData.adminId);
+      this.connectionManager.removePeer(offerData.adminId);
+      this.webrtcConnection.close();
+    });
+    this.iceRestart = iceRestart;
+    connection.addEventListener('connectionstatechange', () => {
+      if (connection.connectionState === 'connected') {
+        iceRestart.settle();
+      } else if (connection.connectionState === 'failed') {
+        iceRestart.restart();
+      }
+    });
+
+    // The admin keys this member's connection by the peer id the answer comes from
+    sendSignalingViaWebSocket({
+      type: 'answer',
+      data: { sdp: answer, deviceId: DeviceIDManager.getOrCreateDeviceId() },
+      fromPeerId: userId,
+      toPeerId: offerData.adminId
+    });
+
     // Add server as peer
     this.connectionManager.addPeer({
       id: offerData.adminId,
@@ -53,7 +127,33 @@ export class WebRTCClientManager {
     });
   }
 
-  sendLocationUpdate(locationData: any): void {
-    this.connectionManager.sendLocationUpdate(locationData);
+  // Offer or answer from the admin after the first exchange, e.g. an ICE restart after a network change
+  async handleAdminDescription(adminId: string, description: RTCSessionDescriptionInit, deviceId?: string): Promise<void> {
+    if (!this.webrtcConnection.getConnection()) return;
+    if (deviceId) this.webrtcConnection.setPolite(DeviceIDManager.isPoliteTowards(deviceId));
+
+    try {
+      await this.webrtcConnection.handleRemoteDescription(description);
+    } catch (error) {
+      console.error(`WebRTC: Failed to apply ${description.type} from admin ${adminId}:`, error);
+    }
+  }
+
+  async addAdminIceCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+    if (!this.webrtcConnection.getConnection()) return;
+
+    try {
+      await this.webrtcConnection.addIceCandidate(candidate);
+    } catch (error) {
+      console.error('WebRTC: Failed to add admin ICE candidate:', error);
+    }
+  }
+
+  sendLocationUpdate(locationData: any): boolean {
+    return this.connectionManager.sendLocationUpdate(locationData);
+  }
+
+  sendReliable(adminId: string, message: { type: string; data: unknown }): Promise<DeliveryReceipt> {
+    return this.dataChannelManager.sendReliable(adminId, message);
   }
 }
@@ -1,10 +1,17 @@
+import { PeerConnectionStats } from './types';
+import { PerfectNegotiator } from './PerfectNegotiation';
+
+// Renegotiation descriptions are sent whole, without trickle, so they wait this long for candidates at most
+const ICE_GATHERING_TIMEOUT_MS = 3000;
 
 export class WebRTCConnection {
   private peerConnection: RTCPeerConnection | null = null;
   private dataChannel: RTCDataChannel | null = null;
   private connectionState: RTCPeerConnectionState = 'new';
   private onConnectionStateChange?: (state: RTCPeerConnectionState) => void;
+  private onLocalIceCandidate?: (candidate: RTCIceCandidateInit) => void;
   private pendingIceCandidates: RTCIceCandidateInit[] = [];
+  private negotiator: PerfectNegotiator | null = null;
 
   constructor() {
     this.setupPeerConnection();
@@ -26,6 +33,12 @@ export class WebRTCConnection {
         this.onConnectionStateChange?.(this.connectionState);
       }
     };
+
+    this.peerConnection.onicecandidate = (event) => {
+      if (event.candidate) {
+        this.onLocalIceCandidate?.(event.candidate.toJSON());
+      }
+    };
   }
 
   createConnection(): RTCPeerConnection {
@@ -44,13 +57,29 @@ export class WebRTCConnection {
   }
 
   getConnectionState(): RTCPeerConnectionState {
-    return this.connectionState;
+    // Read live: other handlers may replace onconnectionstatechange
+    return this.peerConnection?.connectionState ?? this.connectionState;
   }
 
   onStateChange(callback: (state: RTCPeerConnectionState) => void): void {
     this.onConnectionStateChange = callback;
   }
 
+  onIceCandidate(callback: (candidate: RTCIceCandidateInit) => void): void {
+    this.onLocalIceCandidate = callback;
+  }
+
+  // The offering side opens the channel; the answering side gets it through ondatachannel
+  createDataChannel(label: string, options?: RTCDataChannelInit): RTCDataChannel {
+    const connection = this.createConnection();
+    this.dataChannel = connection.createDataChannel(label, options);
+    return this.dataChannel;
+  }
+
+  getDataChannel(): RTCDataChannel | null {
+    return this.dataChannel;
+  }
+
   async createOffer(options?: RTCOfferOptions): Promise<RTCSessionDescriptionInit> {
     if (!this.peerConnection) throw new Error('Peer connection not available');
     
@@ -59,6 +88,64 @@ export class WebRTCConnection {
     return offer;
   }
 
+  // After the first offer/answer either side may renegotiate; glare is resolved by `polite`
+  enableNegotiation(polite: boolean, send: (description: RTCSessionDescriptionInit) => void): void {
+    const connection = this.createConnection();
+    this.negotiator = new PerfectNegotiator(connection, {
+      polite,
+      // Sent whole rather than trickled, so a single message over the data channel is enough
+      send: async () => send(await this.getGatheredDescription())
+    });
+  }
+
+  setPolite(polite: boolean): void {
+    this.negotiator?.setPolite(polite);
+  }
+
+  // New ICE credentials on the same connection; data channels and their state survive
+  async restartIce(): Promise<void> {
+    if (!this.negotiator) throw new Error('Negotiation not enabled on this connection');
+    await this.negotiator.negotiate({ iceRestart: true });
+  }
+
+  // Offer or answer from the other side, at any point after the first negotiation
+  async handleRemoteDescription(description: RTCSessionDescriptionInit): Promise<void> {
+    if (!this.negotiator) throw new Error('Negotiation not enabled on this connection');
+    await this.negotiator.handleDescription(description);
+    await this.processPendingIceCandidates();
+  }
+
+  // Drops an offer the other side never answered, so a new one can be made
+  async rollbackLocalOffer(): Promise<void> {
+    await this.negotiator?.rollback();
+  }
+
+  getSignalingState(): RTCSignalingState | null {
+    return this.peerConnection?.signalingState ?? null;
+  }
+
+  // Local description once candidate gathering finished (or timed out)
+  private async getGatheredDescription(): Promise<RTCSessionDescriptionInit> {
+    const connection = this.peerConnection;
+    if (!connection) throw new Error('Peer connection not available');
+
+    if (connection.iceGatheringState !== 'complete') {
+      await new Promise<void>(resolve => {
+        const done = () => {
+          clearTimeout(timer);
+          connection.removeEventListener('icegatheringstatechange', onChange);
+          resolve();
+        };
+        const onChange = () => {
+          if (connection.iceGatheringState === 'complete') done();
+        };
+        const timer = setTimeout(done, ICE_GATHERING_TIMEOUT_MS);
+        connection.addEventListener('icegatheringstatechange', onChange);
+      });
+    }
+    return connection.localDescription!.toJSON();
+  }
+
   async createAnswer(): Promise<RTCSessionDescriptionInit> {
     if (!this.peerConnection) throw new Error('Peer connection not available');
     
@@ -70,13 +157,19 @@ export class WebRTCConnection {
   async setRemoteDescription(description: RTCSessionDescriptionInit): Promise<void> {
     if (!this.peerConnection) throw new Error('Peer connection not available');
     await this.peerConnection.setRemoteDescription(description);
+    await this.processPendingIceCandidates();
   }
 
   async addIceCandidate(candidate: RTCIceCandidateInit): Promise<void> {
-    if (!this.peerConnection) {
+    // Candidates can arrive over signaling before the answer does
+    if (!this.peerConnection || !this.peerConnection.remoteDescription) {
       this.pendingIceCandidates.push(candidate);
       return;
     }
+    if (this.negotiator) {
+      await this.negotiator.handleCandidate(candidate);
+      return;
+    }
     await this.peerConnection.addIceCandidate(candidate);
   }
 
@@ -93,6 +186,37 @@ export class WebRTCConnection {
     this.pendingIceCandidates = [];
   }
 
+  // Totals for the selected candidate pair, or null once the connection is gone
+  async getStats(peerId: string): Promise<PeerConnectionStats | null> {
+    if (!this.peerConnection) return null;
+
+    const stats: PeerConnectionStats = {
+      peerId,
+      connectionState: this.peerConnection.connectionState,
+      iceConnectionState: this.peerConnection.iceConnectionState,
+      bytesSent: 0,
+      bytesReceived: 0,
+      timestamp: Date.now()
+    };
+
+    try {
+      const report = await this.peerConnection.getStats();
+      report.forEach(entry => {
+        if (entry.type !== 'candidate-pair' || !entry.nominated || entry.state !== 'succeeded') return;
+        stats.bytesSent = entry.bytesSent || 0;
+        stats.bytesReceived = entry.bytesReceived || 0;
+        if (typeof entry.currentRoundTripTime === 'number') {
+          stats.roundTripTimeMs = Math.round(entry.currentRoundTripTime * 1000);
+        }
+        stats.localCandidateType = report.get(entry.localCandidateId)?.candidateType;
+        stats.remoteCandidateType = report.get(entry.remoteCandidateId)?.candidateType;
+      });
+    } catch (error) {
+      console.error('Failed to read connection stats:', peerId, error);
+    }
+    return stats;
+  }
+
   async testConnectivity(): Promise<boolean> {
     try {
       // Simple connectivity test
@@ -113,6 +237,7 @@ export class WebRTCConnection {
       this.peerConnection.close();
       this.peerConnection = null;
     }
+    this.negotiator = null;
     
     this.connectionState = 'closed';
   }
@@ -6,6 +6,9 @@ import { AutoReconnectionManager } from './AutoReconnectionManager';
 import { IPChangeManager } from './IPChangeManager';
 import { WebRTCEventHandler } from './WebRTCEventHandler';
 
+// Long enough for the admin's ICE restarts (three tries, 10 s each) to finish
+const CLIENT_RECONNECT_GRACE_MS = 35000;
+
 export class WebRTCConnectionEventHandler {
   private webrtcConnection: WebRTCConnection;
   private connectionManager: ConnectionManager;
@@ -150,9 +153,11 @@ export class WebRTCConnectionEventHandler {
   private startClientReconnectionProcess(): void {
     const lastOffer = this.getLastServerOffer?.();
     if (lastOffer) {
+      // The admin restarts ICE on this connection first; reconnect only if that didn't bring it back
       setTimeout(() => {
+        if (this.webrtcConnection.getConnectionState() === 'connected') return;
         this.onAttemptReconnection?.(lastOffer.adminId);
-      }, 5000);
+      }, CLIENT_RECONNECT_GRACE_MS);
     }
   }
 
@@ -1,3 +1,7 @@
+import { protocolStats, PROTOCOL_VERSION } from './protocol';
+import { sendScheduler, SendQueueStats } from './SendScheduler';
+import { meshRouter } from './MeshRouter';
+
 export class WebRTCDiagnosticManager {
   private errorHistory: any[] = [];
 
@@ -31,11 +35,23 @@ export class WebRTCDiagnosticManager {
     return this.errorHistory;
   }
 
+  getSendQueueStats(): SendQueueStats[] {
+    return sendScheduler.getStats();
+  }
+
   generateDiagnosticReport(): string {
+    const protocol = protocolStats.getSnapshot();
+    const queues = sendScheduler.getStats().map(queue =>
+      `${queue.peerId} control=${queue.queued.control} sos=${queue.queued.sos} location=${queue.queued.location} bulk=${queue.queued.bulk} buffered=${queue.bufferedAmount}${queue.paused ? ' (paused)' : ''}`
+    );
+    const mesh = meshRouter.getStats();
     return `WebRTC Diagnostic Report
 Generated: ${new Date().toISOString()}
 Status: Active
-Errors: ${this.errorHistory.length}`;
+Errors: ${this.errorHistory.length}
+Protocol: v${PROTOCOL_VERSION}, ${Object.values(protocol.accepted).reduce((sum, count) => sum + count, 0)} accepted, rejected ${Object.entries(protocol.rejected).map(([reason, count]) => `${reason}=${count}`).join(' ')}
+Send queues: ${queues.length > 0 ? queues.join('; ') : 'none'}
+Mesh relay: originated=${mesh.originated} forwarded=${mesh.forwarded} delivered=${mesh.delivered}, dropped ${Object.entries(mesh.dropped).map(([reason, count]) => `${reason}=${count}`).join(' ')}`;
   }
 
   addError(error: any): void {
@@ -1,14 +1,30 @@
-import { WebRTCServerOffer } from './types';
+import { WebRTCServerOffer, PeerConnectionStats } from './types';
 import { WebRTCConnection } from './WebRTCConnection';
 import { ConnectionManager } from './ConnectionManager';
 import { WebRTCOfferManager } from './WebRTCOfferManager';
 import { AutoReconnectionManager } from './AutoReconnectionManager';
+import { DataChannelManager } from './DataChannelManager';
+import type { DeliveryReceipt } from './ReliableDelivery';
+import { SignalingService, sendSignalingViaWebSocket } from './SignalingService';
+import { DeviceIDManager } from './DeviceIDManager';
+import { IceRestartGuard } from './IceRestart';
+import { fileTransferService } from '@/services/files/FileTransferService';
+
+// 'disconnected' often recovers by itself, e.g. during a brief Wi-Fi dropout
+const DISCONNECTED_GRACE_MS = 2000;
 
 export class WebRTCServerManager {
   private webrtcConnection: WebRTCConnection;
   private connectionManager: ConnectionManager;
   private offerManager: WebRTCOfferManager;
   private reconnectionManager: AutoReconnectionManager;
+  // Routes the data channel of every member connection
+  private dataChannelManager: DataChannelManager;
+  // Carries new-offer/new-answer over the members' data channels
+  private signalingService = new SignalingService();
+  private iceRestarts = new Map<string, IceRestartGuard>();
+  // Connection behind the QR offer; the first member to answer it takes it over
+  private inviteConnection: WebRTCConnection | null = null;
 
   constructor(
     webrtcConnection: WebRTCConnection,
@@ -20,11 +36,37 @@ export class WebRTCServerManager {
     this.connectionManager = connectionManager;
     this.offerManager = offerManager;
     this.reconnectionManager = reconnectionManager;
+
+    this.dataChannelManager = new DataChannelManager(connectionManager, this.signalingService);
+    this.dataChannelManager.setAsServer(true);
+    this.dataChannelManager.onLocationUpdate((memberId, location) => {
+      this.connectionManager.handleLocationUpdate(memberId, location);
+    });
+    this.dataChannelManager.onSignalingMessage((message, memberId) => {
+      if (message.type === 'new-offer') {
+        this.handleMemberDescription(memberId, message.data.offer, message.data.deviceId);
+      } else if (message.type === 'new-answer') {
+        this.handleMemberDescription(memberId, message.data.answer, message.data.deviceId);
+      }
+    });
+    this.dataChannelManager.onMessage((message, fromPeerId) => {
+      // The member's network changed; new candidates are needed on both sides
+      if (message.type === 'ip-change') {
+        this.sendUpdatedOfferToClient(fromPeerId);
+      }
+      window.dispatchEvent(new CustomEvent('webrtc-message-received', {
+        detail: { message: { ...message, fromPeerId } }
+      }));
+    });
   }
 
   async createServerOffer(organizationId: string, organizationName: string, adminId: string): Promise<WebRTCServerOffer> {
     try {
-      const offer = await this.webrtcConnection.createOffer();
+      // Each QR offer gets a fresh connection; an unanswered earlier one is dropped
+      this.inviteConnection?.close();
+      this.inviteConnection = new WebRTCConnection();
+      this.inviteConnection.createDataChannel('data');
+      const offer = await this.inviteConnection.createOffer();
       
       const serverOffer: WebRTCServerOffer = {
         type: 'webrtc_server_offer',
@@ -33,7 +75,8 @@ export class WebRTCServerManager {
         organizationId,
         organizationName,
         timestamp: Date.now(),
-        serverIp: await this.getCurrentIP()
+        serverIp: await this.getCurrentIP(),
+        deviceId: DeviceIDManager.getOrCreateDeviceId()
       };
 
       this.offerManager.setLastServerOffer(serverOffer);
@@ -49,14 +92,197 @@ export class WebRTCServerManager {
     return this.createServerOffer(organizationId, organizationName, adminId);
   }
 
+  // Dedicated connection and offer for one member, sent to them over the signaling socket
+  async createMemberOffer(memberId: string, memberName?: string): Promise<WebRTCServerOffer> {
+    const serverOffer = this.offerManager.getLastServerOffer();
+    if (!serverOffer) throw new Error('Start the server before inviting members');
+
+    const connection = new WebRTCConnection();
+    connection.createDataChannel('data');
+    this.attachMemberConnection(memberId, memberName, connection, serverOffer);
+
+    const offer = await connection.createOffer();
+    sendSignalingViaWebSocket({
+      type: 'offer',
+      data: {
+        sdp: offer,
+        organizationId: serverOffer.organizationId,
+        organizationName: serverOffer.organizationName,
+        deviceId: serverOffer.deviceId
+      },
+      fromPeerId: serverOffer.adminId,
+      toPeerId: memberId
+    });
+
+    return { ...serverOffer, offer, timestamp: Date.now() };
+  }
+
+  async handleMemberAnswer(memberId: string, answer: RTCSessionDescriptionInit, deviceId?: string): Promise<void> {
+    let connection = this.connectionManager.getPeerConnection(memberId);
+    const serverOffer = this.offerManager.getLastServerOffer();
+
+    // An answer to the QR offer: that connection now belongs to this member
+    if (!connection && this.inviteConnection && serverOffer) {
+      connection = this.inviteConnection;
+      this.inviteConnection = null;
+      this.attachMemberConnection(memberId, undefined, connection, serverOffer);
+    }
+    if (!connection || connection.getSignalingState() !== 'have-local-offer') {
+      console.warn('WebRTC: Answer from member without a pending offer:', memberId);
+      return;
+    }
+
+    if (deviceId) connection.setPolite(DeviceIDManager.isPoliteTowards(deviceId));
+    try {
+      await connection.handleRemoteDescription(answer);
+    } catch (error) {
+      console.error('WebRTC: Failed to apply answer from member:', memberId, error);
+      this.closeMemberConnection(memberId);
+    }
+  }
+
+  // Offer or answer from a member after the first negotiation, e.g. an ICE restart either side started
+  async handleMemberDescription(memberId: string, description: RTCSessionDescriptionInit, deviceId?: string): Promise<void> {
+    const connection = this.connectionManager.getPeerConnection(memberId);
+    if (!connection) {
+      console.warn('WebRTC: Renegotiation from unknown member:', memberId);
+      return;
+    }
+
+    if (deviceId) connection.setPolite(DeviceIDManager.isPoliteTowards(deviceId));
+    try {
+      await connection.handleRemoteDescription(description);
+    } catch (error) {
+      console.error('WebRTC: Failed to apply description from member:', memberId, error);
+    }
+  }
+
+  async addMemberIceCandidate(memberId: string, candidate: RTCIceCandidateInit): Promise<void> {
+    const connection = this.connectionManager.getPeerConnection(memberId) || this.inviteConnection;
+    if (!connection) return;
+
+    try {
+      await connection.addIceCandidate(candidate);
+    } catch (error) {
+      console.error('WebRTC: Failed to add ICE candidate from member:', memberId, error);
+    }
+  }
+
+  closeMemberConnection(memberId: string): void {
+    this.clearIceRestart(memberId);
+    this.connectionManager.removePeer(memberId);
+  }
+
+  getMemberStats(): Promise<PeerConnectionStats[]> {
+    return this.connectionManager.getAllPeerStats();
+  }
+
+  sendReliable(memberId: string, message: { type: string; data: unknown }): Promise<DeliveryReceipt> {
+    return this.dataChannelManager.sendReliable(memberId, message);
+  }
+
+  closeAllMemberConnections(): void {
+    Array.from(this.iceRestarts.keys()).forEach(memberId => this.clearIceRestart(memberId));
+    this.inviteConnection?.close();
+    this.inviteConnection = null;
+    this.connectionManager.clearPeers();
+  }
+
+  private attachMemberConnection(
+    memberId: string,
+    memberName: string | undefined,
+    connection: WebRTCConnection,
+    serverOffer: WebRTCServerOffer
+  ): void {
+    const existing = this.connectionManager.getPeer(memberId);
+    this.connectionManager.setPeerConnection(memberId, connection);
+    this.clearIceRestart(memberId);
+    this.iceRestarts.set(memberId, new IceRestartGuard(connection, () => {
+      console.warn('WebRTC: ICE restarts exhausted, closing connection to member:', memberId);
+      this.closeMemberConnection(memberId);
+    }));
+    this.connectionManager.addPeer({
+      id: memberId,
+      name: memberName || existing?.name || memberId,
+      organizationId: serverOffer.organizationId,
+      connection: connection.getConnection()!,
+      status: 'connecting',
+      lastSeen: Date.now()
+    });
+
+    // Until the member's device ID arrives with its answer, the admin keeps its own offers
+    connection.enableNegotiation(false, (description) => {
+      const sent = this.signalingService.sendDescription(
+        memberId,
+        description,
+        serverOffer.adminId,
+        connection.getConnectionState() === 'connected'
+      );
+      if (!sent) console.warn('WebRTC: No route to member for renegotiation:', memberId);
+    });
+
+    connection.onIceCandidate((candidate) => {
+      sendSignalingViaWebSocket({
+        type: 'ice-candidate',
+        data: { candidate },
+        fromPeerId: serverOffer.adminId,
+        toPeerId: memberId
+      });
+    });
+
+    connection.onStateChange((state) => {
+      // Ignore a replaced connection that closes after the member reconnected
+      if (this.connectionManager.getPeerConnection(memberId) !== connection) return;
+
+      if (state === 'connected') {
+        this.iceRestarts.get(memberId)?.settle();
+        if (this.connectionManager.getPeer(memberId)?.dataChannel?.readyState === 'open') {
+          this.connectionManager.updatePeerStatus(memberId, 'connected');
+        }
+      } else if (state === 'disconnected') {
+        this.connectionManager.updatePeerStatus(memberId, 'disconnected');
+        setTimeout(() => {
+          if (connection.getConnectionState() === 'disconnected') this.restartMemberIce(memberId);
+        }, DISCONNECTED_GRACE_MS);
+      } else if (state === 'failed') {
+        this.restartMemberIce(memberId);
+      } else if (state === 'closed') {
+        this.closeMemberConnection(memberId);
+      }
+    });
+
+    const dataChannel = connection.getDataChannel();
+    if (dataChannel) {
+      this.dataChannelManager.setupDataChannel(dataChannel, memberId);
+    }
+    fileTransferService.openChannel(memberId, connection.getConnection()!);
+  }
+
+  // ICE restart with every member instead of a full reconnect; sessions and data channels stay up
   async sendUpdatedOfferToAllClients(newIP?: string): Promise<void> {
-    console.log('Sending updated offer to all clients');
-    // Implementation for sending updated offers
+    console.log('WebRTC: Restarting ICE with all members', newIP ? `after IP change to ${newIP}` : '');
+
+    const serverOffer = this.offerManager.getLastServerOffer();
+    if (newIP && serverOffer) {
+      this.offerManager.setLastServerOffer({ ...serverOffer, serverIp: newIP });
+    }
+    await Promise.allSettled(
+      this.connectionManager.getAllPeers().map(peer => this.sendUpdatedOfferToClient(peer.id))
+    );
   }
 
   async sendUpdatedOfferToClient(clientId: string): Promise<void> {
-    console.log('Sending updated offer to client:', clientId);
-    // Implementation for sending updated offer to specific client
+    if (!this.connectionManager.getPeerConnection(clientId)) return;
+    await this.restartMemberIce(clientId);
+  }
+
+  private async restartMemberIce(memberId: string): Promise<void> {
+    await this.iceRestarts.get(memberId)?.restart();
+  }
+
+  private clearIceRestart(memberId: string): void {
+    this.iceRestarts.get(memberId)?.reset();
+    this.iceRestarts.delete(memberId);
   }
 
   private async getCurrentIP(): Promise<string> {
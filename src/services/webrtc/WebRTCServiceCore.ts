@@ -8,6 +8,9 @@ import { WebRTCEventHandler } from './WebRTCEventHandler';
 import { WebRTCOfferManager } from './WebRTCOfferManager';
 import { AutoReconnectionManager } from './AutoReconnectionManager';
 import { MiniServerBridge } from './MiniServerBridge';
+import { meshRouter } from './MeshRouter';
+import { meshLinkManager } from './MeshLinkManager';
+import { sendScheduler, priorityFor } from './SendScheduler';
 
 export class WebRTCServiceCore {
   public webrtcConnection = new WebRTCConnection();
@@ -24,13 +27,45 @@ export class WebRTCServiceCore {
   public userId: string | null = null;
   public organizationId: string | null = null;
 
+  constructor() {
+    // Relayed packets share the per-peer send queues, in the lane of the message they carry.
+    // Neighbors are the direct channels plus the links members open to each other.
+    meshRouter.setLink({
+      neighbors: () => Array.from(new Set([
+        ...this.connectionManager.getAllPeers()
+          .filter(peer => peer.dataChannel?.readyState === 'open')
+          .map(peer => peer.id),
+        ...meshLinkManager.getOpenLinks()
+      ])),
+      send: (peerId, envelope) => {
+        const direct = this.connectionManager.getPeer(peerId)?.dataChannel;
+        const channel = direct?.readyState === 'open' ? direct : meshLinkManager.getChannel(peerId);
+        return !!channel && sendScheduler.send(peerId, channel, envelope, priorityFor(envelope.data.payload.type));
+      }
+    });
+
+    // Members link up with each other as they learn about one another from the adverts
+    meshRouter.onTopologyChange(() => {
+      if (!this.isAdmin && this.userId) meshLinkManager.update(this.userId, meshRouter.getMembers());
+    });
+  }
+
   updateStates(isAdmin: boolean, userId: string | null, organizationId: string | null): void {
     this.isAdmin = isAdmin;
     this.userId = userId;
     this.organizationId = organizationId;
+    meshRouter.setLocalNode(userId, isAdmin);
   }
 
   getConnectionStatus(): 'disconnected' | 'connecting' | 'connected' {
+    // The admin has a connection per member; it is connected while any member is
+    if (this.isAdmin) {
+      const peers = this.connectionManager.getAllPeers();
+      if (peers.some(peer => peer.status === 'connected')) return 'connected';
+      if (peers.some(peer => peer.status === 'connecting')) return 'connecting';
+      return 'disconnected';
+    }
+
     const state = this.webrtcConnection.getConnectionState();
     
     if (state === 'connected') return 'connected';
@@ -63,6 +98,7 @@ export class WebRTCServiceCore {
     this.ipChangeManager.stopMonitoring();
     this.reconnectionManager.clearAllReconnections();
     this.webrtcConnection.close();
+    meshLinkManager.close();
     this.connectionManager.clearPeers();
     this.offerManager.clearLastServerOffer();
     this.miniServerBridge.stopMiniServer();
@@ -1,6 +1,8 @@
 
 import { WebRTCDiagnosticManager } from './WebRTCDiagnosticManager';
 import { WebRTCServiceCore } from './WebRTCServiceCore';
+import type { SendQueueStats } from './SendScheduler';
+import { meshNetworkCoordinator } from './MeshNetworkCoordinator';
 
 export class WebRTCServiceDiagnostics {
   constructor(
@@ -24,13 +26,18 @@ export class WebRTCServiceDiagnostics {
     return this.diagnosticManager.generateDiagnosticReport();
   }
 
+  getSendQueueStats(): SendQueueStats[] {
+    return this.diagnosticManager.getSendQueueStats();
+  }
+
   // Mesh network methods
   getMeshNetworkStatus(): any {
     return {
       hasActiveAdmin: this.core.isAdmin,
       temporaryServerId: null,
       connectedDevices: this.core.connectionManager.getConnectedPeers(),
-      meshTopology: new Map()
+      // Links every node advertised over the mesh, including this one's
+      meshTopology: meshNetworkCoordinator.getNetworkStatus().meshTopology
     };
   }
 
@@ -4,9 +4,28 @@ import { WebRTCServerManager } from './WebRTCServerManager';
 import { WebRTCClientManager } from './WebRTCClientManager';
 import { WebRTCEventManager } from './WebRTCEventManager';
 import { WebRTCDiagnosticManager } from './WebRTCDiagnosticManager';
-import { WebRTCServerOffer, PeerConnection } from './types';
+import { meshRouter } from './MeshRouter';
+import { meshLinkManager } from './MeshLinkManager';
+import type { SignalingMessage } from './protocol';
+import { WebRTCServerOffer, PeerConnection, PeerConnectionStats, LocationData } from './types';
+import { geofenceService } from '@/services/location/GeofenceService';
+import { anomalyRules } from '@/services/location/AnomalyRules';
+import { locationPingService, LocationPing, LocationPingOptions } from '@/services/location/LocationPing';
+import { locationWireProtocol } from '@/services/location/LocationWireFormat';
+import { locationHistoryService } from '@/services/location/LocationHistoryService';
+import { locationFilterService, toHistoryFix } from '@/services/location/LocationFilter';
+import { getOrganization, SamplingProfileName, SharingSchedule } from '@/lib/localDb';
+import type { DeliveryReceipt } from './ReliableDelivery';
+import type { LocationBatch } from '@/services/location/OutboundLocationQueue';
+import type { LocationSharingStatus } from '@/services/location/SharingSchedule';
 
 export class WebRTCServiceMethods {
+  private samplingProfile: SamplingProfileName | null = null;
+  private organizationSchedule: SharingSchedule | null = null;
+  private memberSchedules = new Map<string, SharingSchedule>();
+  // Peers that already received the organization's settings on their current channel
+  private configuredPeers = new Set<string>();
+
   constructor(
     private core: WebRTCServiceCore,
     private serverManager: WebRTCServerManager,
@@ -19,21 +38,68 @@ export class WebRTCServiceMethods {
   async createServerOffer(organizationId: string, organizationName: string): Promise<WebRTCServerOffer> {
     const adminId = `admin_${Date.now()}`;
     this.core.updateStates(true, adminId, organizationId);
+    this.loadOrganizationSettings(organizationId);
     return await this.serverManager.createServerOffer(organizationId, organizationName, adminId);
   }
 
   async startServer(organizationId: string, organizationName: string, adminId: string): Promise<WebRTCServerOffer> {
     this.core.updateStates(true, adminId, organizationId);
+    this.loadOrganizationSettings(organizationId);
     this.updateEventManagerForAdmin();
     return await this.serverManager.startServer(organizationId, organizationName, adminId);
   }
 
+  // Admin: a separate peer connection for every member
+  async createMemberOffer(memberId: string, memberName?: string): Promise<WebRTCServerOffer> {
+    if (!this.core.isAdmin) throw new Error('Only the admin can invite members');
+    return await this.serverManager.createMemberOffer(memberId, memberName);
+  }
+
+  async handleMemberAnswer(memberId: string, answer: RTCSessionDescriptionInit, deviceId?: string): Promise<void> {
+    if (!this.core.isAdmin) return;
+    await this.serverManager.handleMemberAnswer(memberId, answer, deviceId);
+  }
+
+  async handleMemberDescription(memberId: string, description: RTCSessionDescriptionInit, deviceId?: string): Promise<void> {
+    if (!this.core.isAdmin) return;
+    await this.serverManager.handleMemberDescription(memberId, description, deviceId);
+  }
+
+  async addMemberIceCandidate(memberId: string, candidate: RTCIceCandidateInit): Promise<void> {
+    if (!this.core.isAdmin) return;
+    await this.serverManager.addMemberIceCandidate(memberId, candidate);
+  }
+
+  closeMemberConnection(memberId: string): void {
+    this.serverManager.closeMemberConnection(memberId);
+  }
+
+  getPeerStats(): Promise<PeerConnectionStats[]> {
+    return this.serverManager.getMemberStats();
+  }
+
   // Client methods
   async connectToServer(offerData: WebRTCServerOffer, userId: string, userName: string): Promise<void> {
     this.core.updateStates(false, userId, offerData.organizationId);
     return await this.clientManager.connectToServer(offerData, userId, userName);
   }
 
+  async handleAdminDescription(adminId: string, description: RTCSessionDescriptionInit, deviceId?: string): Promise<void> {
+    if (this.core.isAdmin) return;
+    await this.clientManager.handleAdminDescription(adminId, description, deviceId);
+  }
+
+  async addAdminIceCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+    if (this.core.isAdmin) return;
+    await this.clientManager.addAdminIceCandidate(candidate);
+  }
+
+  // Links to other members, negotiated over the signaling socket
+  async handleMeshLinkSignal(message: SignalingMessage): Promise<void> {
+    if (this.core.isAdmin) return;
+    await meshLinkManager.handleSignal(message);
+  }
+
   // Common methods
   getConnectionStatus(): 'disconnected' | 'connecting' | 'connected' {
     return this.core.getConnectionStatus();
@@ -44,6 +110,8 @@ export class WebRTCServiceMethods {
   }
 
   disconnect(): void {
+    anomalyRules.stop();
+    this.serverManager.closeAllMemberConnections();
     this.core.cleanup();
   }
 
@@ -52,17 +120,104 @@ export class WebRTCServiceMethods {
     this.core.connectionManager.requestLocationFromAllClients();
   }
 
-  sendLocationUpdate(locationData: any): void {
-    this.clientManager.sendLocationUpdate(locationData);
+  // Correlated location request to every member, tracked until each one answers or times out
+  pingMembers(options: LocationPingOptions): LocationPing {
+    const memberIds = this.core.connectionManager.getAllPeers().map(peer => peer.id);
+    return locationPingService.start(memberIds, (memberId, request) => this.core.connectionManager.sendToPeer(memberId, {
+      type: 'location_request',
+      data: request,
+      timestamp: Date.now()
+    }), options);
+  }
+
+  // False when no data channel is open
+  sendLocationUpdate(locationData: any): boolean {
+    return this.clientManager.sendLocationUpdate(locationData);
+  }
+
+  // Queued fixes replayed by the member, compact when the admin supports it; false when there is no open channel
+  sendLocationBatch(batch: LocationBatch): boolean {
+    return locationWireProtocol.toMessages(batch)
+      .map(message => this.core.connectionManager.broadcastMessage(message) > 0)
+      .every(Boolean);
+  }
+
+  acknowledgesLocationBatches(): boolean {
+    return locationWireProtocol.acknowledgesBatches();
+  }
+
+  locationProtocolNegotiated(): boolean {
+    return locationWireProtocol.isNegotiated();
+  }
+
+  // Tells the admin why coordinates are withheld or blurred, without any coordinates
+  sendLocationStatus(status: LocationSharingStatus): boolean {
+    return this.core.connectionManager.broadcastMessage({
+      type: 'location_status',
+      data: status,
+      timestamp: Date.now()
+    }) > 0;
   }
 
   // Event handlers
   onLocationUpdate(callback: (userId: string, locationData: any) => void): void {
-    this.core.connectionManager.onLocationUpdate(callback);
+    this.core.connectionManager.onLocationUpdate((userId, locationData) => {
+      const filtered = this.processIncomingLocation(userId, locationData);
+      // Every fix is recorded first; rejected ones stay in the raw history but never move the marker
+      if (filtered) {
+        callback(userId, filtered);
+      }
+    });
   }
 
   onPeerStatusUpdate(callback: (peers: PeerConnection[]) => void): void {
-    this.core.connectionManager.onPeerStatusUpdate(callback);
+    this.core.connectionManager.onPeerStatusUpdate((peers) => {
+      this.sendSettingsToNewPeers(peers);
+      callback(peers);
+    });
+  }
+
+  // Sampling profile is chosen per organization by the admin and applied on member devices
+  setSamplingProfile(organizationId: string, profile: SamplingProfileName): void {
+    if (!this.core.isAdmin || this.core.organizationId !== organizationId) return;
+
+    this.samplingProfile = profile;
+    this.sendCommandToMembers('sampling_profile', { organizationId, profile });
+  }
+
+  // Sharing windows apply to every member unless a member has their own
+  setSharingSchedule(organizationId: string, schedule: SharingSchedule | null): void {
+    if (!this.core.isAdmin || this.core.organizationId !== organizationId) return;
+
+    this.organizationSchedule = schedule;
+    this.sendCommandToMembers('sharing_schedule', { organizationId, scope: 'organization', schedule });
+  }
+
+  setMemberSharingSchedule(organizationId: string, memberId: string, schedule: SharingSchedule | null): void {
+    if (!this.core.isAdmin || this.core.organizationId !== organizationId) return;
+
+    if (schedule) {
+      this.memberSchedules.set(memberId, schedule);
+    } else {
+      this.memberSchedules.delete(memberId);
+    }
+    this.sendCommand(memberId, 'sharing_schedule', { organizationId, scope: 'member', schedule });
+  }
+
+  // Urgent messages go out on every open data channel; returns how many took it
+  sendUrgentMessage(type: string, data: unknown): number {
+    return this.core.connectionManager.broadcastMessage({ type, data, timestamp: Date.now() });
+  }
+
+  // False when this device runs no mini server
+  relayToMiniServer(type: string, data: unknown): boolean {
+    return this.core.miniServerBridge.relayMessage({ type, data, timestamp: Date.now() });
+  }
+
+  // Admin: a member without an open channel of its own is reached through the others; false when the mesh has no route
+  relayThroughMesh(peerId: string, type: string, data: unknown): boolean {
+    if (this.core.connectionManager.getPeer(peerId)?.dataChannel?.readyState === 'open') return false;
+    return meshRouter.send(peerId, { type, data, timestamp: Date.now() });
   }
 
   // Message sending
@@ -70,6 +225,13 @@ export class WebRTCServiceMethods {
     this.core.connectionManager.sendToPeer(peerId, message);
   }
 
+  // Resolves once the peer acks the message, rejects when the retries run out
+  sendReliable(peerId: string, message: { type: string; data: unknown }): Promise<DeliveryReceipt> {
+    return this.core.isAdmin
+      ? this.serverManager.sendReliable(peerId, message)
+      : this.clientManager.sendReliable(peerId, message);
+  }
+
   // Mini server methods
   async startMiniServer(): Promise<any> {
     return await this.core.startMiniServer();
@@ -87,6 +249,86 @@ export class WebRTCServiceMethods {
     return this.core.getMiniServerStats();
   }
 
+  // The one place fixes are filtered: members send them raw and the router passes them through untouched
+  private processIncomingLocation(userId: string, locationData: LocationData): LocationData | null {
+    if (!this.core.isAdmin || !this.core.organizationId) return locationData;
+
+    const result = locationFilterService.process(userId, locationData);
+    locationHistoryService.record(this.core.organizationId, userId, toHistoryFix(result));
+
+    if (!result.filtered) {
+      console.log('Dropped location fix from', userId, 'reason:', result.rejectedReason);
+      return null;
+    }
+
+    try {
+      geofenceService.evaluate(this.core.organizationId, userId, result.filtered);
+    } catch (error) {
+      console.error('Geofence evaluation failed for', userId, error);
+    }
+
+    try {
+      anomalyRules.recordLocation(this.core.organizationId, userId, result.filtered);
+    } catch (error) {
+      console.error('Anomaly rule evaluation failed for', userId, error);
+    }
+
+    return result.filtered;
+  }
+
+  private async loadOrganizationSettings(organizationId: string): Promise<void> {
+    this.configuredPeers.clear();
+    this.memberSchedules.clear();
+    try {
+      const org = await getOrganization(organizationId);
+      this.samplingProfile = org?.samplingProfile || 'balanced';
+      this.organizationSchedule = org?.sharingSchedule || null;
+      org?.members?.forEach(member => {
+        if (member.sharingSchedule) this.memberSchedules.set(member.id, member.sharingSchedule);
+      });
+    } catch (error) {
+      console.error('Failed to load organization settings for', organizationId, error);
+    }
+
+    anomalyRules.start(organizationId, {
+      getSchedule: (memberId) => this.memberSchedules.get(memberId) || this.organizationSchedule
+    });
+  }
+
+  // Sampling profile and sharing schedules, sent once per newly opened channel
+  private sendSettingsToNewPeers(peers: PeerConnection[]): void {
+    const organizationId = this.core.organizationId;
+    if (!this.core.isAdmin || !organizationId || !this.samplingProfile) return;
+
+    peers.forEach(peer => {
+      if (peer.dataChannel?.readyState !== 'open' || this.configuredPeers.has(peer.id)) return;
+      this.configuredPeers.add(peer.id);
+      this.sendCommand(peer.id, 'sampling_profile', { organizationId, profile: this.samplingProfile });
+      this.sendCommand(peer.id, 'sharing_schedule', { organizationId, scope: 'organization', schedule: this.organizationSchedule });
+      this.sendCommand(peer.id, 'sharing_schedule', { organizationId, scope: 'member', schedule: this.memberSchedules.get(peer.id) || null });
+    });
+
+    // Forget peers that left so they get the settings again when they reconnect
+    const currentIds = new Set(peers.map(peer => peer.id));
+    this.configuredPeers.forEach(id => {
+      if (!currentIds.has(id)) this.configuredPeers.delete(id);
+    });
+  }
+
+  // Members that are offline now get the current settings from sendSettingsToNewPeers when they reconnect
+  private sendCommandToMembers(type: string, data: unknown): void {
+    this.core.connectionManager.getAllPeers()
+      .filter(peer => peer.dataChannel?.readyState === 'open')
+      .forEach(peer => this.sendCommand(peer.id, type, data));
+  }
+
+  // Admin commands are retried until the member acks them
+  private sendCommand(peerId: string, type: string, data: unknown): void {
+    this.sendReliable(peerId, { type, data }).catch(error => {
+      console.warn(`WebRTC: ${type} was not acknowledged by`, peerId, error);
+    });
+  }
+
   private updateEventManagerForAdmin(): void {
     this.eventManager = new WebRTCEventManager(
       this.core.webrtcConnection,
@@ -0,0 +1,111 @@
+import { ConnectionManager } from '../ConnectionManager';
+import { sendScheduler } from '../SendScheduler';
+import type { WebRTCConnection } from '../WebRTCConnection';
+import type { PeerConnection, PeerConnectionStats } from '../types';
+
+// Stands in for one member's RTCPeerConnection wrapper
+class FakeConnection {
+  closed = false;
+
+  constructor(private rtt: number | null) {}
+
+  close(): void {
+    this.closed = true;
+  }
+
+  async getStats(peerId: string): Promise<PeerConnectionStats | null> {
+    if (this.rtt === null) return null;
+    return { peerId, connectionState: 'connected', iceConnectionState: 'connected', bytesSent: 0, bytesReceived: 0, roundTripTimeMs: this.rtt, timestamp: 0 };
+  }
+}
+
+class FakeDataChannel {
+  readyState: RTCDataChannelState = 'open';
+  bufferedAmount = 0;
+  bufferedAmountLowThreshold = 0;
+  sent: string[] = [];
+
+  send(frame: string): void {
+    this.sent.push(frame);
+  }
+
+  addEventListener(): void {}
+  removeEventListener(): void {}
+}
+
+const asConnection = (connection: FakeConnection) => connection as unknown as WebRTCConnection;
+
+const member = (id: string, dataChannel?: FakeDataChannel): PeerConnection => ({
+  id,
+  name: id,
+  connection: null as unknown as RTCPeerConnection,
+  status: 'connected',
+  lastSeen: 0,
+  dataChannel: dataChannel as unknown as RTCDataChannel
+});
+
+afterEach(() => {
+  ['member-1', 'member-2'].forEach(id => sendScheduler.detach(id));
+});
+
+describe('ConnectionManager', () => {
+  it('keeps one connection per member and closes the one it replaces', () => {
+    const manager = new ConnectionManager();
+    const first = new FakeConnection(20);
+    const second = new FakeConnection(30);
+
+    manager.setPeerConnection('member-1', asConnection(first));
+    manager.setPeerConnection('member-1', asConnection(first));
+    expect(first.closed).toBe(false);
+
+    manager.setPeerConnection('member-1', asConnection(second));
+    expect(first.closed).toBe(true);
+    expect(manager.getPeerConnection('member-1')).toBe(second);
+  });
+
+  it('tears down only the member that left', () => {
+    const manager = new ConnectionManager();
+    const updates: string[][] = [];
+    manager.onPeerStatusUpdate(peers => updates.push(peers.map(peer => peer.id)));
+    const connections = { 'member-1': new FakeConnection(20), 'member-2': new FakeConnection(30) };
+    Object.entries(connections).forEach(([id, connection]) => {
+      manager.addPeer(member(id, new FakeDataChannel()));
+      manager.setPeerConnection(id, asConnection(connection));
+    });
+
+    manager.removePeer('member-1');
+
+    expect(connections['member-1'].closed).toBe(true);
+    expect(connections['member-2'].closed).toBe(false);
+    expect(manager.getPeerConnection('member-1')).toBeUndefined();
+    expect(manager.getPeer('member-1')).toBeUndefined();
+    expect(updates[updates.length - 1]).toEqual(['member-2']);
+
+    manager.clearPeers();
+    expect(connections['member-2'].closed).toBe(true);
+    expect(manager.getAllPeers()).toEqual([]);
+  });
+
+  it('sends on the addressed member channel only', () => {
+    const manager = new ConnectionManager();
+    const channels = { 'member-1': new FakeDataChannel(), 'member-2': new FakeDataChannel() };
+    Object.entries(channels).forEach(([id, channel]) => manager.addPeer(member(id, channel)));
+
+    expect(manager.sendToPeer('member-2', { type: 'location_request', timestamp: 1 })).toBe(true);
+    expect(manager.sendToPeer('member-3', { type: 'location_request', timestamp: 1 })).toBe(false);
+
+    expect(channels['member-1'].sent).toHaveLength(0);
+    expect(channels['member-2'].sent.map(frame => JSON.parse(frame).type)).toEqual(['location_request']);
+  });
+
+  it('collects stats from every member connection that has them', async () => {
+    const manager = new ConnectionManager();
+    manager.setPeerConnection('member-1', asConnection(new FakeConnection(20)));
+    manager.setPeerConnection('member-2', asConnection(new FakeConnection(null)));
+
+    const stats = await manager.getAllPeerStats();
+
+    expect(stats.map(entry => [entry.peerId, entry.roundTripTimeMs])).toEqual([['member-1', 20]]);
+    expect(await manager.getPeerStats('member-2')).toBeNull();
+  });
+});
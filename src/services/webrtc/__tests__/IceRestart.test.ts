@@ -0,0 +1,135 @@
+import { IceRestartGuard, IceRestartable } from '../IceRestart';
+import { NegotiablePeerConnection, PerfectNegotiator } from '../PerfectNegotiation';
+
+// Offers go out but only the answers the test hands back ever arrive
+class FakePeerConnection {
+  signalingState: RTCSignalingState = 'stable';
+  connectionState: RTCPeerConnectionState = 'failed';
+  localDescription: RTCSessionDescription | null = null;
+
+  async createOffer(): Promise<RTCSessionDescriptionInit> {
+    return { type: 'offer', sdp: 'restart-offer' };
+  }
+
+  async createAnswer(): Promise<RTCSessionDescriptionInit> {
+    return { type: 'answer', sdp: 'local-answer' };
+  }
+
+  async setLocalDescription(description?: RTCLocalSessionDescriptionInit): Promise<void> {
+    if (description?.type === 'rollback') {
+      this.signalingState = 'stable';
+      this.localDescription = null;
+      return;
+    }
+    this.signalingState = description?.type === 'offer' ? 'have-local-offer' : 'stable';
+    this.localDescription = { ...description, toJSON: () => description } as RTCSessionDescription;
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit): Promise<void> {
+    this.signalingState = description.type === 'offer' ? 'have-remote-offer' : 'stable';
+  }
+
+  async addIceCandidate(): Promise<void> {}
+}
+
+function restartable() {
+  const peer = new FakePeerConnection();
+  const offers: RTCSessionDescriptionInit[] = [];
+  const negotiator = new PerfectNegotiator(peer as unknown as NegotiablePeerConnection, {
+    polite: false,
+    send: description => { offers.push(description); }
+  });
+  const connection: IceRestartable = {
+    restartIce: () => negotiator.negotiate({ iceRestart: true }),
+    rollbackLocalOffer: () => negotiator.rollback(),
+    getConnectionState: () => peer.connectionState,
+    getSignalingState: () => peer.signalingState
+  };
+  return { peer, offers, negotiator, connection };
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('IceRestartGuard', () => {
+  it('rolls back an offer whose answer was lost and offers again', async () => {
+    const { peer, offers, negotiator, connection } = restartable();
+    const exhausted = jest.fn();
+    const guard = new IceRestartGuard(connection, exhausted, { maxAttempts: 3, timeoutMs: 1000 });
+
+    await guard.restart();
+    expect(offers).toHaveLength(1);
+    expect(peer.signalingState).toBe('have-local-offer');
+
+    // Without the rollback a second negotiate() would return early in 'have-local-offer' forever
+    await guard.restart();
+    expect(offers).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(offers).toHaveLength(2);
+
+    await negotiator.handleDescription({ type: 'answer', sdp: 'remote-answer' });
+    peer.connectionState = 'connected';
+    guard.settle();
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(offers).toHaveLength(2);
+    expect(peer.signalingState).toBe('stable');
+    expect(exhausted).not.toHaveBeenCalled();
+  });
+
+  it('keeps the timeout of a restart whose answer is still outstanding when ICE reconnects', async () => {
+    const { peer, offers, connection } = restartable();
+    const exhausted = jest.fn();
+    const guard = new IceRestartGuard(connection, exhausted, { maxAttempts: 3, timeoutMs: 1000 });
+
+    await guard.restart();
+    // The old candidate pair came back, but the restart offer was never answered
+    peer.connectionState = 'connected';
+    guard.settle();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(peer.signalingState).toBe('stable');
+    expect(offers).toHaveLength(1);
+    expect(exhausted).not.toHaveBeenCalled();
+  });
+
+  it('allows the full number of restarts again after the connection recovered', async () => {
+    const { peer, offers, negotiator, connection } = restartable();
+    const exhausted = jest.fn();
+    const guard = new IceRestartGuard(connection, exhausted, { maxAttempts: 2, timeoutMs: 1000 });
+
+    await guard.restart();
+    await jest.advanceTimersByTimeAsync(1000);
+    await negotiator.handleDescription({ type: 'answer', sdp: 'remote-answer' });
+    peer.connectionState = 'connected';
+    guard.settle();
+
+    // A later network change
+    peer.connectionState = 'failed';
+    await guard.restart();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(offers).toHaveLength(4);
+    expect(exhausted).not.toHaveBeenCalled();
+  });
+
+  it('gives up after the retry cap when no answer ever comes', async () => {
+    const { offers, connection } = restartable();
+    const exhausted = jest.fn();
+    const guard = new IceRestartGuard(connection, exhausted, { maxAttempts: 3, timeoutMs: 1000 });
+
+    await guard.restart();
+    await jest.advanceTimersByTimeAsync(3000);
+
+    expect(offers).toHaveLength(3);
+    expect(exhausted).toHaveBeenCalledTimes(1);
+  });
+});
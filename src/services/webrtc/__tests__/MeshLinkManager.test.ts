@@ -0,0 +1,148 @@
+import { MeshLinkManager, MeshLinkConnection, meshLinkPlan } from '../MeshLinkManager';
+import type { SignalingMessage } from '../protocol';
+
+class FakeChannel {
+  readyState: RTCDataChannelState = 'connecting';
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  open(): void {
+    this.readyState = 'open';
+    this.onopen?.();
+  }
+
+  close(): void {
+    if (this.readyState === 'closed') return;
+    this.readyState = 'closed';
+    this.onclose?.();
+  }
+}
+
+// Negotiation only records what it was handed; the test opens the channels itself
+class FakeConnection {
+  peer: { ondatachannel: ((event: { channel: FakeChannel }) => void) | null } = { ondatachannel: null };
+  channel: FakeChannel | null = null;
+  remote: RTCSessionDescriptionInit | null = null;
+  candidates: RTCIceCandidateInit[] = [];
+  closed = false;
+  emitCandidate: (candidate: RTCIceCandidateInit) => void = () => {};
+
+  createConnection() { return this.peer; }
+  createDataChannel() {
+    this.channel = new FakeChannel();
+    return this.channel;
+  }
+  async createOffer() { return { type: 'offer' as const, sdp: 'mesh-offer' }; }
+  async createAnswer() { return { type: 'answer' as const, sdp: 'mesh-answer' }; }
+  async setRemoteDescription(description: RTCSessionDescriptionInit) { this.remote = description; }
+  async addIceCandidate(candidate: RTCIceCandidateInit) { this.candidates.push(candidate); }
+  onIceCandidate(callback: (candidate: RTCIceCandidateInit) => void) { this.emitCandidate = callback; }
+  onStateChange() {}
+  close() {
+    this.closed = true;
+    this.channel?.close();
+  }
+}
+
+// Managers whose signaling goes straight to each other
+function mesh(ids: string[]) {
+  const managers: Record<string, MeshLinkManager> = {};
+  const connections: Record<string, FakeConnection[]> = {};
+  ids.forEach(id => {
+    connections[id] = [];
+    managers[id] = new MeshLinkManager(
+      (message: SignalingMessage) => {
+        managers[message.toPeerId!]?.handleSignal(message);
+        return true;
+      },
+      () => {
+        const connection = new FakeConnection();
+        connections[id].push(connection);
+        return connection as unknown as MeshLinkConnection;
+      }
+    );
+  });
+  return { managers, connections };
+}
+
+const events: { type: string; peerId: string }[] = [];
+const record = (event: Event) => events.push({ type: event.type, peerId: (event as CustomEvent).detail.peerId });
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  window.addEventListener('mesh-link-open', record);
+  window.addEventListener('mesh-link-closed', record);
+});
+
+afterEach(() => {
+  window.removeEventListener('mesh-link-open', record);
+  window.removeEventListener('mesh-link-closed', record);
+  events.splice(0);
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('meshLinkPlan', () => {
+  it('links each member to its ring neighbours, with the lower id offering', () => {
+    const members = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+    expect(meshLinkPlan(members, 'c')).toEqual({ offerTo: ['d', 'e'], acceptFrom: ['b', 'a'] });
+    // The ring wraps, so the last member links to the first
+    expect(meshLinkPlan(members, 'f')).toEqual({ offerTo: [], acceptFrom: ['a', 'e', 'b', 'd'] });
+    expect(meshLinkPlan(['b'], 'a')).toEqual({ offerTo: ['b'], acceptFrom: [] });
+  });
+});
+
+describe('MeshLinkManager', () => {
+  it('links two members over signaling and hands on what arrives on the link', async () => {
+    const { managers, connections } = mesh(['member-a', 'member-b']);
+    managers['member-b'].update('member-b', ['member-a']);
+    managers['member-a'].update('member-a', ['member-b']);
+    await jest.advanceTimersByTimeAsync(0);
+
+    const [offering] = connections['member-a'];
+    const [answering] = connections['member-b'];
+    expect(answering.remote).toMatchObject({ type: 'offer' });
+    expect(offering.remote).toMatchObject({ type: 'answer' });
+
+    offering.emitCandidate({ candidate: 'candidate:1' });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(answering.candidates).toEqual([{ candidate: 'candidate:1' }]);
+
+    const inbound = new FakeChannel();
+    answering.channel = inbound;
+    answering.peer.ondatachannel!({ channel: inbound });
+    offering.channel!.open();
+    inbound.open();
+    expect(events).toEqual([{ type: 'mesh-link-open', peerId: 'member-b' }, { type: 'mesh-link-open', peerId: 'member-a' }]);
+    expect(managers['member-a'].getOpenLinks()).toEqual(['member-b']);
+
+    const received: [string, string][] = [];
+    managers['member-b'].onMessage((event, peerId) => received.push([event.data, peerId]));
+    inbound.onmessage!({ data: 'mesh_data' });
+    expect(received).toEqual([['mesh_data', 'member-a']]);
+
+    offering.channel!.close();
+    expect(managers['member-a'].getOpenLinks()).toEqual([]);
+    expect(offering.closed).toBe(true);
+    expect(events[events.length - 1]).toEqual({ type: 'mesh-link-closed', peerId: 'member-b' });
+  });
+
+  it('ignores offers from peers it has not heard of and offers again after a link never opened', async () => {
+    const { managers, connections } = mesh(['member-a', 'member-b']);
+    managers['member-b'].update('member-b', []);
+    managers['member-a'].update('member-a', ['member-b']);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(connections['member-b']).toHaveLength(0);
+
+    await jest.advanceTimersByTimeAsync(20000);
+    expect(connections['member-a'][0].closed).toBe(true);
+
+    managers['member-a'].update('member-a', ['member-b']);
+    expect(connections['member-a']).toHaveLength(2);
+    expect(events).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { MeshRouter, MeshPacket, MeshTopologySource, MeshTopologyAdvert, DEFAULT_MESH_TTL, nextHop } from '../MeshRouter';
+
+// Routers wired together directly; a send lands in the neighbor's receive straight away
+function network(links: Record<string, string[]>, admins: string[] = []) {
+  const topology = new Map<string, string[]>();
+  const source: MeshTopologySource = {
+    getNetworkStatus: () => ({ meshTopology: topology }),
+    updateMeshTopology: (deviceId, peers) => topology.set(deviceId, peers)
+  };
+  const routers: Record<string, MeshRouter> = {};
+  const delivered: Record<string, MeshPacket[]> = {};
+
+  Object.keys(links).forEach(nodeId => {
+    const router = new MeshRouter(source);
+    router.setLocalNode(nodeId, admins.includes(nodeId));
+    routers[nodeId] = router;
+    delivered[nodeId] = [];
+  });
+  Object.keys(links).forEach(nodeId => {
+    routers[nodeId].setLink({
+      neighbors: () => links[nodeId],
+      send: (peerId, envelope) => {
+        const packet = routers[peerId].receive(envelope.data, nodeId);
+        if (!packet) return true;
+        if (packet.payload.type === 'mesh_topology') {
+          routers[peerId].handleAdvert(packet.origin, packet.payload.data as MeshTopologyAdvert);
+        } else {
+          delivered[peerId].push(packet);
+        }
+        return true;
+      }
+    });
+  });
+
+  return { routers, delivered, topology };
+}
+
+const routers: MeshRouter[] = [];
+const track = (net: ReturnType<typeof network>) => {
+  routers.push(...Object.values(net.routers));
+  return net;
+};
+
+afterEach(() => {
+  routers.splice(0).forEach(router => router.cleanup());
+  jest.restoreAllMocks();
+});
+
+describe('MeshRouter', () => {
+  it('picks the first hop of a shortest path and steers around excluded nodes', () => {
+    const topology = new Map([
+      ['b', ['a', 'c']],
+      ['c', ['b', 'admin']],
+      ['d', ['a', 'e']],
+      ['e', ['d', 'f']],
+      ['f', ['e', 'admin']]
+    ]);
+    expect(nextHop(topology, 'a', ['b', 'd'], 'admin')).toBe('b');
+    expect(nextHop(topology, 'a', ['b', 'd'], 'admin', new Set(['c']))).toBe('d');
+    expect(nextHop(topology, 'a', ['b'], 'nowhere')).toBeNull();
+  });
+
+  it('relays a member out of the admin’s reach through another member', () => {
+    // member-a only reaches member-b, which reaches the admin
+    const net = track(network({ 'member-a': ['member-b'], 'member-b': ['member-a', 'admin'], admin: ['member-b'] }, ['admin']));
+    Object.values(net.routers).forEach(router => router.advertise());
+
+    expect(net.routers['member-a'].needsRelay()).toBe(true);
+    expect(net.routers['member-b'].needsRelay()).toBe(false);
+
+    const sent = net.routers['member-a'].sendToAdmin({ type: 'location_batch', data: { points: [] }, timestamp: 1 });
+    expect(sent).toBe(true);
+    expect(net.delivered.admin).toHaveLength(1);
+    expect(net.delivered.admin[0]).toMatchObject({
+      origin: 'member-a',
+      hops: 2,
+      ttl: DEFAULT_MESH_TTL - 2,
+      path: ['member-a', 'member-b'],
+      payload: { type: 'location_batch' }
+    });
+    expect(net.delivered['member-b']).toHaveLength(0);
+    expect(net.routers['member-b'].getStats().forwarded).toBeGreaterThan(0);
+  });
+
+  it('floods a broadcast round a loop once per node', () => {
+    const net = track(network({ a: ['b', 'd'], b: ['a', 'c'], c: ['b', 'd'], d: ['c', 'a'] }));
+
+    net.routers.a.send('*', { type: 'location_status', data: { status: 'sharing' } });
+
+    expect(['b', 'c', 'd'].map(node => net.delivered[node].length)).toEqual([1, 1, 1]);
+    expect(net.delivered.a).toHaveLength(0);
+    const dropped = Object.values(net.routers).reduce((sum, router) => sum + router.getStats().dropped.duplicate, 0);
+    expect(dropped).toBeGreaterThan(0);
+  });
+
+  it('drops packets whose hops ran out or that already passed through this node', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const net = track(network({ a: ['b'], b: ['a', 'c'], c: ['b'] }));
+    const packet: MeshPacket = { id: 'p1', origin: 'a', destination: 'c', ttl: 0, hops: 8, path: ['a'], payload: { type: 'location_status' } };
+
+    expect(net.routers.b.receive(packet, 'a')).toBeNull();
+    expect(net.routers.b.receive({ ...packet, id: 'p2', origin: 'c', ttl: 3, path: ['c', 'b', 'a'] }, 'a')).toBeNull();
+    expect(net.routers.b.getStats().dropped).toMatchObject({ expired: 1, loop: 1 });
+    expect(net.delivered.c).toHaveLength(0);
+  });
+
+  it('refuses control payloads and packets whose path does not start at the claimed origin', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const net = track(network({ a: ['b'], b: ['a', 'c'], c: ['b'] }));
+    const packet: MeshPacket = { id: 'p1', origin: 'a', destination: 'c', ttl: 3, hops: 1, path: ['a'], payload: { type: 'sos_ack' } };
+
+    expect(net.routers.a.send('c', { type: 'new-offer', data: {} })).toBe(false);
+    expect(net.routers.b.receive(packet, 'a')).toBeNull();
+    expect(net.routers.b.receive({ ...packet, id: 'p2', origin: 'admin', payload: { type: 'sos' } }, 'a')).toBeNull();
+    expect(net.routers.b.getStats().dropped.rejected).toBe(2);
+    expect(net.delivered.c).toHaveLength(0);
+  });
+
+  it('relays acks back from the admin but not from a member claiming to send them', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const net = track(network({ 'member-a': ['member-b'], 'member-b': ['member-a', 'admin'], admin: ['member-b'] }, ['admin']));
+    Object.values(net.routers).forEach(router => router.advertise());
+
+    expect(net.routers.admin.send('member-a', { type: 'sos_ack', data: { id: 'sos_1' } })).toBe(true);
+    expect(net.delivered['member-a'].map(packet => packet.payload.type)).toEqual(['sos_ack']);
+
+    expect(net.routers['member-b'].send('member-a', { type: 'location_batch_ack', data: {} })).toBe(false);
+    expect(net.routers['member-a'].getMembers()).toEqual(['member-b']);
+  });
+});
@@ -0,0 +1,97 @@
+import { NegotiablePeerConnection, PerfectNegotiator } from '../PerfectNegotiation';
+
+// Just enough of the signaling state machine to exercise glare
+class FakePeerConnection {
+  signalingState: RTCSignalingState = 'stable';
+  localDescription: RTCSessionDescription | null = null;
+  remoteDescriptions: RTCSessionDescriptionInit[] = [];
+
+  async createOffer(): Promise<RTCSessionDescriptionInit> {
+    return { type: 'offer', sdp: 'local-offer' };
+  }
+
+  async createAnswer(): Promise<RTCSessionDescriptionInit> {
+    return { type: 'answer', sdp: 'local-answer' };
+  }
+
+  async setLocalDescription(description?: RTCLocalSessionDescriptionInit): Promise<void> {
+    if (description?.type === 'rollback') {
+      this.signalingState = 'stable';
+      this.localDescription = null;
+      return;
+    }
+    this.signalingState = description?.type === 'offer' ? 'have-local-offer' : 'stable';
+    this.localDescription = { ...description, toJSON: () => description } as RTCSessionDescription;
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit): Promise<void> {
+    if (description.type === 'answer' && this.signalingState !== 'have-local-offer') {
+      throw new Error('Called in wrong state: stable');
+    }
+    this.remoteDescriptions.push(description);
+    this.signalingState = description.type === 'offer' ? 'have-remote-offer' : 'stable';
+  }
+
+  async addIceCandidate(): Promise<void> {
+    throw new Error('Unknown ufrag');
+  }
+}
+
+// The DOM typings overload createOffer/createAnswer with legacy callback forms the fake leaves out
+function negotiatorFor(connection: FakePeerConnection, polite: boolean, sent: RTCSessionDescriptionInit[] = []): PerfectNegotiator {
+  return new PerfectNegotiator(connection as unknown as NegotiablePeerConnection, {
+    polite,
+    send: description => { sent.push(description); }
+  });
+}
+
+const remoteOffer: RTCSessionDescriptionInit = { type: 'offer', sdp: 'remote-offer' };
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('PerfectNegotiator', () => {
+  it('rolls back its own offer and answers on the polite side', async () => {
+    const connection = new FakePeerConnection();
+    const sent: RTCSessionDescriptionInit[] = [];
+    const negotiator = negotiatorFor(connection, true, sent);
+
+    await negotiator.negotiate({ iceRestart: true });
+    await negotiator.handleDescription(remoteOffer);
+
+    expect(sent.map(description => description.type)).toEqual(['offer', 'answer']);
+    expect(connection.remoteDescriptions).toEqual([remoteOffer]);
+    expect(connection.signalingState).toBe('stable');
+  });
+
+  it('ignores a colliding offer and its candidates on the impolite side', async () => {
+    const connection = new FakePeerConnection();
+    const sent: RTCSessionDescriptionInit[] = [];
+    const negotiator = negotiatorFor(connection, false, sent);
+
+    await negotiator.negotiate({ iceRestart: true });
+    await negotiator.handleDescription(remoteOffer);
+    await expect(negotiator.handleCandidate({ candidate: 'candidate:1' })).resolves.toBeUndefined();
+
+    expect(sent.map(description => description.type)).toEqual(['offer']);
+    expect(connection.remoteDescriptions).toEqual([]);
+    expect(connection.signalingState).toBe('have-local-offer');
+  });
+
+  it('drops an answer that arrives with no offer pending', async () => {
+    const connection = new FakePeerConnection();
+    const negotiator = negotiatorFor(connection, true);
+
+    await negotiator.handleDescription({ type: 'answer', sdp: 'stale-answer' });
+    await negotiator.negotiate();
+    await negotiator.handleDescription({ type: 'answer', sdp: 'remote-answer' });
+
+    expect(connection.remoteDescriptions).toEqual([{ type: 'answer', sdp: 'remote-answer' }]);
+    expect(connection.signalingState).toBe('stable');
+  });
+});
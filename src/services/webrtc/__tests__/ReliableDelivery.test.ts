@@ -0,0 +1,50 @@
+import { ReliableDelivery, ReliableEnvelope } from '../ReliableDelivery';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('ReliableDelivery', () => {
+  it('retransmits until the peer acks and resolves with the attempt count', async () => {
+    const sent: ReliableEnvelope[] = [];
+    const delivery = new ReliableDelivery((_, envelope) => {
+      sent.push(envelope as ReliableEnvelope);
+      return true;
+    });
+
+    const receipt = delivery.send('member-1', 'sos', { id: 'sos_1' });
+    jest.advanceTimersByTime(1300);
+    expect(sent).toHaveLength(2);
+    expect(sent[1].id).toBe(sent[0].id);
+
+    delivery.handleAck(sent[0].id, 'member-1');
+    await expect(receipt).resolves.toMatchObject({ peerId: 'member-1', type: 'sos', attempts: 2 });
+    jest.advanceTimersByTime(60000);
+    expect(sent).toHaveLength(2);
+    expect(delivery.getPendingCount()).toBe(0);
+  });
+
+  it('rejects once the attempts run out', async () => {
+    const delivery = new ReliableDelivery(() => false);
+    const receipt = delivery.send('member-1', 'join_response', {}, { maxAttempts: 3 });
+    jest.advanceTimersByTime(60000);
+    await expect(receipt).rejects.toThrow('failed after 3 attempts');
+  });
+
+  it('acks every copy but accepts each id once per peer', () => {
+    const acks: string[] = [];
+    const delivery = new ReliableDelivery((peerId, envelope) => {
+      acks.push(`${peerId}:${envelope.type}`);
+      return true;
+    });
+
+    expect(delivery.receive('member-1', 'msg_1')).toBe(true);
+    expect(delivery.receive('member-1', 'msg_1')).toBe(false);
+    expect(delivery.receive('member-2', 'msg_1')).toBe(true);
+    expect(acks).toEqual(['member-1:delivery_ack', 'member-1:delivery_ack', 'member-2:delivery_ack']);
+  });
+});
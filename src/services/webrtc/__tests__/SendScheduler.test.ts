@@ -0,0 +1,80 @@
+import { ChunkAssembler, MAX_MESSAGE_BYTES, SendScheduler, priorityFor, toFrames } from '../SendScheduler';
+
+// A channel whose buffer only drains when the test says so
+class FakeDataChannel {
+  readyState: RTCDataChannelState = 'open';
+  bufferedAmount = 0;
+  bufferedAmountLowThreshold = 0;
+  sent: string[] = [];
+  private listeners: Array<() => void> = [];
+
+  send(frame: string): void {
+    this.sent.push(frame);
+    this.bufferedAmount += frame.length;
+  }
+
+  addEventListener(_: string, listener: () => void): void {
+    this.listeners.push(listener);
+  }
+
+  removeEventListener(_: string, listener: () => void): void {
+    this.listeners = this.listeners.filter(existing => existing !== listener);
+  }
+
+  drain(): void {
+    this.bufferedAmount = 0;
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const asChannel = (channel: FakeDataChannel) => channel as unknown as RTCDataChannel;
+const typesSent = (channel: FakeDataChannel) => channel.sent.map(frame => JSON.parse(frame).type);
+
+describe('SendScheduler', () => {
+  it('holds frames above the high watermark and sends the highest lane first once drained', () => {
+    const scheduler = new SendScheduler();
+    const channel = new FakeDataChannel();
+    const filler = 'x'.repeat(12 * 1024);
+
+    // Bulk fills the buffer past the watermark, so later sends queue up
+    for (let i = 0; i < 30; i++) {
+      scheduler.send('member-1', asChannel(channel), { type: 'mesh_data', data: filler });
+    }
+    const bulkSent = channel.sent.length;
+    scheduler.send('member-1', asChannel(channel), { type: 'location_update' });
+    scheduler.send('member-1', asChannel(channel), { type: 'sos' });
+    scheduler.send('member-1', asChannel(channel), { type: 'delivery_ack' });
+
+    expect(bulkSent).toBeLessThan(30);
+    expect(scheduler.getStats()[0]).toMatchObject({ paused: true, queued: { control: 1, sos: 1, location: 1 } });
+
+    channel.drain();
+    expect(typesSent(channel).slice(bulkSent, bulkSent + 3)).toEqual(['delivery_ack', 'sos', 'location_update']);
+  });
+
+  it('refuses sends on a channel that is not open', () => {
+    const scheduler = new SendScheduler();
+    const channel = new FakeDataChannel();
+    channel.readyState = 'connecting';
+    expect(scheduler.send('member-1', asChannel(channel), { type: 'sos' })).toBe(false);
+    expect(scheduler.getQueueDepth()).toBe(0);
+  });
+
+  it('chunks oversized messages and reassembles them in any order', () => {
+    const message = JSON.stringify({ type: 'mesh_data', data: { text: 'ü'.repeat(20000) } });
+    const frames = toFrames(message);
+
+    expect(frames.length).toBeGreaterThan(1);
+    frames.forEach(frame => expect(new TextEncoder().encode(frame).length).toBeLessThanOrEqual(MAX_MESSAGE_BYTES));
+
+    const assembler = new ChunkAssembler();
+    const chunks = frames.map(frame => JSON.parse(frame).data).reverse();
+    const results = chunks.map(chunk => assembler.accept('member-1', chunk));
+    expect(results.slice(0, -1).every(result => result === null)).toBe(true);
+    expect(results[results.length - 1]).toBe(message);
+  });
+
+  it('ranks message types into lanes', () => {
+    expect(['signaling', 'sos_ack', 'location_batch', 'mesh_data'].map(priorityFor)).toEqual(['control', 'sos', 'location', 'bulk']);
+  });
+});
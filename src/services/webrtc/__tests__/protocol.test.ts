@@ -0,0 +1,53 @@
+import { parseDataChannelMessage, parseSignalingSocketMessage, protocolStats, PROTOCOL_VERSION } from '../protocol';
+
+beforeEach(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('protocol', () => {
+  it('accepts valid data channel messages and maps the dashed location type', () => {
+    const parsed = parseDataChannelMessage(JSON.stringify({
+      type: 'location-update',
+      data: { latitude: 52.52, longitude: 13.405, accuracy: 5, timestamp: 1, altitude: 34 }
+    }), 'peer');
+
+    expect(parsed.ok).toBe(true);
+    if (parsed.ok === false) return;
+    expect(parsed.message.type).toBe('location_update');
+    expect(parsed.message).toMatchObject({ data: { latitude: 52.52, altitude: 34 } });
+  });
+
+  it('rejects and counts malformed, unknown and too-new messages', () => {
+    const before = protocolStats.getSnapshot().rejected;
+    const reasons = [
+      '{not json',
+      JSON.stringify({ type: 'teleport', data: {} }),
+      JSON.stringify({ type: 'location_update', data: { latitude: 91, longitude: 0 } }),
+      JSON.stringify({ type: 'sos_ack', data: { id: 'sos_1' } }),
+      JSON.stringify({ type: 'location_batch_ack', data: { queueId: 'q', upToSeq: 1 }, v: PROTOCOL_VERSION + 1 })
+    ].map(raw => {
+      const parsed = parseDataChannelMessage(raw, 'peer');
+      return parsed.ok === false ? parsed.rejection.reason : 'accepted';
+    });
+
+    expect(reasons).toEqual(['invalid_json', 'unknown_type', 'invalid_payload', 'invalid_payload', 'unsupported_version']);
+    const after = protocolStats.getSnapshot().rejected;
+    expect(after.invalid_payload - before.invalid_payload).toBe(2);
+    expect(protocolStats.getSnapshot().recent[0]).toMatchObject({ type: 'location_batch_ack', peerId: 'peer' });
+  });
+
+  it('validates signaling socket messages including server replies', () => {
+    expect(parseSignalingSocketMessage(JSON.stringify({ type: 'register_ack', peerId: 'admin-1' })).ok).toBe(true);
+    expect(parseSignalingSocketMessage(JSON.stringify({
+      type: 'ice-candidate',
+      data: { candidate: { candidate: 'candidate:1 1 udp 1 10.0.0.2 5000 typ host', sdpMid: '0', sdpMLineIndex: 0 } },
+      fromPeerId: 'client-1',
+      toPeerId: 'admin-1'
+    })).ok).toBe(true);
+    expect(parseSignalingSocketMessage(JSON.stringify({ type: 'offer', data: {}, fromPeerId: 'x' })).ok).toBe(false);
+  });
+});
@@ -0,0 +1,484 @@
+import { z } from 'zod';
+import type { SharingSchedule, SamplingProfileName } from '@/lib/localDb';
+import type { LocationSharingStatus } from '@/services/location/SharingSchedule';
+import type { LocationBatch, LocationBatchAck } from '@/services/location/OutboundLocationQueue';
+import type { CompactLocationBatch } from '@/services/location/LocationWireFormat';
+import type { LocationPingRequest, LocationPingResponse } from '@/services/location/LocationPing';
+import type { SosAlert, SosAck } from '@/services/sos/SosService';
+import type { LocationData } from './types';
+import type { ChunkPayload } from './SendScheduler';
+import type { MeshPacket, MeshTopologyAdvert } from './MeshRouter';
+
+// Every message between app instances, over data channels and the signaling socket.
+// Bump on breaking changes; messages without `v` are version 1.
+export const PROTOCOL_VERSION = 1;
+
+// Older builds and the mini server used dashes for some types
+const TYPE_ALIASES: Record<string, string> = {
+  'location-update': 'location_update'
+};
+
+// Signaling payloads
+
+// Admin offers sent to one member carry the organization, since the member may not have scanned its QR code
+export interface OfferPayload { sdp: RTCSessionDescriptionInit; organizationId?: string; organizationName?: string; deviceId?: string; }
+// deviceId is the sender's DeviceIDManager ID; it decides who yields when both sides offer at once
+export interface AnswerPayload { sdp: RTCSessionDescriptionInit; deviceId?: string; }
+export interface IceCandidatePayload { candidate: RTCIceCandidateInit; }
+export interface NewOfferPayload { offer: RTCSessionDescriptionInit; deviceId?: string; }
+export interface NewAnswerPayload { answer: RTCSessionDescriptionInit; deviceId?: string; }
+export interface IpChangePayload { newIp: string; }
+export interface JoinRequestPayload { userData: Record<string, unknown>; qrData: Record<string, unknown>; }
+export interface JoinResponsePayload { status: string; reason?: string; }
+// Member-to-member mesh links, negotiated over the signaling socket without the admin
+export interface MeshLinkDescriptionPayload { sdp: RTCSessionDescriptionInit; }
+// The admin's decision on a join request, sent over the member's data channel
+export interface JoinDecisionPayload { status: 'approved' | 'denied'; organizationId?: string; organizationName?: string; }
+
+// Chat between admin and members; memberId names the member a direct conversation is with, null for announcements
+export interface ChatMessagePayload {
+  id: string;
+  organizationId: string;
+  kind: 'direct' | 'announcement';
+  memberId: string | null;
+  senderId: string;
+  text: string;
+  sentAt: number;
+}
+export interface ChatReceiptPayload { ids: string[]; status: 'delivered' | 'read'; }
+
+// strict is off in this project, which makes z.infer turn every field optional;
+// the message types are spelled out here and the schemas below check the same shapes at runtime.
+
+interface SignalingEnvelope<T extends string, D> { type: T; data: D; fromPeerId: string; toPeerId?: string; }
+
+export type SignalingMessage =
+  | SignalingEnvelope<'offer', OfferPayload>
+  | SignalingEnvelope<'answer', AnswerPayload>
+  | SignalingEnvelope<'ice-candidate', IceCandidatePayload>
+  | SignalingEnvelope<'new-offer', NewOfferPayload>
+  | SignalingEnvelope<'new-answer', NewAnswerPayload>
+  | SignalingEnvelope<'ip-change', IpChangePayload>
+  | SignalingEnvelope<'join_request', JoinRequestPayload>
+  | SignalingEnvelope<'join_response', JoinResponsePayload>
+  | SignalingEnvelope<'sos', SosAlert>
+  | SignalingEnvelope<'sos_ack', SosAck>
+  | SignalingEnvelope<'mesh-offer', MeshLinkDescriptionPayload>
+  | SignalingEnvelope<'mesh-answer', MeshLinkDescriptionPayload>
+  | SignalingEnvelope<'mesh-ice-candidate', IceCandidatePayload>;
+
+export type SignalingSocketMessage =
+  | SignalingMessage
+  | { type: 'register_ack'; peerId: string }
+  | { type: 'pong'; timestamp: number }
+  | { type: 'welcome'; clientId: string; serverTime: string }
+  | { type: 'client_disconnected'; clientId: string };
+
+// `id` marks a message sent with reliable delivery; the receiver answers with a delivery_ack
+interface Envelope<T extends string, D> { type: T; data: D; timestamp?: number; v?: number; id?: string; }
+
+export type DataChannelMessage =
+  | Envelope<'location_update', LocationData>
+  | Envelope<'location_request', LocationPingRequest | Record<string, never> | undefined>
+  | Envelope<'location_response', LocationPingResponse>
+  | Envelope<'location_batch', LocationBatch>
+  | Envelope<'location_batch_compact', CompactLocationBatch>
+  | Envelope<'location_batch_ack', LocationBatchAck>
+  | Envelope<'location_protocol', { version: number }>
+  | Envelope<'location_status', LocationSharingStatus>
+  | Envelope<'sampling_profile', { organizationId: string; profile: SamplingProfileName }>
+  | Envelope<'sharing_schedule', { organizationId: string; scope: 'organization' | 'member'; schedule: SharingSchedule | null }>
+  | Envelope<'sos', SosAlert>
+  | Envelope<'sos_ack', SosAck>
+  | Envelope<'signaling', SignalingMessage>
+  | Envelope<'mesh_data', MeshPacket>
+  | Envelope<'mesh_topology', MeshTopologyAdvert>
+  | Envelope<'new-offer', RTCSessionDescriptionInit>
+  | Envelope<'ip-change', { newIP: string }>
+  | Envelope<'join_request', JoinRequestPayload>
+  | Envelope<'cancel_join_request', { userId: string; organizationId: string; adminId?: string; inviteCode?: string }>
+  | Envelope<'join_response', JoinDecisionPayload>
+  | Envelope<'delivery_ack', { id: string }>
+  | Envelope<'chunk', ChunkPayload>
+  | Envelope<'chat_message', ChatMessagePayload>
+  | Envelope<'chat_receipt', ChatReceiptPayload>
+  | { type: 'security' | 'auth' | 'encryption'; v?: number; id?: string; [field: string]: unknown };
+
+export type DataChannelMessageType = DataChannelMessage['type'];
+export type DataChannelMessageOf<T extends DataChannelMessageType> = Extract<DataChannelMessage, { type: T }>;
+
+// Control messages on the file channel; the file contents travel as binary frames beside them
+export interface FileOfferPayload { transferId: string; name: string; mimeType: string; size: number; sha256: string; totalChunks: number; }
+
+export type FileTransferMessage =
+  | Envelope<'file_offer', FileOfferPayload>
+  | Envelope<'file_accept', { transferId: string; nextChunk: number }>
+  | Envelope<'file_complete', { transferId: string }>
+  | Envelope<'file_error', { transferId: string; reason: string }>
+  | Envelope<'file_cancel', { transferId: string }>;
+
+// Payload schemas
+
+const latitude = z.number().min(-90).max(90);
+const longitude = z.number().min(-180).max(180);
+
+// Extra fields like altitude or speed are kept
+const locationFixSchema = z.object({
+  latitude,
+  longitude,
+  accuracy: z.number().nonnegative().optional(),
+  timestamp: z.number().optional()
+}).passthrough();
+
+const sessionDescriptionSchema = z.object({
+  type: z.enum(['offer', 'answer', 'pranswer', 'rollback']),
+  sdp: z.string().optional()
+});
+
+const iceCandidateSchema = z.object({
+  candidate: z.string().optional(),
+  sdpMid: z.string().nullable().optional(),
+  sdpMLineIndex: z.number().nullable().optional(),
+  usernameFragment: z.string().nullable().optional()
+});
+
+const sharingScheduleSchema = z.object({
+  timezone: z.string(),
+  windows: z.array(z.object({
+    days: z.array(z.number().int().min(0).max(6)),
+    start: z.string(),
+    end: z.string()
+  }))
+});
+
+const locationBatchSchema = z.object({
+  queueId: z.string(),
+  userId: z.string(),
+  organizationId: z.string(),
+  points: z.array(z.object({
+    seq: z.number().int(),
+    userId: z.string(),
+    organizationId: z.string(),
+    latitude,
+    longitude,
+    accuracy: z.number().optional(),
+    timestamp: z.number()
+  }))
+});
+
+const compactLocationBatchSchema = z.object({
+  v: z.number().int(),
+  q: z.string(),
+  u: z.string(),
+  o: z.string(),
+  r: z.number().int().nonnegative(),
+  p: z.array(z.array(z.number().int()).min(4).max(5))
+});
+
+const locationBatchAckSchema = z.object({
+  queueId: z.string(),
+  upToSeq: z.number().int(),
+  resync: z.boolean().optional()
+});
+
+const pingFailureReasonSchema = z.enum(['permission_denied', 'timeout', 'not_sharing', 'unavailable', 'not_connected']);
+
+const locationPingRequestSchema = z.object({
+  requestId: z.string(),
+  accuracy: z.enum(['high', 'balanced']),
+  timeoutMs: z.number().positive()
+});
+
+const locationPingResponseSchema = z.object({
+  requestId: z.string(),
+  location: z.object({ latitude, longitude, accuracy: z.number().optional(), timestamp: z.number() }).nullable(),
+  reason: pingFailureReasonSchema.optional()
+});
+
+const locationStatusSchema = z.object({
+  status: z.enum(['sharing', 'not_sharing', 'in_private_zone']),
+  reason: z.literal('outside_schedule').optional(),
+  resumesAt: z.number().nullable().optional()
+});
+
+const sosAlertSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  organizationId: z.string().nullable(),
+  latitude: latitude.nullable(),
+  longitude: longitude.nullable(),
+  accuracy: z.number().optional(),
+  triggeredAt: z.number(),
+  timestamp: z.number(),
+  attempt: z.number().int()
+});
+
+const sosAckSchema = z.object({
+  id: z.string(),
+  acknowledgedBy: z.string(),
+  acknowledgedAt: z.number()
+});
+
+const joinRequestSchema = z.object({
+  userData: z.record(z.unknown()),
+  qrData: z.record(z.unknown())
+});
+
+// Signaling messages, relayed over a data channel or the signaling socket.
+// server/protocol.js checks the same envelopes before forwarding them; change both together.
+
+const signaling = <T extends string, D extends z.ZodTypeAny>(type: T, data: D) => z.object({
+  type: z.literal(type),
+  data,
+  fromPeerId: z.string(),
+  toPeerId: z.string().optional()
+});
+
+export const signalingMessageSchema = z.discriminatedUnion('type', [
+  signaling('offer', z.object({
+    sdp: sessionDescriptionSchema,
+    organizationId: z.string().optional(),
+    organizationName: z.string().optional(),
+    deviceId: z.string().optional()
+  })),
+  signaling('answer', z.object({ sdp: sessionDescriptionSchema, deviceId: z.string().optional() })),
+  signaling('ice-candidate', z.object({ candidate: iceCandidateSchema })),
+  signaling('new-offer', z.object({ offer: sessionDescriptionSchema, deviceId: z.string().optional() })),
+  signaling('new-answer', z.object({ answer: sessionDescriptionSchema, deviceId: z.string().optional() })),
+  signaling('ip-change', z.object({ newIp: z.string() })),
+  signaling('join_request', joinRequestSchema),
+  signaling('join_response', z.object({ status: z.string(), reason: z.string().optional() })),
+  signaling('sos', sosAlertSchema),
+  signaling('sos_ack', sosAckSchema),
+  signaling('mesh-offer', z.object({ sdp: sessionDescriptionSchema })),
+  signaling('mesh-answer', z.object({ sdp: sessionDescriptionSchema })),
+  signaling('mesh-ice-candidate', z.object({ candidate: iceCandidateSchema }))
+]);
+
+// Replies from the signaling server itself
+const signalingServerMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('register_ack'), peerId: z.string() }),
+  z.object({ type: z.literal('pong'), timestamp: z.number() }),
+  z.object({ type: z.literal('welcome'), clientId: z.string(), serverTime: z.string() }),
+  z.object({ type: z.literal('client_disconnected'), clientId: z.string() })
+]);
+
+export const signalingSocketMessageSchema = z.union([signalingMessageSchema, signalingServerMessageSchema]);
+
+// Data channel messages
+
+const message = <T extends string, D extends z.ZodTypeAny>(type: T, data: D) => z.object({
+  type: z.literal(type),
+  data,
+  timestamp: z.number().optional(),
+  v: z.number().int().optional(),
+  id: z.string().optional()
+});
+
+// Handled by SecurityMessageHandler, which reads fields beside `data`
+const securityMessage = <T extends string>(type: T) => z.object({
+  type: z.literal(type),
+  v: z.number().int().optional()
+}).passthrough();
+
+export const dataChannelMessageSchema = z.discriminatedUnion('type', [
+  message('location_update', locationFixSchema),
+  message('location_request', z.union([locationPingRequestSchema, z.object({})]).optional()),
+  message('location_response', locationPingResponseSchema),
+  message('location_batch', locationBatchSchema),
+  message('location_batch_compact', compactLocationBatchSchema),
+  message('location_batch_ack', locationBatchAckSchema),
+  message('location_protocol', z.object({ version: z.number().int().positive() })),
+  message('location_status', locationStatusSchema),
+  message('sampling_profile', z.object({
+    organizationId: z.string(),
+    profile: z.enum(['precise', 'balanced', 'low_power'])
+  })),
+  message('sharing_schedule', z.object({
+    organizationId: z.string(),
+    scope: z.enum(['organization', 'member']),
+    schedule: sharingScheduleSchema.nullable()
+  })),
+  message('sos', sosAlertSchema),
+  message('sos_ack', sosAckSchema),
+  message('signaling', signalingMessageSchema),
+  // A message relayed hop by hop; the inner message is validated again where it is handled
+  message('mesh_data', z.object({
+    id: z.string().min(1),
+    origin: z.string().min(1),
+    destination: z.string().min(1),
+    ttl: z.number().int().min(0).max(32),
+    hops: z.number().int().nonnegative(),
+    path: z.array(z.string()).max(32),
+    payload: z.object({ type: z.string() }).passthrough()
+  })),
+  message('mesh_topology', z.object({
+    peers: z.array(z.string()).max(500),
+    isAdmin: z.boolean()
+  })),
+  message('new-offer', sessionDescriptionSchema),
+  message('ip-change', z.object({ newIP: z.string() })),
+  message('join_request', joinRequestSchema),
+  message('cancel_join_request', z.object({
+    userId: z.string(),
+    organizationId: z.string(),
+    adminId: z.string().optional(),
+    inviteCode: z.string().optional()
+  })),
+  message('join_response', z.object({
+    status: z.enum(['approved', 'denied']),
+    organizationId: z.string().optional(),
+    organizationName: z.string().optional()
+  })),
+  message('delivery_ack', z.object({ id: z.string() })),
+  message('chat_message', z.object({
+    id: z.string().min(1),
+    organizationId: z.string(),
+    kind: z.enum(['direct', 'announcement']),
+    memberId: z.string().nullable(),
+    senderId: z.string(),
+    text: z.string().min(1).max(4000),
+    sentAt: z.number()
+  })),
+  message('chat_receipt', z.object({
+    ids: z.array(z.string()).min(1).max(500),
+    status: z.enum(['delivered', 'read'])
+  })),
+  // One slice of a message too large for a single data channel send
+  message('chunk', z.object({
+    id: z.string(),
+    index: z.number().int().nonnegative(),
+    total: z.number().int().positive(),
+    payload: z.string()
+  })),
+  securityMessage('security'),
+  securityMessage('auth'),
+  securityMessage('encryption')
+]);
+
+const transferId = z.string().min(1).max(64);
+
+export const fileTransferMessageSchema = z.discriminatedUnion('type', [
+  message('file_offer', z.object({
+    transferId,
+    name: z.string().min(1).max(255),
+    mimeType: z.string().max(255),
+    size: z.number().int().nonnegative(),
+    sha256: z.string().regex(/^[0-9a-f]{64}$/),
+    totalChunks: z.number().int().nonnegative()
+  })),
+  message('file_accept', z.object({ transferId, nextChunk: z.number().int().nonnegative() })),
+  message('file_complete', z.object({ transferId })),
+  message('file_error', z.object({ transferId, reason: z.string() })),
+  message('file_cancel', z.object({ transferId }))
+]);
+
+// Parsing
+
+export type ProtocolIngress = 'data_channel' | 'signaling_socket' | 'file_channel';
+export type ProtocolRejectReason = 'invalid_json' | 'unknown_type' | 'unsupported_version' | 'invalid_payload';
+
+export interface ProtocolRejection {
+  ingress: ProtocolIngress;
+  reason: ProtocolRejectReason;
+  type?: string;
+  peerId?: string;
+  // First validation issue, for diagnostics
+  detail?: string;
+  at: number;
+}
+
+export type ProtocolParseResult<T> = { ok: true; message: T } | { ok: false; rejection: ProtocolRejection };
+
+const MAX_RECENT_REJECTIONS = 20;
+
+export interface ProtocolStatsSnapshot {
+  accepted: Record<ProtocolIngress, number>;
+  rejected: Record<ProtocolRejectReason, number>;
+  recent: ProtocolRejection[];
+}
+
+// Counts what each ingress point let through or turned away
+export class ProtocolStats {
+  private accepted: Record<ProtocolIngress, number> = { data_channel: 0, signaling_socket: 0, file_channel: 0 };
+  private rejected: Record<ProtocolRejectReason, number> = { invalid_json: 0, unknown_type: 0, unsupported_version: 0, invalid_payload: 0 };
+  private recent: ProtocolRejection[] = [];
+
+  recordAccepted(ingress: ProtocolIngress): void {
+    this.accepted[ingress]++;
+  }
+
+  recordRejected(rejection: ProtocolRejection): void {
+    this.rejected[rejection.reason]++;
+    this.recent = [rejection, ...this.recent].slice(0, MAX_RECENT_REJECTIONS);
+    console.warn(`Protocol: rejected ${rejection.type || 'message'} from ${rejection.peerId || rejection.ingress}: ${rejection.reason}`, rejection.detail || '');
+  }
+
+  getSnapshot(): ProtocolStatsSnapshot {
+    return { accepted: { ...this.accepted }, rejected: { ...this.rejected }, recent: [...this.recent] };
+  }
+
+  getRejectedCount(): number {
+    return Object.values(this.rejected).reduce((sum, count) => sum + count, 0);
+  }
+}
+
+export const protocolStats = new ProtocolStats();
+
+const knownDataChannelTypes = new Set(dataChannelMessageSchema.options.map(option => option.shape.type.value as string));
+const knownFileTransferTypes = new Set(fileTransferMessageSchema.options.map(option => option.shape.type.value as string));
+const knownSignalingTypes = new Set<string>([
+  ...signalingMessageSchema.options.map(option => option.shape.type.value as string),
+  ...signalingServerMessageSchema.options.map(option => option.shape.type.value as string)
+]);
+
+function parseWith<T>(
+  raw: unknown,
+  schema: z.ZodTypeAny,
+  knownTypes: Set<string>,
+  ingress: ProtocolIngress,
+  peerId?: string
+): ProtocolParseResult<T> {
+  const reject = (reason: ProtocolRejectReason, type?: string, detail?: string): ProtocolParseResult<T> => {
+    const rejection: ProtocolRejection = { ingress, reason, type, peerId, detail, at: Date.now() };
+    protocolStats.recordRejected(rejection);
+    return { ok: false, rejection };
+  };
+
+  let value: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return reject('invalid_json');
+    }
+  }
+  if (!value || typeof value !== 'object' || typeof (value as { type?: unknown }).type !== 'string') {
+    return reject('invalid_payload', undefined, 'missing message type');
+  }
+
+  const envelope = value as { type: string; v?: unknown };
+  const type = TYPE_ALIASES[envelope.type] || envelope.type;
+  if (!knownTypes.has(type)) return reject('unknown_type', envelope.type);
+  if (typeof envelope.v === 'number' && envelope.v > PROTOCOL_VERSION) return reject('unsupported_version', type, `v${envelope.v}`);
+
+  const result = schema.safeParse({ ...envelope, type });
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return reject('invalid_payload', type, issue ? `${issue.path.join('.')}: ${issue.message}` : undefined);
+  }
+  protocolStats.recordAccepted(ingress);
+  return { ok: true, message: result.data as T };
+}
+
+export function parseDataChannelMessage(raw: unknown, peerId?: string): ProtocolParseResult<DataChannelMessage> {
+  return parseWith(raw, dataChannelMessageSchema, knownDataChannelTypes, 'data_channel', peerId);
+}
+
+export function parseSignalingSocketMessage(raw: unknown): ProtocolParseResult<SignalingSocketMessage> {
+  return parseWith(raw, signalingSocketMessageSchema, knownSignalingTypes, 'signaling_socket');
+}
+
+export function parseFileTransferMessage(raw: unknown, peerId?: string): ProtocolParseResult<FileTransferMessage> {
+  return parseWith(raw, fileTransferMessageSchema, knownFileTransferTypes, 'file_channel', peerId);
+}
@@ -7,6 +7,8 @@ export interface WebRTCServerOffer {
   organizationName: string;
   timestamp: number;
   serverIp: string;
+  // Admin's DeviceIDManager ID, for the negotiation role
+  deviceId?: string;
 }
 
 export interface PeerConnection {
@@ -19,6 +21,26 @@ export interface PeerConnection {
   dataChannel?: RTCDataChannel;
 }
 
+// What the data channel layer needs from a peer registry, either PeerManager or ConnectionManager
+export interface PeerRegistry {
+  getPeer(peerId: string): PeerConnection | undefined;
+  updatePeerStatus(peerId: string, status: PeerConnection['status']): void;
+  updatePeerLastSeen(peerId: string): void;
+  setPeerDataChannel(peerId: string, dataChannel: RTCDataChannel): void;
+}
+
+export interface PeerConnectionStats {
+  peerId: string;
+  connectionState: RTCPeerConnectionState;
+  iceConnectionState: RTCIceConnectionState;
+  bytesSent: number;
+  bytesReceived: number;
+  roundTripTimeMs?: number;
+  localCandidateType?: string;
+  remoteCandidateType?: string;
+  timestamp: number;
+}
+
 export interface WebRTCMessage {
   type: string;
   data: any;
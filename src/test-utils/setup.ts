@@ -2,6 +2,10 @@
 import '@testing-library/jest-dom';
 import { setupServer } from 'msw/node';
 import { http, HttpResponse } from 'msw';
+import { TextEncoder, TextDecoder } from 'util';
+
+// jsdom has no TextEncoder; message framing and hashing need it
+Object.assign(global, { TextEncoder, TextDecoder });
 
 // Mock Supabase client
 export const mockSupabase = {
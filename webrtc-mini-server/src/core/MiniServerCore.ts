@@ -1,5 +1,6 @@
 
 import { BrowserEventEmitter } from '../utils/BrowserEventEmitter';
+import { parseClientMessage, ClientMessageRejectReason } from '../types/ClientMessages';
 
 export interface ClientConnection {
   id: string;
@@ -24,6 +25,8 @@ export class MiniServerCore extends BrowserEventEmitter {
   private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
   private config: MiniServerConfig;
   private isActive = false;
+  // Client messages that were malformed or of an unknown type, by reason
+  private rejectedMessages: Record<ClientMessageRejectReason, number> = { invalid_json: 0, unknown_type: 0, invalid_payload: 0 };
 
   constructor(config: MiniServerConfig) {
     super();
@@ -112,20 +115,28 @@ export class MiniServerCore extends BrowserEventEmitter {
 
   private handleClientMessage(clientId: string, data: any): void {
     try {
-      const message = typeof data === 'string' ? JSON.parse(data) : data;
       const client = this.clients.get(clientId);
       
       if (!client) return;
       
       // Update last seen
       client.lastSeen = Date.now();
+
+      // Nothing is handled or forwarded before it matches the schema
+      const parsed = parseClientMessage(data);
+      if (parsed.ok === false) {
+        this.rejectMessage(clientId, parsed.reason, parsed.type, parsed.detail);
+        return;
+      }
+      const message = parsed.message;
       
       switch (message.type) {
         case 'heartbeat':
           this.handleHeartbeat(clientId);
           break;
           
-        case 'location-update':
+        // Older builds' dashed form is renamed by the parser
+        case 'location_update':
           this.handleLocationUpdate(clientId, message.data);
           break;
           
@@ -136,15 +147,18 @@ export class MiniServerCore extends BrowserEventEmitter {
         case 'request-client-list':
           this.sendClientList(clientId);
           break;
-          
-        default:
-          console.warn(`Unknown message type from ${clientId}:`, message.type);
       }
     } catch (error) {
       console.error(`Error handling message from ${clientId}:`, error);
     }
   }
 
+  private rejectMessage(clientId: string, reason: ClientMessageRejectReason, type?: string, detail?: string): void {
+    this.rejectedMessages[reason]++;
+    console.warn(`Rejected ${type || 'message'} from ${clientId}: ${reason}`, detail || '');
+    this.emit('message-rejected', { clientId, reason, type });
+  }
+
   private handleHeartbeat(clientId: string): void {
     const client = this.clients.get(clientId);
     if (client && client.ws && client.ws.readyState === 1) { // WebSocket.OPEN equivalent
@@ -158,7 +172,8 @@ export class MiniServerCore extends BrowserEventEmitter {
   private handleLocationUpdate(clientId: string, locationData: any): void {
     console.log(`Location update from ${clientId}:`, locationData);
     
-    // Broadcast location to other connected clients (admins)
+    // Broadcast location to other connected clients (admins). Deployed clients
+    // listen for the dashed type, so only inbound messages use the new name
     this.broadcast({
       type: 'location-update',
       data: {
@@ -229,6 +244,11 @@ export class MiniServerCore extends BrowserEventEmitter {
     });
   }
 
+  // Messages the host app hands over for every connected client
+  relay(message: { type: string; data?: unknown; timestamp?: number }): void {
+    this.broadcast(message);
+  }
+
   private broadcast(message: any, exclude: string[] = []): void {
     const messageStr = JSON.stringify(message);
     
@@ -274,6 +294,14 @@ export class MiniServerCore extends BrowserEventEmitter {
     return this.clients.size;
   }
 
+  getRejectedMessageCount(): number {
+    return Object.values(this.rejectedMessages).reduce((sum, count) => sum + count, 0);
+  }
+
+  getRejectedMessages(): Record<ClientMessageRejectReason, number> {
+    return { ...this.rejectedMessages };
+  }
+
   isRunning(): boolean {
     return this.isActive;
   }
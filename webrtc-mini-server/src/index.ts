@@ -141,6 +141,12 @@ export class WebRTCMiniServer {
       window.dispatchEvent(windowEvent);
     });
 
+    // The app's MiniServerBridge relays urgent messages (e.g. SOS) to every client
+    window.addEventListener('mini-server-broadcast', ((event: CustomEvent<{ type: string; data?: unknown; timestamp?: number }>) => {
+      if (!event.detail?.type || !this.serverRunning) return;
+      miniServer.relay(event.detail);
+    }) as EventListener);
+
     // Listen for external admin election triggers
     window.addEventListener('webrtc-trigger-admin-election', () => {
       console.log('MiniServer: External admin election trigger received');
@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+// Messages clients send to the mini server. Location fixes follow locationFixSchema
+// in the app's src/services/webrtc/protocol.ts; change both together.
+
+// Older app builds used dashes for some types
+const TYPE_ALIASES: Record<string, string> = {
+  'location-update': 'location_update'
+};
+
+export const locationFixSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().nonnegative().optional(),
+  timestamp: z.number().optional()
+}).passthrough();
+
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('heartbeat') }),
+  z.object({ type: z.literal('location_update'), data: locationFixSchema }),
+  // Forwarded as is to targetId, or to every other client for 'broadcast'
+  z.object({
+    type: z.literal('peer-message'),
+    data: z.object({
+      targetId: z.string().min(1),
+      message: z.object({ type: z.string() }).passthrough()
+    })
+  }),
+  z.object({ type: z.literal('request-client-list') })
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+export type ClientMessageRejectReason = 'invalid_json' | 'unknown_type' | 'invalid_payload';
+
+export type ClientMessageParseResult =
+  | { ok: true; message: ClientMessage }
+  | { ok: false; reason: ClientMessageRejectReason; type?: string; detail?: string };
+
+const knownTypes = new Set<string>(clientMessageSchema.options.map(option => option.shape.type.value));
+
+// Accepts the raw socket data or an already decoded object
+export function parseClientMessage(data: unknown): ClientMessageParseResult {
+  let message: unknown;
+  try {
+    message = typeof data === 'string' ? JSON.parse(data) : data;
+  } catch {
+    return { ok: false, reason: 'invalid_json' };
+  }
+  if (!message || typeof (message as { type?: unknown }).type !== 'string') {
+    return { ok: false, reason: 'invalid_payload' };
+  }
+
+  const rawType = (message as { type: string }).type;
+  const type = TYPE_ALIASES[rawType] || rawType;
+  if (!knownTypes.has(type)) {
+    return { ok: false, reason: 'unknown_type', type };
+  }
+
+  const result = clientMessageSchema.safeParse({ ...(message as object), type });
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { ok: false, reason: 'invalid_payload', type, detail: issue && `${issue.path.join('.')}: ${issue.message}` };
+  }
+  return { ok: true, message: result.data };
+}